@@ -5,8 +5,30 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import ChatPage from "@/pages/chat";
+import LoginPage from "@/pages/login";
+import PublishedDashboardsPage from "@/pages/published-dashboards";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { Loader2 } from "lucide-react";
 
 function Router() {
+  const { user, isLoading, can } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+  // Every page needs a signed-in user
+  if (!user) {
+    return <LoginPage />;
+  }
+  // Viewers have no chat; they only get the published dashboards
+  if (!can('chat.use')) {
+    return <PublishedDashboardsPage />;
+  }
+
   return (
     <Switch>
       <Route path="/" component={ChatPage} />
@@ -19,10 +41,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -11,7 +11,9 @@ import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
 import { Settings, Code, Brain, MessageSquare, Plus, Trash2, Edit, Save, X } from 'lucide-react';
+import type { SqlPolicyMode } from '@shared/schema';
 
 interface FunctionTool {
   name: string;
@@ -36,6 +38,31 @@ interface AgentPrompt {
   enabled: boolean;
 }
 
+type LLMProviderType = 'openai' | 'azure' | 'anthropic' | 'openai-compatible';
+
+interface AgentLLMSettings {
+  provider: LLMProviderType;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  baseUrl?: string;
+}
+
+// 'inherit' leaves the decision to the connection (and the server default)
+const SQL_POLICIES: { value: SqlPolicyMode | 'inherit'; label: string }[] = [
+  { value: 'inherit', label: 'Use connection policy' },
+  { value: 'read_only', label: 'Read-only' },
+  { value: 'confirm', label: 'Confirm writes' },
+  { value: 'allow', label: 'Allow all statements' }
+];
+
+const LLM_PROVIDERS: { value: LLMProviderType; label: string }[] = [
+  { value: 'openai', label: 'OpenAI' },
+  { value: 'azure', label: 'Azure OpenAI' },
+  { value: 'anthropic', label: 'Anthropic' },
+  { value: 'openai-compatible', label: 'Self-hosted (OpenAI-compatible)' }
+];
+
 interface AgentConfig {
   id: string;
   name: string;
@@ -46,30 +73,32 @@ interface AgentConfig {
   prompts: string[];
   prompt?: string; // Single linked prompt for the agent
   mentions: string[];
+  llm?: AgentLLMSettings;
+  sqlPolicy?: SqlPolicyMode; // combined with the connection's policy, the stricter one wins
   context: {
     maxHistory: number;
+    maxIterations?: number;
+    historyTokens?: number; // token budget for earlier turns; older ones are summarized
     retainSession: boolean;
     autoExecute: boolean;
   };
 }
 
-interface AgentHubSettingsProps {
-  userId: string;
-}
-
-export function AgentHubSettings({ userId }: AgentHubSettingsProps) {
+export function AgentHubSettings() {
   const [activeTab, setActiveTab] = useState<'tools' | 'prompts' | 'agents' | 'mentions'>('tools');
 
   // Load saved configuration
   const { data: savedConfig, isLoading } = useQuery({
-    queryKey: ['/api/agent-config', userId],
-    enabled: !!userId
+    queryKey: ['/api/agent-config']
   });
   const [editingTool, setEditingTool] = useState<string | null>(null);
   const [editingPrompt, setEditingPrompt] = useState<string | null>(null);
   const [editingAgent, setEditingAgent] = useState<string | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  // Prompts and agent settings are shared configuration; only modelers and admins may change them
+  const { can } = useAuth();
+  const canEdit = can('models.edit');
 
   // Complete function ecosystem based on CLI structure
   const [functionTools, setFunctionTools] = useState<FunctionTool[]>([
@@ -84,6 +113,15 @@ export function AgentHubSettings({ userId }: AgentHubSettingsProps) {
         database: { type: 'string', description: 'Default database name', required: false }
       }
     },
+    {
+      name: 'connect_to_data_source',
+      description: 'Connect to a saved Snowflake, PostgreSQL, MySQL or DuckDB connection',
+      category: 'connection',
+      enabled: true,
+      parameters: {
+        connection_name: { type: 'string', description: 'Saved connection name (defaults to the default connection)', required: false }
+      }
+    },
     {
       name: 'get_current_context',
       description: 'Get current agent context and connection state',
@@ -232,15 +270,28 @@ export function AgentHubSettings({ userId }: AgentHubSettingsProps) {
       }
     },
     {
-      name: 'upload_to_stage',
-      description: 'Upload files to Snowflake stage',
+      name: 'put_file_to_stage',
+      description: 'Upload a file attached to the chat into a stage',
       category: 'stage',
       enabled: false,
       parameters: {
-        local_file: { type: 'string', description: 'Local file path', required: true },
+        file_name: { type: 'string', description: 'Uploaded file name', required: true },
+        stage_name: { type: 'string', description: 'Stage to upload to (optional)', required: false },
         stage_path: { type: 'string', description: 'Stage destination path', required: false }
       }
     },
+    {
+      name: 'load_stage_file_to_table',
+      description: 'Infer a table from a stage file and load it with COPY INTO after confirmation',
+      category: 'stage',
+      enabled: false,
+      parameters: {
+        file_name: { type: 'string', description: 'File path in the stage', required: true },
+        table_name: { type: 'string', description: 'Table to load into', required: true },
+        stage_name: { type: 'string', description: 'Stage holding the file (optional)', required: false },
+        append: { type: 'boolean', description: 'Load into an existing table', required: false }
+      }
+    },
     
     // Dictionary Functions
     {
@@ -407,15 +458,17 @@ export function AgentHubSettings({ userId }: AgentHubSettingsProps) {
       description: 'Natural language to SQL query processing with Snowflake integration',
       enabled: true,
       tools: [
-        'connect_to_snowflake', 'get_current_context', 'get_databases', 'select_database', 
+        'connect_to_snowflake', 'connect_to_data_source', 'get_current_context', 'get_databases', 'select_database', 
         'get_schemas', 'select_schema', 'get_tables', 'describe_table', 'get_table_metadata',
         'get_column_profile', 'generate_sql', 'execute_sql', 'explain_query', 'optimize_query',
         'generate_summary', 'detect_anomalies', 'correlation_analysis', 'time_series_analysis'
       ],
       prompts: ['query-system'],
       mentions: ['@query', '@sql', '@data', '@analyze'],
+      llm: { provider: 'openai', model: 'gpt-4o', temperature: 0.1 },
       context: {
         maxHistory: 10,
+        maxIterations: 6,
         retainSession: true,
         autoExecute: true
       }
@@ -434,8 +487,10 @@ export function AgentHubSettings({ userId }: AgentHubSettingsProps) {
       ],
       prompts: ['ontology-system'],
       mentions: ['@ontology', '@yaml', '@model', '@semantic', '@dictionary'],
+      llm: { provider: 'openai', model: 'gpt-4o', temperature: 0.1 },
       context: {
         maxHistory: 15,
+        maxIterations: 6,
         retainSession: true,
         autoExecute: false
       }
@@ -447,14 +502,16 @@ export function AgentHubSettings({ userId }: AgentHubSettingsProps) {
       description: 'Interactive dashboard and visualization creation and management',
       enabled: true,
       tools: [
-        'connect_to_snowflake', 'get_current_context', 'execute_sql', 'visualize_data',
+        'connect_to_snowflake', 'connect_to_data_source', 'get_current_context', 'execute_sql', 'visualize_data',
         'get_visualization_suggestions', 'create_dashboard', 'export_visualization',
         'generate_summary'
       ],
       prompts: ['dashboard-system'],
       mentions: ['@dashboard', '@chart', '@visualize', '@plot'],
+      llm: { provider: 'openai', model: 'gpt-4o', temperature: 0.1 },
       context: {
         maxHistory: 8,
+        maxIterations: 6,
         retainSession: true,
         autoExecute: true
       }
@@ -466,13 +523,15 @@ export function AgentHubSettings({ userId }: AgentHubSettingsProps) {
       description: 'General conversational AI for platform navigation and guidance',
       enabled: true,
       tools: [
-        'get_current_context', 'connect_to_snowflake', 'get_databases', 'get_schemas',
+        'get_current_context', 'connect_to_snowflake', 'connect_to_data_source', 'get_databases', 'get_schemas',
         'get_tables', 'generate_summary'
       ],
       prompts: ['general-system'],
       mentions: ['@help', '@assistant', '@general'],
+      llm: { provider: 'openai', model: 'gpt-4o', temperature: 0.1 },
       context: {
         maxHistory: 5,
+        maxIterations: 3,
         retainSession: false,
         autoExecute: false
       }
@@ -509,7 +568,7 @@ export function AgentHubSettings({ userId }: AgentHubSettingsProps) {
     mutationFn: async (config: { functionTools: FunctionTool[], agentPrompts: AgentPrompt[], agentConfigs: AgentConfig[] }) => {
       console.log('Saving configuration:', config);
       console.log('Agent configs in detail:', JSON.stringify(config.agentConfigs, null, 2));
-      const response = await apiRequest('PUT', `/api/agent-config/${userId}`, config);
+      const response = await apiRequest('PUT', '/api/agent-config', config);
       console.log('Save response:', response);
       return response.json();
     },
@@ -530,7 +589,23 @@ export function AgentHubSettings({ userId }: AgentHubSettingsProps) {
     }
   });
 
+  const updateAgentLLM = (agentId: string, update: Partial<AgentLLMSettings>) => {
+    setAgentConfigs(prev =>
+      prev.map(a =>
+        a.id === agentId
+          ? {
+              ...a,
+              llm: { provider: 'openai', model: 'gpt-4o', ...a.llm, ...update }
+            }
+          : a
+      )
+    );
+  };
+
   const saveConfiguration = () => {
+    if (!canEdit) {
+      return;
+    }
     saveConfigMutation.mutate({
       functionTools,
       agentPrompts,
@@ -578,6 +653,11 @@ export function AgentHubSettings({ userId }: AgentHubSettingsProps) {
           <Settings className="h-5 w-5" />
           <h2 className="text-sm font-semibold">Agent Hub Configuration</h2>
         </div>
+        {!canEdit && (
+          <p className="text-xs text-muted-foreground">
+            Read-only: your role cannot change prompts or agent settings. Ask a modeler or admin.
+          </p>
+        )}
         
 
       </div>
@@ -797,144 +877,288 @@ export function AgentHubSettings({ userId }: AgentHubSettingsProps) {
                         <p className="text-caption">{agent.description}</p>
 
                         {editingAgent === agent.id ? (
-                          <div className="grid grid-cols-3 gap-4">
-                            <div>
-                              <Label>Assigned Tools ({agent.tools.length})</Label>
-                              <div className="mt-2 space-y-2 max-h-32 overflow-y-auto">
-                                {functionTools.map((tool) => (
-                                  <div key={tool.name} className="flex items-center space-x-2">
+                          <div className="space-y-4">
+                            <div className="grid grid-cols-3 gap-4">
+                              <div>
+                                <Label>Assigned Tools ({agent.tools.length})</Label>
+                                <div className="mt-2 space-y-2 max-h-32 overflow-y-auto">
+                                  {functionTools.map((tool) => (
+                                    <div key={tool.name} className="flex items-center space-x-2">
+                                      <Switch
+                                        checked={agent.tools.includes(tool.name)}
+                                        onCheckedChange={(checked) => {
+                                          setAgentConfigs(prev =>
+                                            prev.map(a =>
+                                              a.id === agent.id
+                                                ? {
+                                                    ...a,
+                                                    tools: checked
+                                                      ? [...a.tools, tool.name]
+                                                      : a.tools.filter(t => t !== tool.name)
+                                                  }
+                                                : a
+                                            )
+                                          );
+                                        }}
+                                      />
+                                      <span className="text-sm">{tool.name}</span>
+                                    </div>
+                                  ))}
+                                </div>
+                              </div>
+                              <div>
+                                <Label>@Mention</Label>
+                                <div className="mt-2 space-y-3">
+                                  <div>
+                                    <Label className="text-xs">Primary Mention</Label>
+                                    <Input
+                                      value={agent.mentions[0] || ''}
+                                      placeholder="@agent"
+                                      className="h-8"
+                                      onChange={(e) => {
+                                        setAgentConfigs(prev =>
+                                          prev.map(a =>
+                                            a.id === agent.id
+                                              ? {
+                                                  ...a,
+                                                  mentions: [e.target.value]
+                                                }
+                                              : a
+                                          )
+                                        );
+                                      }}
+                                    />
+                                  </div>
+                                  <div>
+                                    <Label className="text-xs">Linked Prompt</Label>
+                                    <Select
+                                      value={agent.prompt || ''}
+                                      onValueChange={(value) => {
+                                        setAgentConfigs(prev =>
+                                          prev.map(a =>
+                                            a.id === agent.id
+                                              ? { ...a, prompt: value }
+                                              : a
+                                          )
+                                        );
+                                      }}
+                                    >
+                                      <SelectTrigger className="h-8">
+                                        <SelectValue placeholder="Select prompt" />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {agentPrompts.map((prompt) => (
+                                          <SelectItem key={prompt.id} value={prompt.id}>
+                                            {prompt.name}
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
+                                </div>
+                              </div>
+                              <div>
+                                <Label>Context Settings</Label>
+                                <div className="mt-2 space-y-3">
+                                  <div>
+                                    <Label className="text-xs">Max History</Label>
+                                    <Input
+                                      type="number"
+                                      value={agent.context.maxHistory}
+                                      className="h-8"
+                                      onChange={(e) => {
+                                        setAgentConfigs(prev =>
+                                          prev.map(a =>
+                                            a.id === agent.id
+                                              ? {
+                                                  ...a,
+                                                  context: { ...a.context, maxHistory: parseInt(e.target.value) }
+                                                }
+                                              : a
+                                          )
+                                        );
+                                      }}
+                                    />
+                                  </div>
+                                  <div>
+                                    <Label className="text-xs">Max Tool Steps</Label>
+                                    <Input
+                                      type="number"
+                                      min={1}
+                                      value={agent.context.maxIterations ?? 6}
+                                      className="h-8"
+                                      onChange={(e) => {
+                                        setAgentConfigs(prev =>
+                                          prev.map(a =>
+                                            a.id === agent.id
+                                              ? {
+                                                  ...a,
+                                                  context: { ...a.context, maxIterations: parseInt(e.target.value) }
+                                                }
+                                              : a
+                                          )
+                                        );
+                                      }}
+                                    />
+                                  </div>
+                                  <div>
+                                    <Label className="text-xs">History Tokens</Label>
+                                    <Input
+                                      type="number"
+                                      min={500}
+                                      step={500}
+                                      value={agent.context.historyTokens ?? 6000}
+                                      className="h-8"
+                                      onChange={(e) => {
+                                        setAgentConfigs(prev =>
+                                          prev.map(a =>
+                                            a.id === agent.id
+                                              ? {
+                                                  ...a,
+                                                  context: { ...a.context, historyTokens: parseInt(e.target.value) }
+                                                }
+                                              : a
+                                          )
+                                        );
+                                      }}
+                                    />
+                                  </div>
+                                  <div className="flex items-center space-x-2">
                                     <Switch
-                                      checked={agent.tools.includes(tool.name)}
+                                      checked={agent.context.retainSession}
                                       onCheckedChange={(checked) => {
                                         setAgentConfigs(prev =>
                                           prev.map(a =>
                                             a.id === agent.id
                                               ? {
                                                   ...a,
-                                                  tools: checked
-                                                    ? [...a.tools, tool.name]
-                                                    : a.tools.filter(t => t !== tool.name)
+                                                  context: { ...a.context, retainSession: checked }
                                                 }
                                               : a
                                           )
                                         );
                                       }}
                                     />
-                                    <span className="text-sm">{tool.name}</span>
+                                    <Label className="text-xs">Retain Session</Label>
                                   </div>
-                                ))}
+                                  <div className="flex items-center space-x-2">
+                                    <Switch
+                                      checked={agent.context.autoExecute}
+                                      onCheckedChange={(checked) => {
+                                        setAgentConfigs(prev =>
+                                          prev.map(a =>
+                                            a.id === agent.id
+                                              ? {
+                                                  ...a,
+                                                  context: { ...a.context, autoExecute: checked }
+                                                }
+                                              : a
+                                          )
+                                        );
+                                      }}
+                                    />
+                                    <Label className="text-xs">Auto Execute</Label>
+                                  </div>
+                                </div>
                               </div>
                             </div>
                             <div>
-                              <Label>@Mention</Label>
-                              <div className="mt-2 space-y-3">
-                                <div>
-                                  <Label className="text-xs">Primary Mention</Label>
-                                  <Input
-                                    value={agent.mentions[0] || ''}
-                                    placeholder="@agent"
-                                    className="h-8"
-                                    onChange={(e) => {
-                                      setAgentConfigs(prev =>
-                                        prev.map(a =>
-                                          a.id === agent.id
-                                            ? {
-                                                ...a,
-                                                mentions: [e.target.value]
-                                              }
-                                            : a
-                                        )
-                                      );
-                                    }}
-                                  />
-                                </div>
+                              <Label>Model</Label>
+                              <div className="mt-2 grid grid-cols-5 gap-3">
                                 <div>
-                                  <Label className="text-xs">Linked Prompt</Label>
+                                  <Label className="text-xs">Provider</Label>
                                   <Select
-                                    value={agent.prompt || ''}
-                                    onValueChange={(value) => {
-                                      setAgentConfigs(prev =>
-                                        prev.map(a =>
-                                          a.id === agent.id
-                                            ? { ...a, prompt: value }
-                                            : a
-                                        )
-                                      );
-                                    }}
+                                    value={agent.llm?.provider || 'openai'}
+                                    onValueChange={(value) => updateAgentLLM(agent.id, { provider: value as LLMProviderType })}
                                   >
                                     <SelectTrigger className="h-8">
-                                      <SelectValue placeholder="Select prompt" />
+                                      <SelectValue />
                                     </SelectTrigger>
                                     <SelectContent>
-                                      {agentPrompts.map((prompt) => (
-                                        <SelectItem key={prompt.id} value={prompt.id}>
-                                          {prompt.name}
+                                      {LLM_PROVIDERS.map((provider) => (
+                                        <SelectItem key={provider.value} value={provider.value}>
+                                          {provider.label}
                                         </SelectItem>
                                       ))}
                                     </SelectContent>
                                   </Select>
                                 </div>
-                              </div>
-                            </div>
-                            <div>
-                              <Label>Context Settings</Label>
-                              <div className="mt-2 space-y-3">
                                 <div>
-                                  <Label className="text-xs">Max History</Label>
+                                  <Label className="text-xs">Model</Label>
+                                  <Input
+                                    value={agent.llm?.model || ''}
+                                    placeholder="gpt-4o"
+                                    className="h-8"
+                                    onChange={(e) => updateAgentLLM(agent.id, { model: e.target.value })}
+                                  />
+                                </div>
+                                <div>
+                                  <Label className="text-xs">Temperature</Label>
                                   <Input
                                     type="number"
-                                    value={agent.context.maxHistory}
+                                    min={0}
+                                    max={2}
+                                    step={0.1}
+                                    value={agent.llm?.temperature ?? ''}
+                                    placeholder="0.1"
                                     className="h-8"
-                                    onChange={(e) => {
-                                      setAgentConfigs(prev =>
-                                        prev.map(a =>
-                                          a.id === agent.id
-                                            ? {
-                                                ...a,
-                                                context: { ...a.context, maxHistory: parseInt(e.target.value) }
-                                              }
-                                            : a
-                                        )
-                                      );
-                                    }}
+                                    onChange={(e) => updateAgentLLM(agent.id, { temperature: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
                                   />
                                 </div>
-                                <div className="flex items-center space-x-2">
-                                  <Switch
-                                    checked={agent.context.retainSession}
-                                    onCheckedChange={(checked) => {
-                                      setAgentConfigs(prev =>
-                                        prev.map(a =>
-                                          a.id === agent.id
-                                            ? {
-                                                ...a,
-                                                context: { ...a.context, retainSession: checked }
-                                              }
-                                            : a
-                                        )
-                                      );
-                                    }}
+                                <div>
+                                  <Label className="text-xs">Max Tokens</Label>
+                                  <Input
+                                    type="number"
+                                    min={1}
+                                    value={agent.llm?.maxTokens ?? ''}
+                                    placeholder="Provider default"
+                                    className="h-8"
+                                    onChange={(e) => updateAgentLLM(agent.id, { maxTokens: e.target.value === '' ? undefined : parseInt(e.target.value) })}
+                                  />
+                                </div>
+                                <div>
+                                  <Label className="text-xs">Base URL</Label>
+                                  <Input
+                                    value={agent.llm?.baseUrl || ''}
+                                    placeholder={agent.llm?.provider === 'azure' ? 'https://<resource>.openai.azure.com' : 'http://localhost:11434/v1'}
+                                    disabled={agent.llm?.provider !== 'azure' && agent.llm?.provider !== 'openai-compatible'}
+                                    className="h-8"
+                                    onChange={(e) => updateAgentLLM(agent.id, { baseUrl: e.target.value })}
                                   />
-                                  <Label className="text-xs">Retain Session</Label>
                                 </div>
-                                <div className="flex items-center space-x-2">
-                                  <Switch
-                                    checked={agent.context.autoExecute}
-                                    onCheckedChange={(checked) => {
+                              </div>
+                            </div>
+                            <div>
+                              <Label>SQL Policy</Label>
+                              <div className="mt-2 grid grid-cols-5 gap-3">
+                                <div className="col-span-2">
+                                  <Select
+                                    value={agent.sqlPolicy || 'inherit'}
+                                    onValueChange={(value) => {
                                       setAgentConfigs(prev =>
                                         prev.map(a =>
                                           a.id === agent.id
-                                            ? {
-                                                ...a,
-                                                context: { ...a.context, autoExecute: checked }
-                                              }
+                                            ? { ...a, sqlPolicy: value === 'inherit' ? undefined : value as SqlPolicyMode }
                                             : a
                                         )
                                       );
                                     }}
-                                  />
-                                  <Label className="text-xs">Auto Execute</Label>
+                                  >
+                                    <SelectTrigger className="h-8">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {SQL_POLICIES.map((policy) => (
+                                        <SelectItem key={policy.value} value={policy.value}>
+                                          {policy.label}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
                                 </div>
+                                <p className="col-span-3 text-xs text-muted-foreground self-center">
+                                  Applies to execute_sql; the stricter of this and the connection's policy wins.
+                                </p>
                               </div>
                             </div>
                           </div>
@@ -977,6 +1201,10 @@ export function AgentHubSettings({ userId }: AgentHubSettingsProps) {
                               <span className="font-medium">Context:</span>
                               <div className="text-xs text-muted-foreground mt-1">
                                 History: {agent.context.maxHistory} | 
+                                Steps: {agent.context.maxIterations ?? 6} | 
+                                Tokens: {agent.context.historyTokens ?? 6000} | 
+                                Model: {agent.llm?.model || 'gpt-4o'} | 
+                                SQL: {SQL_POLICIES.find(p => p.value === (agent.sqlPolicy || 'inherit'))?.label} | 
                                 Session: {agent.context.retainSession ? 'Yes' : 'No'} | 
                                 Auto: {agent.context.autoExecute ? 'Yes' : 'No'}
                               </div>
@@ -992,7 +1220,7 @@ export function AgentHubSettings({ userId }: AgentHubSettingsProps) {
                                 saveConfiguration();
                                 setEditingAgent(null);
                               }}
-                              disabled={saveConfigMutation.isPending}
+                              disabled={!canEdit || saveConfigMutation.isPending}
                             >
                               <Save className="h-3 w-3 mr-1" />
                               {saveConfigMutation.isPending ? 'Saving...' : 'Save Changes'}
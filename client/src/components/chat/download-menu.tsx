@@ -0,0 +1,47 @@
+import { Download } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+
+const FORMATS = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel (.xlsx)' },
+  { format: 'parquet', label: 'Parquet' },
+  { format: 'jsonl', label: 'JSON Lines' }
+];
+
+interface DownloadMenuProps {
+  url: string; // export endpoint; the format is added to params
+  params?: URLSearchParams;
+  className?: string;
+}
+
+// Export formats of a result; the server streams the file as a download
+export function DownloadMenu({ url, params, className }: DownloadMenuProps) {
+  const hrefFor = (format: string) => {
+    const search = new URLSearchParams(params);
+    search.set('format', format);
+    return `${url}?${search.toString()}`;
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button className={className || "flex items-center space-x-1 text-xs text-gray-600 hover:text-gray-900"}>
+          <Download className="w-3 h-3" />
+          <span>Download</span>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={hrefFor(format)} download className="text-xs">{label}</a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
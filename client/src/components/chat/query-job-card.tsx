@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ChevronLeft, ChevronRight, Clock, Loader2, Square } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { DownloadMenu } from "./download-menu";
+
+export interface QueryJobHandle {
+  id: string;
+  sql: string;
+}
+
+interface QueryJob {
+  id: string;
+  sqlText: string;
+  status: 'running' | 'succeeded' | 'failed' | 'cancelled';
+  rowCount: number | null;
+  truncated: boolean | null;
+  warnings: string[] | null;
+  error: string | null;
+  executionTime: number | null;
+  createdAt: string;
+}
+
+interface QueryJobResultPage {
+  columns: string[];
+  rows: Record<string, any>[];
+  offset: number;
+  totalRows: number;
+  hasMore: boolean;
+}
+
+const PAGE_SIZE = 50;
+const POLL_INTERVAL_MS = 2000;
+
+const formatElapsed = (ms: number) => ms < 60000 ? `${Math.round(ms / 1000)}s` : `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+
+// Status and paged results of a query the agent handed off to a background job
+export function QueryJobCard({ job: handle }: { job: QueryJobHandle }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [offset, setOffset] = useState(0);
+  const queryKey = ['/api/queries', handle.id];
+
+  const { data: job, isError } = useQuery<QueryJob>({
+    queryKey,
+    retry: false,
+    refetchInterval: (query) => query.state.data?.status === 'running' ? POLL_INTERVAL_MS : false
+  });
+
+  const { data: page, isFetching: isFetchingPage } = useQuery<QueryJobResultPage>({
+    queryKey: ['/api/queries', handle.id, 'results', offset],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/queries/${handle.id}/results?offset=${offset}&limit=${PAGE_SIZE}`);
+      return response.json();
+    },
+    enabled: job?.status === 'succeeded'
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/queries/${handle.id}/cancel`);
+      return response.json() as Promise<QueryJob>;
+    },
+    onSuccess: (cancelled) => queryClient.setQueryData(queryKey, cancelled),
+    onError: (error) => {
+      toast({
+        title: "Could not cancel query",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    }
+  });
+
+  const status = isError ? 'missing' : job?.status;
+  const elapsed = job
+    ? job.executionTime ?? Date.now() - new Date(job.createdAt).getTime()
+    : undefined;
+
+  return (
+    <div className="mt-3 border border-blue-200 bg-blue-50 rounded-md p-3">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          {status === 'running'
+            ? <Loader2 className="w-4 h-4 text-blue-600 animate-spin flex-shrink-0" />
+            : <Clock className="w-4 h-4 text-blue-600 flex-shrink-0" />}
+          <span className="text-sm font-medium text-gray-900">
+            {status === 'running' ? 'Query running' :
+              status === 'succeeded' ? `Query finished: ${job?.rowCount ?? 0} rows${job?.truncated ? ' (truncated)' : ''}` :
+              status === 'failed' ? 'Query failed' :
+              status === 'cancelled' ? 'Query cancelled' :
+              status === 'missing' ? 'Query job not found' : 'Checking…'}
+          </span>
+          {elapsed !== undefined && <span className="text-xs text-gray-500">{formatElapsed(elapsed)}</span>}
+        </div>
+        {status === 'running' && (
+          <button
+            onClick={() => cancelMutation.mutate()}
+            disabled={cancelMutation.isPending}
+            className="flex items-center space-x-1 px-3 py-1.5 text-xs rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Square className="w-3 h-3" />
+            <span>Cancel</span>
+          </button>
+        )}
+      </div>
+      <pre className="max-h-24 overflow-auto whitespace-pre-wrap text-xs font-mono text-gray-800 bg-white border border-gray-200 rounded p-2">
+        {handle.sql}
+      </pre>
+      {job?.error && <p className="mt-2 text-xs text-red-600">{job.error}</p>}
+      {job?.warnings?.map((warning, i) => (
+        <p key={i} className="mt-2 text-xs text-amber-700">{warning}</p>
+      ))}
+      {page && (
+        <div className="mt-3">
+          <div className="max-h-72 overflow-auto border border-gray-200 rounded bg-white">
+            <table className="min-w-full text-xs">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  {page.columns.map(column => (
+                    <th key={column} className="px-2 py-1 text-left font-medium text-gray-700 whitespace-nowrap">{column}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {page.rows.map((row, i) => (
+                  <tr key={page.offset + i} className="border-t border-gray-100">
+                    {page.columns.map(column => (
+                      <td key={column} className="px-2 py-1 text-gray-800 whitespace-nowrap">
+                        {row[column] === null || row[column] === undefined ? '' : String(row[column])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex items-center justify-between mt-2 text-xs text-gray-600">
+            <span>
+              {page.totalRows === 0 ? 'No rows' : `Rows ${page.offset + 1}–${page.offset + page.rows.length} of ${page.totalRows}`}
+            </span>
+            <div className="flex items-center space-x-1">
+              <DownloadMenu url={`/api/queries/${handle.id}/export`} className="flex items-center space-x-1 mr-2 text-xs text-gray-600 hover:text-gray-900" />
+              <button
+                onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                disabled={offset === 0 || isFetchingPage}
+                className="p-1 rounded border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                <ChevronLeft className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+                disabled={!page.hasMore || isFetchingPage}
+                className="p-1 rounded border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                <ChevronRight className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
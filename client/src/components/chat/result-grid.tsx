@@ -0,0 +1,272 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { DownloadMenu } from "./download-menu";
+
+type ColumnType = 'number' | 'boolean' | 'date' | 'text';
+
+interface ColumnSummary {
+  name: string;
+  type: ColumnType;
+  nulls: number;
+  distinct: number;
+  bins: { label: string; count: number }[];
+}
+
+interface ResultPage {
+  columns: string[];
+  rows: Record<string, any>[];
+  offset: number;
+  totalRows: number;
+  resultRows: number;
+  hasMore: boolean;
+}
+
+interface ResultGridProps {
+  messageId: string;
+  index: number; // position of the result in the message's tool results
+  columns: string[];
+  rowCount: number;
+}
+
+const PAGE_SIZE = 200;
+const ROW_HEIGHT = 28;
+const VIEW_HEIGHT = 320;
+const OVERSCAN = 10;
+const DEFAULT_WIDTH = 140;
+const MIN_WIDTH = 60;
+const FILTER_DELAY_MS = 300;
+
+const dateFormat = new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+function formatCell(value: unknown, type: ColumnType | undefined) {
+  if (value === null || value === undefined) {
+    return <span className="italic text-gray-400">null</span>;
+  }
+  if (type === 'number' && !Number.isNaN(Number(value))) {
+    return Number(value).toLocaleString(undefined, { maximumFractionDigits: 6 });
+  }
+  if (type === 'date') {
+    const time = Date.parse(String(value));
+    // Dates without a time are shown as stored; parsing them as UTC would shift the day
+    return Number.isNaN(time) || /^\d{4}-\d{2}-\d{2}$/.test(String(value)) ? String(value) : dateFormat.format(time);
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// Bars of a column's value distribution, shown under its name
+function MiniHistogram({ summary }: { summary: ColumnSummary }) {
+  const max = Math.max(1, ...summary.bins.map(bin => bin.count));
+  return (
+    <div
+      className="flex items-end h-6 space-x-px"
+      title={`${summary.distinct.toLocaleString()} distinct, ${summary.nulls.toLocaleString()} null`}
+    >
+      {summary.bins.map(bin => (
+        <div
+          key={bin.label}
+          title={`${bin.label}: ${bin.count.toLocaleString()}`}
+          className="flex-1 bg-blue-300 hover:bg-blue-500 rounded-t-sm"
+          style={{ height: `${Math.max(8, (bin.count / max) * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+// Every row of a query result in an answer, read from the server a page at a time as it scrolls
+export function ResultGrid({ messageId, index, columns, rowCount }: ResultGridProps) {
+  const baseUrl = `/api/messages/${messageId}/results/${index}`;
+  const [sort, setSort] = useState<{ column: string; direction: 'asc' | 'desc' } | null>(null);
+  const [filterInputs, setFilterInputs] = useState<Record<string, string>>({});
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [widths, setWidths] = useState<Record<string, number>>({});
+  const [scrollTop, setScrollTop] = useState(0);
+  const [knownTotal, setKnownTotal] = useState(rowCount);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Filters apply once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setFilters(filterInputs), FILTER_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [filterInputs]);
+
+  // A new order or filter starts from the top
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+  }, [sort, filters]);
+
+  const { data: summary } = useQuery<{ columns: ColumnSummary[] }>({
+    queryKey: ['/api/messages', messageId, 'results', String(index), 'summary'],
+    staleTime: Infinity
+  });
+  const summaries = useMemo(
+    () => new Map((summary?.columns || []).map(column => [column.name, column])),
+    [summary]
+  );
+
+  const params = useMemo(() => {
+    const search = new URLSearchParams({ limit: String(PAGE_SIZE) });
+    if (sort) {
+      search.set('sort', sort.column);
+      search.set('direction', sort.direction);
+    }
+    const activeFilters = Object.fromEntries(Object.entries(filters).filter(([, value]) => value.trim()));
+    if (Object.keys(activeFilters).length > 0) {
+      search.set('filters', JSON.stringify(activeFilters));
+    }
+    return search;
+  }, [sort, filters]);
+
+  // Downloads follow the grid's order and filters
+  const exportParams = useMemo(() => {
+    const search = new URLSearchParams(params);
+    search.delete('limit');
+    return search;
+  }, [params]);
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(knownTotal, Math.ceil((scrollTop + VIEW_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const pageNumbers: number[] = [];
+  for (let page = Math.floor(firstRow / PAGE_SIZE); page <= Math.floor(Math.max(firstRow, lastRow - 1) / PAGE_SIZE); page++) {
+    pageNumbers.push(page);
+  }
+
+  const pages = useQueries({
+    queries: pageNumbers.map(page => ({
+      queryKey: ['/api/messages', messageId, 'results', String(index), params.toString(), page],
+      queryFn: async (): Promise<ResultPage> => {
+        const search = new URLSearchParams(params);
+        search.set('offset', String(page * PAGE_SIZE));
+        const response = await apiRequest('GET', `${baseUrl}?${search.toString()}`);
+        return response.json();
+      },
+      staleTime: Infinity
+    }))
+  });
+
+  const loadedTotal = pages.find(page => page.data)?.data?.totalRows;
+  useEffect(() => {
+    if (loadedTotal !== undefined) setKnownTotal(loadedTotal);
+  }, [loadedTotal]);
+
+  const rows = new Map<number, Record<string, any>>();
+  pages.forEach((page, i) => {
+    page.data?.rows.forEach((row, offset) => rows.set(pageNumbers[i] * PAGE_SIZE + offset, row));
+  });
+  const isLoading = pages.some(page => page.isLoading);
+  const isError = pages.some(page => page.isError);
+
+  const widthOf = (column: string) => widths[column] ?? DEFAULT_WIDTH;
+  const totalWidth = columns.reduce((sum, column) => sum + widthOf(column), 0);
+
+  const toggleSort = (column: string) => {
+    setSort(current =>
+      current?.column !== column ? { column, direction: 'asc' } :
+      current.direction === 'asc' ? { column, direction: 'desc' } : null
+    );
+  };
+
+  const startResize = (column: string, event: React.MouseEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const startX = event.clientX;
+    const startWidth = widthOf(column);
+    const onMove = (move: MouseEvent) => {
+      setWidths(current => ({ ...current, [column]: Math.max(MIN_WIDTH, startWidth + move.clientX - startX) }));
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  const visibleRows: number[] = [];
+  for (let i = firstRow; i < lastRow; i++) {
+    visibleRows.push(i);
+  }
+  const isFiltered = Object.values(filters).some(value => value.trim());
+
+  return (
+    <div className="border border-gray-200 rounded bg-white">
+      <div
+        ref={scrollRef}
+        onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+        className="overflow-auto"
+        style={{ maxHeight: VIEW_HEIGHT + 96 }}
+      >
+        <div style={{ width: totalWidth }}>
+          <div className="flex sticky top-0 z-10 bg-gray-50 border-b border-gray-200">
+            {columns.map(column => {
+              const columnSummary = summaries.get(column);
+              return (
+                <div key={column} className="relative flex-shrink-0 px-2 py-1 space-y-1" style={{ width: widthOf(column) }}>
+                  <button
+                    onClick={() => toggleSort(column)}
+                    className="w-full flex items-center space-x-1 text-left text-xs font-medium text-gray-700"
+                  >
+                    <span className="truncate">{column}</span>
+                    {sort?.column === column && (sort.direction === 'asc'
+                      ? <ArrowUp className="w-3 h-3 flex-shrink-0" />
+                      : <ArrowDown className="w-3 h-3 flex-shrink-0" />)}
+                  </button>
+                  {columnSummary ? <MiniHistogram summary={columnSummary} /> : <div className="h-6" />}
+                  <input
+                    value={filterInputs[column] || ''}
+                    onChange={(event) => setFilterInputs(current => ({ ...current, [column]: event.target.value }))}
+                    placeholder={columnSummary?.type === 'number' || columnSummary?.type === 'date' ? 'e.g. >10' : 'Filter'}
+                    className="w-full px-1 py-0.5 text-xs border border-gray-200 rounded bg-white focus:outline-none focus:border-blue-400"
+                  />
+                  <div
+                    onMouseDown={(event) => startResize(column, event)}
+                    className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-blue-300"
+                  />
+                </div>
+              );
+            })}
+          </div>
+          <div className="relative" style={{ height: knownTotal * ROW_HEIGHT }}>
+            {visibleRows.map(rowIndex => {
+              const row = rows.get(rowIndex);
+              return (
+                <div
+                  key={rowIndex}
+                  className="absolute left-0 flex border-b border-gray-100 text-xs"
+                  style={{ top: rowIndex * ROW_HEIGHT, height: ROW_HEIGHT, width: totalWidth }}
+                >
+                  {columns.map(column => {
+                    const type = summaries.get(column)?.type;
+                    return (
+                      <div
+                        key={column}
+                        className={`flex-shrink-0 px-2 leading-7 truncate text-gray-800 ${type === 'number' ? 'text-right tabular-nums' : ''}`}
+                        style={{ width: widthOf(column) }}
+                      >
+                        {row ? formatCell(row[column], type) : <span className="text-gray-300">…</span>}
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+      <div className="flex items-center justify-between px-2 py-1 border-t border-gray-200 text-xs text-gray-600">
+        <span>
+          {knownTotal === 0 ? 'No rows' : `${knownTotal.toLocaleString()} rows`}
+          {isFiltered && ` matching, of ${rowCount.toLocaleString()}`}
+        </span>
+        <div className="flex items-center space-x-3">
+          {isLoading && <Loader2 className="w-3 h-3 animate-spin" />}
+          {isError && <span className="text-red-600">Could not load rows</span>}
+          <DownloadMenu url={`${baseUrl}/export`} params={exportParams} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,540 @@
+import { useState, type DragEvent } from "react";
+import { useQuery, useQueries, useQueryClient } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, Columns3, Database, Eye, Folder, Loader2, MessageSquarePlus, RefreshCw, Search, Table2, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { DataConnection } from "@shared/schema";
+
+// Dragged schema references carry this type next to text/plain, so the chat input can tell them apart
+export const SCHEMA_REFERENCE_TYPE = 'application/x-schema-reference';
+
+interface CatalogTableInfo {
+  databaseName: string;
+  schemaName: string;
+  name: string;
+  kind: 'TABLE' | 'VIEW';
+  comment: string | null;
+  rowCount: number | null;
+  bytes: number | null;
+  lastAltered: string | null;
+}
+
+interface CatalogColumnInfo {
+  name: string;
+  type: string;
+  nullable: boolean;
+  comment?: string;
+}
+
+interface CatalogSearchResult {
+  tables: CatalogTableInfo[];
+  columns: (CatalogColumnInfo & { databaseName: string; schemaName: string; tableName: string })[];
+}
+
+interface TablePreview {
+  sql: string;
+  columns: string[];
+  rows: Record<string, any>[];
+  warnings?: string[];
+}
+
+interface TableLocation {
+  connectionId: string;
+  database: string;
+  schema: string;
+  table: string;
+}
+
+interface SchemaBrowserProps {
+  onInsert: (text: string) => void; // adds a table or column reference to the chat input
+  onClose: () => void;
+}
+
+const SEARCH_MIN_CHARS = 2;
+const SAMPLE_VALUES = 3;
+
+const schemaUrl = (connectionId: string, level: string, params: Record<string, string | undefined> = {}) => {
+  const search = new URLSearchParams(Object.entries(params).filter((entry): entry is [string, string] => !!entry[1])).toString();
+  return `/api/connections/${connectionId}/schema/${level}${search ? `?${search}` : ''}`;
+};
+
+const fetchJson = async <T,>(url: string): Promise<T> => (await apiRequest('GET', url)).json();
+
+const previewQueryKey = (location: TableLocation) =>
+  ['/api/connections', location.connectionId, 'schema', 'preview', location.database, location.schema, location.table];
+
+const fetchPreview = (location: TableLocation) => fetchJson<TablePreview>(schemaUrl(location.connectionId, 'preview', {
+  database: location.database,
+  schema: location.schema,
+  table: location.table
+}));
+
+const qualifiedName = (...parts: string[]) => parts.filter(Boolean).join('.');
+
+const formatCount = (value: number | null) => value === null ? undefined : `${value.toLocaleString()} rows`;
+
+// First few distinct values of a column in the previewed rows
+const sampleValues = (preview: TablePreview | undefined, column: string) => {
+  if (!preview) return [];
+  const values: string[] = [];
+  for (const row of preview.rows) {
+    const value = row[column];
+    if (value === null || value === undefined) continue;
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    if (!values.includes(text)) values.push(text);
+    if (values.length >= SAMPLE_VALUES) break;
+  }
+  return values;
+};
+
+const startDrag = (event: DragEvent, reference: string) => {
+  event.dataTransfer.setData('text/plain', reference);
+  event.dataTransfer.setData(SCHEMA_REFERENCE_TYPE, reference);
+  event.dataTransfer.effectAllowed = 'copy';
+};
+
+function TreeRow({ depth, open, onToggle, icon, label, detail, title, actions, draggableText }: {
+  depth: number;
+  open?: boolean;
+  onToggle?: () => void;
+  icon: JSX.Element;
+  label: string;
+  detail?: string;
+  title?: string;
+  actions?: JSX.Element;
+  draggableText?: string;
+}) {
+  return (
+    <div
+      className="group flex items-center py-1 pr-2 text-sm rounded hover:bg-gray-50 cursor-pointer"
+      style={{ paddingLeft: 8 + depth * 14 }}
+      onClick={onToggle}
+      title={title}
+      draggable={!!draggableText}
+      onDragStart={draggableText ? (event) => startDrag(event, draggableText) : undefined}
+    >
+      <span className="w-4 flex-shrink-0 text-gray-400">
+        {onToggle && (open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />)}
+      </span>
+      <span className="mr-1.5 flex-shrink-0 text-gray-500">{icon}</span>
+      <span className="truncate text-gray-800">{label}</span>
+      {detail && <span className="ml-2 truncate text-xs text-gray-400">{detail}</span>}
+      {actions && (
+        <span className="ml-auto pl-2 flex items-center space-x-1 opacity-0 group-hover:opacity-100" onClick={(event) => event.stopPropagation()}>
+          {actions}
+        </span>
+      )}
+    </div>
+  );
+}
+
+function RowStatus({ depth, isLoading, error, empty }: { depth: number; isLoading: boolean; error: unknown; empty: boolean }) {
+  const style = { paddingLeft: 26 + depth * 14 };
+  if (isLoading) {
+    return <div className="flex items-center py-1 text-xs text-gray-400" style={style}><Loader2 className="w-3 h-3 mr-1 animate-spin" />Loading…</div>;
+  }
+  if (error) {
+    return <div className="py-1 pr-2 text-xs text-red-600" style={style}>{error instanceof Error ? error.message : 'Failed to load'}</div>;
+  }
+  return empty ? <div className="py-1 text-xs text-gray-400" style={style}>Empty</div> : null;
+}
+
+function ActionButton({ title, onClick, children }: { title: string; onClick: () => void; children: JSX.Element }) {
+  return (
+    <button type="button" title={title} onClick={onClick} className="p-0.5 text-gray-400 hover:text-blue-600">
+      {children}
+    </button>
+  );
+}
+
+function TableNode({ location, table, depth, onInsert, onPreview }: {
+  location: TableLocation;
+  table: CatalogTableInfo;
+  depth: number;
+  onInsert: (text: string) => void;
+  onPreview: (location: TableLocation) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const reference = qualifiedName(location.database, location.schema, table.name);
+
+  const { data, isLoading, error } = useQuery<{ columns: CatalogColumnInfo[] }>({
+    queryKey: ['/api/connections', location.connectionId, 'schema', 'columns', location.database, location.schema, table.name],
+    queryFn: () => fetchJson(schemaUrl(location.connectionId, 'columns', { database: location.database, schema: location.schema, table: table.name })),
+    enabled: open
+  });
+  // Sample values appear once the table has been previewed
+  const { data: preview } = useQuery<TablePreview>({
+    queryKey: previewQueryKey(location),
+    queryFn: () => fetchPreview(location),
+    enabled: false
+  });
+
+  const details = [
+    table.kind === 'VIEW' ? 'view' : undefined,
+    formatCount(table.rowCount)
+  ].filter(Boolean).join(' · ');
+  const title = [
+    table.comment,
+    table.lastAltered ? `Last altered ${new Date(table.lastAltered).toLocaleString()}` : undefined
+  ].filter(Boolean).join('\n');
+
+  return (
+    <>
+      <TreeRow
+        depth={depth}
+        open={open}
+        onToggle={() => setOpen(!open)}
+        icon={table.kind === 'VIEW' ? <Eye className="w-3.5 h-3.5" /> : <Table2 className="w-3.5 h-3.5" />}
+        label={table.name}
+        detail={details || undefined}
+        title={title || undefined}
+        draggableText={reference}
+        actions={
+          <>
+            <ActionButton title="Insert into chat" onClick={() => onInsert(reference)}><MessageSquarePlus className="w-3.5 h-3.5" /></ActionButton>
+            <ActionButton title="Preview 100 rows" onClick={() => onPreview(location)}><Eye className="w-3.5 h-3.5" /></ActionButton>
+          </>
+        }
+      />
+      {open && (
+        <>
+          <RowStatus depth={depth + 1} isLoading={isLoading} error={error} empty={!!data && data.columns.length === 0} />
+          {data?.columns.map(column => {
+            const samples = sampleValues(preview, column.name);
+            return (
+              <TreeRow
+                key={column.name}
+                depth={depth + 1}
+                icon={<Columns3 className="w-3.5 h-3.5" />}
+                label={column.name}
+                detail={[column.type, samples.length > 0 ? `e.g. ${samples.join(', ')}` : undefined].filter(Boolean).join(' · ')}
+                title={[column.comment, column.nullable ? 'Nullable' : 'Not null'].filter(Boolean).join('\n')}
+                draggableText={qualifiedName(table.name, column.name)}
+                actions={
+                  <ActionButton title="Insert into chat" onClick={() => onInsert(qualifiedName(table.name, column.name))}>
+                    <MessageSquarePlus className="w-3.5 h-3.5" />
+                  </ActionButton>
+                }
+              />
+            );
+          })}
+        </>
+      )}
+    </>
+  );
+}
+
+function SchemaNode({ connectionId, database, schema, depth, onInsert, onPreview }: {
+  connectionId: string;
+  database: string;
+  schema: string;
+  depth: number;
+  onInsert: (text: string) => void;
+  onPreview: (location: TableLocation) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const { data, isLoading, error } = useQuery<{ tables: CatalogTableInfo[] }>({
+    queryKey: ['/api/connections', connectionId, 'schema', 'tables', database, schema],
+    queryFn: () => fetchJson(schemaUrl(connectionId, 'tables', { database, schema })),
+    enabled: open
+  });
+
+  return (
+    <>
+      <TreeRow
+        depth={depth}
+        open={open}
+        onToggle={() => setOpen(!open)}
+        icon={<Folder className="w-3.5 h-3.5" />}
+        label={schema}
+        detail={data ? `${data.tables.length}` : undefined}
+      />
+      {open && (
+        <>
+          <RowStatus depth={depth + 1} isLoading={isLoading} error={error} empty={!!data && data.tables.length === 0} />
+          {data?.tables.map(table => (
+            <TableNode
+              key={table.name}
+              location={{ connectionId, database, schema, table: table.name }}
+              table={table}
+              depth={depth + 1}
+              onInsert={onInsert}
+              onPreview={onPreview}
+            />
+          ))}
+        </>
+      )}
+    </>
+  );
+}
+
+function DatabaseNode({ connectionId, database, depth, onInsert, onPreview }: {
+  connectionId: string;
+  database: string;
+  depth: number;
+  onInsert: (text: string) => void;
+  onPreview: (location: TableLocation) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const { data, isLoading, error } = useQuery<{ schemas: string[] }>({
+    queryKey: ['/api/connections', connectionId, 'schema', 'schemas', database],
+    queryFn: () => fetchJson(schemaUrl(connectionId, 'schemas', { database })),
+    enabled: open
+  });
+
+  return (
+    <>
+      <TreeRow depth={depth} open={open} onToggle={() => setOpen(!open)} icon={<Database className="w-3.5 h-3.5" />} label={database} />
+      {open && (
+        <>
+          <RowStatus depth={depth + 1} isLoading={isLoading} error={error} empty={!!data && data.schemas.length === 0} />
+          {data?.schemas.map(schema => (
+            <SchemaNode
+              key={schema}
+              connectionId={connectionId}
+              database={database}
+              schema={schema}
+              depth={depth + 1}
+              onInsert={onInsert}
+              onPreview={onPreview}
+            />
+          ))}
+        </>
+      )}
+    </>
+  );
+}
+
+function ConnectionNode({ connection, onInsert, onPreview }: {
+  connection: DataConnection;
+  onInsert: (text: string) => void;
+  onPreview: (location: TableLocation) => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(connection.isDefault === true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const { data, isLoading, error } = useQuery<{ databases: string[] }>({
+    queryKey: ['/api/connections', connection.id, 'schema', 'databases'],
+    queryFn: () => fetchJson(schemaUrl(connection.id, 'databases')),
+    enabled: open
+  });
+
+  // Expire the server-side catalog, then reload the levels that are open
+  const refresh = async () => {
+    setIsRefreshing(true);
+    try {
+      await apiRequest('POST', `/api/connections/${connection.id}/schema/refresh`, {});
+      await queryClient.invalidateQueries({ queryKey: ['/api/connections', connection.id, 'schema'] });
+    } catch (error) {
+      toast({
+        title: "Could not refresh schema",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  return (
+    <>
+      <TreeRow
+        depth={0}
+        open={open}
+        onToggle={() => setOpen(!open)}
+        icon={<Database className="w-3.5 h-3.5 text-blue-600" />}
+        label={connection.name}
+        detail={connection.type}
+        actions={
+          <ActionButton title="Refresh metadata" onClick={refresh}>
+            <RefreshCw className={`w-3.5 h-3.5 ${isRefreshing ? 'animate-spin' : ''}`} />
+          </ActionButton>
+        }
+      />
+      {open && (
+        <>
+          <RowStatus depth={1} isLoading={isLoading} error={error} empty={!!data && data.databases.length === 0} />
+          {data?.databases.map(database => (
+            <DatabaseNode
+              key={database}
+              connectionId={connection.id}
+              database={database}
+              depth={1}
+              onInsert={onInsert}
+              onPreview={onPreview}
+            />
+          ))}
+        </>
+      )}
+    </>
+  );
+}
+
+// Matches from every cached catalog; schemas nobody has opened yet are not searched
+function SearchResults({ connections, query, onInsert, onPreview }: {
+  connections: DataConnection[];
+  query: string;
+  onInsert: (text: string) => void;
+  onPreview: (location: TableLocation) => void;
+}) {
+  const results = useQueries({
+    queries: connections.map(connection => ({
+      queryKey: ['/api/connections', connection.id, 'schema', 'search', query],
+      queryFn: () => fetchJson<CatalogSearchResult>(schemaUrl(connection.id, 'search', { q: query })),
+      staleTime: 0
+    }))
+  });
+
+  if (results.some(result => result.isLoading)) {
+    return <RowStatus depth={0} isLoading error={undefined} empty={false} />;
+  }
+  const matches = connections.map((connection, index) => ({ connection, result: results[index].data }))
+    .filter(({ result }) => result && (result.tables.length > 0 || result.columns.length > 0));
+  if (matches.length === 0) {
+    return <p className="px-3 py-2 text-xs text-gray-500">No cached tables or columns match. Open a schema to add it to the search.</p>;
+  }
+
+  return (
+    <>
+      {matches.map(({ connection, result }) => (
+        <div key={connection.id} className="mb-2">
+          <div className="px-2 py-1 text-xs font-medium text-gray-500 uppercase tracking-wide">{connection.name}</div>
+          {result!.tables.map(table => {
+            const reference = qualifiedName(table.databaseName, table.schemaName, table.name);
+            const location = { connectionId: connection.id, database: table.databaseName, schema: table.schemaName, table: table.name };
+            return (
+              <TreeRow
+                key={`t:${reference}`}
+                depth={0}
+                icon={<Table2 className="w-3.5 h-3.5" />}
+                label={reference}
+                detail={formatCount(table.rowCount)}
+                title={table.comment || undefined}
+                draggableText={reference}
+                actions={
+                  <>
+                    <ActionButton title="Insert into chat" onClick={() => onInsert(reference)}><MessageSquarePlus className="w-3.5 h-3.5" /></ActionButton>
+                    <ActionButton title="Preview 100 rows" onClick={() => onPreview(location)}><Eye className="w-3.5 h-3.5" /></ActionButton>
+                  </>
+                }
+              />
+            );
+          })}
+          {result!.columns.map(column => {
+            const reference = qualifiedName(column.tableName, column.name);
+            return (
+              <TreeRow
+                key={`c:${column.databaseName}.${column.schemaName}.${reference}`}
+                depth={0}
+                icon={<Columns3 className="w-3.5 h-3.5" />}
+                label={reference}
+                detail={`${column.type} · ${qualifiedName(column.databaseName, column.schemaName)}`}
+                title={column.comment || undefined}
+                draggableText={reference}
+                actions={
+                  <ActionButton title="Insert into chat" onClick={() => onInsert(reference)}><MessageSquarePlus className="w-3.5 h-3.5" /></ActionButton>
+                }
+              />
+            );
+          })}
+        </div>
+      ))}
+    </>
+  );
+}
+
+function PreviewDialog({ location, onClose }: { location: TableLocation; onClose: () => void }) {
+  const { data, isLoading, error } = useQuery<TablePreview>({
+    queryKey: previewQueryKey(location),
+    queryFn: () => fetchPreview(location)
+  });
+  const columns = data?.columns ?? [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[85vh] flex flex-col" onClick={(event) => event.stopPropagation()}>
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900">{qualifiedName(location.database, location.schema, location.table)}</h3>
+            <p className="text-xs text-gray-500">{data ? `First ${data.rows.length} rows` : 'Preview'}</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600"><X className="w-4 h-4" /></button>
+        </div>
+        <div className="flex-1 overflow-auto p-4">
+          {isLoading && <div className="flex items-center text-sm text-gray-500"><Loader2 className="w-4 h-4 mr-2 animate-spin" />Running preview…</div>}
+          {error && <p className="text-sm text-red-600">{error instanceof Error ? error.message : 'Preview failed'}</p>}
+          {data?.warnings?.map((warning, i) => <p key={i} className="mb-2 text-xs text-amber-700">{warning}</p>)}
+          {data && (
+            <table className="min-w-full text-xs border border-gray-200">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  {columns.map(column => (
+                    <th key={column} className="px-2 py-1 text-left font-medium text-gray-700 whitespace-nowrap">{column}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {data.rows.map((row, i) => (
+                  <tr key={i} className="border-t border-gray-100">
+                    {columns.map(column => (
+                      <td key={column} className="px-2 py-1 text-gray-800 whitespace-nowrap">
+                        {row[column] === null || row[column] === undefined ? '' : typeof row[column] === 'object' ? JSON.stringify(row[column]) : String(row[column])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Connection → database → schema → table → column tree, loaded one level at a time from the metadata catalog
+export function SchemaBrowser({ onInsert, onClose }: SchemaBrowserProps) {
+  const [search, setSearch] = useState('');
+  const [preview, setPreview] = useState<TableLocation | null>(null);
+  const { data: connections = [], isLoading } = useQuery<DataConnection[]>({
+    queryKey: ['/api/connections']
+  });
+  const query = search.trim();
+
+  return (
+    <div className="w-80 border-l border-gray-200 bg-white flex flex-col">
+      <div className="p-3 border-b border-gray-200">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-semibold text-gray-900">Schema</h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" title="Close schema browser">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="relative">
+          <Search className="w-3.5 h-3.5 absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="Search tables and columns"
+            className="w-full pl-7 pr-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <p className="mt-2 text-xs text-gray-500">Drag a table or column into the message box, or hover for actions.</p>
+      </div>
+      <div className="flex-1 overflow-y-auto py-2">
+        {isLoading && <RowStatus depth={0} isLoading error={undefined} empty={false} />}
+        {!isLoading && connections.length === 0 && (
+          <p className="px-3 py-2 text-xs text-gray-500">No connections yet. Add one under Settings → Integrations.</p>
+        )}
+        {query.length >= SEARCH_MIN_CHARS
+          ? <SearchResults connections={connections} query={query} onInsert={onInsert} onPreview={setPreview} />
+          : connections.map(connection => (
+            <ConnectionNode key={connection.id} connection={connection} onInsert={onInsert} onPreview={setPreview} />
+          ))}
+      </div>
+      {preview && <PreviewDialog location={preview} onClose={() => setPreview(null)} />}
+    </div>
+  );
+}
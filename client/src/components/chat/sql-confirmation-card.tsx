@@ -0,0 +1,89 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, Play, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface SqlConfirmation {
+  id: string;
+  sql: string;
+  keyword: string;
+  kind: string;
+  status?: 'pending' | 'approved' | 'rejected';
+}
+
+interface SqlConfirmationCardProps {
+  confirmation: SqlConfirmation;
+  onRun: (message: string) => void; // sends the follow-up chat message that executes the statement
+}
+
+// Approve / reject card for a mutating statement the agent wants to run
+export function SqlConfirmationCard({ confirmation, onRun }: SqlConfirmationCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ['/api/sql-confirmations', confirmation.id];
+
+  // 404 once the statement ran, expired or the server restarted
+  const { data: current, isError } = useQuery<SqlConfirmation>({ queryKey, retry: false });
+
+  const answerMutation = useMutation({
+    mutationFn: async (approved: boolean) => {
+      const response = await apiRequest('POST', `/api/sql-confirmations/${confirmation.id}`, { approved });
+      return response.json() as Promise<SqlConfirmation>;
+    },
+    onSuccess: (answered) => {
+      queryClient.setQueryData(queryKey, answered);
+      if (answered.status === 'approved') {
+        onRun(`Confirmed: run statement ${confirmation.id}`);
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not answer confirmation",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    }
+  });
+
+  const status = isError ? 'closed' : current?.status;
+
+  return (
+    <div className="mt-3 border border-amber-200 bg-amber-50 rounded-md p-3">
+      <div className="flex items-center space-x-2 mb-2">
+        <AlertTriangle className="w-4 h-4 text-amber-600 flex-shrink-0" />
+        <span className="text-sm font-medium text-gray-900">
+          {confirmation.keyword} {confirmation.keyword.includes(' + ') ? 'statements need' : 'statement needs'} your confirmation
+        </span>
+      </div>
+      <pre className="max-h-40 overflow-auto whitespace-pre-wrap text-xs font-mono text-gray-800 bg-white border border-gray-200 rounded p-2">
+        {confirmation.sql}
+      </pre>
+      <div className="flex items-center justify-end space-x-2 mt-3">
+        {status === 'pending' ? (
+          <>
+            <button
+              onClick={() => answerMutation.mutate(false)}
+              disabled={answerMutation.isPending}
+              className="flex items-center space-x-1 px-3 py-1.5 text-xs rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <X className="w-3 h-3" />
+              <span>Cancel</span>
+            </button>
+            <button
+              onClick={() => answerMutation.mutate(true)}
+              disabled={answerMutation.isPending}
+              className="flex items-center space-x-1 px-3 py-1.5 text-xs rounded-md bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50"
+            >
+              <Play className="w-3 h-3" />
+              <span>Run</span>
+            </button>
+          </>
+        ) : (
+          <span className="text-xs text-gray-500">
+            {status === 'approved' ? 'Approved' : status === 'rejected' ? 'Cancelled' : status === 'closed' ? 'No longer pending' : 'Checking…'}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
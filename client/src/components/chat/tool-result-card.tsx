@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { AlertCircle, AlertTriangle, BarChart3, CheckCircle, ChevronDown, ChevronRight, Clock, Info } from "lucide-react";
+import type { ToolResult, ToolResultData, ToolResultStatus } from "@shared/schema";
+import { MessageRenderer } from "@/components/message-renderer";
+import { ResultGrid } from "./result-grid";
+
+const STATUS_STYLES: Record<ToolResultStatus, { icon: typeof Info; border: string; color: string }> = {
+  success: { icon: CheckCircle, border: 'border-green-200', color: 'text-green-600' },
+  info: { icon: Info, border: 'border-gray-200', color: 'text-gray-500' },
+  warning: { icon: AlertTriangle, border: 'border-amber-200', color: 'text-amber-600' },
+  error: { icon: AlertCircle, border: 'border-red-200', color: 'text-red-600' },
+  pending: { icon: Clock, border: 'border-blue-200', color: 'text-blue-600' }
+};
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+const formatBytes = (bytes: number) => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+};
+
+function SqlBlock({ sql }: { sql: string }) {
+  return (
+    <pre className="max-h-40 overflow-auto whitespace-pre-wrap text-xs font-mono text-gray-800 bg-gray-50 border border-gray-200 rounded p-2">
+      {sql}
+    </pre>
+  );
+}
+
+// Where a result was stored, so its full rows can be read back
+interface ResultLocation {
+  messageId: string;
+  index: number;
+}
+
+function ResultData({ data, location }: { data: ToolResultData; location?: ResultLocation }) {
+  switch (data.kind) {
+    case 'fields':
+      return (
+        <dl className="grid grid-cols-[max-content_1fr] gap-x-3 gap-y-1 text-xs">
+          {data.fields.map(field => (
+            <div key={field.label} className="contents">
+              <dt className="font-medium text-gray-700">{field.label}</dt>
+              <dd className="font-mono text-gray-800 break-all">{field.value}</dd>
+            </div>
+          ))}
+        </dl>
+      );
+    case 'list':
+      return (
+        <ul className="max-h-60 overflow-auto space-y-0.5 text-xs">
+          {data.items.map(item => (
+            <li key={item.name} className="flex items-baseline justify-between space-x-3">
+              <span className="font-mono text-gray-800 truncate">{item.name}</span>
+              {item.detail && <span className="text-gray-500 whitespace-nowrap">{item.detail}</span>}
+            </li>
+          ))}
+        </ul>
+      );
+    case 'tables':
+      return (
+        <div className="max-h-72 overflow-auto border border-gray-200 rounded bg-white">
+          <table className="min-w-full text-xs">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-2 py-1 text-left font-medium text-gray-700">Table</th>
+                <th className="px-2 py-1 text-right font-medium text-gray-700">Rows</th>
+                <th className="px-2 py-1 text-right font-medium text-gray-700">Size</th>
+                <th className="px-2 py-1 text-left font-medium text-gray-700">Comment</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.tables.map(table => (
+                <tr key={table.name} className="border-t border-gray-100">
+                  <td className="px-2 py-1 font-mono text-gray-800 whitespace-nowrap">
+                    {table.name}
+                    {table.kind === 'VIEW' && <span className="ml-1 text-gray-500 font-sans">(view)</span>}
+                  </td>
+                  <td className="px-2 py-1 text-right text-gray-700">{table.rowCount?.toLocaleString() ?? ''}</td>
+                  <td className="px-2 py-1 text-right text-gray-700 whitespace-nowrap">{table.bytes ? formatBytes(table.bytes) : ''}</td>
+                  <td className="px-2 py-1 text-gray-600">{table.comment || ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'columns':
+      return (
+        <div>
+          {(data.comment || data.rowCount != null || data.lastAltered) && (
+            <p className="mb-2 text-xs text-gray-600">
+              {[
+                data.comment,
+                data.rowCount != null ? `${data.rowCount.toLocaleString()} rows` : undefined,
+                data.lastAltered ? `last altered ${new Date(data.lastAltered).toLocaleString()}` : undefined
+              ].filter(Boolean).join(' · ')}
+            </p>
+          )}
+          <div className="max-h-72 overflow-auto border border-gray-200 rounded bg-white">
+            <table className="min-w-full text-xs">
+              <tbody>
+                {data.columns.map(column => (
+                  <tr key={column.name} className="border-t border-gray-100 first:border-t-0">
+                    <td className="px-2 py-1 font-mono text-gray-800 whitespace-nowrap">{column.name}</td>
+                    <td className="px-2 py-1 font-mono text-gray-600 whitespace-nowrap">{column.type}</td>
+                    <td className="px-2 py-1 text-gray-500 whitespace-nowrap">{column.nullable ? 'nullable' : 'required'}</td>
+                    <td className="px-2 py-1 text-gray-600">{column.comment || ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      );
+    case 'sql':
+      return <SqlBlock sql={data.sql} />;
+    case 'rows':
+      return (
+        <div className="space-y-2">
+          <SqlBlock sql={data.sql} />
+          {data.jobId && location && data.columns.length > 0 ? (
+            <ResultGrid messageId={location.messageId} index={location.index} columns={data.columns} rowCount={data.rowCount} />
+          ) : data.columns.length > 0 && (
+            <div className="max-h-72 overflow-auto border border-gray-200 rounded bg-white">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    {data.columns.map(column => (
+                      <th key={column} className="px-2 py-1 text-left font-medium text-gray-700 whitespace-nowrap">{column}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.rows.map((row, i) => (
+                    <tr key={i} className="border-t border-gray-100">
+                      {data.columns.map(column => (
+                        <td key={column} className="px-2 py-1 text-gray-800 whitespace-nowrap">{formatValue(row[column])}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="text-xs text-gray-500">
+            {data.jobId && location ? `${data.rowCount} rows` : data.rows.length < data.rowCount ? `First ${data.rows.length} of ${data.rowCount} rows` : `${data.rowCount} rows`}
+            {data.truncated && ' (truncated by the row limit)'}
+            {data.executionTime !== undefined && ` · ${data.executionTime} ms`}
+          </p>
+        </div>
+      );
+    case 'text':
+      return data.format === 'yaml'
+        ? <pre className="max-h-72 overflow-auto whitespace-pre-wrap text-xs font-mono text-gray-800 bg-gray-50 border border-gray-200 rounded p-2">{data.text}</pre>
+        : <MessageRenderer content={data.text} role="assistant" />;
+    case 'visualization':
+      return (
+        <div className="flex items-center space-x-2 text-xs text-gray-600">
+          <BarChart3 className="w-4 h-4 text-gray-500" />
+          <span>{data.chartType} chart, available on the dashboard page</span>
+        </div>
+      );
+  }
+}
+
+// One tool result: status, headline and summary, with its data behind a toggle
+export function ToolResultCard({ result, location, defaultOpen = false }: { result: ToolResult; location?: ResultLocation; defaultOpen?: boolean }) {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const { icon: Icon, border, color } = STATUS_STYLES[result.status] || STATUS_STYLES.info;
+
+  return (
+    <div className={`mt-3 border ${border} bg-white rounded-md p-3`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!result.data}
+        className="w-full flex items-start space-x-2 text-left disabled:cursor-default"
+      >
+        <Icon className={`w-4 h-4 ${color} mt-0.5 flex-shrink-0`} />
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-medium text-gray-900">{result.title}</div>
+          {result.summary !== result.title && <p className="text-sm text-gray-700">{result.summary}</p>}
+        </div>
+        {result.data && (isOpen
+          ? <ChevronDown className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          : <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0" />)}
+      </button>
+      {isOpen && result.data && (
+        <div className="mt-2">
+          <ResultData data={result.data} location={location} />
+        </div>
+      )}
+      {result.warnings?.map((warning, i) => (
+        <p key={i} className="mt-2 text-xs text-amber-700">{warning}</p>
+      ))}
+      {result.nextActions && result.nextActions.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {result.nextActions.map(action => (
+            <span key={action} className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">{action}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Results of the tools behind an answer; a lone result and query results start expanded.
+// Pending statements are left to the confirmation and job cards.
+export function ToolResultList({ messageId, results }: { messageId: string; results: ToolResult[] }) {
+  return (
+    <>
+      {results.map((result, index) => result.status !== 'pending' && (
+        <ToolResultCard
+          key={index}
+          result={result}
+          location={{ messageId, index }}
+          defaultOpen={results.length === 1 || result.data?.kind === 'rows' || result.data?.kind === 'sql'}
+        />
+      ))}
+    </>
+  );
+}
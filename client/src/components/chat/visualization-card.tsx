@@ -3,9 +3,11 @@ import { Visualization } from "@shared/schema";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { DownloadMenu } from "./download-menu";
 
 interface VisualizationCardProps {
   visualization: Visualization;
+  readOnly?: boolean; // hides Pin and Publish, e.g. for viewers of published dashboards
 }
 
 declare global {
@@ -14,7 +16,7 @@ declare global {
   }
 }
 
-export function VisualizationCard({ visualization }: VisualizationCardProps) {
+export function VisualizationCard({ visualization, readOnly = false }: VisualizationCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const plotlyRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
@@ -95,28 +97,36 @@ export function VisualizationCard({ visualization }: VisualizationCardProps) {
             {visualization.title}
           </h4>
           <div className="flex space-x-2">
-            <button
-              onClick={handlePin}
-              disabled={pinMutation.isPending}
-              className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
-                visualization.isPinned
-                  ? 'text-amber-800 bg-amber-200 hover:bg-amber-300'
-                  : 'text-amber-700 bg-amber-100 hover:bg-amber-200'
-              }`}
-            >
-              📌 {visualization.isPinned ? 'Unpin' : 'Pin'}
-            </button>
-            <button
-              onClick={handlePublish}
-              disabled={publishMutation.isPending}
-              className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
-                visualization.isPublished
-                  ? 'text-emerald-800 bg-emerald-200 hover:bg-emerald-300' 
-                  : 'text-emerald-700 bg-emerald-100 hover:bg-emerald-200'
-              }`}
-            >
-              🔗 {visualization.isPublished ? 'Unpublish' : 'Publish'}
-            </button>
+            {!readOnly && (
+              <>
+                <button
+                  onClick={handlePin}
+                  disabled={pinMutation.isPending}
+                  className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                    visualization.isPinned
+                      ? 'text-amber-800 bg-amber-200 hover:bg-amber-300'
+                      : 'text-amber-700 bg-amber-100 hover:bg-amber-200'
+                  }`}
+                >
+                  📌 {visualization.isPinned ? 'Unpin' : 'Pin'}
+                </button>
+                <button
+                  onClick={handlePublish}
+                  disabled={publishMutation.isPending}
+                  className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                    visualization.isPublished
+                      ? 'text-emerald-800 bg-emerald-200 hover:bg-emerald-300' 
+                      : 'text-emerald-700 bg-emerald-100 hover:bg-emerald-200'
+                  }`}
+                >
+                  🔗 {visualization.isPublished ? 'Unpublish' : 'Publish'}
+                </button>
+              </>
+            )}
+            <DownloadMenu
+              url={readOnly ? `/api/published/${visualization.id}/export` : `/api/visualizations/${visualization.id}/export`}
+              className="flex items-center space-x-1 px-3 py-1 text-xs font-medium text-slate-700 bg-slate-100 rounded-md hover:bg-slate-200 transition-colors"
+            />
             <button
               onClick={handleFullScreen}
               className="px-3 py-1 text-xs font-medium text-slate-700 bg-slate-100 rounded-md hover:bg-slate-200 transition-colors"
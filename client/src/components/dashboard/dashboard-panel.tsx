@@ -5,18 +5,17 @@ import { Visualization } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 
 interface DashboardPanelProps {
-  userId: string;
   onClose: () => void;
 }
 
-export function DashboardPanel({ userId, onClose }: DashboardPanelProps) {
+export function DashboardPanel({ onClose }: DashboardPanelProps) {
   const [activeTab, setActiveTab] = useState<'pinned' | 'published'>('pinned');
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   // Fetch pinned visualizations
   const { data: pinnedData = [], isLoading: pinnedLoading } = useQuery({
-    queryKey: ['/api/pinned', userId],
+    queryKey: ['/api/pinned'],
     enabled: activeTab === 'pinned'
   });
 
@@ -29,10 +28,10 @@ export function DashboardPanel({ userId, onClose }: DashboardPanelProps) {
   // Unpin mutation
   const unpinMutation = useMutation({
     mutationFn: async (visualizationId: string) => {
-      return apiRequest('DELETE', `/api/pinned/${userId}/${visualizationId}`);
+      return apiRequest('DELETE', `/api/pinned/${visualizationId}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/pinned', userId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/pinned'] });
       toast({
         title: "Visualization unpinned",
         description: "Removed from your dashboard"
@@ -1,158 +1,63 @@
-import { AlertCircle, CheckCircle, Info, AlertTriangle } from 'lucide-react';
+import type { ReactNode } from 'react';
 
 interface MessageRendererProps {
   content: string;
   role: 'user' | 'assistant';
 }
 
-// Helper function to detect and format error messages
-const formatErrorMessage = (content: string) => {
-  // Check for error patterns
-  const errorPatterns = [
-    /❌\s*\*\*([^*]+)\*\*\s*(.*?)💡\s*(.*)/s,
-    /❌\s*(.*?)💡\s*(.*)/s,
-    /Error:\s*(.*)/s,
-    /Failed:\s*(.*)/s,
-    /\*\*Connection Failed\*\*\s*(.*)/s
-  ];
+// A run of lines rendered together
+type Block =
+  | { type: 'code'; lines: string[] }
+  | { type: 'bullets'; lines: string[] }
+  | { type: 'numbered'; lines: string[] }
+  | { type: 'paragraph'; lines: string[] };
 
-  for (const pattern of errorPatterns) {
-    const match = content.match(pattern);
-    if (match) {
-      const title = match[1] || 'Error';
-      const message = match[2] || match[1] || '';
-      const suggestion = match[3] || '';
+const BULLET_PATTERN = /^\s*[-*+•]\s+/;
+const NUMBERED_PATTERN = /^\s*\d+\.\s+/;
 
+// Inline `code` and **bold**; everything else is plain text
+const renderInline = (text: string): ReactNode[] =>
+  text.split(/(`[^`]+`|\*\*[^*]+\*\*)/g).filter(Boolean).map((part, index) => {
+    if (part.startsWith('`') && part.endsWith('`')) {
       return (
-        <div className="border-l-4 border-gray-400 bg-gray-50 p-4 rounded-r-md">
-          <div className="flex items-start space-x-3">
-            <AlertCircle className="w-4 h-4 text-gray-600 mt-0.5 flex-shrink-0" />
-            <div className="flex-1 min-w-0">
-              <h4 className="text-sm font-medium text-gray-900 mb-2">
-                {title.replace(/\*\*/g, '')}
-              </h4>
-              {message && (
-                <p className="text-sm text-gray-700 mb-3 leading-relaxed">
-                  {message.replace(/\*\*/g, '').trim()}
-                </p>
-              )}
-              {suggestion && (
-                <div className="bg-white border border-gray-200 rounded-md p-3 mt-2">
-                  <div className="flex items-center space-x-2">
-                    <Info className="w-4 h-4 text-gray-500" />
-                    <p className="text-sm text-gray-700 font-medium">Suggestion</p>
-                  </div>
-                  <p className="text-sm text-gray-600 mt-1">
-                    {suggestion.replace(/💡\s*/, '').trim()}
-                  </p>
-                </div>
-              )}
-            </div>
-          </div>
-        </div>
+        <code key={index} className="bg-gray-100 px-1 py-0.5 rounded text-xs font-mono text-gray-800">
+          {part.slice(1, -1)}
+        </code>
       );
     }
-  }
-  
-  return null;
-};
-
-// Helper function to detect and format success messages
-const formatSuccessMessage = (content: string) => {
-  if (content.includes('✅') || content.includes('Successfully') || content.includes('Connected')) {
-    const lines = content.split('\n').filter(line => line.trim());
-    const successItems = lines.filter(line => line.includes('✅'));
-    const otherContent = lines.filter(line => !line.includes('✅')).join('\n');
-
-    if (successItems.length > 0) {
-      return (
-        <div className="border-l-4 border-gray-400 bg-gray-50 p-4 rounded-r-md">
-          <div className="flex items-start space-x-3">
-            <CheckCircle className="w-4 h-4 text-gray-600 mt-0.5 flex-shrink-0" />
-            <div className="flex-1 min-w-0">
-              <h4 className="text-sm font-medium text-gray-900 mb-2">Success</h4>
-              <ul className="space-y-1 mb-3">
-                {successItems.map((item, index) => (
-                  <li key={index} className="text-sm text-gray-700 flex items-start space-x-2">
-                    <span className="text-gray-500 mt-0.5">•</span>
-                    <span>{item.replace('✅', '').trim()}</span>
-                  </li>
-                ))}
-              </ul>
-              {otherContent && (
-                <p className="text-sm text-gray-700">{otherContent}</p>
-              )}
-            </div>
-          </div>
-        </div>
-      );
+    if (part.startsWith('**') && part.endsWith('**')) {
+      return <strong key={index} className="font-medium text-gray-900">{part.slice(2, -2)}</strong>;
+    }
+    return <span key={index}>{part}</span>;
+  });
+
+function toBlocks(content: string): Block[] {
+  const blocks: Block[] = [];
+  let inCode = false;
+
+  for (const line of content.split('\n')) {
+    if (line.trim().startsWith('```')) {
+      inCode = !inCode;
+      if (inCode) blocks.push({ type: 'code', lines: [] });
+      continue;
+    }
+    const type: Block['type'] = inCode ? 'code'
+      : BULLET_PATTERN.test(line) ? 'bullets'
+      : NUMBERED_PATTERN.test(line) ? 'numbered'
+      : 'paragraph';
+    if (type === 'paragraph' && !line.trim()) {
+      blocks.push({ type: 'paragraph', lines: [] });
+      continue;
+    }
+    const last = blocks[blocks.length - 1];
+    if (last && last.type === type) {
+      last.lines.push(line);
+    } else {
+      blocks.push({ type, lines: [line] });
     }
   }
-  
-  return null;
-};
-
-// Helper function to format lists and structured content
-const formatStructuredContent = (content: string) => {
-  // Check for markdown-style lists or bullet points
-  const listPattern = /^[\s]*[-*+]\s+(.+)$/gm;
-  const numberedListPattern = /^[\s]*\d+\.\s+(.+)$/gm;
-  const bulletPattern = /^[\s]*•\s+(.+)$/gm;
-  
-  if (listPattern.test(content) || numberedListPattern.test(content) || bulletPattern.test(content)) {
-    const lines = content.split('\n');
-    const formattedLines = lines.map((line, index) => {
-      if (/^[\s]*[-*+•]\s+/.test(line)) {
-        return (
-          <li key={index} className="text-sm text-gray-700 flex items-start space-x-2 mb-1">
-            <span className="text-gray-400 mt-0.5 flex-shrink-0">•</span>
-            <span className="flex-1">{line.replace(/^[\s]*[-*+•]\s+/, '').trim()}</span>
-          </li>
-        );
-      } else if (/^[\s]*\d+\.\s+/.test(line)) {
-        const match = line.match(/^[\s]*(\d+)\.\s+(.+)$/);
-        return (
-          <li key={index} className="text-sm text-gray-700 flex items-start space-x-2 mb-1">
-            <span className="text-gray-400 mt-0.5 font-medium flex-shrink-0">{match?.[1]}.</span>
-            <span className="flex-1">{match?.[2]?.trim()}</span>
-          </li>
-        );
-      } else if (line.trim()) {
-        return <p key={index} className="text-sm text-gray-700 mb-2">{line.trim()}</p>;
-      }
-      return null;
-    }).filter(Boolean);
-
-    return (
-      <div className="space-y-1">
-        <ul className="space-y-1">{formattedLines}</ul>
-      </div>
-    );
-  }
-  
-  return null;
-};
-
-// Helper function to format warning messages
-const formatWarningMessage = (content: string) => {
-  if (content.includes('⚠️') || content.includes('Warning') || content.includes('Note:')) {
-    return (
-      <div className="border-l-4 border-gray-400 bg-gray-50 p-4 rounded-r-md">
-        <div className="flex items-start space-x-3">
-          <AlertTriangle className="w-4 h-4 text-gray-600 mt-0.5 flex-shrink-0" />
-          <div className="flex-1 min-w-0">
-            <h4 className="text-sm font-medium text-gray-900 mb-2">Warning</h4>
-            <p className="text-sm text-gray-700 leading-relaxed">
-              {content.replace(/⚠️/g, '').replace(/Warning:?/gi, '').trim()}
-            </p>
-          </div>
-        </div>
-      </div>
-    );
-  }
-  
-  return null;
-};
+  return blocks.filter(block => block.lines.length > 0);
+}
 
 export function MessageRenderer({ content, role }: MessageRendererProps) {
   // For user messages, display as-is
@@ -160,129 +65,52 @@ export function MessageRenderer({ content, role }: MessageRendererProps) {
     return <div className="text-sm">{content}</div>;
   }
 
-  // For assistant messages, try different formatting approaches
-  const errorFormatted = formatErrorMessage(content);
-  if (errorFormatted) return errorFormatted;
-
-  const successFormatted = formatSuccessMessage(content);
-  if (successFormatted) return successFormatted;
-
-  const warningFormatted = formatWarningMessage(content);
-  if (warningFormatted) return warningFormatted;
-
-  const structuredFormatted = formatStructuredContent(content);
-  if (structuredFormatted) return structuredFormatted;
-
-  // Default formatting for regular content
-  const lines = content.split('\n').filter(line => line.trim());
-  
-  // Check for structured content with headers, sections, and connection details
-  if (lines.some(line => line.includes('🔗') || line.includes('🚀') || line.includes('**') || line.includes('✅'))) {
-    return (
-      <div className="space-y-3">
-        {lines.map((line, index) => {
-          const trimmedLine = line.trim();
-          
-          // Format success headers with checkmarks
-          if (trimmedLine.includes('✅') && trimmedLine.includes('**')) {
+  // Tool output is rendered from message metadata, so assistant text is plain markdown
+  return (
+    <div className="space-y-2">
+      {toBlocks(content).map((block, index) => {
+        switch (block.type) {
+          case 'code':
             return (
-              <div key={index} className="flex items-center space-x-2 mb-3">
-                <CheckCircle className="w-4 h-4 text-gray-600" />
-                <h3 className="text-sm font-medium text-gray-900">
-                  {trimmedLine.replace(/[✅*]/g, '').trim()}
-                </h3>
-              </div>
+              <pre key={index} className="overflow-auto whitespace-pre-wrap text-xs font-mono text-gray-800 bg-gray-50 border border-gray-200 rounded p-2">
+                {block.lines.join('\n')}
+              </pre>
             );
-          }
-          
-          // Format section headers with emojis
-          if (trimmedLine.includes('**') && (trimmedLine.includes('🔗') || trimmedLine.includes('🚀'))) {
-            const emoji = trimmedLine.includes('🔗') ? '🔗' : '🚀';
-            const title = trimmedLine.replace(/[🔗🚀*]/g, '').replace(':', '').trim();
-            
+          case 'bullets':
             return (
-              <div key={index} className="flex items-center space-x-2 mt-4 mb-2">
-                <span className="text-gray-600">{emoji === '🔗' ? '🔗' : '🚀'}</span>
-                <h4 className="text-sm font-medium text-gray-900">{title}:</h4>
-              </div>
-            );
-          }
-          
-          // Format key-value pairs with dashes (Connection Details format)
-          if (trimmedLine.startsWith('- ') && trimmedLine.includes(':')) {
-            const [key, ...valueParts] = trimmedLine.substring(2).split(':');
-            const value = valueParts.join(':').trim();
-            
-            return (
-              <div key={index} className="flex items-start space-x-2 ml-6 mb-1">
-                <span className="text-gray-400 mt-0.5 flex-shrink-0">•</span>
-                <div className="flex-1">
-                  <span className="text-sm font-medium text-gray-900">{key.trim()}:</span>
-                  <span className="text-sm text-gray-700 ml-1 font-mono">{value}</span>
-                </div>
-              </div>
+              <ul key={index} className="space-y-1">
+                {block.lines.map((line, lineIndex) => (
+                  <li key={lineIndex} className="text-sm text-gray-700 flex items-start space-x-2">
+                    <span className="text-gray-400 mt-0.5 flex-shrink-0">•</span>
+                    <span className="flex-1">{renderInline(line.replace(BULLET_PATTERN, ''))}</span>
+                  </li>
+                ))}
+              </ul>
             );
-          }
-          
-          // Format regular bullet points that start with dashes
-          if (trimmedLine.startsWith('- ')) {
-            const content = trimmedLine.substring(2);
-            
-            // Check if it contains backticks for inline code
-            if (content.includes('`')) {
-              const parts = content.split('`');
-              return (
-                <div key={index} className="flex items-start space-x-2 ml-6 mb-1">
-                  <span className="text-gray-400 mt-0.5 flex-shrink-0">•</span>
-                  <div className="text-sm text-gray-700 flex-1">
-                    {parts.map((part, partIndex) => 
-                      partIndex % 2 === 0 ? (
-                        <span key={partIndex}>{part}</span>
-                      ) : (
-                        <code key={partIndex} className="bg-gray-100 px-1 py-0.5 rounded text-xs font-mono text-gray-800">
-                          {part}
-                        </code>
-                      )
-                    )}
-                  </div>
-                </div>
-              );
-            }
-            
+          case 'numbered':
             return (
-              <div key={index} className="flex items-start space-x-2 ml-6 mb-1">
-                <span className="text-gray-400 mt-0.5 flex-shrink-0">•</span>
-                <span className="text-sm text-gray-700 flex-1">{content}</span>
-              </div>
+              <ol key={index} className="space-y-1">
+                {block.lines.map((line, lineIndex) => (
+                  <li key={lineIndex} className="text-sm text-gray-700 flex items-start space-x-2">
+                    <span className="text-gray-400 mt-0.5 font-medium flex-shrink-0">{line.match(/\d+/)?.[0]}.</span>
+                    <span className="flex-1">{renderInline(line.replace(NUMBERED_PATTERN, ''))}</span>
+                  </li>
+                ))}
+              </ol>
             );
-          }
-          
-          // Handle regular paragraphs
-          if (trimmedLine) {
+          case 'paragraph':
             return (
               <p key={index} className="text-sm text-gray-700 leading-relaxed">
-                {trimmedLine}
+                {block.lines.map((line, lineIndex) => (
+                  <span key={lineIndex}>
+                    {lineIndex > 0 && <br />}
+                    {renderInline(line.trim())}
+                  </span>
+                ))}
               </p>
             );
-          }
-          
-          return null;
-        }).filter(Boolean)}
-      </div>
-    );
-  }
-  
-  if (lines.length > 1) {
-    return (
-      <div className="space-y-2">
-        {lines.map((line, index) => (
-          <p key={index} className="text-sm text-gray-700 leading-relaxed">
-            {line.trim()}
-          </p>
-        ))}
-      </div>
-    );
-  }
-
-  return <div className="text-sm text-gray-700 leading-relaxed">{content}</div>;
-}
\ No newline at end of file
+        }
+      })}
+    </div>
+  );
+}
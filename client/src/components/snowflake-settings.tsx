@@ -11,31 +11,113 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Switch } from '@/components/ui/switch';
 import { Trash2, Plus, TestTube, Check, X, Database, Settings, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { insertSnowflakeConnectionSchema, type SnowflakeConnection } from '@shared/schema';
+import { useAuth } from '@/hooks/use-auth';
+import { insertDataConnectionSchema, sqlPolicyModes, snowflakeBundleAuthenticators, type DataConnection, type DataSourceType, type SqlPolicyMode, type PublicUser } from '@shared/schema';
 
-// Form schema for Snowflake connection
-const snowflakeConnectionFormSchema = insertSnowflakeConnectionSchema.extend({
-  password: z.string().min(1, 'Password or PAT token is required'),
+const SOURCE_TYPES: Array<{ value: DataSourceType; label: string; defaultPort?: number }> = [
+  { value: 'snowflake', label: 'Snowflake' },
+  { value: 'postgres', label: 'PostgreSQL', defaultPort: 5432 },
+  { value: 'mysql', label: 'MySQL', defaultPort: 3306 },
+  { value: 'duckdb', label: 'DuckDB' },
+];
+
+// 'default' stores no policy, so the server default (SQL_POLICY_DEFAULT) applies
+const SQL_POLICIES: Array<{ value: SqlPolicyMode | 'default'; label: string }> = [
+  { value: 'default', label: 'Server default' },
+  { value: 'read_only', label: 'Read-only' },
+  { value: 'confirm', label: 'Confirm writes' },
+  { value: 'allow', label: 'Allow all statements' },
+];
+
+// Key-pair and OAuth secrets are sent as `credentials` instead of a password
+const usesCredentials = (authenticator?: string | null) =>
+  (snowflakeBundleAuthenticators as readonly string[]).includes(authenticator || '');
+
+// Form schema for a data connection; driver options are edited as flat fields and the owner is picked separately
+const connectionFormSchema = insertDataConnectionSchema.omit({ options: true, userId: true }).extend({
+  password: z.string(),
+  port: z.coerce.number().int().positive().optional().or(z.literal('').transform(() => undefined)),
+  filePath: z.string().optional(),
+  ssl: z.boolean().optional(),
+  sqlPolicy: z.enum([...sqlPolicyModes, 'default']).optional(),
+  maxRows: z.coerce.number().int().positive().optional().or(z.literal('').transform(() => undefined)),
+  warnScanGb: z.coerce.number().positive().optional().or(z.literal('').transform(() => undefined)),
+  maxScanGb: z.coerce.number().positive().optional().or(z.literal('').transform(() => undefined)),
+  privateKey: z.string().optional(),
+  privateKeyPassphrase: z.string().optional(),
+  tokenEndpoint: z.string().url('Enter the full token endpoint URL').optional().or(z.literal('').transform(() => undefined)),
+  clientId: z.string().optional(),
+  clientSecret: z.string().optional(),
+  refreshToken: z.string().optional(),
+  subjectToken: z.string().optional(),
+  scope: z.string().optional(),
+  audience: z.string().optional(),
+}).refine(data => data.type !== 'snowflake' || !!data.account, {
+  message: 'Account identifier is required',
+  path: ['account'],
+}).refine(data => data.type !== 'snowflake' || data.authenticator === 'LOCAL' || usesCredentials(data.authenticator) || data.password.length > 0, {
+  message: 'Password or PAT token is required',
+  path: ['password'],
+}).refine(data => data.authenticator !== 'SNOWFLAKE_JWT' || !!data.privateKey, {
+  message: 'Upload the private key file',
+  path: ['privateKey'],
+}).refine(data => !usesCredentials(data.authenticator) || data.authenticator === 'SNOWFLAKE_JWT' || !!data.clientId, {
+  message: 'Client ID is required',
+  path: ['clientId'],
+}).refine(data => data.authenticator !== 'OAUTH' || !!data.refreshToken, {
+  message: 'Refresh token is required',
+  path: ['refreshToken'],
+}).refine(data => data.authenticator !== 'OAUTH_TOKEN_EXCHANGE' || !!data.tokenEndpoint, {
+  message: 'Token endpoint is required',
+  path: ['tokenEndpoint'],
+}).refine(data => data.authenticator !== 'OAUTH_TOKEN_EXCHANGE' || !!data.subjectToken, {
+  message: 'Subject token is required',
+  path: ['subjectToken'],
+}).refine(data => (data.type !== 'postgres' && data.type !== 'mysql') || !!data.host, {
+  message: 'Host is required',
+  path: ['host'],
+}).refine(data => data.type === 'duckdb' || !!data.username, {
+  message: 'Username is required',
+  path: ['username'],
 });
 
-type SnowflakeConnectionForm = z.infer<typeof snowflakeConnectionFormSchema>;
+type ConnectionForm = z.infer<typeof connectionFormSchema>;
 
-interface SnowflakeSettingsProps {
-  userId: string;
+const sourceLabel = (type: string | null) => SOURCE_TYPES.find(source => source.value === type)?.label || 'Snowflake';
+
+function describeConnection(connection: DataConnection): string {
+  switch (connection.type) {
+    case 'postgres':
+    case 'mysql':
+      return `${connection.host}${connection.port ? `:${connection.port}` : ''} • ${connection.username}`;
+    case 'duckdb':
+      return connection.options?.filePath || 'In-memory database';
+    default:
+      return `${connection.account} • ${connection.username}`;
+  }
 }
 
-export function SnowflakeSettings({ userId }: SnowflakeSettingsProps) {
+export function SnowflakeSettings() {
   const [showAddForm, setShowAddForm] = useState(false);
   const [testingConnection, setTestingConnection] = useState<string | null>(null);
+  // Admins manage every user's connections; empty means their own
+  const [ownerId, setOwnerId] = useState('');
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user, can } = useAuth();
+  const canManage = can('connections.manage');
+  const isOwnList = !ownerId || ownerId === user?.id;
 
-  const form = useForm<SnowflakeConnectionForm>({
-    resolver: zodResolver(snowflakeConnectionFormSchema),
+  const form = useForm<ConnectionForm>({
+    resolver: zodResolver(connectionFormSchema),
     defaultValues: {
-      userId,
       name: '',
+      type: 'snowflake',
       account: '',
+      host: '',
+      filePath: '',
+      ssl: false,
+      sqlPolicy: 'default',
       username: '',
       password: '',
       database: '',
@@ -48,40 +130,80 @@ export function SnowflakeSettings({ userId }: SnowflakeSettingsProps) {
     },
   });
 
-  // Fetch Snowflake connections
+  const sourceType = form.watch('type') as DataSourceType;
+  const credentialAuth = sourceType === 'snowflake' && usesCredentials(form.watch('authenticator')) ? form.watch('authenticator') : null;
+
+  // Key files are read in the browser and sent as PEM text
+  const handlePrivateKeyFile = async (file: File | undefined) => {
+    form.setValue('privateKey', file ? await file.text() : '', { shouldValidate: true });
+  };
+
+  // Fetch data connections
   const { data: connections = [], isLoading } = useQuery({
-    queryKey: [`/api/snowflake/connections/${userId}`],
+    queryKey: ['/api/connections', ownerId],
     queryFn: async () => {
-      const response = await fetch(`/api/snowflake/connections/${userId}`);
+      const response = await fetch(ownerId ? `/api/connections?userId=${encodeURIComponent(ownerId)}` : '/api/connections');
       if (!response.ok) throw new Error('Failed to fetch connections');
-      return response.json() as Promise<SnowflakeConnection[]>;
+      return response.json() as Promise<DataConnection[]>;
     },
   });
 
+  // Possible owners for the connections an admin manages
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ['/api/users'],
+    enabled: canManage,
+  });
+
   // Create connection mutation
   const createConnectionMutation = useMutation({
-    mutationFn: async (data: SnowflakeConnectionForm) => {
-      const response = await fetch('/api/snowflake/connections', {
+    mutationFn: async ({
+      filePath, ssl, sqlPolicy, maxRows, warnScanGb, maxScanGb,
+      privateKey, privateKeyPassphrase, tokenEndpoint, clientId, clientSecret, refreshToken, subjectToken, scope, audience,
+      ...data
+    }: ConnectionForm) => {
+      const bundled = data.type === 'snowflake' && usesCredentials(data.authenticator);
+      const response = await fetch('/api/connections', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data),
+        body: JSON.stringify({
+          ...data,
+          password: bundled ? '' : data.password,
+          credentials: bundled
+            ? { privateKey, privateKeyPassphrase, clientSecret, refreshToken, subjectToken }
+            : undefined,
+          userId: ownerId || undefined,
+          options: {
+            filePath: filePath || undefined,
+            ssl,
+            sqlPolicy: sqlPolicy === 'default' ? undefined : sqlPolicy,
+            maxRows,
+            warnScanGb,
+            maxScanGb,
+            oauth: bundled && data.authenticator !== 'SNOWFLAKE_JWT'
+              ? { tokenEndpoint, clientId, scope: scope || undefined, audience: audience || undefined }
+              : undefined,
+          },
+        }),
       });
-      if (!response.ok) throw new Error('Failed to create connection');
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || 'Failed to create connection');
+      }
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/snowflake/connections/${userId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/connections'] });
       setShowAddForm(false);
       form.reset();
       toast({
         title: 'Connection Created',
-        description: 'Snowflake connection has been created successfully.',
+        description: 'Connection has been created successfully.',
       });
     },
     onError: (error) => {
       toast({
         title: 'Error',
-        description: 'Failed to create Snowflake connection: ' + error.message,
+        description: 'Failed to create connection: ' + error.message,
         variant: 'destructive',
       });
     },
@@ -90,7 +212,7 @@ export function SnowflakeSettings({ userId }: SnowflakeSettingsProps) {
   // Test connection mutation
   const testConnectionMutation = useMutation({
     mutationFn: async (connectionId: string) => {
-      const response = await fetch(`/api/snowflake/connections/${connectionId}/test`, {
+      const response = await fetch(`/api/connections/${connectionId}/test`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
       });
@@ -102,12 +224,12 @@ export function SnowflakeSettings({ userId }: SnowflakeSettingsProps) {
       if (data.success) {
         toast({
           title: 'Connection Successful',
-          description: 'Successfully connected to Snowflake.',
+          description: 'Successfully connected to the data source.',
         });
       } else {
         toast({
           title: 'Connection Failed',
-          description: 'Failed to connect to Snowflake. Please check your credentials.',
+          description: 'Failed to connect. Please check your connection settings and credentials.',
           variant: 'destructive',
         });
       }
@@ -125,17 +247,17 @@ export function SnowflakeSettings({ userId }: SnowflakeSettingsProps) {
   // Delete connection mutation
   const deleteConnectionMutation = useMutation({
     mutationFn: async (connectionId: string) => {
-      const response = await fetch(`/api/snowflake/connections/${connectionId}`, {
+      const response = await fetch(`/api/connections/${connectionId}`, {
         method: 'DELETE',
       });
       if (!response.ok) throw new Error('Failed to delete connection');
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/snowflake/connections/${userId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/connections'] });
       toast({
         title: 'Connection Deleted',
-        description: 'Snowflake connection has been deleted successfully.',
+        description: 'Connection has been deleted successfully.',
       });
     },
     onError: (error) => {
@@ -150,19 +272,17 @@ export function SnowflakeSettings({ userId }: SnowflakeSettingsProps) {
   // Set default connection mutation
   const setDefaultMutation = useMutation({
     mutationFn: async (connectionId: string) => {
-      const response = await fetch(`/api/snowflake/connections/${connectionId}/default`, {
+      const response = await fetch(`/api/connections/${connectionId}/default`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId }),
       });
       if (!response.ok) throw new Error('Failed to set default connection');
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/snowflake/connections/${userId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/connections'] });
       toast({
         title: 'Default Connection Updated',
-        description: 'Default Snowflake connection has been updated.',
+        description: 'Default connection has been updated.',
       });
     },
     onError: (error) => {
@@ -174,7 +294,7 @@ export function SnowflakeSettings({ userId }: SnowflakeSettingsProps) {
     },
   });
 
-  const onSubmit = (data: SnowflakeConnectionForm) => {
+  const onSubmit = (data: ConnectionForm) => {
     createConnectionMutation.mutate(data);
   };
 
@@ -197,7 +317,7 @@ export function SnowflakeSettings({ userId }: SnowflakeSettingsProps) {
     return (
       <div className="flex items-center justify-center p-8">
         <Loader2 className="w-6 h-6 animate-spin" />
-        <span className="ml-2">Loading Snowflake connections...</span>
+        <span className="ml-2">Loading connections...</span>
       </div>
     );
   }
@@ -206,15 +326,32 @@ export function SnowflakeSettings({ userId }: SnowflakeSettingsProps) {
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-base font-semibold">Snowflake Connections</h2>
+          <h2 className="text-base font-semibold">Data Connections</h2>
           <p className="text-muted-foreground text-[12px]">
-            Manage your Snowflake database connections for data analysis and querying.
+            {canManage
+              ? 'Manage Snowflake, PostgreSQL, MySQL and DuckDB connections for data analysis and querying.'
+              : 'Connections an admin has set up for you. Ask an admin to add or change one.'}
           </p>
         </div>
-        <Button onClick={() => setShowAddForm(true)} className="flex items-center gap-2">
-          <Plus className="w-4 h-4" />
-          Add Connection
-        </Button>
+        {canManage && (
+          <div className="flex items-center gap-2">
+            <Select value={ownerId || 'self'} onValueChange={(value) => setOwnerId(value === 'self' ? '' : value)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="self">My connections</SelectItem>
+                {users.filter(other => other.id !== user?.id).map(other => (
+                  <SelectItem key={other.id} value={other.id}>{other.displayName || other.username}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => setShowAddForm(true)} className="flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              Add Connection
+            </Button>
+          </div>
+        )}
       </div>
       {/* Existing Connections */}
       <div className="grid gap-4">
@@ -227,12 +364,20 @@ export function SnowflakeSettings({ userId }: SnowflakeSettingsProps) {
                   <div>
                     <CardTitle className="text-sm font-medium">{connection.name}</CardTitle>
                     <CardDescription>
-                      {connection.account} • {connection.username}
+                      {describeConnection(connection)}
                       {connection.database && ` • ${connection.database}`}
                     </CardDescription>
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
+                  <span className="px-2 py-1 bg-purple-100 text-purple-800 text-xs rounded-full">
+                    {sourceLabel(connection.type)}
+                  </span>
+                  {connection.options?.sqlPolicy && (
+                    <span className="px-2 py-1 bg-amber-100 text-amber-800 text-xs rounded-full">
+                      {SQL_POLICIES.find(policy => policy.value === connection.options?.sqlPolicy)?.label}
+                    </span>
+                  )}
                   {connection.isDefault && (
                     <span className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">
                       Default
@@ -250,45 +395,79 @@ export function SnowflakeSettings({ userId }: SnowflakeSettingsProps) {
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-2 gap-4 text-sm">
-                <div>
-                  <Label className="text-muted-foreground">Warehouse</Label>
-                  <p className="text-[12px]">{connection.warehouse || 'Not specified'}</p>
-                </div>
+                {connection.type === 'snowflake' && (
+                  <div>
+                    <Label className="text-muted-foreground">Warehouse</Label>
+                    <p className="text-[12px]">{connection.warehouse || 'Not specified'}</p>
+                  </div>
+                )}
                 <div>
                   <Label className="text-muted-foreground">Schema</Label>
                   <p className="text-[12px]">{connection.schema || 'Not specified'}</p>
                 </div>
-                <div>
-                  <Label className="text-muted-foreground">Role</Label>
-                  <p className="text-[12px]">{connection.role || 'Not specified'}</p>
-                </div>
-                <div>
-                  <Label className="text-muted-foreground">Authentication</Label>
-                  <p className="flex items-center gap-2">
-                    {connection.authenticator === 'PAT' ? (
-                      <>
-                        <span className="px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full">
-                          PAT
-                        </span>
-                        Personal Access Token
-                      </>
-                    ) : connection.authenticator === 'USERNAME_PASSWORD_MFA' ? (
-                      <>
-                        <span className="px-2 py-1 bg-yellow-100 text-yellow-800 text-xs rounded-full">
-                          MFA
-                        </span>
-                        Multi-Factor Auth
-                      </>
-                    ) : (
-                      <>
-                        <span className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">
-                          PWD
-                        </span>
-                        Username/Password
-                      </>
-                    )}
-                  </p>
-                </div>
+                {connection.type === 'snowflake' && (
+                  <div>
+                    <Label className="text-muted-foreground">Role</Label>
+                    <p className="text-[12px]">{connection.role || 'Not specified'}</p>
+                  </div>
+                )}
+                {connection.type === 'snowflake' && (
+                  <div>
+                    <Label className="text-muted-foreground">Authentication</Label>
+                    <p className="flex items-center gap-2">
+                      {connection.authenticator === 'LOCAL' ? (
+                        <>
+                          <span className="px-2 py-1 bg-gray-100 text-gray-800 text-xs rounded-full">
+                            LOCAL
+                          </span>
+                          Local stand-in
+                        </>
+                      ) : connection.authenticator === 'PAT' ? (
+                        <>
+                          <span className="px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full">
+                            PAT
+                          </span>
+                          Personal Access Token
+                        </>
+                      ) : connection.authenticator === 'SNOWFLAKE_JWT' ? (
+                        <>
+                          <span className="px-2 py-1 bg-purple-100 text-purple-800 text-xs rounded-full">
+                            KEY
+                          </span>
+                          Key pair (JWT)
+                        </>
+                      ) : connection.authenticator === 'OAUTH' ? (
+                        <>
+                          <span className="px-2 py-1 bg-indigo-100 text-indigo-800 text-xs rounded-full">
+                            OAUTH
+                          </span>
+                          OAuth
+                        </>
+                      ) : connection.authenticator === 'OAUTH_TOKEN_EXCHANGE' ? (
+                        <>
+                          <span className="px-2 py-1 bg-indigo-100 text-indigo-800 text-xs rounded-full">
+                            SSO
+                          </span>
+                          SSO token exchange
+                        </>
+                      ) : connection.authenticator === 'USERNAME_PASSWORD_MFA' ? (
+                        <>
+                          <span className="px-2 py-1 bg-yellow-100 text-yellow-800 text-xs rounded-full">
+                            MFA
+                          </span>
+                          Multi-Factor Auth
+                        </>
+                      ) : (
+                        <>
+                          <span className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-full">
+                            PWD
+                          </span>
+                          Username/Password
+                        </>
+                      )}
+                    </p>
+                  </div>
+                )}
                 <div>
                   <Label className="text-muted-foreground">Last Connected</Label>
                   <p className="text-[12px]">
@@ -302,20 +481,22 @@ export function SnowflakeSettings({ userId }: SnowflakeSettingsProps) {
             </CardContent>
             <CardFooter className="flex justify-between">
               <div className="flex gap-2">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => handleTestConnection(connection.id)}
-                  disabled={testingConnection === connection.id}
-                >
-                  {testingConnection === connection.id ? (
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                  ) : (
-                    <TestTube className="w-4 h-4" />
-                  )}
-                  Test Connection
-                </Button>
-                {!connection.isDefault && (
+                {canManage && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleTestConnection(connection.id)}
+                    disabled={testingConnection === connection.id}
+                  >
+                    {testingConnection === connection.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <TestTube className="w-4 h-4" />
+                    )}
+                    Test Connection
+                  </Button>
+                )}
+                {!connection.isDefault && isOwnList && (
                   <Button
                     variant="outline"
                     size="sm"
@@ -325,14 +506,16 @@ export function SnowflakeSettings({ userId }: SnowflakeSettingsProps) {
                   </Button>
                 )}
               </div>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => handleDeleteConnection(connection.id)}
-                className="text-red-600 hover:text-red-700"
-              >
-                <Trash2 className="w-4 h-4" />
-              </Button>
+              {canManage && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleDeleteConnection(connection.id)}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
             </CardFooter>
           </Card>
         ))}
@@ -341,25 +524,29 @@ export function SnowflakeSettings({ userId }: SnowflakeSettingsProps) {
           <Card>
             <CardContent className="text-center py-8">
               <Database className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-              <h3 className="text-lg font-semibold mb-2">No Snowflake Connections</h3>
+              <h3 className="text-lg font-semibold mb-2">No Data Connections</h3>
               <p className="text-muted-foreground mb-4">
-                Add your first Snowflake connection to start analyzing your data.
+                {canManage
+                  ? 'Add a connection to start analyzing data.'
+                  : 'An admin needs to add a connection for you before you can analyze data.'}
               </p>
-              <Button onClick={() => setShowAddForm(true)}>
-                <Plus className="w-4 h-4 mr-2" />
-                Add Connection
-              </Button>
+              {canManage && (
+                <Button onClick={() => setShowAddForm(true)}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Connection
+                </Button>
+              )}
             </CardContent>
           </Card>
         )}
       </div>
       {/* Add Connection Form */}
-      {showAddForm && (
+      {showAddForm && canManage && (
         <Card>
           <CardHeader>
-            <CardTitle>Add Snowflake Connection</CardTitle>
+            <CardTitle>Add Data Connection</CardTitle>
             <CardDescription>
-              Configure a new connection to your Snowflake data warehouse.
+              Configure a new connection to Snowflake, PostgreSQL, MySQL or a DuckDB database file.
             </CardDescription>
           </CardHeader>
           <form onSubmit={form.handleSubmit(onSubmit)}>
@@ -376,6 +563,29 @@ export function SnowflakeSettings({ userId }: SnowflakeSettingsProps) {
                     <p className="text-sm text-red-600">{form.formState.errors.name.message}</p>
                   )}
                 </div>
+                <div>
+                  <Label htmlFor="type">Source Type *</Label>
+                  <Select
+                    value={sourceType}
+                    onValueChange={(value) => {
+                      form.setValue('type', value as DataSourceType);
+                      const defaultPort = SOURCE_TYPES.find(source => source.value === value)?.defaultPort;
+                      form.setValue('port', defaultPort);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SOURCE_TYPES.map(source => (
+                        <SelectItem key={source.value} value={source.value}>{source.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {sourceType === 'snowflake' && (
                 <div>
                   <Label htmlFor="account">Account Identifier *</Label>
                   <Input
@@ -387,65 +597,220 @@ export function SnowflakeSettings({ userId }: SnowflakeSettingsProps) {
                     <p className="text-sm text-red-600">{form.formState.errors.account.message}</p>
                   )}
                 </div>
-              </div>
+              )}
 
-              <div>
-                <Label htmlFor="authenticator">Authentication Method *</Label>
-                <Select 
-                  value={form.watch('authenticator') || 'SNOWFLAKE'} 
-                  onValueChange={(value) => form.setValue('authenticator', value)}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="SNOWFLAKE">Username/Password</SelectItem>
-                    <SelectItem value="USERNAME_PASSWORD_MFA">Multi-Factor Authentication</SelectItem>
-                    <SelectItem value="PAT">Personal Access Token (PAT)</SelectItem>
-                    <SelectItem value="EXTERNALBROWSER">SSO/Browser</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+              {(sourceType === 'postgres' || sourceType === 'mysql') && (
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="col-span-2">
+                    <Label htmlFor="host">Host *</Label>
+                    <Input
+                      id="host"
+                      placeholder="db.example.com"
+                      {...form.register('host')}
+                    />
+                    {form.formState.errors.host && (
+                      <p className="text-sm text-red-600">{form.formState.errors.host.message}</p>
+                    )}
+                  </div>
+                  <div>
+                    <Label htmlFor="port">Port</Label>
+                    <Input
+                      id="port"
+                      type="number"
+                      {...form.register('port')}
+                    />
+                  </div>
+                </div>
+              )}
 
-              <div className="grid grid-cols-2 gap-4">
+              {sourceType === 'duckdb' && (
                 <div>
-                  <Label htmlFor="username">Username *</Label>
+                  <Label htmlFor="filePath">Database File</Label>
                   <Input
-                    id="username"
-                    placeholder="your_username"
-                    {...form.register('username')}
+                    id="filePath"
+                    placeholder="data/warehouse.duckdb (empty for in-memory)"
+                    {...form.register('filePath')}
                   />
-                  {form.formState.errors.username && (
-                    <p className="text-sm text-red-600">{form.formState.errors.username.message}</p>
-                  )}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Path on the server; the file is created if it does not exist.
+                  </p>
                 </div>
+              )}
+
+              {sourceType === 'snowflake' && (
                 <div>
-                  <Label htmlFor="password">
-                    {form.watch('authenticator') === 'PAT' 
-                      ? 'Personal Access Token *' 
-                      : 'Password *'
-                    }
-                  </Label>
-                  <Input
-                    id="password"
-                    type="password"
-                    placeholder={
-                      form.watch('authenticator') === 'PAT' 
-                        ? 'pat_XXXXXXXXXXXXXXXX...' 
-                        : 'your_password'
-                    }
-                    {...form.register('password')}
-                  />
-                  {form.formState.errors.password && (
-                    <p className="text-sm text-red-600">{form.formState.errors.password.message}</p>
-                  )}
-                  {form.watch('authenticator') === 'PAT' && (
-                    <p className="text-xs text-muted-foreground mt-1">
-                      PAT tokens bypass MFA and provide secure authentication for automated connections.
-                    </p>
+                  <Label htmlFor="authenticator">Authentication Method *</Label>
+                  <Select 
+                    value={form.watch('authenticator') || 'SNOWFLAKE'} 
+                    onValueChange={(value) => {
+                      form.setValue('authenticator', value);
+                      if (value === 'LOCAL') {
+                        // Pre-fill the seeded demo database so the form can be submitted as-is
+                        if (!form.getValues('account')) form.setValue('account', 'local');
+                        if (!form.getValues('username')) form.setValue('username', 'local_dev');
+                        if (!form.getValues('database')) form.setValue('database', 'DEMO_DB');
+                        if (!form.getValues('schema')) form.setValue('schema', 'SALES');
+                      }
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="SNOWFLAKE">Username/Password</SelectItem>
+                      <SelectItem value="USERNAME_PASSWORD_MFA">Multi-Factor Authentication</SelectItem>
+                      <SelectItem value="PAT">Personal Access Token (PAT)</SelectItem>
+                      <SelectItem value="SNOWFLAKE_JWT">Key Pair (JWT)</SelectItem>
+                      <SelectItem value="OAUTH">OAuth (refresh token)</SelectItem>
+                      <SelectItem value="OAUTH_TOKEN_EXCHANGE">SSO (token exchange)</SelectItem>
+                      <SelectItem value="LOCAL">Local stand-in (no credentials)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {sourceType !== 'duckdb' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="username">Username *</Label>
+                    <Input
+                      id="username"
+                      placeholder="your_username"
+                      {...form.register('username')}
+                    />
+                    {form.formState.errors.username && (
+                      <p className="text-sm text-red-600">{form.formState.errors.username.message}</p>
+                    )}
+                  </div>
+                  {!credentialAuth && <div>
+                    <Label htmlFor="password">
+                      {sourceType !== 'snowflake'
+                        ? 'Password'
+                        : form.watch('authenticator') === 'PAT' 
+                          ? 'Personal Access Token *' 
+                          : form.watch('authenticator') === 'LOCAL'
+                            ? 'Password (not required)'
+                            : 'Password *'
+                      }
+                    </Label>
+                    <Input
+                      id="password"
+                      type="password"
+                      placeholder={
+                        form.watch('authenticator') === 'PAT' 
+                          ? 'pat_XXXXXXXXXXXXXXXX...' 
+                          : 'your_password'
+                      }
+                      {...form.register('password')}
+                    />
+                    {form.formState.errors.password && (
+                      <p className="text-sm text-red-600">{form.formState.errors.password.message}</p>
+                    )}
+                    {form.watch('authenticator') === 'PAT' && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        PAT tokens bypass MFA and provide secure authentication for automated connections.
+                      </p>
+                    )}
+                  </div>}
+                </div>
+              )}
+
+              {credentialAuth === 'SNOWFLAKE_JWT' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="privateKeyFile">Private Key (.p8 / .pem) *</Label>
+                    <Input
+                      id="privateKeyFile"
+                      type="file"
+                      accept=".p8,.pem,.key"
+                      onChange={(e) => handlePrivateKeyFile(e.target.files?.[0])}
+                    />
+                    {form.formState.errors.privateKey && (
+                      <p className="text-sm text-red-600">{form.formState.errors.privateKey.message}</p>
+                    )}
+                  </div>
+                  <div>
+                    <Label htmlFor="privateKeyPassphrase">Passphrase</Label>
+                    <Input
+                      id="privateKeyPassphrase"
+                      type="password"
+                      placeholder="Only for encrypted keys"
+                      {...form.register('privateKeyPassphrase')}
+                    />
+                  </div>
+                  <p className="col-span-2 text-xs text-muted-foreground">
+                    The public key must be set on the user with ALTER USER ... SET RSA_PUBLIC_KEY.
+                  </p>
+                </div>
+              )}
+
+              {(credentialAuth === 'OAUTH' || credentialAuth === 'OAUTH_TOKEN_EXCHANGE') && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="col-span-2">
+                    <Label htmlFor="tokenEndpoint">
+                      {credentialAuth === 'OAUTH' ? 'Token Endpoint' : 'Identity Provider Token Endpoint *'}
+                    </Label>
+                    <Input
+                      id="tokenEndpoint"
+                      placeholder={credentialAuth === 'OAUTH'
+                        ? 'Empty for Snowflake OAuth (https://<account>.snowflakecomputing.com/oauth/token-request)'
+                        : 'https://login.example.com/oauth2/token'}
+                      {...form.register('tokenEndpoint')}
+                    />
+                    {form.formState.errors.tokenEndpoint && (
+                      <p className="text-sm text-red-600">{form.formState.errors.tokenEndpoint.message}</p>
+                    )}
+                  </div>
+                  <div>
+                    <Label htmlFor="clientId">Client ID *</Label>
+                    <Input id="clientId" {...form.register('clientId')} />
+                    {form.formState.errors.clientId && (
+                      <p className="text-sm text-red-600">{form.formState.errors.clientId.message}</p>
+                    )}
+                  </div>
+                  <div>
+                    <Label htmlFor="clientSecret">Client Secret</Label>
+                    <Input id="clientSecret" type="password" {...form.register('clientSecret')} />
+                  </div>
+                  {credentialAuth === 'OAUTH' ? (
+                    <div className="col-span-2">
+                      <Label htmlFor="refreshToken">Refresh Token *</Label>
+                      <Input id="refreshToken" type="password" {...form.register('refreshToken')} />
+                      {form.formState.errors.refreshToken && (
+                        <p className="text-sm text-red-600">{form.formState.errors.refreshToken.message}</p>
+                      )}
+                    </div>
+                  ) : (
+                    <>
+                      <div className="col-span-2">
+                        <Label htmlFor="subjectToken">Subject Token *</Label>
+                        <Input
+                          id="subjectToken"
+                          type="password"
+                          placeholder="Token issued by your identity provider"
+                          {...form.register('subjectToken')}
+                        />
+                        {form.formState.errors.subjectToken && (
+                          <p className="text-sm text-red-600">{form.formState.errors.subjectToken.message}</p>
+                        )}
+                      </div>
+                      <div>
+                        <Label htmlFor="audience">Audience</Label>
+                        <Input id="audience" {...form.register('audience')} />
+                      </div>
+                    </>
                   )}
+                  <div className={credentialAuth === 'OAUTH' ? 'col-span-2' : undefined}>
+                    <Label htmlFor="scope">Scope</Label>
+                    <Input id="scope" placeholder="session:role:ANALYST" {...form.register('scope')} />
+                  </div>
+                  <p className="col-span-2 text-xs text-muted-foreground">
+                    {credentialAuth === 'OAUTH'
+                      ? 'Access tokens are refreshed automatically; rotated refresh tokens are saved.'
+                      : 'The access token returned by the exchange must be accepted by a Snowflake External OAuth integration.'}
+                  </p>
                 </div>
-              </div>
+              )}
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
@@ -460,33 +825,101 @@ export function SnowflakeSettings({ userId }: SnowflakeSettingsProps) {
                   <Label htmlFor="schema">Schema</Label>
                   <Input
                     id="schema"
-                    placeholder="PUBLIC"
+                    placeholder={sourceType === 'postgres' ? 'public' : sourceType === 'duckdb' ? 'main' : 'PUBLIC'}
                     {...form.register('schema')}
                   />
                 </div>
               </div>
 
-              <div className="grid grid-cols-2 gap-4">
+              {sourceType === 'snowflake' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="warehouse">Warehouse</Label>
+                    <Input
+                      id="warehouse"
+                      placeholder="COMPUTE_WH"
+                      {...form.register('warehouse')}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="role">Role</Label>
+                    <Input
+                      id="role"
+                      placeholder="ACCOUNTADMIN"
+                      {...form.register('role')}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {(sourceType === 'postgres' || sourceType === 'mysql') && (
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="ssl"
+                    checked={form.watch('ssl') || false}
+                    onCheckedChange={(checked) => form.setValue('ssl', checked)}
+                  />
+                  <Label htmlFor="ssl">Use SSL/TLS</Label>
+                </div>
+              )}
+
+              <div>
+                <Label htmlFor="sqlPolicy">SQL Policy</Label>
+                <Select
+                  value={form.watch('sqlPolicy') || 'default'}
+                  onValueChange={(value) => form.setValue('sqlPolicy', value as SqlPolicyMode | 'default')}
+                >
+                  <SelectTrigger id="sqlPolicy">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SQL_POLICIES.map(policy => (
+                      <SelectItem key={policy.value} value={policy.value}>{policy.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Which statements agents and the execute API may run. Multi-statement SQL is always rejected.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="maxRows">Max Result Rows</Label>
+                  <Input
+                    id="maxRows"
+                    type="number"
+                    min={1}
+                    placeholder="10000"
+                    {...form.register('maxRows')}
+                  />
+                </div>
                 <div>
-                  <Label htmlFor="warehouse">Warehouse</Label>
+                  <Label htmlFor="warnScanGb">Warn Above Scan (GB)</Label>
                   <Input
-                    id="warehouse"
-                    placeholder="COMPUTE_WH"
-                    {...form.register('warehouse')}
+                    id="warnScanGb"
+                    type="number"
+                    min={0}
+                    step="any"
+                    placeholder="No warning"
+                    disabled={sourceType !== 'snowflake' && sourceType !== 'postgres'}
+                    {...form.register('warnScanGb')}
                   />
                 </div>
                 <div>
-                  <Label htmlFor="role">Role</Label>
+                  <Label htmlFor="maxScanGb">Refuse Above Scan (GB)</Label>
                   <Input
-                    id="role"
-                    placeholder="ACCOUNTADMIN"
-                    {...form.register('role')}
+                    id="maxScanGb"
+                    type="number"
+                    min={0}
+                    step="any"
+                    placeholder="No limit"
+                    disabled={sourceType !== 'snowflake' && sourceType !== 'postgres'}
+                    {...form.register('maxScanGb')}
                   />
                 </div>
               </div>
 
-
-
               <div className="flex items-center space-x-2">
                 <Switch
                   id="isDefault"
@@ -0,0 +1,51 @@
+import { CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+import type { AgentProgressStep } from '@/hooks/use-agent-stream';
+
+interface StreamingMessageProps {
+  content: string;
+  steps: AgentProgressStep[];
+}
+
+// Partial assistant message shown while the agent is still working
+export function StreamingMessage({ content, steps }: StreamingMessageProps) {
+  return (
+    <div className="space-y-3">
+      {steps.length > 0 && (
+        <ul className="space-y-2">
+          {steps.map(step => (
+            <li key={step.id} className="text-sm text-gray-700">
+              <div className="flex items-center space-x-2">
+                {step.status === 'running' ? (
+                  <Loader2 className="w-4 h-4 text-gray-500 animate-spin flex-shrink-0" />
+                ) : step.status === 'done' ? (
+                  <CheckCircle className="w-4 h-4 text-gray-600 flex-shrink-0" />
+                ) : (
+                  <AlertCircle className="w-4 h-4 text-gray-600 flex-shrink-0" />
+                )}
+                <code className="bg-gray-100 px-1 py-0.5 rounded text-xs font-mono text-gray-800">{step.toolName}</code>
+                {step.detail && <span className="text-xs text-gray-500">{step.detail}</span>}
+                {step.durationMs !== undefined && (
+                  <span className="text-xs text-gray-400">{(step.durationMs / 1000).toFixed(1)}s</span>
+                )}
+              </div>
+              {step.status === 'running' && step.output && (
+                <pre className="mt-1 ml-6 max-h-40 overflow-y-auto whitespace-pre-wrap text-xs text-gray-600 bg-gray-50 border border-gray-200 rounded p-2">
+                  {step.output}
+                </pre>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {content ? (
+        <div className="text-sm text-gray-700 leading-relaxed whitespace-pre-wrap">
+          {content}
+          <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />
+        </div>
+      ) : (
+        <span className="text-sm text-gray-600 animate-pulse">Assistant is working...</span>
+      )}
+    </div>
+  );
+}
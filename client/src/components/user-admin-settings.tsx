@@ -0,0 +1,158 @@
+import { useState, type FormEvent } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { userRoles, type PublicUser, type UserRole } from '@shared/schema';
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  viewer: 'Published dashboards only',
+  analyst: 'Chat and read-only SQL',
+  modeler: 'Also semantic models, stages and Agent Hub prompts',
+  admin: 'Also connections and users',
+};
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message.replace(/^\d+: /, '') : 'Unknown error';
+
+export function UserAdminSettings() {
+  const [newUser, setNewUser] = useState({ username: '', displayName: '', password: '', role: 'analyst' as UserRole });
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({ queryKey: ['/api/users'] });
+
+  const createUserMutation = useMutation({
+    mutationFn: async (data: typeof newUser) => {
+      const response = await apiRequest('POST', '/api/users', data);
+      return response.json() as Promise<PublicUser>;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      setNewUser({ username: '', displayName: '', password: '', role: 'analyst' });
+      toast({ title: 'User created', description: `${created.username} can now sign in.` });
+    },
+    onError: (error) => {
+      toast({ title: 'Failed to create user', description: errorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: UserRole }) => {
+      const response = await apiRequest('PATCH', `/api/users/${id}`, { role });
+      return response.json() as Promise<PublicUser>;
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({ title: 'Role updated', description: `${updated.username} is now ${updated.role}.` });
+    },
+    onError: (error) => {
+      toast({ title: 'Failed to update role', description: errorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  const handleCreate = (event: FormEvent) => {
+    event.preventDefault();
+    createUserMutation.mutate(newUser);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="w-6 h-6 animate-spin" />
+        <span className="ml-2">Loading users...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-base font-semibold">Users</h2>
+        <p className="text-muted-foreground text-[12px]">
+          Roles build on each other: viewer, analyst, modeler, admin.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 divide-y divide-gray-100">
+          {users.map((user) => (
+            <div key={user.id} className="flex items-center justify-between py-3">
+              <div className="flex items-center gap-3">
+                <Users className="w-4 h-4 text-blue-500" />
+                <div>
+                  <p className="text-sm font-medium">{user.displayName || user.username}</p>
+                  <p className="text-xs text-muted-foreground">{user.username}</p>
+                </div>
+              </div>
+              <Select
+                value={user.role || 'viewer'}
+                onValueChange={(role) => updateRoleMutation.mutate({ id: user.id, role: role as UserRole })}
+                disabled={user.id === currentUser?.id || updateRoleMutation.isPending}
+              >
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {userRoles.map(role => (
+                    <SelectItem key={role} value={role}>
+                      {role} — {ROLE_DESCRIPTIONS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">Add User</CardTitle>
+          <CardDescription>Users who sign in with single sign-on are created automatically as analysts.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="new-username">Username *</Label>
+              <Input id="new-username" value={newUser.username} onChange={(e) => setNewUser({ ...newUser, username: e.target.value })} required />
+            </div>
+            <div>
+              <Label htmlFor="new-display-name">Display Name</Label>
+              <Input id="new-display-name" value={newUser.displayName} onChange={(e) => setNewUser({ ...newUser, displayName: e.target.value })} />
+            </div>
+            <div>
+              <Label htmlFor="new-password">Password *</Label>
+              <Input id="new-password" type="password" autoComplete="new-password" minLength={8} value={newUser.password} onChange={(e) => setNewUser({ ...newUser, password: e.target.value })} required />
+            </div>
+            <div>
+              <Label htmlFor="new-role">Role</Label>
+              <Select value={newUser.role} onValueChange={(role) => setNewUser({ ...newUser, role: role as UserRole })}>
+                <SelectTrigger id="new-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {userRoles.map(role => (
+                    <SelectItem key={role} value={role}>{role}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-2 flex justify-end">
+              <Button type="submit" disabled={createUserMutation.isPending}>
+                {createUserMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+                Add User
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
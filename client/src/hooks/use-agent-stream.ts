@@ -0,0 +1,93 @@
+import { useState, useCallback } from 'react';
+
+export interface AgentProgressStep {
+  id: string;
+  toolName: string;
+  status: 'running' | 'done' | 'failed';
+  detail?: string;
+  output: string;
+  durationMs?: number;
+}
+
+// Accumulates the streamed agent events for the message currently being generated
+export function useAgentStream() {
+  const [streamingContent, setStreamingContent] = useState('');
+  const [progressSteps, setProgressSteps] = useState<AgentProgressStep[]>([]);
+
+  // Update the last running step for a tool, creating one if the tool was invoked directly
+  const updateRunningStep = (toolName: string, update: (step: AgentProgressStep) => AgentProgressStep) => {
+    setProgressSteps(prev => {
+      const index = prev.map(step => step.status === 'running' && (step.toolName === toolName || toolName === '*')).lastIndexOf(true);
+      if (index === -1) {
+        const step: AgentProgressStep = { id: `${toolName}-${prev.length}`, toolName: toolName === '*' ? 'execute_sql' : toolName, status: 'running', output: '' };
+        return [...prev, update(step)];
+      }
+      return prev.map((step, i) => (i === index ? update(step) : step));
+    });
+  };
+
+  // Returns true when the event was a streaming event and has been consumed
+  const handleStreamEvent = useCallback((event: { type: string; [key: string]: any }): boolean => {
+    switch (event.type) {
+      case 'agent_token':
+        setStreamingContent(prev => prev + event.delta);
+        return true;
+
+      case 'tool_call_started':
+        setProgressSteps(prev => [...prev, {
+          id: event.toolCallId || `${event.toolName}-${prev.length}`,
+          toolName: event.toolName,
+          status: 'running',
+          output: ''
+        }]);
+        return true;
+
+      case 'tool_output_token':
+        updateRunningStep(event.toolName, step => ({ ...step, output: step.output + event.delta }));
+        return true;
+
+      case 'query_running':
+        updateRunningStep('*', step => ({ ...step, detail: 'Running query…' }));
+        return true;
+
+      case 'rows_received':
+        updateRunningStep('*', step => ({
+          ...step,
+          detail: `${event.rowCount} rows received in ${event.executionTime}ms`
+        }));
+        return true;
+
+      case 'sql_confirmation_required':
+        updateRunningStep('*', step => ({ ...step, detail: `${event.confirmation.keyword} needs confirmation` }));
+        return true;
+
+      case 'query_job_started':
+        updateRunningStep('*', step => ({ ...step, detail: 'Still running as a background job' }));
+        return true;
+
+      case 'tool_call_finished':
+        setProgressSteps(prev => prev.map(step =>
+          step.id === event.toolCallId || (!event.toolCallId && step.toolName === event.toolName && step.status === 'running')
+            ? { ...step, status: event.success ? 'done' : 'failed', durationMs: event.durationMs }
+            : step
+        ));
+        return true;
+
+      default:
+        return false;
+    }
+  }, []);
+
+  const resetStream = useCallback(() => {
+    setStreamingContent('');
+    setProgressSteps([]);
+  }, []);
+
+  return {
+    streamingContent,
+    progressSteps,
+    isStreaming: streamingContent.length > 0 || progressSteps.length > 0,
+    handleStreamEvent,
+    resetStream
+  };
+}
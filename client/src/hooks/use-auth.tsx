@@ -0,0 +1,85 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { roleHasPermission, type Permission } from "@shared/schema";
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  displayName: string | null;
+  role: string | null;
+}
+
+interface LoginData {
+  username: string;
+  password: string;
+}
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  isLoading: boolean;
+  can: (permission: Permission) => boolean; // mirrors the server's role checks to hide what would be refused
+  loginMutation: ReturnType<typeof useLoginMutation>;
+  logoutMutation: ReturnType<typeof useLogoutMutation>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+function useLoginMutation() {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const response = await apiRequest('POST', '/api/auth/login', credentials);
+      return response.json() as Promise<AuthUser>;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(['/api/auth/me'], user);
+    },
+    onError: (error) => {
+      toast({
+        title: "Sign-in failed",
+        description: error instanceof Error ? error.message.replace(/^\d+: /, '') : 'Unknown error',
+        variant: "destructive"
+      });
+    }
+  });
+}
+
+function useLogoutMutation() {
+  return useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/auth/logout');
+    },
+    onSuccess: () => {
+      // Nothing cached for the previous user may leak into the next sign-in
+      queryClient.clear();
+      queryClient.setQueryData(['/api/auth/me'], null);
+    }
+  });
+}
+
+// Signed-in user, loaded from the session cookie
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ['/api/auth/me'],
+    queryFn: getQueryFn({ on401: 'returnNull' })
+  });
+  const loginMutation = useLoginMutation();
+  const logoutMutation = useLogoutMutation();
+  const can = (permission: Permission) => !!user && roleHasPermission(user.role, permission);
+
+  return (
+    <AuthContext.Provider value={{ user: user ?? null, isLoading, can, loginMutation, logoutMutation }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
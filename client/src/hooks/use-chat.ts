@@ -1,12 +1,14 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useWebSocket } from './use-websocket';
+import { useAgentStream } from './use-agent-stream';
 import { ChatMessage } from '@shared/schema';
 import { useToast } from './use-toast';
 
-export function useChat(sessionId: string | null, agentType: 'query' | 'yaml', userId: string) {
+export function useChat(sessionId: string | null, agentType: 'query' | 'yaml') {
   const [isLoading, setIsLoading] = useState(false);
-  const { lastMessage, sendMessage: sendWsMessage } = useWebSocket(sessionId);
+  const { streamingContent, progressSteps, handleStreamEvent, resetStream } = useAgentStream();
+  const { lastMessage, sendMessage: sendWsMessage } = useWebSocket(sessionId, handleStreamEvent);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -30,6 +32,7 @@ export function useChat(sessionId: string | null, agentType: 'query' | 'yaml', u
 
       case 'agent_response':
         setIsLoading(false);
+        resetStream();
         // Invalidate messages query to show new response
         queryClient.invalidateQueries({ 
           queryKey: ['/api/sessions', sessionId, 'messages'] 
@@ -49,6 +52,7 @@ export function useChat(sessionId: string | null, agentType: 'query' | 'yaml', u
 
       case 'error':
         setIsLoading(false);
+        resetStream();
         toast({
           title: "Error",
           description: lastMessage.message,
@@ -57,27 +61,30 @@ export function useChat(sessionId: string | null, agentType: 'query' | 'yaml', u
         break;
 
       default:
-        console.log('Unhandled message type:', lastMessage.type);
+        // Streaming events are consumed by handleStreamEvent as they arrive
+        break;
     }
-  }, [lastMessage, queryClient, sessionId, toast]);
+  }, [lastMessage, queryClient, sessionId, toast, resetStream]);
 
   const sendMessage = (content: string) => {
     if (!sessionId || !content.trim()) return;
 
     setIsLoading(true);
+    resetStream();
     
     sendWsMessage({
       type: 'chat_message',
       sessionId,
       content: content.trim(),
-      agentType,
-      userId
+      agentType
     });
   };
 
   return {
     messages: messages as ChatMessage[],
     isLoading: messagesLoading || isLoading,
+    streamingContent,
+    progressSteps,
     sendMessage
   };
 }
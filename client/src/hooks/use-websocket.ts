@@ -5,10 +5,13 @@ interface WebSocketMessage {
   [key: string]: any;
 }
 
-export function useWebSocket(sessionId: string | null) {
+// onMessage sees every message; lastMessage alone can drop bursts of streamed tokens
+export function useWebSocket(sessionId: string | null, onMessage?: (message: WebSocketMessage) => void) {
   const [isConnected, setIsConnected] = useState(false);
   const [lastMessage, setLastMessage] = useState<WebSocketMessage | null>(null);
   const socketRef = useRef<WebSocket | null>(null);
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
 
   useEffect(() => {
     if (!sessionId) return;
@@ -33,7 +36,7 @@ export function useWebSocket(sessionId: string | null) {
     socket.onmessage = (event) => {
       try {
         const message = JSON.parse(event.data);
-        console.log('Received WebSocket message:', message);
+        onMessageRef.current?.(message);
         setLastMessage(message);
       } catch (error) {
         console.error('Error parsing WebSocket message:', error);
@@ -1,10 +1,19 @@
 import { useState, useEffect, useRef, useMemo } from 'react';
 import { queryClient, apiRequest } from '@/lib/queryClient';
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { BarChart3, MessageSquare, Home, Database, ChevronLeft, ChevronRight, Minimize2, Maximize2, X, Zap, BookOpen, Settings, Cloud, Link, Send, GraduationCap, ChevronDown, Upload, Plus, Play, Save, Eye, Edit3, Brain, Search, Trash2, Check, Square, Bot } from 'lucide-react';
+import { BarChart3, MessageSquare, Home, Database, ChevronLeft, ChevronRight, Minimize2, Maximize2, X, Zap, BookOpen, Settings, Cloud, Link, Send, GraduationCap, ChevronDown, Upload, Plus, Play, Save, Eye, Edit3, Brain, Search, Trash2, Check, Square, Bot, Paperclip, Loader2 } from 'lucide-react';
 import { SnowflakeSettings } from '@/components/snowflake-settings';
 import { AgentHubSettings } from '@/components/agent-hub-settings';
+import { UserAdminSettings } from '@/components/user-admin-settings';
 import { MessageRenderer } from '@/components/message-renderer';
+import { StreamingMessage } from '@/components/streaming-message';
+import { SqlConfirmationCard, type SqlConfirmation } from '@/components/chat/sql-confirmation-card';
+import { QueryJobCard, type QueryJobHandle } from '@/components/chat/query-job-card';
+import { SchemaBrowser, SCHEMA_REFERENCE_TYPE } from '@/components/chat/schema-browser';
+import { ToolResultList } from '@/components/chat/tool-result-card';
+import { useAgentStream } from '@/hooks/use-agent-stream';
+import { useAuth } from '@/hooks/use-auth';
+import type { ToolResult, UploadedFile } from '@shared/schema';
 
 // Type definitions for messages
 interface Message {
@@ -13,8 +22,20 @@ interface Message {
   content: string;
   sessionId: string;
   createdAt: string;
+  metadata?: { sqlConfirmation?: SqlConfirmation; queryJob?: QueryJobHandle; toolResults?: ToolResult[]; [key: string]: any } | null;
 }
 
+// A file picked in the chat composer: being uploaded, loaded as a table, or refused
+interface UploadEntry {
+  key: string;
+  name: string;
+  status: 'uploading' | 'ready' | 'error';
+  upload?: UploadedFile & { attached: boolean }; // attached: the session now queries the uploads connection
+  error?: string;
+}
+
+const UPLOAD_ACCEPT = '.csv,.tsv,.txt,.json,.jsonl,.ndjson,.xlsx,.parquet';
+
 export default function ChatPage() {
   const [currentView, setCurrentView] = useState<'chat' | 'dashboards' | 'query' | 'domain-model' | 'chats' | 'settings'>('chat');
   const [agentMode, setAgentMode] = useState<'model' | 'query' | 'dashboard' | 'general'>('general');
@@ -22,8 +43,14 @@ export default function ChatPage() {
   const [currentSessionInfo, setCurrentSessionInfo] = useState<any>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStopping, setIsStopping] = useState(false);
+  // Socket and session of the message being answered, so Stop can cancel it
+  const activeRunRef = useRef<{ socket: WebSocket; sessionId: string } | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
+  const { streamingContent, progressSteps, isStreaming, handleStreamEvent, resetStream } = useAgentStream();
   const [chatInput, setChatInput] = useState('');
+  const [isSchemaBrowserOpen, setIsSchemaBrowserOpen] = useState(false);
+  const chatInputRef = useRef<HTMLInputElement>(null);
   const [isLeftSidebarCollapsed, setIsLeftSidebarCollapsed] = useState(false);
   const [isAssistantMinimized, setIsAssistantMinimized] = useState(false);
   const [isAssistantFullscreen, setIsAssistantFullscreen] = useState(false);
@@ -33,13 +60,14 @@ export default function ChatPage() {
   const [isPlusDropdownOpen, setIsPlusDropdownOpen] = useState(false);
   const [selectedChatIds, setSelectedChatIds] = useState<string[]>([]);
   const [isSelectionMode, setIsSelectionMode] = useState(false);
-  const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
+  const [uploadedFiles, setUploadedFiles] = useState<UploadEntry[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [isGenerateMode, setIsGenerateMode] = useState(false);
   const [selectedAgentType, setSelectedAgentType] = useState<string | null>(null);
   const [showMentionDropdown, setShowMentionDropdown] = useState(false);
   const [mentionPosition, setMentionPosition] = useState(0);
   const [currentMentionQuery, setCurrentMentionQuery] = useState('');
-  const [activeSettingsTab, setActiveSettingsTab] = useState<'integrations' | 'general' | 'security' | 'agent-hub'>('integrations');
+  const [activeSettingsTab, setActiveSettingsTab] = useState<'integrations' | 'general' | 'security' | 'agent-hub' | 'users'>('integrations');
   const [agentStatuses, setAgentStatuses] = useState({
     'semantic-model': true,
     'query': true,
@@ -68,17 +96,16 @@ export default function ChatPage() {
 
 
   
-  const userId = '0d493db8-bfed-4dd0-ab40-ae8a3225f8a5';
+  const { user, can, logoutMutation } = useAuth();
+  const userLabel = user?.displayName || user?.username || '';
 
   // Load agent configuration to get real tool counts
   const { data: agentConfig } = useQuery({
-    queryKey: ['/api/agent-config', userId],
-    enabled: !!userId
+    queryKey: ['/api/agent-config']
   });
 
   const { data: sessions } = useQuery({
-    queryKey: ['/api/sessions', userId],
-    enabled: !!userId,
+    queryKey: ['/api/sessions']
   });
 
   // Delete mutations
@@ -88,7 +115,7 @@ export default function ChatPage() {
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/sessions', userId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions'] });
     },
   });
 
@@ -98,7 +125,7 @@ export default function ChatPage() {
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/sessions', userId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions'] });
       setSelectedChatIds([]);
       setIsSelectionMode(false);
     },
@@ -195,33 +222,35 @@ export default function ChatPage() {
 
     socket.onmessage = (event) => {
       const data = JSON.parse(event.data);
+      if (handleStreamEvent(data)) return;
       
       if (data.type === 'message_saved') {
         setMessages(prev => [...prev, data.message]);
       } else if (data.type === 'agent_response') {
         setMessages(prev => [...prev, data.message]);
         setIsLoading(false);
+        resetStream();
       } else if (data.type === 'agent_typing') {
         setIsLoading(data.isTyping);
       }
     };
 
     return () => socket.close();
-  }, [currentSessionId]);
+  }, [currentSessionId, handleStreamEvent, resetStream]);
 
   // Create initial session
   useEffect(() => {
-    if (!currentSessionId && userId) {
+    if (!currentSessionId) {
       createNewSession();
     }
-  }, [userId]);
+  }, []);
 
   const createNewSession = async () => {
     try {
       const response = await fetch('/api/sessions', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId, agentType: 'query' })
+        body: JSON.stringify({ agentType: 'query' })
       });
       if (response.ok) {
         const session = await response.json();
@@ -280,9 +309,13 @@ export default function ChatPage() {
   const handleChatSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!chatInput.trim() || isLoading) return;
-    
+
     const messageContent = chatInput.trim();
-    
+    setChatInput('');
+    await sendChatMessage(messageContent);
+  };
+
+  const sendChatMessage = async (messageContent: string) => {
     // Ensure we have a session ID
     let sessionId = currentSessionId;
     if (!sessionId) {
@@ -290,7 +323,7 @@ export default function ChatPage() {
         const response = await fetch('/api/sessions', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ userId, agentType: 'query' })
+          body: JSON.stringify({ agentType: 'query' })
         });
         if (response.ok) {
           const session = await response.json();
@@ -319,16 +352,18 @@ export default function ChatPage() {
       : 'general'; // Default to general assistant for all chat conversations
     setAgentMode(detectedMode);
     
-    setChatInput('');
     // Don't clear selected agent - keep it active for this conversation
     setIsGenerateMode(false);
     setIsLoading(true);
+    setIsStopping(false);
+    resetStream();
 
     try {
       // Use existing WebSocket connection for sending messages
       const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
       const wsUrl = `${protocol}//${window.location.host}/ws`;
       const socket = new WebSocket(wsUrl);
+      activeRunRef.current = { socket, sessionId };
 
       socket.onopen = () => {
         // First join the session
@@ -344,25 +379,28 @@ export default function ChatPage() {
           content: messageContent,
           agentType: detectedMode === 'query' ? 'query' : 
                     detectedMode === 'model' ? 'yaml' :
-                    detectedMode === 'dashboard' ? 'dashboards' : 'general',
-          userId: userId
+                    detectedMode === 'dashboard' ? 'dashboards' : 'general'
         }));
       };
 
       socket.onmessage = (event) => {
         const data = JSON.parse(event.data);
-        console.log('Received:', data);
+        if (handleStreamEvent(data)) return;
         
         if (data.type === 'message_saved') {
           setMessages(prev => [...prev, data.message]);
         } else if (data.type === 'agent_response') {
           setMessages(prev => [...prev, data.message]);
           setIsLoading(false);
+          setIsStopping(false);
+          resetStream();
           socket.close();
         } else if (data.type === 'agent_typing') {
           setIsLoading(data.isTyping);
         } else if (data.type === 'error') {
           setIsLoading(false);
+          setIsStopping(false);
+          resetStream();
           console.error('Agent error:', data.message);
           socket.close();
         }
@@ -378,6 +416,24 @@ export default function ChatPage() {
     }
   };
 
+  // Cancel the running query and LLM call; the server still answers with a (cancelled) response
+  const handleStop = async () => {
+    const run = activeRunRef.current;
+    if (!run || isStopping) return;
+    setIsStopping(true);
+
+    if (run.socket.readyState === WebSocket.OPEN) {
+      run.socket.send(JSON.stringify({ type: 'cancel', sessionId: run.sessionId }));
+      return;
+    }
+    try {
+      await apiRequest('POST', `/api/sessions/${run.sessionId}/cancel`);
+    } catch (error) {
+      console.error('Failed to cancel request:', error);
+      setIsStopping(false);
+    }
+  };
+
   const handleAssistantToggle = () => {
     if (isAssistantMinimized) {
       // Minimized -> Normal
@@ -496,6 +552,28 @@ export default function ChatPage() {
   // Available mentions for autocomplete - filtered by active agents
   const availableMentions = agentDefinitions.filter(agent => agent.active);
 
+  // Table and column references from the schema browser go in at the cursor, separated by spaces
+  const insertIntoChat = (text: string, position?: number) => {
+    const at = position ?? chatInputRef.current?.selectionStart ?? chatInput.length;
+    const before = chatInput.slice(0, at);
+    const after = chatInput.slice(at);
+    const inserted = `${before && !before.endsWith(' ') ? ' ' : ''}${text}${after && !after.startsWith(' ') ? ' ' : ''}`;
+    setChatInput(before + inserted + after);
+    requestAnimationFrame(() => {
+      const input = chatInputRef.current;
+      if (!input) return;
+      input.focus();
+      input.setSelectionRange(before.length + inserted.length, before.length + inserted.length);
+    });
+  };
+
+  const handleSchemaDrop = (e: React.DragEvent<HTMLInputElement>) => {
+    const reference = e.dataTransfer.getData(SCHEMA_REFERENCE_TYPE);
+    if (!reference) return; // other drops keep the browser's default handling
+    e.preventDefault();
+    insertIntoChat(reference);
+  };
+
   // Handle @mention input detection and autocomplete
   const handleInputChange = (value: string) => {
     setChatInput(value);
@@ -629,8 +707,7 @@ export default function ChatPage() {
           body: JSON.stringify({
             content: 'initialize_system',
             agentType: 'query',
-            sessionId: currentSessionId,
-            userId: userId
+            sessionId: currentSessionId
           })
         });
 
@@ -660,6 +737,39 @@ export default function ChatPage() {
     setUploadedFiles(prev => prev.filter((_, i) => i !== index));
   };
 
+  // Each file is sent as the raw request body and loaded as a table of the "Uploaded files" connection
+  const uploadFile = async (file: File) => {
+    const key = `${file.name}-${Date.now()}`;
+    const update = (changes: Partial<UploadEntry>) =>
+      setUploadedFiles(prev => prev.map(entry => entry.key === key ? { ...entry, ...changes } : entry));
+    setUploadedFiles(prev => [...prev, { key, name: file.name, status: 'uploading' }]);
+
+    try {
+      const search = new URLSearchParams({ fileName: file.name });
+      if (currentSessionId) search.set('sessionId', currentSessionId);
+      const response = await fetch(`/api/uploads?${search.toString()}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: file,
+        credentials: 'include'
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.message || response.statusText);
+      }
+      update({ status: 'ready', upload: body });
+      queryClient.invalidateQueries({ queryKey: ['/api/uploads'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/connections'] });
+    } catch (error) {
+      update({ status: 'error', error: error instanceof Error ? error.message : 'Upload failed' });
+    }
+  };
+
+  const handleFilesSelected = (files: FileList | null) => {
+    Array.from(files || []).forEach(file => uploadFile(file));
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
   const handleCreateModel = () => {
     // Generate example YAML content
     const exampleYaml = `version: 1
@@ -950,11 +1060,11 @@ compliance:
                 className="w-full flex items-center space-x-3 p-3 hover:bg-gray-50 rounded-md transition-colors"
               >
                 <div className="w-8 h-8 bg-gray-300 rounded-full flex items-center justify-center">
-                  <span className="text-sm font-medium text-gray-600">U</span>
+                  <span className="text-sm font-medium text-gray-600">{userLabel.charAt(0).toUpperCase()}</span>
                 </div>
                 <div className="flex-1 min-w-0 text-left">
-                  <p className="text-sm font-medium text-gray-900 truncate">user@datamind.com</p>
-                  <p className="text-xs text-gray-500">Free Plan</p>
+                  <p className="text-sm font-medium text-gray-900 truncate">{userLabel}</p>
+                  <p className="text-xs text-gray-500">{user?.username}</p>
                 </div>
                 <ChevronDown className={`w-4 h-4 text-gray-500 transform transition-transform ${isProfileDropdownOpen ? 'rotate-180' : ''}`} />
               </button>
@@ -994,6 +1104,7 @@ compliance:
                   <div className="border-t border-gray-100 my-1"></div>
                   
                   <button
+                    onClick={() => logoutMutation.mutate()}
                     className="w-full flex items-center space-x-3 px-4 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-50 transition-colors"
                   >
                     <X className="w-4 h-4" />
@@ -1010,7 +1121,7 @@ compliance:
                 title="Profile"
               >
                 <div className="w-6 h-6 bg-gray-300 rounded-full flex items-center justify-center">
-                  <span className="text-xs font-medium text-gray-600">U</span>
+                  <span className="text-xs font-medium text-gray-600">{userLabel.charAt(0).toUpperCase()}</span>
                 </div>
               </button>
               
@@ -1018,8 +1129,8 @@ compliance:
               {isProfileDropdownOpen && (
                 <div className="absolute bottom-full left-full ml-2 mb-2 bg-white border border-gray-200 rounded-lg shadow-lg py-2 z-50 min-w-48">
                   <div className="px-4 py-2 border-b border-gray-100">
-                    <p className="text-sm font-medium text-gray-900">user@datamind.com</p>
-                    <p className="text-xs text-gray-500">Free Plan</p>
+                    <p className="text-sm font-medium text-gray-900">{userLabel}</p>
+                    <p className="text-xs text-gray-500">{user?.username}</p>
                   </div>
                   
                   <button
@@ -1054,6 +1165,7 @@ compliance:
                   <div className="border-t border-gray-100 my-1"></div>
                   
                   <button
+                    onClick={() => logoutMutation.mutate()}
                     className="w-full flex items-center space-x-3 px-4 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-50 transition-colors"
                   >
                     <X className="w-4 h-4" />
@@ -1069,7 +1181,8 @@ compliance:
       <div className="flex-1 flex flex-col">
         {currentView === 'chat' ? (
           /* New Chat View - Fullscreen Chat Interface */
-          (<div className="flex-1 flex flex-col">
+          (<div className="flex-1 flex min-h-0">
+          <div className="flex-1 flex flex-col">
             {/* Chat Header */}
             <div className="p-4 border-b border-gray-200">
               <div className="mb-3 flex items-center justify-between">
@@ -1110,11 +1223,25 @@ compliance:
                     </span>
                   )}
                 </div>
-                {currentSessionInfo && (
-                  <div className="text-sm text-gray-500">
-                    {new Date(currentSessionInfo.createdAt).toLocaleDateString()} • {new Date(currentSessionInfo.createdAt).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
-                  </div>
-                )}
+                <div className="flex items-center space-x-3">
+                  {currentSessionInfo && (
+                    <div className="text-sm text-gray-500">
+                      {new Date(currentSessionInfo.createdAt).toLocaleDateString()} • {new Date(currentSessionInfo.createdAt).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+                    </div>
+                  )}
+                  <button
+                    onClick={() => setIsSchemaBrowserOpen(!isSchemaBrowserOpen)}
+                    className={`flex items-center space-x-2 px-3 py-1.5 text-sm rounded-md border transition-colors ${
+                      isSchemaBrowserOpen
+                        ? 'bg-blue-50 text-blue-700 border-blue-200'
+                        : 'text-gray-600 border-gray-300 hover:bg-gray-50'
+                    }`}
+                    title="Browse databases, tables and columns"
+                  >
+                    <Database className="w-4 h-4" />
+                    <span>Schema</span>
+                  </button>
+                </div>
               </div>
               <p className="text-gray-600">
                 {currentSessionInfo 
@@ -1152,15 +1279,33 @@ compliance:
                         : 'bg-white border border-gray-200 shadow-sm'
                     }`}>
                       <MessageRenderer content={message.content} role={message.role} />
+                      {message.role === 'assistant' && message.metadata?.toolResults && (
+                        <ToolResultList messageId={message.id} results={message.metadata.toolResults} />
+                      )}
+                      {message.role === 'assistant' && message.metadata?.sqlConfirmation && (
+                        <SqlConfirmationCard
+                          confirmation={message.metadata.sqlConfirmation}
+                          onRun={(content) => !isLoading && sendChatMessage(content)}
+                        />
+                      )}
+                      {message.role === 'assistant' && message.metadata?.queryJob && (
+                        <QueryJobCard job={message.metadata.queryJob} />
+                      )}
                     </div>
                   </div>
                 ))}
                 
                 {isLoading && (
                   <div className="flex justify-start">
-                    <div className="bg-gray-100 px-4 py-3 rounded-lg text-gray-600">
-                      <span className="animate-pulse">Assistant is typing...</span>
-                    </div>
+                    {isStreaming ? (
+                      <div className="max-w-2xl px-4 py-3 rounded-lg bg-white border border-gray-200 shadow-sm">
+                        <StreamingMessage content={streamingContent} steps={progressSteps} />
+                      </div>
+                    ) : (
+                      <div className="bg-gray-100 px-4 py-3 rounded-lg text-gray-600">
+                        <span className="animate-pulse">Assistant is typing...</span>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -1182,8 +1327,19 @@ compliance:
                     </div>
                     <div className="flex flex-wrap gap-2">
                       {uploadedFiles.map((file, index) => (
-                        <div key={index} className="flex items-center space-x-2 bg-white px-3 py-1 rounded-md border border-blue-200">
+                        <div
+                          key={file.key}
+                          title={file.error}
+                          className={`flex items-center space-x-2 bg-white px-3 py-1 rounded-md border ${file.status === 'error' ? 'border-red-200' : 'border-blue-200'}`}
+                        >
+                          {file.status === 'uploading' && <Loader2 className="w-3 h-3 text-blue-600 animate-spin" />}
                           <span className="text-sm text-gray-700">{file.name}</span>
+                          {file.upload && (
+                            <span className="text-xs text-gray-500">
+                              <code className="font-mono">{file.upload.tableName}</code> · {file.upload.rowCount.toLocaleString()} rows
+                            </span>
+                          )}
+                          {file.status === 'error' && <span className="text-xs text-red-600">Failed</span>}
                           <button
                             onClick={() => removeUploadedFile(index)}
                             className="text-gray-400 hover:text-red-600"
@@ -1193,6 +1349,11 @@ compliance:
                         </div>
                       ))}
                     </div>
+                    {uploadedFiles.some(file => file.upload && !file.upload.attached) && (
+                      <p className="mt-2 text-xs text-blue-800">
+                        Ask the agent to connect to "Uploaded files" to query these tables.
+                      </p>
+                    )}
                   </div>
                 )}
                 {/* Agent Mode Indicator - Above the input */}
@@ -1245,12 +1406,31 @@ compliance:
                 )}
 
                 <form onSubmit={handleChatSubmit} className="flex space-x-4">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    accept={UPLOAD_ACCEPT}
+                    onChange={(e) => handleFilesSelected(e.target.files)}
+                    className="hidden"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    title="Upload CSV, JSON, XLSX or Parquet files to query"
+                    className="px-3 py-3 text-gray-500 border border-gray-300 rounded-lg hover:text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    <Paperclip className="w-5 h-5" />
+                  </button>
                   <div className="relative flex-1">
                     <input
+                      ref={chatInputRef}
                       type="text"
                       value={chatInput}
                       onChange={(e) => handleInputChange(e.target.value)}
                       onKeyDown={handleKeyDown}
+                      onDragOver={(e) => e.dataTransfer.types.includes(SCHEMA_REFERENCE_TYPE) && e.preventDefault()}
+                      onDrop={handleSchemaDrop}
                       placeholder={
                         getContextualAgentMode() || selectedAgentType
                           ? `Ask anything...`
@@ -1316,20 +1496,36 @@ compliance:
                       </div>
                     )}
                   </div>
-                  <button
-                    type="submit"
-                    disabled={!chatInput.trim() || isLoading}
-                    className={`px-6 py-3 text-white rounded-lg font-medium focus:outline-none focus:ring-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
-                      isGenerateMode
-                        ? 'bg-blue-700 hover:bg-blue-800 focus:ring-blue-600'
-                        : 'bg-blue-600 hover:bg-blue-700 focus:ring-blue-500'
-                    }`}
-                  >
-                    {isGenerateMode ? 'Generate' : 'Send'}
-                  </button>
+                  {isLoading ? (
+                    <button
+                      type="button"
+                      onClick={handleStop}
+                      disabled={isStopping}
+                      className="flex items-center space-x-2 px-6 py-3 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      <Square className="w-4 h-4 fill-current" />
+                      <span>{isStopping ? 'Stopping...' : 'Stop'}</span>
+                    </button>
+                  ) : (
+                    <button
+                      type="submit"
+                      disabled={!chatInput.trim()}
+                      className={`px-6 py-3 text-white rounded-lg font-medium focus:outline-none focus:ring-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
+                        isGenerateMode
+                          ? 'bg-blue-700 hover:bg-blue-800 focus:ring-blue-600'
+                          : 'bg-blue-600 hover:bg-blue-700 focus:ring-blue-500'
+                      }`}
+                    >
+                      {isGenerateMode ? 'Generate' : 'Send'}
+                    </button>
+                  )}
                 </form>
               </div>
             </div>
+          </div>
+          {isSchemaBrowserOpen && (
+            <SchemaBrowser onInsert={(text) => insertIntoChat(text)} onClose={() => setIsSchemaBrowserOpen(false)} />
+          )}
           </div>)
         ) : currentView === 'dashboard' ? (
           <div className="flex-1 p-6">
@@ -1577,6 +1773,18 @@ compliance:
                   >
                     Security
                   </button>
+                  {can('users.manage') && (
+                    <button 
+                      onClick={() => setActiveSettingsTab('users')}
+                      className={`border-transparent py-2 px-1 text-sm font-medium border-b-2 ${
+                        activeSettingsTab === 'users' 
+                          ? 'text-blue-600 border-blue-600' 
+                          : 'text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                      }`}
+                    >
+                      Users
+                    </button>
+                  )}
                 </nav>
               </div>
             </div>
@@ -1585,7 +1793,7 @@ compliance:
             {activeSettingsTab === 'integrations' && (
             <div className="space-y-4">
               {/* Snowflake Configuration */}
-              <SnowflakeSettings userId={userId} />
+              <SnowflakeSettings />
               
               {/* Other Data Sources */}
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
@@ -1710,7 +1918,12 @@ compliance:
 
             {/* Agent Hub Content */}
             {activeSettingsTab === 'agent-hub' && (
-              <AgentHubSettings userId="0d493db8-bfed-4dd0-ab40-ae8a3225f8a5" />
+              <AgentHubSettings />
+            )}
+
+            {/* Users Content */}
+            {activeSettingsTab === 'users' && can('users.manage') && (
+              <UserAdminSettings />
             )}
           </div>
         ) : currentView === 'models' ? (
@@ -2270,9 +2483,15 @@ compliance:
                   
                   {isLoading && (
                     <div className="flex justify-start">
-                      <div className="bg-gray-100 px-3 py-2 rounded-lg text-sm text-gray-600">
-                        <span className="animate-pulse">Assistant is typing...</span>
-                      </div>
+                      {isStreaming ? (
+                        <div className="max-w-2xl px-3 py-2 rounded-lg bg-white border border-gray-200 shadow-sm">
+                          <StreamingMessage content={streamingContent} steps={progressSteps} />
+                        </div>
+                      ) : (
+                        <div className="bg-gray-100 px-3 py-2 rounded-lg text-sm text-gray-600">
+                          <span className="animate-pulse">Assistant is typing...</span>
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
@@ -2288,13 +2507,25 @@ compliance:
                       className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       disabled={isLoading}
                     />
-                    <button
-                      type="submit"
-                      disabled={!chatInput.trim() || isLoading}
-                      className="px-3 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                      Send
-                    </button>
+                    {isLoading ? (
+                      <button
+                        type="button"
+                        onClick={handleStop}
+                        disabled={isStopping}
+                        className="flex items-center space-x-1 px-3 py-2 bg-red-600 text-white rounded-md text-sm font-medium hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Square className="w-3 h-3 fill-current" />
+                        <span>{isStopping ? 'Stopping...' : 'Stop'}</span>
+                      </button>
+                    ) : (
+                      <button
+                        type="submit"
+                        disabled={!chatInput.trim()}
+                        className="px-3 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Send
+                      </button>
+                    )}
                   </form>
                 </div>
               </div>
@@ -2385,9 +2616,15 @@ compliance:
                 
                 {isLoading && (
                   <div className="flex justify-start">
-                    <div className="bg-gray-100 px-4 py-3 rounded-lg text-gray-600">
-                      <span className="animate-pulse">Assistant is typing...</span>
-                    </div>
+                    {isStreaming ? (
+                      <div className="max-w-2xl px-4 py-3 rounded-lg bg-white border border-gray-200 shadow-sm">
+                        <StreamingMessage content={streamingContent} steps={progressSteps} />
+                      </div>
+                    ) : (
+                      <div className="bg-gray-100 px-4 py-3 rounded-lg text-gray-600">
+                        <span className="animate-pulse">Assistant is typing...</span>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -2405,13 +2642,25 @@ compliance:
                     className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     disabled={isLoading}
                   />
-                  <button
-                    type="submit"
-                    disabled={!chatInput.trim() || isLoading}
-                    className="px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    Send
-                  </button>
+                  {isLoading ? (
+                    <button
+                      type="button"
+                      onClick={handleStop}
+                      disabled={isStopping}
+                      className="flex items-center space-x-2 px-6 py-3 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Square className="w-4 h-4 fill-current" />
+                      <span>{isStopping ? 'Stopping...' : 'Stop'}</span>
+                    </button>
+                  ) : (
+                    <button
+                      type="submit"
+                      disabled={!chatInput.trim()}
+                      className="px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Send
+                    </button>
+                  )}
                 </form>
               </div>
             </div>
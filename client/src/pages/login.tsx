@@ -0,0 +1,72 @@
+import { useState, type FormEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, LogIn } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+
+interface AuthProviders {
+  local: boolean;
+  signup: boolean;
+  oidc: { name: string } | null;
+}
+
+export default function LoginPage() {
+  const { loginMutation } = useAuth();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const { data: providers } = useQuery<AuthProviders>({ queryKey: ['/api/auth/providers'] });
+
+  // Set by the OIDC callback when sign-in with the provider failed
+  const redirectError = new URLSearchParams(window.location.search).get('error');
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    loginMutation.mutate({ username, password });
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-sm mx-4">
+        <CardContent className="pt-6">
+          <h1 className="text-2xl font-bold text-gray-900 mb-1">DataMind</h1>
+          <p className="text-sm text-gray-600 mb-6">Sign in to continue</p>
+
+          {redirectError && (
+            <p className="mb-4 text-sm text-red-600">{redirectError}</p>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="username">Username</Label>
+              <Input id="username" autoComplete="username" value={username} onChange={(e) => setUsername(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input id="password" type="password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} required />
+            </div>
+            <Button type="submit" className="w-full" disabled={loginMutation.isPending}>
+              {loginMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <LogIn className="w-4 h-4 mr-2" />}
+              Sign in
+            </Button>
+          </form>
+
+          {providers?.oidc && (
+            <>
+              <div className="flex items-center my-4">
+                <div className="flex-1 border-t border-gray-200" />
+                <span className="px-3 text-xs text-gray-500">or</span>
+                <div className="flex-1 border-t border-gray-200" />
+              </div>
+              <Button variant="outline" className="w-full" onClick={() => { window.location.href = '/api/auth/oidc/login'; }}>
+                Continue with {providers.oidc.name}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { VisualizationCard } from "@/components/chat/visualization-card";
+import { useAuth } from "@/hooks/use-auth";
+import type { Visualization } from "@shared/schema";
+
+// Home page for viewers, who can only see what analysts have published
+export default function PublishedDashboardsPage() {
+  const { user, logoutMutation } = useAuth();
+  const { data: published = [], isLoading } = useQuery<Visualization[]>({ queryKey: ['/api/published'] });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-slate-200">
+        <div className="max-w-6xl mx-auto px-6 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">DataMind</h1>
+            <p className="text-sm text-gray-600">Published dashboards</p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <span className="text-sm text-gray-700">{user?.displayName || user?.username}</span>
+            <Button variant="outline" size="sm" onClick={() => logoutMutation.mutate()}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Log out
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 py-6">
+        {isLoading && (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        )}
+
+        {!isLoading && published.length === 0 && (
+          <div className="text-center py-16 text-sm text-slate-500">
+            Nothing has been published yet.
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {published.map(visualization => (
+            <VisualizationCard key={visualization.id} visualization={visualization} readOnly />
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
+import { randomBytes } from "crypto";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { storage } from "./storage";
+import { hashPassword, verifyPassword } from "./services/passwords";
+import { oidcService, type OidcPendingLogin, type OidcProfile } from "./services/oidc";
+import type { User as SelectUser, PublicUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    oidcLogin?: OidcPendingLogin;
+    passport?: { user?: string };
+  }
+}
+
+const DEFAULT_SESSION_HOURS = 24 * 7;
+const SESSION_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Login sessions kept in SQLite so a restart does not sign everyone out
+class SqliteSessionStore extends session.Store {
+  constructor(private maxAgeMs: number) {
+    super();
+    setInterval(() => {
+      storage.deleteExpiredAuthSessions().catch(error => console.error('Failed to prune login sessions:', error));
+    }, SESSION_PRUNE_INTERVAL_MS).unref();
+  }
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void): void {
+    storage.getAuthSession(sid).then(
+      stored => callback(null, stored && stored.expiresAt > new Date() ? stored.data as session.SessionData : null),
+      callback
+    );
+  }
+
+  set(sid: string, data: session.SessionData, callback?: (err?: any) => void): void {
+    storage.saveAuthSession(sid, data, this.expiresAt(data)).then(() => callback?.(), callback);
+  }
+
+  touch(sid: string, data: session.SessionData, callback?: () => void): void {
+    storage.saveAuthSession(sid, data, this.expiresAt(data)).then(() => callback?.(), () => callback?.());
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void): void {
+    storage.deleteAuthSession(sid).then(() => callback?.(), callback);
+  }
+
+  private expiresAt(data: session.SessionData): Date {
+    return data.cookie?.expires ? new Date(data.cookie.expires) : new Date(Date.now() + this.maxAgeMs);
+  }
+}
+
+let sessionMiddleware: RequestHandler | undefined;
+
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+  console.warn('SESSION_SECRET is not set; using a random secret, so sign-ins end when the server restarts');
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Session cookie, passport (local username/password) and the /api/auth routes, including
+ * OIDC sign-in when OIDC_ISSUER_URL and OIDC_CLIENT_ID are set
+ */
+export function setupAuth(app: Express) {
+  const maxAgeMs = (Number(process.env.SESSION_MAX_AGE_HOURS) || DEFAULT_SESSION_HOURS) * 60 * 60 * 1000;
+  const isProduction = process.env.NODE_ENV === 'production';
+  if (isProduction) {
+    app.set('trust proxy', 1);
+  }
+
+  sessionMiddleware = session({
+    secret: getSessionSecret(),
+    store: new SqliteSessionStore(maxAgeMs),
+    resave: false,
+    saveUninitialized: false,
+    cookie: { httpOnly: true, sameSite: 'lax', secure: isProduction, maxAge: maxAgeMs }
+  });
+
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return done(null, false, { message: 'Invalid username or password' });
+      }
+      return done(null, user);
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      done(null, (await storage.getUser(id)) || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.get('/api/auth/providers', (_req, res) => {
+    res.json({
+      local: true,
+      signup: process.env.AUTH_ALLOW_SIGNUP === 'true',
+      oidc: oidcService.isEnabled() ? { name: oidcService.getProviderName() } : null
+    });
+  });
+
+  app.post('/api/auth/login', (req, res, next) => {
+    passport.authenticate('local', (error: any, user: SelectUser | false, info?: { message: string }) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: info?.message || 'Invalid username or password' });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post('/api/auth/register', async (req, res, next) => {
+    if (process.env.AUTH_ALLOW_SIGNUP !== 'true') {
+      return res.status(403).json({ message: 'Sign-up is disabled' });
+    }
+    try {
+      const { username, password, displayName } = req.body;
+      if (typeof username !== 'string' || !username.trim() || typeof password !== 'string' || password.length < 8) {
+        return res.status(400).json({ message: 'A username and a password of at least 8 characters are required' });
+      }
+      if (await storage.getUserByUsername(username.trim())) {
+        return res.status(409).json({ message: 'Username is already taken' });
+      }
+
+      const user = await storage.createUser({
+        username: username.trim(),
+        password: await hashPassword(password),
+        displayName: typeof displayName === 'string' && displayName.trim() ? displayName.trim() : null
+      });
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post('/api/auth/logout', (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => {
+        res.clearCookie('connect.sid');
+        res.json({ success: true });
+      });
+    });
+  });
+
+  app.get('/api/auth/me', (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not signed in' });
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  app.get('/api/auth/oidc/login', async (req, res) => {
+    if (!oidcService.isEnabled()) {
+      return res.status(404).json({ message: 'OIDC sign-in is not configured' });
+    }
+    try {
+      const { url, pending } = await oidcService.createLogin(`${req.protocol}://${req.get('host')}/api/auth/oidc/callback`);
+      req.session.oidcLogin = pending;
+      req.session.save(() => res.redirect(url));
+    } catch (error) {
+      console.error('Error starting OIDC sign-in:', error);
+      res.redirect(`/login?error=${encodeURIComponent('Single sign-on is unavailable')}`);
+    }
+  });
+
+  app.get('/api/auth/oidc/callback', async (req, res) => {
+    const pending = req.session.oidcLogin;
+    delete req.session.oidcLogin;
+    try {
+      if (!pending) {
+        throw new Error('No sign-in is in progress');
+      }
+      const profile = await oidcService.completeLogin(req.query, pending);
+      const user = await findOrCreateOidcUser(profile);
+      req.login(user, (loginError) => {
+        if (loginError) {
+          console.error('Error completing OIDC sign-in:', loginError);
+          return res.redirect(`/login?error=${encodeURIComponent('Sign-in failed')}`);
+        }
+        res.redirect('/');
+      });
+    } catch (error) {
+      console.error('Error completing OIDC sign-in:', error);
+      res.redirect(`/login?error=${encodeURIComponent(error instanceof Error ? error.message : 'Sign-in failed')}`);
+    }
+  });
+}
+
+// First sign-in creates a local user; a taken username gets a suffix rather than being linked
+async function findOrCreateOidcUser(profile: OidcProfile): Promise<SelectUser> {
+  const identity = await storage.getUserIdentity(profile.issuer, profile.subject);
+  if (identity) {
+    const user = await storage.getUser(identity.userId);
+    if (user) return user;
+  }
+
+  let username = profile.username;
+  if (await storage.getUserByUsername(username)) {
+    username = `${profile.username}-${profile.subject.slice(-6)}`;
+  }
+  const user = await storage.createUser({
+    username,
+    password: '',
+    displayName: profile.displayName ?? null
+  });
+  await storage.createUserIdentity(profile.issuer, profile.subject, user.id);
+  console.log(`Created user ${username} for OIDC subject ${profile.subject}`);
+  return user;
+}
+
+/**
+ * Rejects API requests without a signed-in user
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: 'Not signed in' });
+  }
+  next();
+}
+
+/**
+ * The signed-in user of a WebSocket upgrade request, read from the session cookie
+ */
+export function authenticateUpgrade(request: IncomingMessage): Promise<SelectUser | undefined> {
+  return new Promise((resolve, reject) => {
+    if (!sessionMiddleware) {
+      return reject(new Error('setupAuth must run before WebSocket connections are accepted'));
+    }
+    const req = request as Request;
+    sessionMiddleware(req, {} as Response, async (error?: unknown) => {
+      if (error) return reject(error);
+      const userId = req.session?.passport?.user;
+      try {
+        resolve(userId ? await storage.getUser(userId) : undefined);
+      } catch (lookupError) {
+        reject(lookupError);
+      }
+    });
+  });
+}
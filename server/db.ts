@@ -2,11 +2,18 @@ import Database from 'better-sqlite3';
 import { drizzle } from 'drizzle-orm/better-sqlite3';
 import { migrate } from 'drizzle-orm/better-sqlite3/migrator';
 import * as schema from "@shared/schema";
-import { existsSync, mkdirSync } from 'fs';
+import { appendFileSync, chmodSync, existsSync, mkdirSync } from 'fs';
 import { dirname } from 'path';
+import { randomBytes } from 'crypto';
+import { hashPasswordSync, isPasswordHash, verifyPasswordSync } from './services/passwords';
+import { secretsService, isSealedSecret } from './services/secrets';
 
 // Use local SQLite database for standalone mode
 const dbPath = './data/datamind.db';
+// Passwords anyone could guess: the one user_1 was seeded with before passwords were hashed, and the README example
+const KNOWN_DEFAULT_PASSWORDS = ['password', 'change_me'];
+// Generated passwords go here (owner-only), never to the log
+const GENERATED_PASSWORDS_FILE = './data/generated-passwords.txt';
 const dbDir = dirname(dbPath);
 
 if (!existsSync(dbDir)) {
@@ -37,6 +44,19 @@ export function initializeDatabase() {
         role TEXT DEFAULT 'analyst',
         created_at INTEGER
       )`,
+      `CREATE TABLE IF NOT EXISTS user_identities (
+        provider TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        created_at INTEGER,
+        PRIMARY KEY(provider, subject),
+        FOREIGN KEY(user_id) REFERENCES users(id)
+      )`,
+      `CREATE TABLE IF NOT EXISTS auth_sessions (
+        sid TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      )`,
       `CREATE TABLE IF NOT EXISTS chat_sessions (
         id TEXT PRIMARY KEY,
         user_id TEXT,
@@ -79,18 +99,22 @@ export function initializeDatabase() {
         FOREIGN KEY(user_id) REFERENCES users(id),
         FOREIGN KEY(visualization_id) REFERENCES visualizations(id)
       )`,
-      `CREATE TABLE IF NOT EXISTS snowflake_connections (
+      `CREATE TABLE IF NOT EXISTS data_connections (
         id TEXT PRIMARY KEY,
         user_id TEXT NOT NULL,
         name TEXT NOT NULL,
-        account TEXT NOT NULL,
-        username TEXT NOT NULL,
+        type TEXT NOT NULL DEFAULT 'snowflake',
+        account TEXT,
+        host TEXT,
+        port INTEGER,
+        username TEXT,
         password TEXT,
         database TEXT,
         schema TEXT,
         warehouse TEXT,
         role TEXT,
         authenticator TEXT DEFAULT 'SNOWFLAKE',
+        options TEXT,
         is_default INTEGER DEFAULT 0,
         is_active INTEGER DEFAULT 1,
         last_connected INTEGER,
@@ -98,6 +122,95 @@ export function initializeDatabase() {
         updated_at INTEGER,
         FOREIGN KEY(user_id) REFERENCES users(id)
       )`,
+      `CREATE TABLE IF NOT EXISTS query_jobs (
+        id TEXT PRIMARY KEY,
+        connection_id TEXT NOT NULL,
+        session_id TEXT,
+        user_id TEXT,
+        sql_text TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'running',
+        query_id TEXT,
+        columns TEXT,
+        row_count INTEGER,
+        total_rows INTEGER,
+        truncated INTEGER DEFAULT 0,
+        warnings TEXT,
+        error TEXT,
+        execution_time INTEGER,
+        created_at INTEGER,
+        finished_at INTEGER,
+        FOREIGN KEY(session_id) REFERENCES chat_sessions(id)
+      )`,
+      `CREATE TABLE IF NOT EXISTS query_job_rows (
+        job_id TEXT NOT NULL,
+        row_index INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY(job_id, row_index),
+        FOREIGN KEY(job_id) REFERENCES query_jobs(id)
+      )`,
+      `CREATE TABLE IF NOT EXISTS agent_contexts (
+        session_id TEXT PRIMARY KEY,
+        state TEXT NOT NULL,
+        updated_at INTEGER,
+        FOREIGN KEY(session_id) REFERENCES chat_sessions(id)
+      )`,
+      `CREATE TABLE IF NOT EXISTS agent_query_results (
+        session_id TEXT PRIMARY KEY,
+        columns TEXT,
+        rows TEXT NOT NULL,
+        row_count INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        created_at INTEGER,
+        FOREIGN KEY(session_id) REFERENCES chat_sessions(id)
+      )`,
+      `CREATE TABLE IF NOT EXISTS catalog_scopes (
+        connection_id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        database_name TEXT NOT NULL DEFAULT '',
+        schema_name TEXT NOT NULL DEFAULT '',
+        names TEXT,
+        foreign_keys TEXT,
+        refreshed_at INTEGER NOT NULL,
+        PRIMARY KEY(connection_id, kind, database_name, schema_name)
+      )`,
+      `CREATE TABLE IF NOT EXISTS catalog_tables (
+        connection_id TEXT NOT NULL,
+        database_name TEXT NOT NULL,
+        schema_name TEXT NOT NULL,
+        name TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        comment TEXT,
+        row_count INTEGER,
+        bytes INTEGER,
+        last_altered INTEGER,
+        PRIMARY KEY(connection_id, database_name, schema_name, name)
+      )`,
+      `CREATE TABLE IF NOT EXISTS catalog_columns (
+        connection_id TEXT NOT NULL,
+        database_name TEXT NOT NULL,
+        schema_name TEXT NOT NULL,
+        table_name TEXT NOT NULL,
+        name TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        nullable INTEGER NOT NULL,
+        default_value TEXT,
+        comment TEXT,
+        PRIMARY KEY(connection_id, database_name, schema_name, table_name, name)
+      )`,
+      `CREATE TABLE IF NOT EXISTS uploaded_files (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        connection_id TEXT NOT NULL,
+        file_name TEXT NOT NULL,
+        format TEXT NOT NULL,
+        table_name TEXT NOT NULL,
+        columns TEXT NOT NULL,
+        row_count INTEGER NOT NULL,
+        size_bytes INTEGER NOT NULL,
+        created_at INTEGER,
+        FOREIGN KEY(user_id) REFERENCES users(id)
+      )`,
       `CREATE TABLE IF NOT EXISTS agent_configurations (
         id TEXT PRIMARY KEY,
         user_id TEXT NOT NULL,
@@ -120,40 +233,55 @@ export function initializeDatabase() {
     }
     
     console.log('Tables created successfully');
+
+    migrateSnowflakeConnections();
+    hashPlaintextPasswords();
+    encryptPlaintextCredentials();
     
-    // Create a default user if none exists
+    // Create a default user if none exists; without DEFAULT_USER_PASSWORD a random password is
+    // written to the generated passwords file. A guessable password gets no admin rights.
     const userCheck = sqlite.prepare('SELECT id FROM users WHERE username = ?');
     const userExists = userCheck.get('user_1');
     let userId = '0d493db8-bfed-4dd0-ab40-ae8a3225f8a5';
     if (!userExists) {
       const now = Date.now();
+      const password = process.env.DEFAULT_USER_PASSWORD || randomBytes(12).toString('base64url');
+      const role = isKnownDefaultPassword(password) ? 'analyst' : 'admin';
       const insertUser = sqlite.prepare(`
         INSERT INTO users (id, username, password, display_name, role, created_at)
         VALUES (?, ?, ?, ?, ?, ?)
       `);
-      insertUser.run(userId, 'user_1', 'password', 'Default User', 'analyst', now);
+      insertUser.run(userId, 'user_1', hashPasswordSync(password), 'Default User', role, now);
       console.log('Created default user:', userId);
+      if (!process.env.DEFAULT_USER_PASSWORD) {
+        recordGeneratedPassword('user_1', password);
+      } else if (role !== 'admin') {
+        console.warn('DEFAULT_USER_PASSWORD is a well-known default; user_1 was created without admin rights');
+      }
     } else {
       console.log('Default user already exists:', (userExists as any).id);
     }
+    ensureAdminUser();
 
-    // Create default Snowflake connection if none exists
-    const connCheck = sqlite.prepare('SELECT id FROM snowflake_connections WHERE user_id = ?');
+    // Create a default Snowflake connection for the service user in SNOWFLAKE_* if none exists
+    const connCheck = sqlite.prepare('SELECT id FROM data_connections WHERE user_id = ?');
     const connExists = connCheck.get(userId);
-    if (!connExists) {
+    const { SNOWFLAKE_ACCOUNT, SNOWFLAKE_USER } = process.env;
+    if (!connExists && SNOWFLAKE_ACCOUNT && SNOWFLAKE_USER) {
       const now = Date.now();
       const insertConn = sqlite.prepare(`
-        INSERT INTO snowflake_connections (id, user_id, name, account, username, password, database, schema, warehouse, role, is_default, is_active, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO data_connections (id, user_id, name, type, account, username, password, database, schema, warehouse, role, is_default, is_active, created_at, updated_at)
+        VALUES (?, ?, ?, 'snowflake', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
       const connId = crypto.randomUUID();
       insertConn.run(
-        connId, userId, 'SF Personal', 'KIXUIII-MTC00254', 'nl2sql_service_user', process.env.SNOWFLAKE_PASSWORD || '', 
-        'CORTES_DEMO_2', 'CORTEX_DEMO', 'CORTEX_ANALYST_WH', 'nl2sql_service_role', 
+        connId, userId, 'SF Personal', SNOWFLAKE_ACCOUNT, SNOWFLAKE_USER, secretsService.seal(process.env.SNOWFLAKE_PASSWORD || ''),
+        process.env.SNOWFLAKE_DATABASE || null, process.env.SNOWFLAKE_SCHEMA || null,
+        process.env.SNOWFLAKE_WAREHOUSE || null, process.env.SNOWFLAKE_ROLE || null,
         1, 1, now, now
       );
       console.log('Created default Snowflake connection:', connId);
-    } else {
+    } else if (connExists) {
       console.log('Default Snowflake connection already exists');
     }
     
@@ -165,4 +293,113 @@ export function initializeDatabase() {
     console.error('Error initializing database:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+function isKnownDefaultPassword(password: string): boolean {
+  return KNOWN_DEFAULT_PASSWORDS.includes(password);
+}
+
+// Append a generated password to the owner-only file; the log only says where it is
+function recordGeneratedPassword(username: string, password: string) {
+  appendFileSync(GENERATED_PASSWORDS_FILE, `${new Date().toISOString()} ${username} ${password}\n`, { mode: 0o600 });
+  chmodSync(GENERATED_PASSWORDS_FILE, 0o600);
+  console.log(`Generated a password for ${username}; it is in ${GENERATED_PASSWORDS_FILE}. Change it after signing in and delete the file.`);
+}
+
+/**
+ * Users created before sign-in existed have their password stored as plain text; those are
+ * hashed in place. A known default, in plain text or in user_1's hash (left by an earlier
+ * version of this migration), is replaced with a generated password instead.
+ */
+function hashPlaintextPasswords() {
+  const rows = sqlite.prepare(`SELECT id, username, password FROM users WHERE password <> ''`).all() as { id: string; username: string; password: string }[];
+  const update = sqlite.prepare('UPDATE users SET password = ? WHERE id = ?');
+  let hashed = 0;
+  for (const row of rows) {
+    const isDefault = isPasswordHash(row.password)
+      ? row.username === 'user_1' && KNOWN_DEFAULT_PASSWORDS.some(password => verifyPasswordSync(password, row.password))
+      : isKnownDefaultPassword(row.password);
+    if (isDefault) {
+      const password = randomBytes(12).toString('base64url');
+      update.run(hashPasswordSync(password), row.id);
+      recordGeneratedPassword(row.username, password);
+    } else if (!isPasswordHash(row.password)) {
+      update.run(hashPasswordSync(row.password), row.id);
+      hashed++;
+    }
+  }
+  if (hashed > 0) {
+    console.log(`Hashed ${hashed} plain-text user password(s)`);
+  }
+}
+
+/**
+ * Connection passwords and tokens were stored as plain text before they were encrypted, and
+ * a server running during a key rotation sealed new ones under the previous master key
+ */
+function encryptPlaintextCredentials() {
+  const rows = sqlite.prepare(`SELECT id, password FROM data_connections WHERE password IS NOT NULL AND password <> ''`).all() as { id: string; password: string }[];
+  const plaintext = rows.filter(row => !isSealedSecret(row.password));
+  const outdated = rows
+    .map(row => ({ id: row.id, password: secretsService.rewrapPrevious(row.password) }))
+    .filter((row): row is { id: string; password: string } => !!row.password);
+  if (plaintext.length === 0 && outdated.length === 0) {
+    return;
+  }
+  const update = sqlite.prepare('UPDATE data_connections SET password = ? WHERE id = ?');
+  sqlite.transaction(() => {
+    for (const row of plaintext) {
+      update.run(secretsService.seal(row.password), row.id);
+    }
+    for (const row of outdated) {
+      update.run(row.password, row.id);
+    }
+  })();
+  if (plaintext.length > 0) {
+    console.log(`Encrypted ${plaintext.length} stored connection credential(s)`);
+  }
+  if (outdated.length > 0) {
+    console.log(`Re-wrapped ${outdated.length} connection credential(s) sealed under the previous master key`);
+  }
+}
+
+/**
+ * Someone must be able to manage users; before roles were enforced everyone was an analyst.
+ * The oldest user is promoted, skipping any whose password is a known default.
+ */
+function ensureAdminUser() {
+  const admin = sqlite.prepare(`SELECT id FROM users WHERE role = 'admin' LIMIT 1`).get();
+  if (admin) {
+    return;
+  }
+  const users = sqlite.prepare('SELECT id, username, password FROM users ORDER BY created_at ASC').all() as { id: string; username: string; password: string }[];
+  const candidate = users.find(user => !KNOWN_DEFAULT_PASSWORDS.some(password => verifyPasswordSync(password, user.password)));
+  if (candidate) {
+    sqlite.prepare(`UPDATE users SET role = 'admin' WHERE id = ?`).run(candidate.id);
+    console.log(`No admin user found; made ${candidate.username} an admin`);
+  } else if (users.length > 0) {
+    console.warn('No admin user found, and every user has a default password; none was made an admin');
+  }
+}
+
+// Move rows from the Snowflake-only table used before data_connections existed
+function migrateSnowflakeConnections() {
+  const legacyTable = sqlite
+    .prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'snowflake_connections'`)
+    .get();
+  if (!legacyTable) {
+    return;
+  }
+
+  const migrate = sqlite.transaction(() => {
+    const result = sqlite.prepare(`
+      INSERT OR IGNORE INTO data_connections (id, user_id, name, type, account, username, password, database, schema, warehouse, role, authenticator, is_default, is_active, last_connected, created_at, updated_at)
+      SELECT id, user_id, name, 'snowflake', account, username, password, database, schema, warehouse, role, authenticator, is_default, is_active, last_connected, created_at, updated_at
+      FROM snowflake_connections
+    `).run();
+    sqlite.exec('DROP TABLE snowflake_connections');
+    return result.changes;
+  });
+
+  console.log(`Migrated ${migrate()} connections from snowflake_connections to data_connections`);
+}
@@ -2,6 +2,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { initializeDatabase } from "./db";
+import { queryJobService } from "./services/query-jobs";
 
 const app = express();
 app.use(express.json());
@@ -40,6 +41,9 @@ app.use((req, res, next) => {
 (async () => {
   // Initialize the database first
   initializeDatabase();
+  queryJobService.resumeInterruptedJobs().catch(error => {
+    console.error('Failed to resume query jobs:', error);
+  });
   
   const server = await registerRoutes(app);
 
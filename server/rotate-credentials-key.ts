@@ -0,0 +1,87 @@
+/**
+ * Credentials Key Rotation
+ * Re-encrypts every stored connection credential under a new master key.
+ *
+ *   npm run credentials:rotate                      # generate the new key
+ *   npm run credentials:rotate -- --new-key <key>   # or CREDENTIALS_NEW_MASTER_KEY=<key>
+ *
+ * With a key file the new key replaces it once the rows are committed and the old key is kept
+ * as <key file>.previous; with CREDENTIALS_MASTER_KEY the new key is printed and the variables
+ * must be updated before restarting. A server left running keeps sealing values under the old
+ * key until it restarts; they stay readable through the previous key and are re-wrapped on start.
+ */
+
+import { existsSync, renameSync, unlinkSync } from 'fs';
+import { eq } from 'drizzle-orm';
+import { db } from './db';
+import { dataConnections } from '@shared/schema';
+import {
+  secretsService, parseMasterKey, generateMasterKey, getMasterKeyId,
+  isSealedSecret, sealWithKey, rewrapWithKey, writeKeyFile
+} from './services/secrets';
+
+function readNewKeyArgument(): string | undefined {
+  const index = process.argv.indexOf('--new-key');
+  return index >= 0 ? process.argv[index + 1] : process.env.CREDENTIALS_NEW_MASTER_KEY;
+}
+
+function rotate() {
+  const oldKey = secretsService.getMasterKey();
+  const encodedNewKey = readNewKeyArgument() || generateMasterKey();
+  const newKey = parseMasterKey(encodedNewKey);
+  if (newKey.equals(oldKey)) {
+    throw new Error('The new master key is the same as the current one');
+  }
+
+  // The new key is on disk before any row depends on it
+  const keySource = secretsService.getKeySource();
+  const keyFile = secretsService.getKeyFilePath();
+  const pendingKeyFile = `${keyFile}.new`;
+  if (keySource === 'file') {
+    writeKeyFile(pendingKeyFile, encodedNewKey);
+  }
+
+  let rotated = 0;
+  try {
+    rotated = db.transaction(tx => {
+      const rows = tx
+        .select({ id: dataConnections.id, password: dataConnections.password })
+        .from(dataConnections)
+        .all();
+
+      let count = 0;
+      for (const row of rows) {
+        if (!row.password) continue;
+        // Values written before encryption existed are sealed directly under the new key, and
+        // values a running server sealed under the previous key are re-wrapped from it
+        const password = isSealedSecret(row.password)
+          ? rewrapWithKey(row.password, secretsService.getKeyFor(row.password), newKey)
+          : sealWithKey(row.password, newKey);
+        tx.update(dataConnections).set({ password }).where(eq(dataConnections.id, row.id)).run();
+        count++;
+      }
+      return count;
+    });
+  } catch (error) {
+    if (existsSync(pendingKeyFile)) unlinkSync(pendingKeyFile);
+    throw error;
+  }
+
+  console.log(`Re-encrypted ${rotated} connection credential(s): key ${getMasterKeyId(oldKey)} -> ${getMasterKeyId(newKey)}`);
+  if (keySource === 'file') {
+    writeKeyFile(secretsService.getPreviousKeyFilePath(), oldKey.toString('base64'));
+    renameSync(pendingKeyFile, keyFile);
+    console.log(`New master key written to ${keyFile}; the old key is kept in ${secretsService.getPreviousKeyFilePath()}`);
+  } else {
+    console.log('Set CREDENTIALS_MASTER_KEY to the new key, and CREDENTIALS_PREVIOUS_MASTER_KEY to the old one, before restarting the server:');
+    console.log(encodedNewKey);
+  }
+  console.log('Restart the server: until then it keeps encrypting new credentials under the old key.');
+}
+
+try {
+  rotate();
+} catch (error) {
+  console.error('Key rotation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
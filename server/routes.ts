@@ -1,41 +1,248 @@
-import type { Express } from "express";
-import { createServer, type Server } from "http";
+import type { Express, Request, Response } from "express";
+import { createServer, type Server, type IncomingMessage } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
+import { setupAuth, requireAuth, authenticateUpgrade, toPublicUser } from "./auth";
 import { agentService } from "./services/agent-service";
 import { agentSDKService } from "./services/agent-sdk-service";
 import { visualizationService } from "./services/visualization-service";
 import { 
   insertChatSessionSchema, insertChatMessageSchema, insertVisualizationSchema,
-  insertPinnedVisualizationSchema, insertSnowflakeConnectionSchema
+  insertPinnedVisualizationSchema, insertDataConnectionSchema, userRoles,
+  type User, type UserRole, type ChatSession, type DataConnection, type QueryJob, type Visualization
 } from "@shared/schema";
+import { dataSourceService, toDataSourceConfig } from "./services/data-source";
+import { metadataCatalogService } from "./services/metadata-catalog";
 import { snowflakeService } from "./services/snowflake-service";
+import { sqlGuardService, type PendingSqlConfirmation } from "./services/sql-guard";
+import { queryLimitService } from "./services/query-limits";
+import { sessionRunService } from "./services/session-runs";
+import { queryJobService, DEFAULT_RESULT_PAGE_SIZE, MAX_RESULT_PAGE_SIZE } from "./services/query-jobs";
+import { resultGridService } from "./services/result-grid";
+import { fileUploadService } from "./services/file-uploads";
+import { resultExportService, exportFormats, EXPORT_BATCH_ROWS, type ExportFormat, type RowBatches } from "./services/result-export";
+import type { SqlConfirmationRequest, QueryJobHandle } from "./services/agent-events";
+import { accessControlService } from "./services/access-control";
+import { llmService } from "./services/llm-provider";
+import { hashPassword } from "./services/passwords";
+import { usesSecretBundle, packSecretBundle } from "./services/snowflake-auth";
+
+// WebSocket messages that act on a chat session
+const SESSION_MESSAGE_TYPES = new Set(['join_session', 'chat_message', 'cancel']);
+
+// Resources are only visible to the user who owns them
+async function findOwnSession(userId: string, sessionId: string): Promise<ChatSession | undefined> {
+  const session = await storage.getChatSession(sessionId);
+  return session?.userId === userId ? session : undefined;
+}
+
+async function findOwnConnection(userId: string, connectionId: string): Promise<DataConnection | undefined> {
+  const connection = await storage.getDataConnection(connectionId);
+  return connection?.userId === userId ? connection : undefined;
+}
+
+// Admins manage every user's connections
+async function findManagedConnection(user: User, connectionId: string): Promise<DataConnection | undefined> {
+  return accessControlService.can(user, 'connections.manage')
+    ? await storage.getDataConnection(connectionId)
+    : await findOwnConnection(user.id, connectionId);
+}
+
+// Secrets never leave the server, not even encrypted
+function toPublicConnection(connection: DataConnection) {
+  const { password, ...publicConnection } = connection;
+  return { ...publicConnection, hasPassword: !!password };
+}
+
+const PREVIEW_ROWS = 100;
+const SCHEMA_SEARCH_LIMIT = 50;
+
+// A non-empty string query parameter
+function readQueryText(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+// Grid filters sent as a JSON object of column -> filter text; undefined when malformed
+function readFilters(value: unknown): Record<string, string> | undefined {
+  if (!value) {
+    return {};
+  }
+  try {
+    const filters = JSON.parse(String(value));
+    return filters && typeof filters === 'object' && !Array.isArray(filters)
+      ? Object.fromEntries(Object.entries(filters).map(([column, text]) => [column, String(text)]))
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Export format of a download request, CSV unless another is asked for
+function readExportFormat(value: unknown): ExportFormat | undefined {
+  return value === undefined ? 'csv' : resultExportService.isFormat(value) ? value : undefined;
+}
+
+const INVALID_EXPORT_FORMAT = `format must be one of ${exportFormats.join(', ')}`;
+
+// Stream an export as a file download; once rows have gone out a failure can only cut the response short
+async function sendExport(res: Response, format: ExportFormat, name: string, columns: string[], batches: RowBatches): Promise<void> {
+  res.setHeader('Content-Type', resultExportService.getContentType(format));
+  res.setHeader('Content-Disposition', `attachment; filename="${resultExportService.getFileName(name, format)}"`);
+  try {
+    await resultExportService.write(format, columns, batches, res);
+    res.end();
+  } catch (error) {
+    console.error('Error exporting results:', error);
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    res.removeHeader('Content-Disposition');
+    res.status(500).json({ message: 'Failed to export results' });
+  }
+}
+
+// Chart data is a list of records; anything else exports as no rows
+function visualizationRows(visualization: Visualization): Record<string, any>[] {
+  return Array.isArray(visualization.data)
+    ? visualization.data.filter((row): row is Record<string, any> => !!row && typeof row === 'object')
+    : [];
+}
+
+function isUserRole(value: unknown): value is UserRole {
+  return userRoles.includes(value as UserRole);
+}
+
+async function findOwnQueryJob(userId: string, jobId: string): Promise<QueryJob | undefined> {
+  const job = await queryJobService.get(jobId);
+  return job?.userId === userId ? job : undefined;
+}
+
+// Query job behind a result in one of the user's chat answers
+async function findOwnMessageResult(userId: string, messageId: string, index: number): Promise<QueryJob | undefined> {
+  const message = await storage.getMessage(messageId);
+  if (!message?.sessionId || !(await findOwnSession(userId, message.sessionId))) {
+    return undefined;
+  }
+  const job = await resultGridService.findJob(message, index);
+  return job?.status === 'succeeded' ? job : undefined;
+}
+
+// Confirmations are raised by the agent in a chat session and answered by that session's owner
+async function findOwnConfirmation(userId: string, confirmationId: string): Promise<PendingSqlConfirmation | undefined> {
+  const confirmation = sqlGuardService.getConfirmation(confirmationId);
+  return confirmation?.sessionId && (await findOwnSession(userId, confirmation.sessionId)) ? confirmation : undefined;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
-  // WebSocket server for real-time chat
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  // Login and /api/auth routes; every other API route needs a signed-in user
+  setupAuth(app);
+  app.use('/api', requireAuth);
+
+  // Viewers only see published dashboards; chat, SQL and connections start at analyst
+  app.use(
+    ['/api/chat', '/api/sessions', '/api/messages', '/api/visualizations', '/api/pinned', '/api/connections', '/api/uploads', '/api/sql-confirmations', '/api/queries', '/api/agent-config'],
+    accessControlService.requirePermission('chat.use')
+  );
+
+  // Signed-in user of each accepted WebSocket upgrade
+  const socketUsers = new WeakMap<IncomingMessage, User>();
+
+  // WebSocket server for real-time chat; the upgrade is refused without a login session
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: '/ws',
+    verifyClient: ({ req }, done) => {
+      authenticateUpgrade(req).then(
+        user => {
+          if (!user) return done(false, 401, 'Unauthorized');
+          socketUsers.set(req, user);
+          done(true);
+        },
+        error => {
+          console.error('WebSocket authentication failed:', error);
+          done(false, 500, 'Authentication failed');
+        }
+      );
+    }
+  });
 
   // Store active WebSocket connections by session ID
   const activeSessions = new Map<string, WebSocket>();
 
   wss.on('connection', (ws: WebSocket, request) => {
-    console.log('WebSocket client connected');
+    const user = socketUsers.get(request)!;
+    console.log(`WebSocket client connected (${user.username})`);
+    // Query job subscriptions of this socket, by job id
+    const jobSubscriptions = new Map<string, () => void>();
 
     ws.on('message', async (data: Buffer) => {
       try {
         const message = JSON.parse(data.toString());
         console.log('Received message:', message);
 
+        // Session-scoped messages must name one of the user's own chat sessions; one that
+        // names none is rejected, not run against whatever session id it resolves to
+        if (SESSION_MESSAGE_TYPES.has(message.type) || message.sessionId !== undefined) {
+          if (typeof message.sessionId !== 'string' || !message.sessionId) {
+            ws.send(JSON.stringify({ type: 'error', message: 'A session id is required' }));
+            return;
+          }
+          if (!(await findOwnSession(user.id, message.sessionId))) {
+            ws.send(JSON.stringify({ type: 'error', message: 'Session not found' }));
+            return;
+          }
+        }
+
         switch (message.type) {
           case 'join_session':
             activeSessions.set(message.sessionId, ws);
             ws.send(JSON.stringify({ type: 'session_joined', sessionId: message.sessionId }));
             break;
 
-          case 'chat_message':
-            await handleChatMessage(message, ws);
+          case 'chat_message': {
+            // Re-read the user so a role change applies without reconnecting
+            const current = await storage.getUser(user.id);
+            if (!accessControlService.canUseAgent(current?.role, message.agentType || 'query')) {
+              ws.send(JSON.stringify({ type: 'error', message: `The ${message.agentType || 'query'} agent is not available to your role` }));
+              break;
+            }
+            await handleChatMessage(message, ws, current!);
+            break;
+          }
+
+          case 'cancel':
+            // Stops the session's pending LLM call and running statement; the chat
+            // message handler then answers with the cancelled response as usual
+            ws.send(JSON.stringify({
+              type: 'cancel_requested',
+              sessionId: message.sessionId,
+              cancelled: sessionRunService.cancel(message.sessionId)
+            }));
+            break;
+
+          case 'subscribe_query_job': {
+            const job = await findOwnQueryJob(user.id, message.jobId);
+            if (!job) {
+              ws.send(JSON.stringify({ type: 'error', message: `Query job not found: ${message.jobId}` }));
+              break;
+            }
+            if (!jobSubscriptions.has(job.id)) {
+              jobSubscriptions.set(job.id, queryJobService.subscribe(job.id, (updated) => {
+                if (ws.readyState === WebSocket.OPEN) {
+                  ws.send(JSON.stringify({ type: 'query_job_updated', job: updated }));
+                }
+              }));
+            }
+            ws.send(JSON.stringify({ type: 'query_job_updated', job }));
+            break;
+          }
+
+          case 'unsubscribe_query_job':
+            jobSubscriptions.get(message.jobId)?.();
+            jobSubscriptions.delete(message.jobId);
             break;
 
           case 'agent_switch':
@@ -60,6 +267,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     ws.on('close', () => {
       console.log('WebSocket client disconnected');
+      jobSubscriptions.forEach(unsubscribe => unsubscribe());
+      jobSubscriptions.clear();
       // Remove from active sessions
       for (const [sessionId, socket] of activeSessions) {
         if (socket === ws) {
@@ -70,8 +279,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  async function handleChatMessage(message: any, ws: WebSocket) {
-    const { sessionId, content, agentType, userId } = message;
+  async function handleChatMessage(message: any, ws: WebSocket, user: User) {
+    const { sessionId, content, agentType } = message;
+    const run = sessionRunService.start(sessionId);
 
     try {
       // Save user message
@@ -93,17 +303,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         isTyping: true
       }));
 
-      // Process message with appropriate agent
+      // Process message with appropriate agent, streaming tokens and tool progress as they happen
       console.log(`Processing message with agent: ${agentType}`);
-      const agentResponse = await agentSDKService.processMessage(sessionId, content, agentType);
+      let sqlConfirmation: SqlConfirmationRequest | undefined;
+      let queryJob: QueryJobHandle | undefined;
+      const agentResponse = await agentSDKService.processMessage(sessionId, content, agentType, (event) => {
+        if (event.type === 'sql_confirmation_required') {
+          sqlConfirmation = event.confirmation;
+        }
+        if (event.type === 'query_job_started') {
+          queryJob = event.job;
+        }
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(JSON.stringify({ ...event, sessionId }));
+        }
+      }, run.signal);
       console.log(`Agent response received:`, agentResponse);
 
-      // Save agent response
+      // Save agent response; a pending SQL confirmation or a background query job is rendered as a card under it
       const assistantMessage = await storage.createMessage({
         sessionId,
         role: 'assistant',
         content: agentResponse.content,
-        metadata: agentResponse.metadata,
+        metadata: sqlConfirmation || queryJob
+          ? { ...agentResponse.metadata, ...(sqlConfirmation && { sqlConfirmation }), ...(queryJob && { queryJob }) }
+          : agentResponse.metadata,
       });
       console.log(`Assistant message saved:`, assistantMessage);
 
@@ -123,7 +347,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (agentResponse.visualization) {
         const visualization = await storage.createVisualization({
           messageId: assistantMessage.id,
-          userId,
+          userId: user.id,
           title: agentResponse.visualization.title,
           description: agentResponse.visualization.description,
           chartType: agentResponse.visualization.chartType,
@@ -150,6 +374,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         type: 'error',
         message: 'Failed to process your request. Please try again.'
       }));
+    } finally {
+      sessionRunService.finish(sessionId, run);
     }
   }
 
@@ -158,10 +384,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Chat API endpoint for initialization
   app.post('/api/chat', async (req, res) => {
     try {
-      const { content, agentType, sessionId, userId } = req.body;
+      const { content, agentType, sessionId } = req.body;
+      if (!(await findOwnSession(req.user!.id, sessionId))) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
       console.log(`Processing API chat message: ${content} with agent: ${agentType}`);
       
-      const agentResponse = await agentSDKService.processMessage(sessionId, content, agentType);
+      const run = sessionRunService.start(sessionId);
+      let agentResponse;
+      try {
+        agentResponse = await agentSDKService.processMessage(sessionId, content, agentType, undefined, run.signal);
+      } finally {
+        sessionRunService.finish(sessionId, run);
+      }
       
       res.json({
         content: agentResponse.content,
@@ -176,10 +411,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stop the agent work in flight for a session (same as the `cancel` WebSocket message)
+  app.post('/api/sessions/:sessionId/cancel', async (req, res) => {
+    if (!(await findOwnSession(req.user!.id, req.params.sessionId))) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+    const cancelled = sessionRunService.cancel(req.params.sessionId);
+    res.json({ sessionId: req.params.sessionId, cancelled });
+  });
+
   // Chat sessions
-  app.get('/api/sessions/:userId', async (req, res) => {
+  app.get('/api/sessions', async (req, res) => {
     try {
-      const sessions = await storage.getChatSessionsByUser(req.params.userId);
+      const sessions = await storage.getChatSessionsByUser(req.user!.id);
       res.json(sessions);
     } catch (error) {
       console.error('Error fetching sessions:', error);
@@ -189,7 +433,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/sessions', async (req, res) => {
     try {
-      const sessionData = insertChatSessionSchema.parse(req.body);
+      const sessionData = insertChatSessionSchema.parse({ ...req.body, userId: req.user!.id });
       const session = await storage.createChatSession(sessionData);
       res.json(session);
     } catch (error) {
@@ -200,6 +444,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete('/api/sessions/:sessionId', async (req, res) => {
     try {
+      if (!(await findOwnSession(req.user!.id, req.params.sessionId))) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
       await storage.deleteChatSession(req.params.sessionId);
       res.json({ success: true });
     } catch (error) {
@@ -214,6 +461,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!Array.isArray(sessionIds)) {
         return res.status(400).json({ message: 'sessionIds must be an array' });
       }
+      const owned = await Promise.all(sessionIds.map((id: string) => findOwnSession(req.user!.id, id)));
+      if (owned.some(session => !session)) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
       await storage.deleteChatSessions(sessionIds);
       res.json({ success: true });
     } catch (error) {
@@ -225,6 +476,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Messages
   app.get('/api/sessions/:sessionId/messages', async (req, res) => {
     try {
+      if (!(await findOwnSession(req.user!.id, req.params.sessionId))) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
       const messages = await storage.getMessagesBySession(req.params.sessionId);
       res.json(messages);
     } catch (error) {
@@ -233,10 +487,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Every row of a query result in an answer, addressed by its index in the message's tool results
+  app.get('/api/messages/:id/results/:index', async (req, res) => {
+    try {
+      const job = await findOwnMessageResult(req.user!.id, req.params.id, parseInt(req.params.index, 10));
+      if (!job) {
+        return res.status(404).json({ message: 'Result not found' });
+      }
+
+      const filters = readFilters(req.query.filters);
+      if (!filters) {
+        return res.status(400).json({ message: 'filters must be a JSON object' });
+      }
+      res.json(await resultGridService.getPage(job, {
+        offset: Math.max(0, parseInt(String(req.query.offset ?? 0), 10) || 0),
+        limit: Math.min(MAX_RESULT_PAGE_SIZE, Math.max(1, parseInt(String(req.query.limit ?? DEFAULT_RESULT_PAGE_SIZE), 10) || DEFAULT_RESULT_PAGE_SIZE)),
+        sort: readQueryText(req.query.sort),
+        direction: readQueryText(req.query.direction),
+        filters
+      }));
+    } catch (error) {
+      console.error('Error fetching message results:', error);
+      res.status(500).json({ message: 'Failed to fetch results' });
+    }
+  });
+
+  // Column types and histograms over the whole result
+  app.get('/api/messages/:id/results/:index/summary', async (req, res) => {
+    try {
+      const job = await findOwnMessageResult(req.user!.id, req.params.id, parseInt(req.params.index, 10));
+      if (!job) {
+        return res.status(404).json({ message: 'Result not found' });
+      }
+      res.json({ columns: await resultGridService.getSummary(job) });
+    } catch (error) {
+      console.error('Error summarizing message results:', error);
+      res.status(500).json({ message: 'Failed to summarize results' });
+    }
+  });
+
+  // Download of the result as the grid shows it, in the grid's order and with its filters
+  app.get('/api/messages/:id/results/:index/export', async (req, res) => {
+    try {
+      const job = await findOwnMessageResult(req.user!.id, req.params.id, parseInt(req.params.index, 10));
+      if (!job) {
+        return res.status(404).json({ message: 'Result not found' });
+      }
+      const format = readExportFormat(req.query.format);
+      if (!format) {
+        return res.status(400).json({ message: INVALID_EXPORT_FORMAT });
+      }
+      const filters = readFilters(req.query.filters);
+      if (!filters) {
+        return res.status(400).json({ message: 'filters must be a JSON object' });
+      }
+
+      const rows = resultGridService.readRows(job, {
+        sort: readQueryText(req.query.sort),
+        direction: readQueryText(req.query.direction),
+        filters
+      }, EXPORT_BATCH_ROWS);
+      await sendExport(res, format, `query-${job.id.slice(0, 8)}`, job.columns || [], rows);
+    } catch (error) {
+      console.error('Error exporting message results:', error);
+      res.status(500).json({ message: 'Failed to export results' });
+    }
+  });
+
   // Visualizations
-  app.get('/api/visualizations/:userId', async (req, res) => {
+  app.get('/api/visualizations', async (req, res) => {
     try {
-      const visualizations = await storage.getVisualizationsByUser(req.params.userId);
+      const visualizations = await storage.getVisualizationsByUser(req.user!.id);
       res.json(visualizations);
     } catch (error) {
       console.error('Error fetching visualizations:', error);
@@ -247,6 +568,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch('/api/visualizations/:id', async (req, res) => {
     try {
       const { isPinned, isPublished } = req.body;
+      const existing = await storage.getVisualization(req.params.id);
+      if (existing?.userId !== req.user!.id) {
+        return res.status(404).json({ message: 'Visualization not found' });
+      }
       const visualization = await storage.updateVisualization(req.params.id, {
         isPinned,
         isPublished
@@ -258,10 +583,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Download of the data behind a chart
+  app.get('/api/visualizations/:id/export', async (req, res) => {
+    try {
+      const visualization = await storage.getVisualization(req.params.id);
+      if (!visualization || (visualization.userId !== req.user!.id && !visualization.isPublished)) {
+        return res.status(404).json({ message: 'Visualization not found' });
+      }
+      const format = readExportFormat(req.query.format);
+      if (!format) {
+        return res.status(400).json({ message: INVALID_EXPORT_FORMAT });
+      }
+      const { columns, batches } = resultExportService.fromRows(visualizationRows(visualization));
+      await sendExport(res, format, visualization.title, columns, batches);
+    } catch (error) {
+      console.error('Error exporting visualization data:', error);
+      res.status(500).json({ message: 'Failed to export visualization data' });
+    }
+  });
+
   // Pinned visualizations
-  app.get('/api/pinned/:userId', async (req, res) => {
+  app.get('/api/pinned', async (req, res) => {
     try {
-      const pinned = await storage.getPinnedVisualizationsByUser(req.params.userId);
+      const pinned = await storage.getPinnedVisualizationsByUser(req.user!.id);
       res.json(pinned);
     } catch (error) {
       console.error('Error fetching pinned visualizations:', error);
@@ -271,7 +615,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/pinned', async (req, res) => {
     try {
-      const pinData = insertPinnedVisualizationSchema.parse(req.body);
+      const pinData = insertPinnedVisualizationSchema.parse({ ...req.body, userId: req.user!.id });
       const pin = await storage.pinVisualization(pinData);
       res.json(pin);
     } catch (error) {
@@ -280,9 +624,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/pinned/:userId/:visualizationId', async (req, res) => {
+  app.delete('/api/pinned/:visualizationId', async (req, res) => {
     try {
-      await storage.unpinVisualization(req.params.userId, req.params.visualizationId);
+      await storage.unpinVisualization(req.user!.id, req.params.visualizationId);
       res.json({ success: true });
     } catch (error) {
       console.error('Error unpinning visualization:', error);
@@ -301,172 +645,540 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Snowflake connections
-  app.get('/api/snowflake/connections/:userId', async (req, res) => {
+  // Chart data of published visualizations, for viewers who cannot open /api/visualizations
+  app.get('/api/published/:id/export', async (req, res) => {
     try {
-      const connections = await storage.getSnowflakeConnections(req.params.userId);
-      // Don't return passwords in the response
-      const safeConnections = connections.map(conn => ({
-        ...conn,
-        password: undefined
-      }));
-      res.json(safeConnections);
+      const visualization = await storage.getVisualization(req.params.id);
+      if (!visualization?.isPublished) {
+        return res.status(404).json({ message: 'Visualization not found' });
+      }
+      const format = readExportFormat(req.query.format);
+      if (!format) {
+        return res.status(400).json({ message: INVALID_EXPORT_FORMAT });
+      }
+      const { columns, batches } = resultExportService.fromRows(visualizationRows(visualization));
+      await sendExport(res, format, visualization.title, columns, batches);
     } catch (error) {
-      console.error('Error fetching Snowflake connections:', error);
-      res.status(500).json({ message: 'Failed to fetch Snowflake connections' });
+      console.error('Error exporting visualization data:', error);
+      res.status(500).json({ message: 'Failed to export visualization data' });
     }
   });
 
-  app.post('/api/snowflake/connections', async (req, res) => {
+  // Data source connections (Snowflake, PostgreSQL, MySQL, DuckDB)
+  app.get('/api/connections', async (req, res) => {
     try {
-      const connectionData = insertSnowflakeConnectionSchema.parse(req.body);
-      const connection = await storage.createSnowflakeConnection(connectionData);
-      
-      // Don't return password in response
-      const safeConnection = { ...connection, password: undefined };
-      res.json(safeConnection);
+      // Admins can list another user's connections with ?userId=
+      const ownerId = typeof req.query.userId === 'string' && accessControlService.can(req.user, 'connections.manage')
+        ? req.query.userId
+        : req.user!.id;
+      const connections = await storage.getDataConnections(ownerId);
+      res.json(connections.map(toPublicConnection));
+    } catch (error) {
+      console.error('Error fetching connections:', error);
+      res.status(500).json({ message: 'Failed to fetch connections' });
+    }
+  });
+
+  app.post('/api/connections', accessControlService.requirePermission('connections.manage'), async (req, res) => {
+    try {
+      // Created for the admin unless another user is named as the owner
+      const ownerId = typeof req.body.userId === 'string' ? req.body.userId : req.user!.id;
+      if (!(await storage.getUser(ownerId))) {
+        return res.status(400).json({ message: 'Owner not found' });
+      }
+      const connectionData = insertDataConnectionSchema.parse({ ...req.body, userId: ownerId });
+
+      // Key-pair and OAuth secrets arrive as `credentials` and are stored together in the password column
+      if (usesSecretBundle(connectionData.authenticator)) {
+        try {
+          connectionData.password = packSecretBundle(connectionData.authenticator!, req.body.credentials || {}, connectionData.options?.oauth);
+        } catch (error) {
+          return res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid credentials' });
+        }
+      }
+
+      const connection = await storage.createDataConnection(connectionData);
+      res.json(toPublicConnection(connection));
     } catch (error) {
-      console.error('Error creating Snowflake connection:', error);
-      res.status(500).json({ message: 'Failed to create Snowflake connection' });
+      console.error('Error creating connection:', error);
+      res.status(500).json({ message: 'Failed to create connection' });
     }
   });
 
-  app.post('/api/snowflake/connections/:id/test', async (req, res) => {
+  app.post('/api/connections/:id/test', accessControlService.requirePermission('connections.manage'), async (req, res) => {
     try {
-      const connection = await storage.getSnowflakeConnection(req.params.id);
+      const connection = await findManagedConnection(req.user!, req.params.id);
       
       if (!connection) {
         return res.status(404).json({ message: 'Connection not found' });
       }
 
-      const isValid = await snowflakeService.testConnection({
-        account: connection.account,
-        username: connection.username,
-        password: connection.password || '',
-        database: connection.database || undefined,
-        schema: connection.schema || undefined,
-        warehouse: connection.warehouse || undefined,
-        role: connection.role || undefined,
-        authenticator: connection.authenticator || undefined,
-      });
+      const isValid = await dataSourceService.testConnection(toDataSourceConfig(connection));
 
       if (isValid) {
         // Update last connected timestamp
-        await storage.updateSnowflakeConnection(connection.id, {
+        await storage.updateDataConnection(connection.id, {
           lastConnected: new Date()
         });
       }
 
       res.json({ success: isValid });
     } catch (error) {
-      console.error('Error testing Snowflake connection:', error);
-      res.status(500).json({ message: 'Failed to test Snowflake connection' });
+      console.error('Error testing connection:', error);
+      res.status(500).json({ message: 'Failed to test connection' });
     }
   });
 
-  app.post('/api/snowflake/connections/:id/execute', async (req, res) => {
+  app.post('/api/connections/:id/execute', async (req, res) => {
     try {
-      const { sqlText } = req.body;
-      const connection = await storage.getSnowflakeConnection(req.params.id);
+      const { sqlText, confirmed } = req.body;
+      const connection = await findOwnConnection(req.user!.id, req.params.id);
       
       if (!connection) {
         return res.status(404).json({ message: 'Connection not found' });
       }
 
-      // Create Snowflake connection if not exists
-      const hasActiveConnection = snowflakeService.hasActiveConnection(connection.id);
-      if (!hasActiveConnection) {
-        const connected = await snowflakeService.createConnection(connection.id, {
-          account: connection.account,
-          username: connection.username,
-          password: connection.password || '',
-          database: connection.database || undefined,
-          schema: connection.schema || undefined,
-          warehouse: connection.warehouse || undefined,
-          role: connection.role || undefined,
-          authenticator: connection.authenticator || undefined,
+      // Mutating statements need `confirmed: true` unless the connection allows them outright
+      const decision = await sqlGuardService.check(sqlText, {
+        connectionId: connection.id,
+        userPolicy: accessControlService.getSqlPolicy(req.user!.role),
+        confirmed: confirmed === true
+      });
+      if (!decision.allowed) {
+        const needsConfirmation = decision.policy === 'confirm' && !!decision.statement?.mutating;
+        return res.status(needsConfirmation ? 409 : 403).json({
+          message: decision.reason,
+          policy: decision.policy,
+          statementType: decision.statement?.keyword,
+          requiresConfirmation: needsConfirmation
         });
-
-        if (!connected) {
-          return res.status(500).json({ message: 'Failed to establish Snowflake connection' });
-        }
       }
 
-      const result = await snowflakeService.executeQuery(connection.id, sqlText);
+      // Opens the connection on first use
+      const source = await dataSourceService.connectStored(connection);
+      const outcome = await queryLimitService.execute(source, decision.statement);
+      if (outcome.refused) {
+        return res.status(422).json({ message: `Query refused: ${outcome.reason}`, scanEstimate: outcome.scanEstimate });
+      }
       
       // Update last connected timestamp
-      await storage.updateSnowflakeConnection(connection.id, {
+      await storage.updateDataConnection(connection.id, {
         lastConnected: new Date()
       });
 
-      res.json(result);
+      res.json({ ...outcome.result, warnings: outcome.warnings });
     } catch (error) {
-      console.error('Error executing Snowflake query:', error);
+      console.error('Error executing query:', error);
       res.status(500).json({ message: 'Failed to execute query: ' + (error instanceof Error ? error.message : 'Unknown error') });
     }
   });
 
-  app.get('/api/snowflake/connections/:id/schema', async (req, res) => {
+  app.get('/api/connections/:id/schema', async (req, res) => {
     try {
-      const connection = await storage.getSnowflakeConnection(req.params.id);
+      const connection = await findOwnConnection(req.user!.id, req.params.id);
       
       if (!connection) {
         return res.status(404).json({ message: 'Connection not found' });
       }
 
-      // Ensure connection exists
-      const hasActiveConnection = snowflakeService.hasActiveConnection(connection.id);
-      if (!hasActiveConnection) {
-        const connected = await snowflakeService.createConnection(connection.id, {
-          account: connection.account,
-          username: connection.username,
-          password: connection.password || '',
-          database: connection.database || undefined,
-          schema: connection.schema || undefined,
-          warehouse: connection.warehouse || undefined,
-          role: connection.role || undefined,
-          authenticator: connection.authenticator || undefined,
-        });
+      // Served from the metadata catalog; ?refresh=true reads the source again
+      const source = await dataSourceService.connectStored(connection);
+      const database = readQueryText(req.query.database);
+      const schema = readQueryText(req.query.schema);
+      const options = { refresh: req.query.refresh === 'true' };
+      const databases = await metadataCatalogService.getDatabases(source, options);
+      const schemas = await metadataCatalogService.getSchemas(source, database, options);
+      const tables = await metadataCatalogService.getTables(source, database, schema, options);
 
-        if (!connected) {
-          return res.status(500).json({ message: 'Failed to establish Snowflake connection' });
-        }
+      res.json({
+        type: source.type,
+        dialect: source.dialect.name,
+        database: database || source.getInfo().database,
+        schema: schema || source.getInfo().schema,
+        databases,
+        schemas,
+        tables: tables.map(table => ({
+          name: table.name,
+          kind: table.kind,
+          comment: table.comment,
+          rowCount: table.rowCount,
+          bytes: table.bytes,
+          lastAltered: table.lastAltered
+        }))
+      });
+    } catch (error) {
+      console.error('Error fetching schema info:', error);
+      res.status(500).json({ message: 'Failed to fetch schema info: ' + (error instanceof Error ? error.message : 'Unknown error') });
+    }
+  });
+
+  // Mark the cached catalog stale for the connection, or for one database or schema
+  app.post('/api/connections/:id/schema/refresh', async (req, res) => {
+    try {
+      if (!(await findOwnConnection(req.user!.id, req.params.id))) {
+        return res.status(404).json({ message: 'Connection not found' });
+      }
+      const database = typeof req.body?.database === 'string' && req.body.database ? req.body.database : undefined;
+      const schema = typeof req.body?.schema === 'string' && req.body.schema ? req.body.schema : undefined;
+      await metadataCatalogService.refresh(req.params.id, database, schema);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error refreshing schema catalog:', error);
+      res.status(500).json({ message: 'Failed to refresh schema catalog' });
+    }
+  });
+
+  // Schema browser: one level of the tree per request, served from the metadata catalog
+  app.get('/api/connections/:id/schema/databases', async (req, res) => {
+    try {
+      const connection = await findOwnConnection(req.user!.id, req.params.id);
+      if (!connection) {
+        return res.status(404).json({ message: 'Connection not found' });
       }
+      const source = await dataSourceService.connectStored(connection);
+      const databases = await metadataCatalogService.getDatabases(source, { refresh: req.query.refresh === 'true' });
+      res.json({ databases, current: source.getInfo().database });
+    } catch (error) {
+      console.error('Error listing databases:', error);
+      res.status(500).json({ message: 'Failed to list databases: ' + (error instanceof Error ? error.message : 'Unknown error') });
+    }
+  });
 
-      const schemaInfo = await snowflakeService.getSchemaInfo(connection.id);
-      res.json(schemaInfo);
+  app.get('/api/connections/:id/schema/schemas', async (req, res) => {
+    try {
+      const connection = await findOwnConnection(req.user!.id, req.params.id);
+      if (!connection) {
+        return res.status(404).json({ message: 'Connection not found' });
+      }
+      const source = await dataSourceService.connectStored(connection);
+      const schemas = await metadataCatalogService.getSchemas(source, readQueryText(req.query.database), { refresh: req.query.refresh === 'true' });
+      res.json({ schemas, current: source.getInfo().schema });
     } catch (error) {
-      console.error('Error fetching Snowflake schema info:', error);
-      res.status(500).json({ message: 'Failed to fetch schema info: ' + (error instanceof Error ? error.message : 'Unknown error') });
+      console.error('Error listing schemas:', error);
+      res.status(500).json({ message: 'Failed to list schemas: ' + (error instanceof Error ? error.message : 'Unknown error') });
     }
   });
 
-  app.delete('/api/snowflake/connections/:id', async (req, res) => {
+  app.get('/api/connections/:id/schema/tables', async (req, res) => {
     try {
-      await snowflakeService.closeConnection(req.params.id);
-      await storage.deleteSnowflakeConnection(req.params.id);
+      const connection = await findOwnConnection(req.user!.id, req.params.id);
+      if (!connection) {
+        return res.status(404).json({ message: 'Connection not found' });
+      }
+      const source = await dataSourceService.connectStored(connection);
+      const tables = await metadataCatalogService.getTables(
+        source,
+        readQueryText(req.query.database),
+        readQueryText(req.query.schema),
+        { refresh: req.query.refresh === 'true' }
+      );
+      res.json({ tables });
+    } catch (error) {
+      console.error('Error listing tables:', error);
+      res.status(500).json({ message: 'Failed to list tables: ' + (error instanceof Error ? error.message : 'Unknown error') });
+    }
+  });
+
+  app.get('/api/connections/:id/schema/columns', async (req, res) => {
+    try {
+      const table = readQueryText(req.query.table);
+      if (!table) {
+        return res.status(400).json({ message: 'table is required' });
+      }
+      const connection = await findOwnConnection(req.user!.id, req.params.id);
+      if (!connection) {
+        return res.status(404).json({ message: 'Connection not found' });
+      }
+      const source = await dataSourceService.connectStored(connection);
+      const columns = await metadataCatalogService.getColumns(source, table, readQueryText(req.query.database), readQueryText(req.query.schema));
+      res.json({ columns });
+    } catch (error) {
+      console.error('Error listing columns:', error);
+      res.status(500).json({ message: 'Failed to list columns: ' + (error instanceof Error ? error.message : 'Unknown error') });
+    }
+  });
+
+  app.get('/api/connections/:id/schema/search', async (req, res) => {
+    try {
+      const query = readQueryText(req.query.q)?.trim();
+      if (!query) {
+        return res.json({ tables: [], columns: [] });
+      }
+      if (!(await findOwnConnection(req.user!.id, req.params.id))) {
+        return res.status(404).json({ message: 'Connection not found' });
+      }
+      res.json(await storage.searchCatalog(req.params.id, query, SCHEMA_SEARCH_LIMIT));
+    } catch (error) {
+      console.error('Error searching schema catalog:', error);
+      res.status(500).json({ message: 'Failed to search schema catalog' });
+    }
+  });
+
+  // First rows of a table, run through the same SQL policy and limits as any other query
+  app.get('/api/connections/:id/schema/preview', async (req, res) => {
+    try {
+      const table = readQueryText(req.query.table);
+      if (!table) {
+        return res.status(400).json({ message: 'table is required' });
+      }
+      const connection = await findOwnConnection(req.user!.id, req.params.id);
+      if (!connection) {
+        return res.status(404).json({ message: 'Connection not found' });
+      }
+
+      const source = await dataSourceService.connectStored(connection);
+      const sqlText = `SELECT * FROM ${source.dialect.qualifyTable(table, readQueryText(req.query.database), readQueryText(req.query.schema))} LIMIT ${PREVIEW_ROWS}`;
+      const decision = await sqlGuardService.check(sqlText, {
+        connectionId: connection.id,
+        userPolicy: accessControlService.getSqlPolicy(req.user!.role)
+      });
+      if (!decision.allowed) {
+        return res.status(403).json({ message: decision.reason });
+      }
+      const outcome = await queryLimitService.execute(source, decision.statement);
+      if (outcome.refused) {
+        return res.status(422).json({ message: `Query refused: ${outcome.reason}` });
+      }
+      res.json({ sql: sqlText, ...outcome.result, warnings: outcome.warnings });
+    } catch (error) {
+      console.error('Error previewing table:', error);
+      res.status(500).json({ message: 'Failed to preview table: ' + (error instanceof Error ? error.message : 'Unknown error') });
+    }
+  });
+
+  app.delete('/api/connections/:id', accessControlService.requirePermission('connections.manage'), async (req, res) => {
+    try {
+      if (!(await findManagedConnection(req.user!, req.params.id))) {
+        return res.status(404).json({ message: 'Connection not found' });
+      }
+      await dataSourceService.close(req.params.id);
+      await storage.deleteDataConnection(req.params.id);
       res.json({ success: true });
     } catch (error) {
-      console.error('Error deleting Snowflake connection:', error);
-      res.status(500).json({ message: 'Failed to delete Snowflake connection' });
+      console.error('Error deleting connection:', error);
+      res.status(500).json({ message: 'Failed to delete connection' });
     }
   });
 
-  app.put('/api/snowflake/connections/:id/default', async (req, res) => {
+  app.put('/api/connections/:id/default', async (req, res) => {
     try {
-      const { userId } = req.body;
-      await storage.setDefaultSnowflakeConnection(userId, req.params.id);
+      if (!(await findOwnConnection(req.user!.id, req.params.id))) {
+        return res.status(404).json({ message: 'Connection not found' });
+      }
+      await storage.setDefaultDataConnection(req.user!.id, req.params.id);
       res.json({ success: true });
     } catch (error) {
-      console.error('Error setting default Snowflake connection:', error);
+      console.error('Error setting default connection:', error);
       res.status(500).json({ message: 'Failed to set default connection' });
     }
   });
 
+  // File uploads, each loaded as a table of the user's "Uploaded files" DuckDB connection.
+  // The file is the raw request body; its name comes in the query string.
+  app.get('/api/uploads', async (req, res) => {
+    try {
+      res.json(await storage.getUploadedFiles(req.user!.id));
+    } catch (error) {
+      console.error('Error fetching uploaded files:', error);
+      res.status(500).json({ message: 'Failed to fetch uploaded files' });
+    }
+  });
+
+  app.post('/api/uploads', async (req, res) => {
+    try {
+      const fileName = readQueryText(req.query.fileName);
+      if (!fileName) {
+        return res.status(400).json({ message: 'fileName is required' });
+      }
+      if (Number(req.headers['content-length']) > fileUploadService.getMaxBytes()) {
+        return res.status(413).json({ message: `Files are limited to ${Math.round(fileUploadService.getMaxBytes() / 1024 / 1024)} MB` });
+      }
+      const sessionId = readQueryText(req.query.sessionId);
+      if (sessionId && !(await findOwnSession(req.user!.id, sessionId))) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
+
+      const result = await fileUploadService.ingest(req.user!.id, fileName, req, readQueryText(req.query.tableName));
+      if (result.refused) {
+        return res.status(422).json({ message: result.reason });
+      }
+      // A chat without a connection yet can ask about the file straight away
+      const attached = sessionId
+        ? await fileUploadService.attachToSession(sessionId, await fileUploadService.getConnection(req.user!.id))
+        : false;
+      res.status(201).json({ ...result.file, attached });
+    } catch (error) {
+      console.error('Error uploading file:', error);
+      res.status(500).json({ message: 'Failed to upload file: ' + (error instanceof Error ? error.message : 'Unknown error') });
+    }
+  });
+
+  app.delete('/api/uploads/:id', async (req, res) => {
+    try {
+      const file = await storage.getUploadedFile(req.params.id);
+      if (file?.userId !== req.user!.id) {
+        return res.status(404).json({ message: 'Uploaded file not found' });
+      }
+      await fileUploadService.remove(file);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting uploaded file:', error);
+      res.status(500).json({ message: 'Failed to delete uploaded file' });
+    }
+  });
+
+  // SQL confirmation routes: the user's answer to a mutating statement proposed in chat
+  app.get('/api/sql-confirmations/:id', async (req, res) => {
+    const confirmation = await findOwnConfirmation(req.user!.id, req.params.id);
+    if (!confirmation) {
+      return res.status(404).json({ message: 'Confirmation not found or expired' });
+    }
+    res.json(confirmation);
+  });
+
+  app.post('/api/sql-confirmations/:id', async (req, res) => {
+    const { approved } = req.body;
+    if (typeof approved !== 'boolean') {
+      return res.status(400).json({ message: 'approved must be true or false' });
+    }
+
+    if (!(await findOwnConfirmation(req.user!.id, req.params.id))) {
+      return res.status(404).json({ message: 'Confirmation not found, expired or already answered' });
+    }
+    const confirmation = sqlGuardService.resolveConfirmation(req.params.id, approved);
+    if (!confirmation) {
+      return res.status(404).json({ message: 'Confirmation not found, expired or already answered' });
+    }
+    res.json(confirmation);
+  });
+
+  // Query jobs: long-running queries polled (or subscribed to over /ws) and read back in pages
+  app.post('/api/queries', async (req, res) => {
+    try {
+      const { connectionId, sqlText, sessionId, confirmed } = req.body;
+      const connection = await findOwnConnection(req.user!.id, connectionId);
+      if (!connection) {
+        return res.status(404).json({ message: 'Connection not found' });
+      }
+
+      const decision = await sqlGuardService.check(sqlText, {
+        connectionId: connection.id,
+        userPolicy: accessControlService.getSqlPolicy(req.user!.role),
+        confirmed: confirmed === true
+      });
+      if (!decision.allowed) {
+        const needsConfirmation = decision.policy === 'confirm' && !!decision.statement?.mutating;
+        return res.status(needsConfirmation ? 409 : 403).json({
+          message: decision.reason,
+          policy: decision.policy,
+          statementType: decision.statement?.keyword,
+          requiresConfirmation: needsConfirmation
+        });
+      }
+
+      if (sessionId && !(await findOwnSession(req.user!.id, sessionId))) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
+      const source = await dataSourceService.connectStored(connection);
+      const submission = await queryJobService.submit(source, decision.statement, { sessionId, userId: req.user!.id });
+      if (submission.refused) {
+        return res.status(422).json({ message: `Query refused: ${submission.reason}` });
+      }
+      res.status(202).json(submission.job);
+    } catch (error) {
+      console.error('Error submitting query job:', error);
+      res.status(500).json({ message: 'Failed to submit query: ' + (error instanceof Error ? error.message : 'Unknown error') });
+    }
+  });
+
+  app.get('/api/queries/:jobId', async (req, res) => {
+    try {
+      const job = await findOwnQueryJob(req.user!.id, req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ message: 'Query job not found' });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error('Error fetching query job:', error);
+      res.status(500).json({ message: 'Failed to fetch query job' });
+    }
+  });
+
+  app.get('/api/queries/:jobId/results', async (req, res) => {
+    try {
+      const job = await findOwnQueryJob(req.user!.id, req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ message: 'Query job not found' });
+      }
+      if (job.status !== 'succeeded') {
+        return res.status(409).json({ message: `Query job is ${job.status}`, status: job.status, error: job.error });
+      }
+
+      const offset = Math.max(0, parseInt(String(req.query.offset ?? 0), 10) || 0);
+      const limit = Math.min(MAX_RESULT_PAGE_SIZE, Math.max(1, parseInt(String(req.query.limit ?? DEFAULT_RESULT_PAGE_SIZE), 10) || DEFAULT_RESULT_PAGE_SIZE));
+      res.json(await queryJobService.getResultPage(job, offset, limit));
+    } catch (error) {
+      console.error('Error fetching query job results:', error);
+      res.status(500).json({ message: 'Failed to fetch query results' });
+    }
+  });
+
+  // Download of a job's stored rows, or with refresh=true of a fresh run of its statement
+  app.get('/api/queries/:jobId/export', async (req, res) => {
+    try {
+      let job = await findOwnQueryJob(req.user!.id, req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ message: 'Query job not found' });
+      }
+      const format = readExportFormat(req.query.format);
+      if (!format) {
+        return res.status(400).json({ message: INVALID_EXPORT_FORMAT });
+      }
+
+      if (req.query.refresh === 'true') {
+        const rerun = await resultExportService.rerun(job, accessControlService.getSqlPolicy(req.user!.role));
+        if ('reason' in rerun) {
+          return res.status(409).json({ message: `Could not re-run the query: ${rerun.reason}` });
+        }
+        job = rerun.job;
+      } else if (job.status !== 'succeeded') {
+        return res.status(409).json({ message: `Query job is ${job.status}`, status: job.status, error: job.error });
+      }
+      await sendExport(res, format, `query-${job.id.slice(0, 8)}`, job.columns || [], resultExportService.readJobRows(job));
+    } catch (error) {
+      console.error('Error exporting query job results:', error);
+      res.status(500).json({ message: 'Failed to export query results' });
+    }
+  });
+
+  app.post('/api/queries/:jobId/cancel', async (req, res) => {
+    try {
+      if (!(await findOwnQueryJob(req.user!.id, req.params.jobId))) {
+        return res.status(404).json({ message: 'Query job not found' });
+      }
+      res.json(await queryJobService.cancel(req.params.jobId));
+    } catch (error) {
+      console.error('Error cancelling query job:', error);
+      res.status(500).json({ message: 'Failed to cancel query job' });
+    }
+  });
+
+  app.get('/api/sessions/:sessionId/queries', async (req, res) => {
+    try {
+      if (!(await findOwnSession(req.user!.id, req.params.sessionId))) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
+      res.json(await storage.getQueryJobsBySession(req.params.sessionId));
+    } catch (error) {
+      console.error('Error fetching session query jobs:', error);
+      res.status(500).json({ message: 'Failed to fetch query jobs' });
+    }
+  });
+
   // Agent Configuration Routes
-  app.get('/api/agent-config/:userId', async (req, res) => {
+  app.get('/api/agent-config', async (req, res) => {
     try {
-      const config = await storage.getAgentConfiguration(req.params.userId);
+      const config = await storage.getAgentConfiguration(req.user!.id);
       
       // Return the configuration data or default structure if none exists
       const configData = config?.configData || {
@@ -482,10 +1194,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/agent-config/:userId', async (req, res) => {
+  app.put('/api/agent-config', accessControlService.requirePermission('models.edit'), async (req, res) => {
     try {
       const { functionTools, agentPrompts, agentConfigs } = req.body;
-      await storage.saveAgentConfiguration(req.params.userId, {
+      // Agents get the server's LLM API keys, so they may only call allowed endpoints
+      const disallowed = (Array.isArray(agentConfigs) ? agentConfigs : [])
+        .map((agent: any) => agent?.llm?.baseUrl)
+        .find((baseUrl: unknown) => typeof baseUrl === 'string' && baseUrl.trim() !== '' && !llmService.isAllowedBaseUrl(baseUrl));
+      if (disallowed) {
+        return res.status(400).json({ message: `Base URL ${disallowed} is not allowed; an admin must add it to LLM_ALLOWED_BASE_URLS` });
+      }
+      await storage.saveAgentConfiguration(req.user!.id, {
         functionTools,
         agentPrompts,
         agentConfigs
@@ -497,5 +1216,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Snowflake connection pool sizes and health
+  app.get('/api/admin/connection-pools', accessControlService.requirePermission('connections.manage'), (_req, res) => {
+    res.json({ pools: snowflakeService.getPoolMetrics() });
+  });
+
+  // User administration
+  app.get('/api/users', accessControlService.requirePermission('users.manage'), async (_req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      res.status(500).json({ message: 'Failed to fetch users' });
+    }
+  });
+
+  app.post('/api/users', accessControlService.requirePermission('users.manage'), async (req, res) => {
+    try {
+      const { username, password, displayName, role } = req.body;
+      if (typeof username !== 'string' || !username.trim() || typeof password !== 'string' || password.length < 8) {
+        return res.status(400).json({ message: 'A username and a password of at least 8 characters are required' });
+      }
+      if (role !== undefined && !isUserRole(role)) {
+        return res.status(400).json({ message: `role must be one of ${userRoles.join(', ')}` });
+      }
+      if (await storage.getUserByUsername(username.trim())) {
+        return res.status(409).json({ message: 'Username is already taken' });
+      }
+
+      const user = await storage.createUser({
+        username: username.trim(),
+        password: await hashPassword(password),
+        displayName: typeof displayName === 'string' && displayName.trim() ? displayName.trim() : null,
+        role: role ?? 'analyst'
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      console.error('Error creating user:', error);
+      res.status(500).json({ message: 'Failed to create user' });
+    }
+  });
+
+  app.patch('/api/users/:id', accessControlService.requirePermission('users.manage'), async (req, res) => {
+    try {
+      const { role, displayName, password } = req.body;
+      const existing = await storage.getUser(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      if (role !== undefined && !isUserRole(role)) {
+        return res.status(400).json({ message: `role must be one of ${userRoles.join(', ')}` });
+      }
+      // Keeps the last admin from locking everyone out
+      if (role !== undefined && req.params.id === req.user!.id && role !== req.user!.role) {
+        return res.status(400).json({ message: 'You cannot change your own role' });
+      }
+      if (password !== undefined && (typeof password !== 'string' || password.length < 8)) {
+        return res.status(400).json({ message: 'Passwords must be at least 8 characters' });
+      }
+
+      const updates: Partial<User> = {};
+      if (role !== undefined) updates.role = role;
+      if (displayName !== undefined) updates.displayName = typeof displayName === 'string' && displayName.trim() ? displayName.trim() : null;
+      if (password !== undefined) updates.password = await hashPassword(password);
+
+      const user = Object.keys(updates).length > 0 ? await storage.updateUser(existing.id, updates) : existing;
+      res.json(toPublicUser(user));
+    } catch (error) {
+      console.error('Error updating user:', error);
+      res.status(500).json({ message: 'Failed to update user' });
+    }
+  });
+
   return httpServer;
 }
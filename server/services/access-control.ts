@@ -0,0 +1,62 @@
+/**
+ * Access Control
+ * Role checks for routes, agents and tools, based on users.role (viewer < analyst < modeler < admin)
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import { normalizeRole, roleAtLeast, roleHasPermission, type Permission, type SqlPolicyMode, type UserRole } from '@shared/schema';
+
+type RoleHolder = { role?: string | null } | null | undefined;
+
+// Agents that change shared configuration rather than just read data
+const AGENT_MIN_ROLES: Record<string, UserRole> = {
+  yaml: 'modeler'
+};
+
+export class AccessControlService {
+  getRole(user: RoleHolder): UserRole {
+    return normalizeRole(user?.role);
+  }
+
+  can(user: RoleHolder, permission: Permission): boolean {
+    return roleHasPermission(user?.role, permission);
+  }
+
+  /**
+   * SQL policy cap for a role; combined with the connection and agent policies, strictest wins
+   */
+  getSqlPolicy(role: string | null | undefined): SqlPolicyMode | undefined {
+    return roleHasPermission(role, 'sql.write') ? undefined : 'read_only';
+  }
+
+  /**
+   * SQL policy cap for the stage tools: modelers may PUT files to stages and load them into
+   * tables, and every role has to confirm each change, whatever the other policies allow
+   */
+  getStagePolicy(role: string | null | undefined): SqlPolicyMode {
+    return roleHasPermission(role, 'models.edit') ? 'confirm' : 'read_only';
+  }
+
+  canUseAgent(role: string | null | undefined, agentType: string): boolean {
+    if (!roleHasPermission(role, 'chat.use')) {
+      return false;
+    }
+    const minimum = AGENT_MIN_ROLES[agentType];
+    return !minimum || roleAtLeast(role, minimum);
+  }
+
+  /**
+   * Express middleware rejecting signed-in users whose role lacks a permission
+   */
+  requirePermission(permission: Permission) {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (!this.can(req.user, permission)) {
+        return res.status(403).json({ message: `Your role (${this.getRole(req.user)}) does not allow this` });
+      }
+      next();
+    };
+  }
+}
+
+// Global access control instance
+export const accessControlService = new AccessControlService();
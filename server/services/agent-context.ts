@@ -1,12 +1,26 @@
 /**
  * Agent Context Management - Enhanced from CLI implementation
- * Manages rich state for AI agents with comprehensive data tracking
+ * Manages rich state for AI agents with comprehensive data tracking.
+ * Contexts are saved to SQLite on every change and restored on first use after a restart;
+ * the last query's rows are stored separately and expire after AGENT_RESULT_TTL_HOURS.
  */
 
+import type { DataSourceType } from '@shared/schema';
+import { storage } from '../storage';
+import { dataSourceService, type QueryScope } from './data-source';
+
+const DEFAULT_RESULT_TTL_HOURS = 24;
+const DEFAULT_RESULT_MAX_ROWS = 1000;
+const RESULT_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Kept in agent_query_results instead of the context row
+const QUERY_RESULT_FIELDS = ['lastQueryResults', 'lastQueryColumns'] as const;
+
 export interface AgentContext {
   sessionId: string;
-  userId?: string; // Add userId to support connection lookups
+  userId?: string; // Owner of the chat session; connections and settings are looked up for this user
   connectionId?: string;
+  dataSourceType?: DataSourceType;
   currentDatabase?: string;
   currentSchema?: string;
   currentStage?: string;
@@ -33,34 +47,113 @@ export interface AgentContext {
     functionCall?: string;
     timestamp: Date;
   }>;
+  historySummary?: {
+    throughMessageId: string; // last stored message folded into the summary
+    content: string;
+  };
+}
+
+// The session's selected database and schema, which its statements run in
+export function getQueryScope(context: AgentContext): QueryScope {
+  return { database: context.currentDatabase || undefined, schema: context.currentSchema || undefined };
+}
+
+function positiveSetting(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
 }
 
 export class AgentContextManager {
   private contexts = new Map<string, AgentContext>();
+  private loading = new Map<string, Promise<AgentContext>>();
+
+  constructor() {
+    setInterval(() => {
+      storage.deleteExpiredAgentQueryResults().catch(error => console.error('Failed to prune agent query results:', error));
+    }, RESULT_PRUNE_INTERVAL_MS).unref();
+  }
 
   async createContext(sessionId: string): Promise<AgentContext> {
+    const session = await storage.getChatSession(sessionId);
     const context: AgentContext = {
       sessionId,
-      userId: '0d493db8-bfed-4dd0-ab40-ae8a3225f8a5', // TODO: Get from session
+      userId: session?.userId ?? undefined,
       tables: [],
       conversationHistory: []
     };
     this.contexts.set(sessionId, context);
     
-    // Auto-connect to the default Snowflake connection
-    await this.autoConnectToSnowflake(context);
+    // Auto-connect to the user's default connection
+    await this.autoConnectToDataSource(context);
+    await this.saveState(context);
     
     return context;
   }
 
-  private async autoConnectToSnowflake(context: AgentContext): Promise<void> {
+  /**
+   * Rebuild a context saved before a restart, or undefined when the session has none
+   */
+  private async restoreContext(sessionId: string): Promise<AgentContext | undefined> {
+    const state = await storage.getAgentContextState(sessionId);
+    if (!state) {
+      return undefined;
+    }
+
+    const saved = state as Partial<AgentContext>;
+    const context: AgentContext = {
+      ...saved,
+      sessionId,
+      tables: saved.tables || [],
+      conversationHistory: (saved.conversationHistory || []).map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) }))
+    };
+
+    const result = await storage.getAgentQueryResult(sessionId);
+    if (result) {
+      context.lastQueryResults = result.rows;
+      context.lastQueryColumns = result.columns || [];
+    }
+
+    this.contexts.set(sessionId, context);
+    await this.restoreConnection(context);
+    console.log(`Restored agent context for session ${sessionId}`);
+    return context;
+  }
+
+  // Stored connections are reopened; connections the agent opened itself are replaced by the default one
+  private async restoreConnection(context: AgentContext): Promise<void> {
+    if (!context.connectionId) {
+      return;
+    }
+    if (dataSourceService.has(context.connectionId)) {
+      dataSourceService.hold(context.connectionId, context.sessionId);
+      return;
+    }
+
+    const connection = await storage.getDataConnection(context.connectionId);
+    if (connection && connection.userId === context.userId && connection.isActive) {
+      try {
+        await dataSourceService.connectStored(connection);
+        dataSourceService.hold(connection.id, context.sessionId);
+        return;
+      } catch (error) {
+        console.log(`Could not reopen connection ${connection.id} for session ${context.sessionId}:`, error);
+      }
+    }
+
+    context.connectionId = undefined;
+    context.dataSourceType = undefined;
+    await this.autoConnectToDataSource(context);
+    await this.saveState(context);
+  }
+
+  private async autoConnectToDataSource(context: AgentContext): Promise<void> {
     try {
-      // Import function tools to access connect_to_snowflake
+      // Import function tools to access connect_to_data_source
       const { getFunctionTool } = await import('./function-tools');
-      const connectTool = getFunctionTool('connect_to_snowflake');
+      const connectTool = getFunctionTool('connect_to_data_source');
       
       if (connectTool) {
-        console.log(`Auto-connecting session ${context.sessionId} to Snowflake...`);
+        console.log(`Auto-connecting session ${context.sessionId} to the default data source...`);
         const result = await connectTool.execute(context, {});
         console.log(`Auto-connection result:`, result);
         console.log(`Auto-connection successful for session ${context.sessionId}`);
@@ -73,7 +166,7 @@ export class AgentContextManager {
           console.log('Warning: Context still missing connectionId after auto-connection');
         }
       } else {
-        console.log('Warning: connect_to_snowflake tool not found');
+        console.log('Warning: connect_to_data_source tool not found');
       }
     } catch (error) {
       console.log(`Auto-connection failed for session ${context.sessionId}:`, error);
@@ -82,17 +175,45 @@ export class AgentContextManager {
   }
 
   async getContext(sessionId: string): Promise<AgentContext> {
-    let context = this.contexts.get(sessionId);
-    if (!context) {
-      context = await this.createContext(sessionId);
+    const context = this.contexts.get(sessionId);
+    if (context) {
+      return context;
     }
-    return context;
+
+    // Concurrent callers share one restore (or create)
+    let pending = this.loading.get(sessionId);
+    if (!pending) {
+      pending = this.restoreContext(sessionId)
+        .then(restored => restored || this.createContext(sessionId))
+        .finally(() => this.loading.delete(sessionId));
+      this.loading.set(sessionId, pending);
+    }
+    return await pending;
   }
 
+  /**
+   * Changing the connection holds the new source for the session and lets go of the old one,
+   * which closes it only when no other session uses it
+   */
   async updateContext(sessionId: string, updates: Partial<AgentContext>): Promise<void> {
     const context = await this.getContext(sessionId);
+    const previousConnectionId = context.connectionId;
     Object.assign(context, updates);
     this.contexts.set(sessionId, context);
+
+    if (context.connectionId !== previousConnectionId) {
+      if (context.connectionId) {
+        dataSourceService.hold(context.connectionId, sessionId);
+      }
+      if (previousConnectionId) {
+        await dataSourceService.release(previousConnectionId, sessionId);
+      }
+    }
+
+    if (QUERY_RESULT_FIELDS.some(field => field in updates)) {
+      await this.saveQueryResult(context);
+    }
+    await this.saveState(context);
   }
 
   async addToHistory(sessionId: string, entry: {
@@ -110,6 +231,7 @@ export class AgentContextManager {
     }
     
     this.contexts.set(sessionId, context);
+    await this.saveState(context);
   }
 
   async getContextSummary(sessionId: string): Promise<string> {
@@ -117,7 +239,7 @@ export class AgentContextManager {
     const parts = [];
     
     if (context.connectionId) {
-      parts.push(`Connected to Snowflake`);
+      parts.push(`Connected to ${context.dataSourceType || 'snowflake'}`);
     }
     
     if (context.currentDatabase) {
@@ -146,6 +268,39 @@ export class AgentContextManager {
   clearContext(sessionId: string): void {
     this.contexts.delete(sessionId);
   }
+
+  // Saving never fails the tool call that changed the context
+  private async saveState(context: AgentContext): Promise<void> {
+    const { lastQueryResults, lastQueryColumns, ...state } = context;
+    try {
+      await storage.saveAgentContextState(context.sessionId, state as unknown as Record<string, unknown>);
+    } catch (error) {
+      console.error(`Failed to save agent context for session ${context.sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Store the last query's rows, capped at AGENT_RESULT_MAX_ROWS, until AGENT_RESULT_TTL_HOURS from now
+   */
+  private async saveQueryResult(context: AgentContext): Promise<void> {
+    try {
+      if (!context.lastQueryResults) {
+        await storage.deleteAgentQueryResult(context.sessionId);
+        return;
+      }
+      const maxRows = Math.floor(positiveSetting('AGENT_RESULT_MAX_ROWS', DEFAULT_RESULT_MAX_ROWS));
+      const ttlHours = positiveSetting('AGENT_RESULT_TTL_HOURS', DEFAULT_RESULT_TTL_HOURS);
+      await storage.saveAgentQueryResult({
+        sessionId: context.sessionId,
+        columns: context.lastQueryColumns || [],
+        rows: context.lastQueryResults.slice(0, maxRows),
+        rowCount: context.lastQueryResults.length,
+        expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000)
+      });
+    } catch (error) {
+      console.error(`Failed to save query result for session ${context.sessionId}:`, error);
+    }
+  }
 }
 
 // Global instance
@@ -0,0 +1,41 @@
+/**
+ * Agent Stream Events
+ * Progress and token events emitted while an agent works on a message,
+ * forwarded to the client over the /ws socket as they happen
+ */
+
+export type AgentStreamEvent =
+  | { type: 'agent_token'; delta: string }
+  | { type: 'tool_call_started'; toolCallId?: string; toolName: string; arguments: any }
+  | { type: 'tool_call_finished'; toolCallId?: string; toolName: string; success: boolean; durationMs: number }
+  | { type: 'tool_output_token'; toolName: string; delta: string }
+  | { type: 'query_running'; sql: string }
+  | { type: 'rows_received'; rowCount: number; columns: string[]; executionTime: number }
+  | { type: 'sql_confirmation_required'; confirmation: SqlConfirmationRequest }
+  | { type: 'query_job_started'; job: QueryJobHandle };
+
+// A mutating statement waiting for the user to approve or reject it in the chat
+export interface SqlConfirmationRequest {
+  id: string;
+  sql: string;
+  keyword: string;
+  kind: string;
+}
+
+// A query that outlived the tool call and keeps running as a background job
+export interface QueryJobHandle {
+  id: string;
+  sql: string;
+}
+
+export type AgentEventHandler = (event: AgentStreamEvent) => void;
+
+// Emit without letting a broken listener (e.g. closed socket) break the agent run
+export function emitAgentEvent(handler: AgentEventHandler | undefined, event: AgentStreamEvent): void {
+  if (!handler) return;
+  try {
+    handler(event);
+  } catch (error) {
+    console.warn('Failed to deliver agent event:', event.type, error);
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Agent loop regression test: a chat message goes to the model, the model's execute_sql call
+ * runs against a DuckDB source and the result goes back to the model for the answer. Model
+ * responses are replayed from fixtures/llm, so the test runs offline; re-record them with
+ * LLM_REPLAY_MODE=record when a prompt or tool changes on purpose.
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { DuckDBInstance } from '@duckdb/node-api';
+import type { AgentStreamEvent } from './agent-events';
+
+const FIXTURES_DIR = fileURLToPath(new URL('../../fixtures/llm', import.meta.url));
+
+let workDir: string;
+let sessionId: string;
+let agentSDKService: typeof import('./agent-sdk-service').agentSDKService;
+
+before(async () => {
+  // The app keeps its SQLite database and keys under ./data
+  workDir = await mkdtemp(join(tmpdir(), 'datamind-agent-test-'));
+  process.chdir(workDir);
+  process.env.LLM_REPLAY_MODE = 'replay';
+  process.env.LLM_FIXTURES_DIR = FIXTURES_DIR;
+
+  const { initializeDatabase } = await import('../db');
+  const { storage } = await import('../storage');
+  ({ agentSDKService } = await import('./agent-sdk-service'));
+  initializeDatabase();
+
+  const filePath = join(workDir, 'shop.duckdb');
+  const instance = await DuckDBInstance.fromCache(filePath);
+  const connection = await instance.connect();
+  await connection.run(`CREATE TABLE orders (id INTEGER, region VARCHAR, amount DECIMAL(10, 2))`);
+  await connection.run(`INSERT INTO orders VALUES (1, 'North', 120.00), (2, 'South', 80.50), (3, 'North', 40.00), (4, 'West', 95.25)`);
+  connection.closeSync();
+
+  const user = await storage.createUser({ username: 'analyst', password: '', role: 'analyst' });
+  await storage.createDataConnection({
+    userId: user.id,
+    name: 'Shop',
+    type: 'duckdb',
+    options: { filePath },
+    isDefault: true,
+    isActive: true
+  });
+  sessionId = (await storage.createChatSession({ userId: user.id, title: 'Revenue', agentType: 'query' })).id;
+});
+
+after(async () => {
+  const { dataSourceService } = await import('./data-source');
+  await dataSourceService.closeAll();
+  process.chdir(tmpdir());
+  await rm(workDir, { recursive: true, force: true });
+});
+
+test('answers a data question by running SQL and reading the result back', async () => {
+  const events: AgentStreamEvent[] = [];
+  const response = await agentSDKService.processMessage(sessionId, 'Which region brings in the most revenue?', 'query', event => events.push(event));
+
+  assert.equal(response.metadata.error, undefined, response.content);
+  assert.equal(response.content, 'North brings in the most revenue: 160.00 across 2 orders, ahead of West (95.25) and South (80.50).');
+  assert.deepEqual(response.metadata.toolCalls, ['execute_sql']);
+  assert.equal(response.metadata.iterations, 2);
+
+  const [result] = response.metadata.toolResults;
+  assert.equal(result.status, 'success');
+  assert.deepEqual(result.data.columns, ['region', 'revenue', 'orders']);
+  assert.deepEqual(result.data.rows.map((row: any) => row.region), ['North', 'West', 'South']);
+
+  const types = events.map(event => event.type);
+  assert.ok(types.includes('tool_call_started'));
+  assert.ok(types.includes('rows_received'));
+  assert.ok(types.includes('tool_call_finished'));
+  assert.ok(types.indexOf('agent_token') > types.indexOf('tool_call_finished'), 'the answer streams after the tool result');
+});
+
+test('fails the turn when the model is asked something that was never recorded', async () => {
+  const response = await agentSDKService.processMessage(sessionId, 'Which product sells best on Tuesdays?', 'query');
+
+  assert.equal(response.metadata.error, true);
+  assert.match(response.content, /No recorded LLM response for prompt hash [0-9a-f]{64}/);
+});
@@ -4,19 +4,27 @@
  */
 
 import { AgentContext, agentContextManager } from './agent-context';
-import { enhancedFunctionTools, getEnhancedFunctionTool } from './function-tools-enhanced';
-import OpenAI from 'openai';
+import { getEnhancedFunctionTool, getToolsForRole, isToolAllowedForRole, runTool, FunctionToolDefinition, ToolExecutionOptions } from './function-tools-enhanced';
+import { describeToolResult, serializeToolResult, toolError, toStoredToolResult } from './tool-results';
+import { AgentEventHandler, emitAgentEvent } from './agent-events';
+import { llmService, LLMSettings } from './llm-provider';
+import { sqlGuardService, SqlPolicyMode } from './sql-guard';
+import { accessControlService } from './access-control';
+import { conversationHistoryService, toToolTraceEntry, DEFAULT_HISTORY_TOKENS, type ToolTraceEntry } from './conversation-history';
+import type { ToolResult, UserRole } from '@shared/schema';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Upper bound on model -> tool -> model round trips for a single user message
+const DEFAULT_MAX_TOOL_ITERATIONS = 6;
+
+// Sampling temperature for the agent loop when the agent has none configured
+const DEFAULT_AGENT_TEMPERATURE = 0.1;
 
 // Enhanced Agent Instructions based on CLI implementation
 const QUERY_AGENT_INSTRUCTIONS = `
-You are a Snowflake Query Assistant that helps users interact with their Snowflake data using natural language.
+You are a Query Assistant that helps users interact with their Snowflake, PostgreSQL, MySQL or DuckDB data using natural language.
 
 Your capabilities:
-1. Connect to Snowflake databases
+1. Connect to Snowflake or to the user's configured data sources (connect_to_data_source)
 2. Browse database structures (databases, schemas, tables)
 3. Convert natural language queries to SQL
 4. Execute SQL queries and show results
@@ -54,13 +62,19 @@ EFFICIENCY RULES:
 - Use the most direct path to get to query execution
 - Don't call the same endpoint multiple times unnecessarily
 - Once connected, reuse the same connection for all operations
-- NEVER call connect_to_snowflake() more than once per session
+- NEVER call connect_to_snowflake() or connect_to_data_source() more than once per session
+- Write SQL in the dialect of the connected source; generate_sql already does this
 
 CRITICAL: QUERY EXECUTION BEHAVIOR
 
 - If user asks a data query, IMMEDIATELY use generate_sql() tool
 - Always check get_current_context() to see what data is available
 - If user asks a query that can be answered with current data, generate SQL and execute it immediately
+- Tool results are returned to you: after generate_sql, pass the generated SQL to execute_sql, and call generate_summary when the user asked a question about the data
+- Only reply to the user once you have the final answer - don't stop halfway to ask "shall I run it?"
+- execute_sql runs one statement at a time; never send several statements in one call
+- If execute_sql reports that confirmation is required or that a statement is blocked, explain why to the user and stop - do not try to work around the policy
+- To load a staged file into a table, use load_stage_file_to_table instead of writing CREATE TABLE / COPY INTO yourself; it asks the user to confirm the load
 
 Query Execution Examples:
 
@@ -199,21 +213,32 @@ Please let me know if you'd like to load this file or need further assistance.`;
     }
   }
   
-  async processMessage(sessionId: string, message: string, agentType: string = 'query'): Promise<{
+  async processMessage(sessionId: string, message: string, agentType: string = 'query', onEvent?: AgentEventHandler, signal?: AbortSignal): Promise<{
     content: string;
     metadata: any;
   }> {
-    // Load user's agent configuration from database
-    const userId = '0d493db8-bfed-4dd0-ab40-ae8a3225f8a5'; // TODO: Get from session
+    // Load the session owner's role and agent configuration from database
     let agentConfig: any;
+    let role: UserRole = 'viewer';
     try {
       const { storage } = await import('../storage');
+      const userId = (await storage.getChatSession(sessionId))?.userId;
       console.log('Loading agent config from AgentSDKService for user:', userId);
-      agentConfig = await storage.getAgentConfiguration(userId);
+      role = accessControlService.getRole(userId ? await storage.getUser(userId) : undefined);
+      agentConfig = userId ? await storage.getAgentConfiguration(userId) : null;
       console.log('AgentSDKService config loaded:', !!agentConfig, agentConfig ? Object.keys(agentConfig) : 'null');
     } catch (error) {
       console.log('Error loading agent config, using defaults:', error);
     }
+    const llmSettings = llmService.getAgentSettings(agentConfig, agentType, { temperature: DEFAULT_AGENT_TEMPERATURE });
+    const sqlPolicy = sqlGuardService.getAgentPolicy(agentConfig, agentType);
+
+    if (!accessControlService.canUseAgent(role, agentType)) {
+      return {
+        content: `The ${agentType} agent is not available to your role (${role}).`,
+        metadata: { model: "agent-sdk", agentType, sessionId, error: true, forbidden: true }
+      };
+    }
 
     // Handle special initialization command like CLI
     if (message === 'initialize_system' && agentType === 'query') {
@@ -240,15 +265,18 @@ Please let me know if you'd like to load this file or need further assistance.`;
       }
 
       // First try enhanced function tool pattern matching
-      const enhancedResult = await this.tryEnhancedFunctionTools(context, message);
+      const enhancedResult = await this.tryEnhancedFunctionTools(context, message, { onEvent, llm: llmSettings, sqlPolicy, signal, role });
       if (enhancedResult) {
-        return enhancedResult;
+        return signal?.aborted ? this.buildCancelledResponse(sessionId, agentType) : enhancedResult;
       }
 
-      // Fall back to OpenAI Agent SDK for complex queries
-      return await this.processWithAgentSDK(context, message, agentType, agentConfig);
+      // Fall back to the LLM agent loop for complex queries
+      return await this.processWithAgentSDK(context, message, agentType, llmSettings, agentConfig, onEvent, sqlPolicy, signal, role);
 
     } catch (error) {
+      if (signal?.aborted) {
+        return this.buildCancelledResponse(sessionId, agentType);
+      }
       console.error('Error in Agent SDK service:', error);
       return {
         content: `I encountered an error processing your request: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -262,14 +290,30 @@ Please let me know if you'd like to load this file or need further assistance.`;
     }
   }
 
-  private async tryEnhancedFunctionTools(context: AgentContext, message: string): Promise<{
+  private async tryEnhancedFunctionTools(context: AgentContext, message: string, toolOptions: ToolExecutionOptions = {}): Promise<{
     content: string;
     metadata: any;
   } | null> {
     const lowercaseContent = message.toLowerCase().trim();
 
+    // Sent by the client when the user presses Run on a SQL confirmation card; a statement
+    // proposed by another tool (a stage load) goes back to that tool
+    const confirmedMatch = lowercaseContent.match(/^confirmed: run statement ([0-9a-f-]{36})$/);
+    if (confirmedMatch) {
+      const confirmation = sqlGuardService.getConfirmation(confirmedMatch[1]);
+      const tool = this.getAllowedTool(toolOptions, confirmation?.tool?.name || 'execute_sql');
+      if (tool) {
+        const params = confirmation?.tool ? confirmation.tool.params : { sql: confirmation?.sql };
+        const result = confirmation
+          ? await runTool(tool, context, { ...params, confirmation_id: confirmation.id }, toolOptions)
+          : { tool: tool.name, ...toolError('Confirmation expired', 'That confirmation has expired or was already used. Ask me to run the statement again.') };
+        return this.buildToolReply(context, result);
+      }
+    }
+
     // Enhanced pattern matching with CLI-based sophistication
     const patterns = [
+      { patterns: ['connect to data source', 'connect to postgres', 'connect to mysql', 'connect to duckdb'], tool: 'connect_to_data_source', params: {} },
       { patterns: ['connect', 'connect to snowflake', 'establish connection'], tool: 'connect_to_snowflake', params: {} },
       { patterns: ['show databases', 'list databases', 'get databases', 'databases'], tool: 'get_databases', params: {} },
       { patterns: ['show schemas', 'list schemas', 'get schemas', 'schemas'], tool: 'get_schemas', params: {} },
@@ -288,41 +332,20 @@ Please let me know if you'd like to load this file or need further assistance.`;
     // Check for direct pattern matches
     for (const pattern of patterns) {
       if (pattern.patterns.some(p => lowercaseContent === p || lowercaseContent.includes(p))) {
-        const tool = getEnhancedFunctionTool(pattern.tool);
+        const tool = this.getAllowedTool(toolOptions, pattern.tool);
         if (tool) {
-          try {
-            console.log(`Executing enhanced function tool: ${pattern.tool}`);
-            const result = await tool.execute(context, pattern.params);
-            
-            // Add to conversation history
-            agentContextManager.addToHistory(context.sessionId, {
-              role: 'function',
-              content: result,
-              functionCall: pattern.tool,
-              timestamp: new Date()
-            });
-
-            return {
-              content: result,
-              metadata: {
-                model: "enhanced-function-tool",
-                agentType: "query",
-                sessionId: context.sessionId,
-                functionCall: pattern.tool
-              }
-            };
-          } catch (error) {
-            console.log(`Enhanced function tool error: ${error}`);
-            return {
-              content: `Error executing ${pattern.tool}: ${error instanceof Error ? error.message : 'Unknown error'}`,
-              metadata: {
-                model: "enhanced-function-tool",
-                agentType: "query", 
-                sessionId: context.sessionId,
-                error: true
-              }
-            };
-          }
+          console.log(`Executing enhanced function tool: ${pattern.tool}`);
+          const result = await runTool(tool, context, pattern.params, toolOptions);
+          
+          // Add to conversation history
+          agentContextManager.addToHistory(context.sessionId, {
+            role: 'function',
+            content: serializeToolResult(result),
+            functionCall: pattern.tool,
+            timestamp: new Date()
+          });
+
+          return this.buildToolReply(context, result);
         }
       }
     }
@@ -330,103 +353,26 @@ Please let me know if you'd like to load this file or need further assistance.`;
     // Check for simple confirmations (yes, sure, ok)
     const confirmationPatterns = ['yes', 'sure', 'ok', 'okay', 'proceed', 'go ahead', 'do it'];
     if (confirmationPatterns.includes(lowercaseContent)) {
-      const tool = getEnhancedFunctionTool('get_tables');
-      if (tool) {
-        try {
-          console.log(`Executing enhanced function tool: get_tables (from confirmation)`);
-          const result = await tool.execute(context, {});
-          return {
-            content: result,
-            metadata: {
-              model: "enhanced-function-tool",
-              agentType: "query",
-              sessionId: context.sessionId,
-              functionCall: 'get_tables'
-            }
-          };
-        } catch (error) {
-          console.log(`Enhanced function tool error: ${error}`);
-          return {
-            content: `Error executing get_tables: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            metadata: {
-              model: "enhanced-function-tool",
-              agentType: "query", 
-              sessionId: context.sessionId,
-              error: true
-            }
-          };
-        }
-      }
-    }
-
-    // Check for database/schema/table selection patterns
-    const selectDatabaseMatch = lowercaseContent.match(/(?:use|select|choose)\s+database\s+(\w+)/);
-    if (selectDatabaseMatch) {
-      const tool = getEnhancedFunctionTool('select_database');
-      if (tool) {
-        const result = await tool.execute(context, { database_name: selectDatabaseMatch[1] });
-        return {
-          content: result,
-          metadata: { model: "enhanced-function-tool", agentType: "query", sessionId: context.sessionId, functionCall: "select_database" }
-        };
-      }
-    }
-
-    const selectSchemaMatch = lowercaseContent.match(/(?:use|select|choose)\s+schema\s+(\w+)/);
-    if (selectSchemaMatch) {
-      const tool = getEnhancedFunctionTool('select_schema');
+      const tool = this.getAllowedTool(toolOptions, 'get_tables');
       if (tool) {
-        const result = await tool.execute(context, { schema_name: selectSchemaMatch[1] });
-        return {
-          content: result,
-          metadata: { model: "enhanced-function-tool", agentType: "query", sessionId: context.sessionId, functionCall: "select_schema" }
-        };
-      }
-    }
-
-    // Check for table description patterns
-    const describeTableMatch = lowercaseContent.match(/(?:describe|desc|show\s+structure\s+of|explain)\s+(?:table\s+)?(\w+)/);
-    if (describeTableMatch) {
-      const tool = getEnhancedFunctionTool('describe_table');
-      if (tool) {
-        try {
-          const result = await tool.execute(context, { table_name: describeTableMatch[1] });
-          return {
-            content: result,
-            metadata: { model: "enhanced-function-tool", agentType: "query", sessionId: context.sessionId, functionCall: "describe_table" }
-          };
-        } catch (error) {
-          return {
-            content: `Error describing table: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            metadata: { model: "enhanced-function-tool", agentType: "query", sessionId: context.sessionId, error: true }
-          };
-        }
+        console.log(`Executing enhanced function tool: get_tables (from confirmation)`);
+        return this.buildToolReply(context, await runTool(tool, context, {}, toolOptions));
       }
     }
 
-    // Check for stage selection patterns
-    const selectStageMatch = lowercaseContent.match(/(?:use|select|choose)\s+stage\s+(\w+)/);
-    if (selectStageMatch) {
-      const tool = getEnhancedFunctionTool('select_stage');
-      if (tool) {
-        const result = await tool.execute(context, { stage_name: selectStageMatch[1] });
-        return {
-          content: result,
-          metadata: { model: "enhanced-function-tool", agentType: "query", sessionId: context.sessionId, functionCall: "select_stage" }
-        };
-      }
-    }
-
-    // Check for YAML file loading patterns
-    const loadYamlMatch = lowercaseContent.match(/(?:load|open|get)\s+(?:yaml\s+)?(?:file\s+)?(\w+\.ya?ml)/);
-    if (loadYamlMatch) {
-      const tool = getEnhancedFunctionTool('load_yaml_file');
-      if (tool) {
-        const result = await tool.execute(context, { filename: loadYamlMatch[1] });
-        return {
-          content: result,
-          metadata: { model: "enhanced-function-tool", agentType: "query", sessionId: context.sessionId, functionCall: "load_yaml_file" }
-        };
+    // Selection, description and loading commands with a single argument
+    const commands: Array<{ pattern: RegExp; tool: string; param: string }> = [
+      { pattern: /(?:use|select|choose)\s+database\s+(\w+)/, tool: 'select_database', param: 'database_name' },
+      { pattern: /(?:use|select|choose)\s+schema\s+(\w+)/, tool: 'select_schema', param: 'schema_name' },
+      { pattern: /(?:describe|desc|show\s+structure\s+of|explain)\s+(?:table\s+)?(\w+)/, tool: 'describe_table', param: 'table_name' },
+      { pattern: /(?:use|select|choose)\s+stage\s+(\w+)/, tool: 'select_stage', param: 'stage_name' },
+      { pattern: /(?:load|open|get)\s+(?:yaml\s+)?(?:file\s+)?(\w+\.ya?ml)/, tool: 'load_yaml_file', param: 'filename' }
+    ];
+    for (const command of commands) {
+      const match = lowercaseContent.match(command.pattern);
+      const tool = match && this.getAllowedTool(toolOptions, command.tool);
+      if (match && tool) {
+        return this.buildToolReply(context, await runTool(tool, context, { [command.param]: match[1] }, toolOptions));
       }
     }
 
@@ -438,46 +384,55 @@ Please let me know if you'd like to load this file or need further assistance.`;
     
     const isNaturalQuery = queryIndicators.some(indicator => lowercaseContent.includes(indicator));
     if (isNaturalQuery && context.tables && context.tables.length > 0) {
-      const tool = getEnhancedFunctionTool('generate_sql');
+      const tool = this.getAllowedTool(toolOptions, 'generate_sql');
       if (tool) {
-        const result = await tool.execute(context, { query: message });
-        return {
-          content: result,
-          metadata: { model: "enhanced-function-tool", agentType: "query", sessionId: context.sessionId, functionCall: "generate_sql" }
-        };
+        return this.buildToolReply(context, await runTool(tool, context, { query: message }, toolOptions));
       }
     }
 
     // Check for SQL execution patterns
     const sqlPattern = /(?:execute|run)\s+(?:this\s+)?(?:sql|query)/;
     if (sqlPattern.test(lowercaseContent) && context.lastQuerySql) {
-      const tool = getEnhancedFunctionTool('execute_sql');
+      const tool = this.getAllowedTool(toolOptions, 'execute_sql');
       if (tool) {
-        const result = await tool.execute(context, { sql: context.lastQuerySql });
-        return {
-          content: result,
-          metadata: { model: "enhanced-function-tool", agentType: "query", sessionId: context.sessionId, functionCall: "execute_sql" }
-        };
+        return this.buildToolReply(context, await runTool(tool, context, { sql: context.lastQuerySql }, toolOptions));
       }
     }
 
     // Check for visualization patterns
     const visualizationPattern = /(?:create|make|show|generate)\s+(?:a\s+)?(?:chart|graph|visualization|plot)/;
     if (visualizationPattern.test(lowercaseContent) && context.lastQueryResults) {
-      const tool = getEnhancedFunctionTool('visualize_data');
+      const tool = this.getAllowedTool(toolOptions, 'visualize_data');
       if (tool) {
-        const result = await tool.execute(context, { user_request: message });
-        return {
-          content: result,
-          metadata: { model: "enhanced-function-tool", agentType: "query", sessionId: context.sessionId, functionCall: "visualize_data" }
-        };
+        return this.buildToolReply(context, await runTool(tool, context, { user_request: message }, toolOptions));
       }
     }
 
     return null;
   }
 
-  private async processWithAgentSDK(context: AgentContext, message: string, agentType: string, agentConfig?: any): Promise<{
+  // A shortcut reply is the tool result itself: a one-line message with the result card under it
+  private buildToolReply(context: AgentContext, result: ToolResult): { content: string; metadata: any } {
+    return {
+      content: describeToolResult(result),
+      metadata: {
+        model: "enhanced-function-tool",
+        agentType: "query",
+        sessionId: context.sessionId,
+        functionCall: result.tool,
+        toolResults: [toStoredToolResult(result)],
+        ...(result.status === 'error' && { error: true })
+      }
+    };
+  }
+
+  // Shortcut commands only run tools the user's role may run; anything else falls through to the model
+  private getAllowedTool(toolOptions: ToolExecutionOptions, name: string): FunctionToolDefinition | undefined {
+    const tool = getEnhancedFunctionTool(name);
+    return tool && isToolAllowedForRole(tool, toolOptions.role) ? tool : undefined;
+  }
+
+  private async processWithAgentSDK(context: AgentContext, message: string, agentType: string, llmSettings: LLMSettings, agentConfig?: any, onEvent?: AgentEventHandler, sqlPolicy?: SqlPolicyMode, signal?: AbortSignal, role?: UserRole): Promise<{
     content: string;
     metadata: any;
   }> {
@@ -491,22 +446,22 @@ Please let me know if you'd like to load this file or need further assistance.`;
         { role: "system", content: systemPrompt }
       ];
 
-      // Add recent conversation history
-      const recentHistory = context.conversationHistory.slice(-10); // Last 10 messages
-      recentHistory.forEach(entry => {
-        if (entry.role === 'user' || entry.role === 'assistant') {
-          messages.push({
-            role: entry.role,
-            content: entry.content
-          });
-        }
+      // Earlier turns from the stored chat, with their tool calls, summarized beyond the budget
+      const history = await conversationHistoryService.buildHistory(context, message, {
+        ...this.getHistoryLimits(agentType, agentConfig),
+        llm: llmSettings,
+        signal
       });
+      messages.push(...history);
+
+      // Only the tools the user's role may run are offered to the model
+      const availableTools = getToolsForRole(role);
 
       // Add current context summary
       const contextSummary = await agentContextManager.getContextSummary(context.sessionId);
       const contextMessage = `Current Agent State:${contextSummary}
 
-Available tools: ${enhancedFunctionTools.map(t => t.name).join(', ')}`;
+Available tools: ${availableTools.map(t => t.name).join(', ')}`;
 
       messages.push({
         role: "system",
@@ -519,8 +474,8 @@ Available tools: ${enhancedFunctionTools.map(t => t.name).join(', ')}`;
         content: message
       });
 
-      // Convert our function tools to OpenAI format
-      const tools = enhancedFunctionTools.map(tool => ({
+      // Convert our function tools to the chat completions tool format
+      const tools = availableTools.map(tool => ({
         type: "function" as const,
         function: {
           name: tool.name,
@@ -529,79 +484,216 @@ Available tools: ${enhancedFunctionTools.map(t => t.name).join(', ')}`;
         }
       }));
 
-      // Call OpenAI with tools
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-        messages,
-        tools,
-        tool_choice: "auto",
-        temperature: 0.1
-      });
+      // Agent loop: keep feeding tool results back to the model until it
+      // answers without requesting more tools or the iteration budget runs out
+      const maxIterations = this.getMaxToolIterations(agentType, agentConfig);
+      const toolTrace: ToolTraceEntry[] = [];
+      const toolResults: ToolResult[] = [];
+      const toolOptions: ToolExecutionOptions = { onEvent, llm: llmSettings, sqlPolicy, signal, role };
+
+      for (let iteration = 0; iteration < maxIterations; iteration++) {
+        const responseMessage = await this.streamCompletion(llmSettings, {
+          messages,
+          tools,
+          tool_choice: "auto",
+          signal
+        }, onEvent);
+        const functionCalls = responseMessage.tool_calls;
+
+        if (functionCalls.length === 0) {
+          return this.buildFinalResponse(context, responseMessage.content, agentType, llmSettings, toolTrace, toolResults, iteration + 1);
+        }
 
-      const responseMessage = response.choices[0].message;
-      
-      // Handle tool calls
-      if (responseMessage.tool_calls && responseMessage.tool_calls.length > 0) {
-        let finalResult = '';
-        
-        for (const toolCall of responseMessage.tool_calls) {
-          if (toolCall.type === 'function') {
-            const tool = getEnhancedFunctionTool(toolCall.function.name);
-            if (tool) {
-              try {
-                const params = JSON.parse(toolCall.function.arguments);
-                const toolResult = await tool.execute(context, params);
-                finalResult += toolResult + '\n\n';
-                
-                // Add to conversation history
-                agentContextManager.addToHistory(context.sessionId, {
-                  role: 'function',
-                  content: toolResult,
-                  functionCall: toolCall.function.name,
-                  timestamp: new Date()
-                });
-              } catch (error) {
-                finalResult += `Error executing ${toolCall.function.name}: ${error instanceof Error ? error.message : 'Unknown error'}\n\n`;
-              }
-            }
+        // The assistant message carrying the tool calls must precede the tool results
+        messages.push({
+          role: "assistant",
+          content: responseMessage.content || null,
+          tool_calls: functionCalls
+        });
+
+        for (const toolCall of functionCalls) {
+          // Tools swallow their own errors, so a stop request has to be checked between calls
+          if (signal?.aborted) {
+            return this.buildCancelledResponse(context.sessionId, agentType);
           }
+          console.log(`[AgentSDK] Iteration ${iteration + 1}/${maxIterations}: calling ${toolCall.function.name}`);
+          const toolResult = await this.executeToolCall(context, toolCall.id, toolCall.function.name, toolCall.function.arguments, toolOptions);
+          const serialized = serializeToolResult(toolResult);
+          toolResults.push(toolResult);
+          toolTrace.push(toToolTraceEntry(toolCall.id, toolCall.function.name, toolCall.function.arguments, serialized));
+
+          messages.push({
+            role: "tool",
+            tool_call_id: toolCall.id,
+            content: serialized
+          });
         }
-        
-        return {
-          content: finalResult.trim(),
-          metadata: {
-            model: "gpt-4o",
-            agentType,
-            sessionId: context.sessionId,
-            toolCalls: responseMessage.tool_calls.filter(tc => tc.type === 'function').map(tc => tc.function.name)
-          }
-        };
       }
 
-      // Regular response without tool calls
-      const content = responseMessage.content || 'I apologize, but I did not understand your request. Please try rephrasing or ask for help.';
-      
-      // Add to conversation history
-      agentContextManager.addToHistory(context.sessionId, {
-        role: 'assistant',
-        content,
-        timestamp: new Date()
-      });
+      // Iteration budget exhausted - ask for a final answer without further tool use
+      console.log(`[AgentSDK] Reached max tool iterations (${maxIterations}), requesting final answer`);
+      const finalResponse = await this.streamCompletion(llmSettings, {
+        messages,
+        tools,
+        tool_choice: "none",
+        signal
+      }, onEvent);
 
-      return {
-        content,
-        metadata: {
-          model: "gpt-4o",
-          agentType,
-          sessionId: context.sessionId
-        }
-      };
+      return this.buildFinalResponse(context, finalResponse.content, agentType, llmSettings, toolTrace, toolResults, maxIterations, true);
 
     } catch (error) {
       console.error('Error processing with Agent SDK:', error);
       throw error;
     }
   }
+
+  // Resolve the tool-calling budget: per-agent setting from Agent Hub, then env, then default
+  private getMaxToolIterations(agentType: string, agentConfig?: any): number {
+    const agentConfigs = agentConfig?.configData?.agentConfigs || [];
+    const foundAgentConfig = agentConfigs.find((agent: any) => agent.type === agentType && agent.enabled);
+    const configured = Number(foundAgentConfig?.context?.maxIterations ?? process.env.AGENT_MAX_TOOL_ITERATIONS);
+
+    return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_TOOL_ITERATIONS;
+  }
+
+  // History limits: token budget from Agent Hub, then env, then default; Max History caps the messages
+  private getHistoryLimits(agentType: string, agentConfig?: any): { tokenBudget: number; maxMessages?: number } {
+    const agentConfigs = agentConfig?.configData?.agentConfigs || [];
+    const foundAgentConfig = agentConfigs.find((agent: any) => agent.type === agentType && agent.enabled);
+    const tokenBudget = Number(foundAgentConfig?.context?.historyTokens ?? process.env.AGENT_HISTORY_TOKENS);
+    const maxMessages = Number(foundAgentConfig?.context?.maxHistory);
+
+    return {
+      tokenBudget: Number.isInteger(tokenBudget) && tokenBudget > 0 ? tokenBudget : DEFAULT_HISTORY_TOKENS,
+      maxMessages: Number.isInteger(maxMessages) && maxMessages > 0 ? maxMessages : undefined
+    };
+  }
+
+  // Stream a chat completion, forwarding content tokens and reassembling tool call deltas
+  private async streamCompletion(
+    llmSettings: LLMSettings,
+    params: { messages: any[]; tools: any[]; tool_choice: "auto" | "none"; signal?: AbortSignal },
+    onEvent?: AgentEventHandler
+  ): Promise<{
+    content: string | null;
+    tool_calls: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
+  }> {
+    const stream = await llmService.stream(llmSettings, params);
+
+    let content = '';
+    const toolCalls: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }> = [];
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        emitAgentEvent(onEvent, { type: 'agent_token', delta: delta.content });
+      }
+
+      for (const toolCallDelta of delta.tool_calls || []) {
+        if (!toolCalls[toolCallDelta.index]) {
+          toolCalls[toolCallDelta.index] = { id: '', type: 'function', function: { name: '', arguments: '' } };
+        }
+        const toolCall = toolCalls[toolCallDelta.index];
+        if (toolCallDelta.id) toolCall.id = toolCallDelta.id;
+        if (toolCallDelta.function?.name) toolCall.function.name += toolCallDelta.function.name;
+        if (toolCallDelta.function?.arguments) toolCall.function.arguments += toolCallDelta.function.arguments;
+      }
+    }
+
+    return {
+      content: content || null,
+      tool_calls: toolCalls.filter(Boolean)
+    };
+  }
+
+  private async executeToolCall(
+    context: AgentContext,
+    toolCallId: string,
+    toolName: string,
+    rawArguments: string,
+    toolOptions: ToolExecutionOptions
+  ): Promise<ToolResult> {
+    const { onEvent } = toolOptions;
+    const tool = getEnhancedFunctionTool(toolName);
+    if (!tool) {
+      return { tool: toolName, ...toolError('Unknown tool', `There is no tool named ${toolName}.`) };
+    }
+    if (!isToolAllowedForRole(tool, toolOptions.role)) {
+      return { tool: toolName, ...toolError('Not allowed', `${toolName} is not available to your role (${toolOptions.role || 'viewer'}).`) };
+    }
+
+    const startTime = Date.now();
+    let params: any;
+    try {
+      params = rawArguments ? JSON.parse(rawArguments) : {};
+    } catch (error) {
+      return { tool: toolName, ...toolError('Invalid arguments', `The arguments for ${toolName} are not valid JSON.`) };
+    }
+    emitAgentEvent(onEvent, { type: 'tool_call_started', toolCallId, toolName, arguments: params });
+    const toolResult = await runTool(tool, context, params, toolOptions);
+    emitAgentEvent(onEvent, { type: 'tool_call_finished', toolCallId, toolName, success: toolResult.status !== 'error', durationMs: Date.now() - startTime });
+
+    // Add to conversation history
+    agentContextManager.addToHistory(context.sessionId, {
+      role: 'function',
+      content: serializeToolResult(toolResult),
+      functionCall: toolName,
+      timestamp: new Date()
+    });
+
+    return toolResult;
+  }
+
+  private buildCancelledResponse(sessionId: string, agentType: string): { content: string; metadata: any } {
+    return {
+      content: '⏹️ Stopped. The request was cancelled before it finished.',
+      metadata: {
+        model: "agent-sdk",
+        agentType,
+        sessionId,
+        cancelled: true
+      }
+    };
+  }
+
+  private buildFinalResponse(
+    context: AgentContext,
+    responseContent: string | null,
+    agentType: string,
+    llmSettings: LLMSettings,
+    toolTrace: ToolTraceEntry[],
+    toolResults: ToolResult[],
+    iterations: number,
+    maxIterationsReached: boolean = false
+  ): { content: string; metadata: any } {
+    const content = responseContent || 'I apologize, but I did not understand your request. Please try rephrasing or ask for help.';
+
+    // Add to conversation history
+    agentContextManager.addToHistory(context.sessionId, {
+      role: 'assistant',
+      content,
+      timestamp: new Date()
+    });
+
+    return {
+      content,
+      metadata: {
+        model: llmSettings.model,
+        provider: llmSettings.provider,
+        agentType,
+        sessionId: context.sessionId,
+        iterations,
+        // Names for the UI; the trace lets later turns replay the calls and their results
+        ...(toolTrace.length > 0 && { toolCalls: toolTrace.map(entry => entry.name), toolTrace }),
+        // Rendered as cards under the answer
+        ...(toolResults.length > 0 && { toolResults: toolResults.map(toStoredToolResult) }),
+        ...(maxIterationsReached && { maxIterationsReached: true })
+      }
+    };
+  }
 }
 
 // Export singleton instance
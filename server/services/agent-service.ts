@@ -1,12 +1,15 @@
 import { spawn, ChildProcess } from 'child_process';
 import path from 'path';
 import { visualizationService } from './visualization-service';
-import OpenAI from 'openai';
+import { llmService } from './llm-provider';
 import { storage } from '../storage';
-import { snowflakeService } from './snowflake-service';
+import { dataSourceService } from './data-source';
 import { agentContextManager, AgentContext } from './agent-context';
 import { availableFunctionTools, getFunctionTool } from './function-tools';
 
+// Sampling defaults for conversational agents without Agent Hub model settings
+const DEFAULT_LLM_OPTIONS = { temperature: 0.7, maxTokens: 1000 };
+
 interface AgentResponse {
   content: string;
   metadata?: any;
@@ -23,14 +26,6 @@ interface AgentResponse {
 class AgentService {
   private queryAgentSessions = new Map<string, any>();
   private yamlAgentSessions = new Map<string, any>();
-  private openai: OpenAI;
-
-  constructor() {
-    // Initialize OpenAI client
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
 
   // Helper method to get system prompt from agent configuration
   private getSystemPrompt(agentType: string, agentConfig?: any): string {
@@ -112,10 +107,10 @@ Focus on being accurate, helpful, and efficient in data analysis tasks.`,
 
   async processMessage(content: string, agentType: 'query' | 'yaml' | 'dashboards' | 'general', sessionId: string): Promise<AgentResponse> {
     try {
-      // Load user's agent configuration from database
-      const userId = '0d493db8-bfed-4dd0-ab40-ae8a3225f8a5'; // TODO: Get from session
+      // Load the session owner's agent configuration from database
+      const userId = (await storage.getChatSession(sessionId))?.userId;
       console.log('Loading agent configuration for user:', userId);
-      const agentConfig = await storage.getAgentConfiguration(userId);
+      const agentConfig = userId ? await storage.getAgentConfiguration(userId) : null;
       console.log('Agent config loaded:', !!agentConfig, agentConfig ? Object.keys(agentConfig) : 'null');
       
       switch (agentType) {
@@ -152,7 +147,6 @@ Focus on being accurate, helpful, and efficient in data analysis tasks.`,
       }
 
       // Fallback to legacy implementation
-      const userId = '0d493db8-bfed-4dd0-ab40-ae8a3225f8a5'; // TODO: Get from session
       const context = await agentContextManager.getContext(sessionId);
 
       // Add user message to history
@@ -192,11 +186,11 @@ Focus on being accurate, helpful, and efficient in data analysis tasks.`,
         }
       }
 
-      // Use OpenAI with enhanced context
+      // Use the configured LLM with enhanced context
       const contextSummary = await agentContextManager.getContextSummary(sessionId);
       
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o",
+      const llmSettings = llmService.getAgentSettings(agentConfig, 'query', DEFAULT_LLM_OPTIONS);
+      const response = await llmService.complete(llmSettings, {
         messages: [
           {
             role: "system",
@@ -222,7 +216,7 @@ BEHAVIOR GUIDELINES:
 ${contextSummary}
 
 EXAMPLES OF FUNCTION CALLS:
-- "connect to snowflake" → suggest using connect_to_snowflake()
+- "connect to snowflake" → suggest using connect_to_data_source()
 - "show me databases" → suggest using get_databases()  
 - "list tables" → suggest using get_tables()
 - "generate SQL for X" → use current schema context with generate_sql()
@@ -233,9 +227,7 @@ Respond naturally but mention when function tools would help accomplish their go
             role: "user", 
             content: content
           }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
+        ]
       });
 
       const responseContent = response.choices[0].message.content || "I'm sorry, I couldn't process your request.";
@@ -250,7 +242,8 @@ Respond naturally but mention when function tools would help accomplish their go
       return {
         content: responseContent,
         metadata: {
-          model: "gpt-4o",
+          model: llmSettings.model,
+          provider: llmSettings.provider,
           agentType: "query",
           sessionId
         }
@@ -266,7 +259,7 @@ Respond naturally but mention when function tools would help accomplish their go
     
     // Enhanced command detection with simple patterns and confirmations
     const commandMap = [
-      { patterns: ['connect', 'connect to snowflake', 'establish connection'], tool: 'connect_to_snowflake', params: {} },
+      { patterns: ['connect', 'connect to snowflake', 'establish connection'], tool: 'connect_to_data_source', params: {} },
       { patterns: ['show databases', 'list databases', 'get databases', 'databases'], tool: 'get_databases', params: {} },
       { patterns: ['show schemas', 'list schemas', 'get schemas', 'schemas'], tool: 'get_schemas', params: {} },
       { patterns: ['show tables', 'list tables', 'get tables', 'tables'], tool: 'get_tables', params: {} },
@@ -397,31 +390,14 @@ Respond naturally but mention when function tools would help accomplish their go
   }
 
   private async executeSnowflakeQuery(connectionId: string, sqlText: string): Promise<any> {
-    const connection = await storage.getSnowflakeConnection(connectionId);
+    const connection = await storage.getDataConnection(connectionId);
     if (!connection) {
       throw new Error('Connection not found');
     }
 
-    // Ensure Snowflake connection exists
-    const hasActiveConnection = snowflakeService.hasActiveConnection(connectionId);
-    if (!hasActiveConnection) {
-      const connected = await snowflakeService.createConnection(connectionId, {
-        account: connection.account,
-        username: connection.username,
-        password: connection.password || '',
-        database: connection.database || undefined,
-        schema: connection.schema || undefined,
-        warehouse: connection.warehouse || undefined,
-        role: connection.role || undefined,
-        authenticator: connection.authenticator || undefined,
-      });
-
-      if (!connected) {
-        throw new Error('Failed to establish Snowflake connection');
-      }
-    }
-
-    return await snowflakeService.executeQuery(connectionId, sqlText);
+    // Opens the stored connection on first use, whatever its source type
+    const source = await dataSourceService.connectStored(connection);
+    return await source.execute(sqlText);
   }
 
   private formatQueryResults(result: any): string {
@@ -453,9 +429,9 @@ Respond naturally but mention when function tools would help accomplish their go
 
   private async processYamlAgent(content: string, sessionId: string, agentConfig?: any): Promise<AgentResponse> {
     try {
-      // Use OpenAI to process ontology/semantic modeling requests
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      // Use the configured LLM to process ontology/semantic modeling requests
+      const llmSettings = llmService.getAgentSettings(agentConfig, 'ontology', DEFAULT_LLM_OPTIONS);
+      const response = await llmService.complete(llmSettings, {
         messages: [
           {
             role: "system",
@@ -480,9 +456,7 @@ Context: You are working with users who need to create semantic models and ontol
             role: "user",
             content: content
           }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
+        ]
       });
 
       const responseContent = response.choices[0].message.content || "I'm sorry, I couldn't process your ontology request.";
@@ -490,23 +464,24 @@ Context: You are working with users who need to create semantic models and ontol
       return {
         content: responseContent,
         metadata: {
-          model: "gpt-4o",
+          model: llmSettings.model,
+          provider: llmSettings.provider,
           agentType: 'yaml',
           sessionId
         }
       };
     } catch (error) {
       console.error('YAML agent error:', error);
-      // Return fallback response if OpenAI fails
+      // Return fallback response if the LLM call fails
       return this.getFallbackResponse('yaml', content);
     }
   }
 
   private async processDashboardAgent(content: string, sessionId: string, agentConfig?: any): Promise<AgentResponse> {
     try {
-      // Use OpenAI to process dashboard/visualization requests
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      // Use the configured LLM to process dashboard/visualization requests
+      const llmSettings = llmService.getAgentSettings(agentConfig, 'dashboards', DEFAULT_LLM_OPTIONS);
+      const response = await llmService.complete(llmSettings, {
         messages: [
           {
             role: "system",
@@ -531,9 +506,7 @@ Context: You are helping users build effective dashboards and visualizations for
             role: "user",
             content: content
           }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
+        ]
       });
 
       const responseContent = response.choices[0].message.content || "I'm sorry, I couldn't process your dashboard request.";
@@ -541,23 +514,24 @@ Context: You are helping users build effective dashboards and visualizations for
       return {
         content: responseContent,
         metadata: {
-          model: "gpt-4o",
+          model: llmSettings.model,
+          provider: llmSettings.provider,
           agentType: 'dashboards',
           sessionId
         }
       };
     } catch (error) {
       console.error('Dashboard agent error:', error);
-      // Return fallback response if OpenAI fails
+      // Return fallback response if the LLM call fails
       return this.getFallbackResponse('dashboards', content);
     }
   }
 
   private async processGeneralAgent(content: string, sessionId: string, agentConfig?: any): Promise<AgentResponse> {
     try {
-      // Use OpenAI for general assistant conversations
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      // Use the configured LLM for general assistant conversations
+      const llmSettings = llmService.getAgentSettings(agentConfig, 'general', DEFAULT_LLM_OPTIONS);
+      const response = await llmService.complete(llmSettings, {
         messages: [
           {
             role: "system",
@@ -591,9 +565,7 @@ Context: Users come here to get connected to their data and start analytics work
             role: "user",
             content: content
           }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
+        ]
       });
 
       const responseContent = response.choices[0].message.content || "I'm sorry, I couldn't process your request.";
@@ -601,14 +573,15 @@ Context: Users come here to get connected to their data and start analytics work
       return {
         content: responseContent,
         metadata: {
-          model: "gpt-4o",
+          model: llmSettings.model,
+          provider: llmSettings.provider,
           agentType: 'general',
           sessionId
         }
       };
     } catch (error) {
       console.error('General agent error:', error);
-      // Return fallback response if OpenAI fails
+      // Return fallback response if the LLM call fails
       return this.getFallbackResponse('general', content);
     }
   }
@@ -0,0 +1,326 @@
+/**
+ * Connection Pool
+ * Bounded pool of driver connections for one connection config. It keeps `min` connections
+ * warm, opens up to `max` under load and queues callers beyond that. Idle connections are
+ * pinged so the warehouse session stays alive, and extras idle past the timeout are closed.
+ */
+
+export interface ConnectionPoolOptions {
+  min: number;
+  max: number;
+  idleTimeoutMs: number; // idle connections above `min` are closed after this long
+  keepAliveMs: number; // idle connections are pinged this often
+  acquireTimeoutMs: number; // how long a caller waits for a free connection
+}
+
+export interface PooledConnectionFactory<T> {
+  create(): Promise<T>;
+  destroy(connection: T): void;
+  isAlive(connection: T): boolean;
+  ping(connection: T): Promise<void>;
+}
+
+export interface ConnectionPoolMetrics {
+  size: number;
+  idle: number;
+  inUse: number;
+  opening: number;
+  waiting: number;
+  min: number;
+  max: number;
+  created: number;
+  destroyed: number;
+  reconnects: number; // connections replaced after their session dropped or expired
+  evicted: number;
+  heartbeatFailures: number;
+  acquires: number;
+  acquireTimeouts: number;
+  averageWaitMs: number;
+  lastUsed?: Date;
+  lastError?: string;
+}
+
+interface PoolEntry<T> {
+  connection: T;
+  createdAt: number;
+  lastUsed: number;
+  lastChecked: number;
+}
+
+interface Waiter<T> {
+  resolve: (entry: PoolEntry<T>) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_POOL_OPTIONS: ConnectionPoolOptions = {
+  min: 1,
+  max: 4,
+  idleTimeoutMs: 10 * 60 * 1000,
+  keepAliveMs: 5 * 60 * 1000,
+  acquireTimeoutMs: 60 * 1000
+};
+
+function readCount(name: string, fallback: number, minimum: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= minimum ? Math.floor(value) : fallback;
+}
+
+/**
+ * Pool sizes and timers from SNOWFLAKE_POOL_* environment variables
+ */
+export function readPoolOptions(): ConnectionPoolOptions {
+  const min = readCount('SNOWFLAKE_POOL_MIN', DEFAULT_POOL_OPTIONS.min, 0);
+  return {
+    min,
+    max: Math.max(min, 1, readCount('SNOWFLAKE_POOL_MAX', DEFAULT_POOL_OPTIONS.max, 1)),
+    idleTimeoutMs: readCount('SNOWFLAKE_POOL_IDLE_TIMEOUT_MS', DEFAULT_POOL_OPTIONS.idleTimeoutMs, 1000),
+    keepAliveMs: readCount('SNOWFLAKE_POOL_KEEPALIVE_MS', DEFAULT_POOL_OPTIONS.keepAliveMs, 1000),
+    acquireTimeoutMs: readCount('SNOWFLAKE_POOL_ACQUIRE_TIMEOUT_MS', DEFAULT_POOL_OPTIONS.acquireTimeoutMs, 1000)
+  };
+}
+
+export class ConnectionPool<T> {
+  private idle: PoolEntry<T>[] = []; // least recently used first
+  private busy = new Map<T, PoolEntry<T>>();
+  private opening = 0;
+  private waiters: Waiter<T>[] = [];
+  private closed = false;
+  private maintaining = false;
+  private timer: ReturnType<typeof setInterval>;
+  private stats = {
+    created: 0,
+    destroyed: 0,
+    reconnects: 0,
+    evicted: 0,
+    heartbeatFailures: 0,
+    acquires: 0,
+    acquireTimeouts: 0,
+    totalWaitMs: 0,
+    lastUsed: undefined as Date | undefined,
+    lastError: undefined as string | undefined
+  };
+
+  constructor(private factory: PooledConnectionFactory<T>, readonly options: ConnectionPoolOptions = readPoolOptions()) {
+    this.timer = setInterval(() => void this.maintain(), Math.max(1000, Math.min(options.keepAliveMs, options.idleTimeoutMs) / 2));
+    this.timer.unref?.();
+  }
+
+  get size(): number {
+    return this.idle.length + this.busy.size + this.opening;
+  }
+
+  /**
+   * Open the first connection, so bad credentials fail here, then warm up to `min` in the background
+   */
+  async start(): Promise<void> {
+    await this.open(entry => this.putBack(entry));
+    this.fill();
+  }
+
+  async acquire(): Promise<T> {
+    if (this.closed) {
+      throw new Error('Connection pool is closed');
+    }
+    const startedAt = Date.now();
+    const entry = await this.take();
+    this.stats.acquires++;
+    this.stats.totalWaitMs += Date.now() - startedAt;
+    this.stats.lastUsed = new Date();
+    return entry.connection;
+  }
+
+  /**
+   * Return a connection; discarded connections are closed and replaced on demand
+   */
+  release(connection: T, discard = false): void {
+    const entry = this.busy.get(connection);
+    if (!entry) {
+      return;
+    }
+    this.busy.delete(connection);
+    entry.lastUsed = Date.now();
+
+    if (discard || this.closed || !this.factory.isAlive(connection)) {
+      this.destroy(entry);
+      this.dispatch();
+      return;
+    }
+    this.putBack(entry);
+  }
+
+  // Counted when a caller retries on a fresh connection after its session expired
+  recordReconnect(): void {
+    this.stats.reconnects++;
+  }
+
+  /**
+   * Close idle connections now and busy ones as they are released
+   */
+  drain(): void {
+    this.closed = true;
+    clearInterval(this.timer);
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error('Connection pool is closed'));
+    }
+    for (const entry of this.idle.splice(0)) {
+      this.destroy(entry);
+    }
+  }
+
+  getMetrics(): ConnectionPoolMetrics {
+    return {
+      size: this.size,
+      idle: this.idle.length,
+      inUse: this.busy.size,
+      opening: this.opening,
+      waiting: this.waiters.length,
+      min: this.options.min,
+      max: this.options.max,
+      created: this.stats.created,
+      destroyed: this.stats.destroyed,
+      reconnects: this.stats.reconnects,
+      evicted: this.stats.evicted,
+      heartbeatFailures: this.stats.heartbeatFailures,
+      acquires: this.stats.acquires,
+      acquireTimeouts: this.stats.acquireTimeouts,
+      averageWaitMs: this.stats.acquires ? Math.round(this.stats.totalWaitMs / this.stats.acquires) : 0,
+      lastUsed: this.stats.lastUsed,
+      lastError: this.stats.lastError
+    };
+  }
+
+  // The entry is marked busy before anything else can run, so concurrent callers see the right size
+  private async take(): Promise<PoolEntry<T>> {
+    // Most recently used first, so connections beyond the load go idle and get evicted
+    let entry: PoolEntry<T> | undefined;
+    while ((entry = this.idle.pop())) {
+      if (this.factory.isAlive(entry.connection)) {
+        this.busy.set(entry.connection, entry);
+        return entry;
+      }
+      this.stats.reconnects++;
+      this.destroy(entry);
+    }
+
+    if (this.size < this.options.max) {
+      return await this.open(entry => this.busy.set(entry.connection, entry));
+    }
+
+    return await new Promise((resolve, reject) => {
+      const waiter: Waiter<T> = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter(other => other !== waiter);
+          this.stats.acquireTimeouts++;
+          reject(new Error(`Timed out after ${this.options.acquireTimeoutMs} ms waiting for a free connection (${this.options.max} in use)`));
+        }, this.options.acquireTimeoutMs)
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  // `place` runs in the same tick the connection stops counting as opening
+  private async open(place: (entry: PoolEntry<T>) => void): Promise<PoolEntry<T>> {
+    this.opening++;
+    let connection: T;
+    try {
+      connection = await this.factory.create();
+    } catch (error) {
+      this.opening--;
+      this.stats.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+    this.opening--;
+    this.stats.created++;
+    const now = Date.now();
+    const entry: PoolEntry<T> = { connection, createdAt: now, lastUsed: now, lastChecked: now };
+    place(entry);
+    return entry;
+  }
+
+  // Hand a connection to the next waiter, or park it
+  private putBack(entry: PoolEntry<T>): void {
+    if (this.closed) {
+      this.destroy(entry);
+      return;
+    }
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      this.busy.set(entry.connection, entry);
+      waiter.resolve(entry);
+      return;
+    }
+    this.idle.push(entry);
+  }
+
+  // Waiters get a new connection when others were discarded below `max`
+  private dispatch(): void {
+    while (!this.closed && this.waiters.length > this.opening && this.size < this.options.max) {
+      this.open(entry => this.putBack(entry)).catch(error => {
+        const waiter = this.waiters.shift();
+        if (waiter) {
+          clearTimeout(waiter.timer);
+          waiter.reject(error);
+        }
+      });
+    }
+  }
+
+  private fill(): void {
+    while (!this.closed && this.size < this.options.min) {
+      this.open(entry => this.putBack(entry)).catch(error => {
+        console.error('Failed to open pooled connection:', error instanceof Error ? error.message : error);
+      });
+    }
+  }
+
+  private destroy(entry: PoolEntry<T>): void {
+    this.stats.destroyed++;
+    try {
+      this.factory.destroy(entry.connection);
+    } catch (error) {
+      console.warn('Error destroying pooled connection:', error);
+    }
+  }
+
+  private async maintain(): Promise<void> {
+    if (this.closed || this.maintaining) {
+      return;
+    }
+    this.maintaining = true;
+    try {
+      const now = Date.now();
+
+      // Extras idle past the timeout are closed, oldest first
+      this.idle.sort((a, b) => a.lastUsed - b.lastUsed);
+      while (this.idle.length > 0 && this.size > this.options.min && now - this.idle[0].lastUsed > this.options.idleTimeoutMs) {
+        this.stats.evicted++;
+        this.destroy(this.idle.shift()!);
+      }
+
+      // The rest are pinged; connections being pinged are out of the idle list so nobody takes them
+      const due = this.idle.filter(entry => now - Math.max(entry.lastUsed, entry.lastChecked) >= this.options.keepAliveMs);
+      this.idle = this.idle.filter(entry => !due.includes(entry));
+      for (const entry of due) {
+        try {
+          await this.factory.ping(entry.connection);
+          entry.lastChecked = Date.now();
+          this.putBack(entry);
+        } catch (error) {
+          this.stats.heartbeatFailures++;
+          this.stats.lastError = error instanceof Error ? error.message : String(error);
+          this.destroy(entry);
+        }
+      }
+
+      this.fill();
+      this.dispatch();
+    } finally {
+      this.maintaining = false;
+    }
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Conversation History
+ * Builds the model's view of a chat from chat_messages, so reopened chats keep their memory:
+ * user and assistant turns plus the tool calls and results recorded in assistant metadata
+ * (`toolTrace`), or the tool results of shortcut replies (`toolResults`). Recent turns are sent as they happened within a token budget; older turns are
+ * folded into a running summary kept on the agent context.
+ */
+
+import type { ChatMessage, ToolResult } from '@shared/schema';
+import { storage } from '../storage';
+import { agentContextManager, type AgentContext } from './agent-context';
+import { llmService, type LLMSettings } from './llm-provider';
+import { serializeToolResult } from './tool-results';
+
+export interface ToolTraceEntry {
+  id: string;
+  name: string;
+  arguments: string;
+  result: string;
+}
+
+export interface HistoryOptions {
+  tokenBudget: number;
+  maxMessages?: number; // stored messages sent as they happened (Agent Hub "Max History")
+  llm: LLMSettings; // used to summarize older turns
+  signal?: AbortSignal;
+}
+
+// Turns that start with a user message, with everything the assistant answered to it
+interface HistoryTurn {
+  lastMessageId: string;
+  stored: ChatMessage[];
+}
+
+export const DEFAULT_HISTORY_TOKENS = 6000;
+const RECORDED_RESULT_CHARS = 4000; // tool result kept per call in message metadata
+const OLDER_RESULT_CHARS = 600; // tool results before the latest turn are cut to this
+const SUMMARY_MAX_TOKENS = 400;
+const SUMMARY_INPUT_CHARS = 24000;
+
+const SUMMARY_INSTRUCTIONS = `You maintain the memory of a data analysis chat between a user and an assistant with SQL tools.
+Merge the previous summary with the new part of the conversation into one summary of at most 200 words.
+Keep the user's goals, the connection, databases, schemas, tables and columns used, SQL that worked, key results and numbers, and open questions.
+Answer with the summary only.`;
+
+// Rough count for budgeting, about four characters per token
+export function estimateTokens(text: string | null | undefined): number {
+  return Math.ceil((text?.length || 0) / 4);
+}
+
+function shorten(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}\n… (${text.length - maxChars} more characters)` : text;
+}
+
+/**
+ * A tool call as recorded in the assistant message's metadata
+ */
+export function toToolTraceEntry(id: string, name: string, rawArguments: string, result: string): ToolTraceEntry {
+  return { id, name, arguments: rawArguments || '{}', result: shorten(result, RECORDED_RESULT_CHARS) };
+}
+
+function getToolTrace(message: ChatMessage): ToolTraceEntry[] {
+  const trace = (message.metadata as { toolTrace?: unknown } | null)?.toolTrace;
+  return Array.isArray(trace) ? trace.filter(entry => entry && typeof entry.id === 'string' && typeof entry.name === 'string') : [];
+}
+
+// Text of a message as the model sees it; shortcut replies carry their tool results in metadata only
+function getContent(message: ChatMessage, resultChars: number): string {
+  const metadata = message.metadata as { toolTrace?: unknown; toolResults?: ToolResult[] } | null;
+  if (metadata?.toolTrace || !Array.isArray(metadata?.toolResults)) {
+    return message.content;
+  }
+  return [message.content, ...metadata.toolResults.map(result => shorten(serializeToolResult(result), resultChars))].join('\n\n');
+}
+
+// Chat completion messages for a stored message; tool calls precede the answer they led to
+function toChatMessages(message: ChatMessage, resultChars: number): any[] {
+  if (message.role === 'user') {
+    return [{ role: 'user', content: message.content }];
+  }
+
+  const trace = getToolTrace(message);
+  const messages: any[] = [];
+  if (trace.length > 0) {
+    messages.push({
+      role: 'assistant',
+      content: null,
+      tool_calls: trace.map(entry => ({ id: entry.id, type: 'function', function: { name: entry.name, arguments: entry.arguments } }))
+    });
+    for (const entry of trace) {
+      messages.push({ role: 'tool', tool_call_id: entry.id, content: shorten(String(entry.result ?? ''), resultChars) });
+    }
+  }
+  messages.push({ role: 'assistant', content: getContent(message, resultChars) });
+  return messages;
+}
+
+function countTokens(messages: any[]): number {
+  return messages.reduce((total, message) => total
+    + estimateTokens(message.content)
+    + (message.tool_calls || []).reduce((sum: number, call: any) => sum + estimateTokens(call.function.name) + estimateTokens(call.function.arguments), 0)
+    + 4, 0);
+}
+
+function toTranscript(turns: HistoryTurn[]): string {
+  return turns.flatMap(turn => turn.stored).map(message => {
+    const calls = getToolTrace(message).map(entry => `Tool ${entry.name}(${entry.arguments}): ${shorten(String(entry.result ?? ''), OLDER_RESULT_CHARS)}`);
+    return [...calls, `${message.role === 'user' ? 'User' : 'Assistant'}: ${getContent(message, OLDER_RESULT_CHARS)}`].join('\n');
+  }).join('\n\n');
+}
+
+export class ConversationHistoryService {
+  /**
+   * History to send before the current message. The current message is already stored,
+   * so it is left out here.
+   */
+  async buildHistory(context: AgentContext, currentMessage: string, options: HistoryOptions): Promise<any[]> {
+    const stored = (await storage.getMessagesBySession(context.sessionId))
+      .filter(message => message.role === 'user' || message.role === 'assistant');
+    const last = stored[stored.length - 1];
+    if (last?.role === 'user' && last.content === currentMessage) {
+      stored.pop();
+    }
+
+    const turns = this.groupTurns(stored);
+    if (turns.length === 0) {
+      return [];
+    }
+
+    // Turns after the summarized ones are kept while they fit; otherwise the boundary moves
+    // so the kept turns use half the budget, leaving room for a few more turns before the next summary
+    const summary = context.historySummary;
+    const boundary = summary ? turns.findIndex(turn => turn.lastMessageId === summary.throughMessageId) + 1 : 0;
+    const pending = turns.slice(boundary);
+    const reserve = boundary > 0 ? SUMMARY_MAX_TOKENS : 0;
+
+    if (this.fits(pending, options.tokenBudget - reserve, options.maxMessages)) {
+      return [...this.summaryMessages(boundary > 0 ? summary?.content : undefined), ...this.renderTurns(pending)];
+    }
+
+    const kept = this.fitNewest(pending, (options.tokenBudget - SUMMARY_MAX_TOKENS) / 2, options.maxMessages && Math.ceil(options.maxMessages / 2));
+    const dropped = pending.slice(0, pending.length - kept.length);
+    const content = await this.summarize(boundary > 0 ? summary?.content : undefined, dropped, options);
+    await agentContextManager.updateContext(context.sessionId, {
+      historySummary: { throughMessageId: dropped[dropped.length - 1].lastMessageId, content }
+    });
+    return [...this.summaryMessages(content), ...this.renderTurns(kept)];
+  }
+
+  private groupTurns(stored: ChatMessage[]): HistoryTurn[] {
+    const turns: HistoryTurn[] = [];
+    for (const message of stored) {
+      const current = turns[turns.length - 1];
+      if (message.role === 'user' || !current) {
+        turns.push({ lastMessageId: message.id, stored: [message] });
+      } else {
+        current.stored.push(message);
+        current.lastMessageId = message.id;
+      }
+    }
+    return turns;
+  }
+
+  // Only the latest turn keeps its tool results in full
+  private renderTurns(turns: HistoryTurn[]): any[] {
+    return turns.flatMap((turn, index) => turn.stored.flatMap(message =>
+      toChatMessages(message, index === turns.length - 1 ? RECORDED_RESULT_CHARS : OLDER_RESULT_CHARS)
+    ));
+  }
+
+  private fits(turns: HistoryTurn[], tokenBudget: number, maxMessages?: number): boolean {
+    const messageCount = turns.reduce((count, turn) => count + turn.stored.length, 0);
+    return (!maxMessages || messageCount <= maxMessages) && countTokens(this.renderTurns(turns)) <= tokenBudget;
+  }
+
+  // The newest turns that fit, and always at least the latest one
+  private fitNewest(turns: HistoryTurn[], tokenBudget: number, maxMessages?: number): HistoryTurn[] {
+    let kept = turns.slice(-1);
+    for (let start = turns.length - 2; start >= 0; start--) {
+      const candidate = turns.slice(start);
+      if (!this.fits(candidate, tokenBudget, maxMessages)) break;
+      kept = candidate;
+    }
+    return kept;
+  }
+
+  private summaryMessages(summary: string | undefined): any[] {
+    return summary ? [{ role: 'system', content: `Summary of the earlier conversation:\n${summary}` }] : [];
+  }
+
+  /**
+   * Fold dropped turns into the running summary; without a model answer the user's requests are listed instead
+   */
+  private async summarize(previous: string | undefined, dropped: HistoryTurn[], options: HistoryOptions): Promise<string> {
+    const transcript = toTranscript(dropped).slice(-SUMMARY_INPUT_CHARS);
+    try {
+      const response = await llmService.complete(options.llm, {
+        messages: [
+          { role: 'system', content: SUMMARY_INSTRUCTIONS },
+          { role: 'user', content: `Previous summary:\n${previous || '(none)'}\n\nNew part of the conversation:\n${transcript}` }
+        ],
+        temperature: 0,
+        maxTokens: SUMMARY_MAX_TOKENS,
+        signal: options.signal
+      });
+      const content = response.choices[0]?.message?.content?.trim();
+      if (content) {
+        return content;
+      }
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      console.error('Failed to summarize conversation history:', error instanceof Error ? error.message : error);
+    }
+
+    const requests = dropped.flatMap(turn => turn.stored)
+      .filter(message => message.role === 'user')
+      .map(message => `- ${shorten(message.content, 200)}`);
+    return [previous, 'Earlier requests:', ...requests].filter(Boolean).join('\n').slice(-SUMMARY_MAX_TOKENS * 4);
+  }
+}
+
+// Global conversation history instance
+export const conversationHistoryService = new ConversationHistoryService();
@@ -0,0 +1,321 @@
+/**
+ * DuckDB Data Source
+ * Opens a DuckDB database file (or an in-memory database) in process; attached
+ * databases show up as additional databases
+ */
+
+import { resolve as resolvePath } from 'path';
+import { DuckDBConnection, DuckDBInstance } from '@duckdb/node-api';
+import { groupColumnsByTable, limitRows, onAbort, resolveScope, throwIfCancelled } from './data-source';
+import type {
+  DataSource, DataSourceColumn, DataSourceConfig, DataSourceForeignKey, DataSourceInfo, DataSourceQueryResult, DataSourceSchemaCatalog, DataSourceTable,
+  QueryExecutionOptions, QueryScope, SqlDialect
+} from './data-source';
+
+const IN_MEMORY = ':memory:';
+const DEFAULT_DUCKDB_SCHEMA = 'main';
+
+const quoteDuckDBIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+export const DUCKDB_DIALECT: SqlDialect = {
+  name: 'DuckDB',
+  quoteIdentifier: quoteDuckDBIdentifier,
+  qualifyTable: (table, database, schema) =>
+    [database, schema, table].filter((part): part is string => !!part).map(quoteDuckDBIdentifier).join('.'),
+  defaultSchema: DEFAULT_DUCKDB_SCHEMA,
+  promptRules: [
+    'Use DuckDB syntax (ILIKE, DATE_TRUNC, QUALIFY, :: casts, list and struct functions)',
+    'Qualify tables as database.schema.table when several databases are attached'
+  ]
+};
+
+const instances = new Map<string, Promise<DuckDBInstance>>();
+
+/**
+ * Open (or reuse) the DuckDB instance for a database file with access to other files cut off:
+ * SQL can only reach files under fileDirectory, or none at all without it, and the settings are
+ * locked so a statement cannot turn access back on. The settings apply to the whole instance,
+ * so every connection to the file shares them.
+ */
+export function openDuckDBInstance(filePath: string, fileDirectory?: string): Promise<DuckDBInstance> {
+  if (filePath === IN_MEMORY) {
+    return lockDown(DuckDBInstance.create(IN_MEMORY), fileDirectory);
+  }
+  let instance = instances.get(filePath);
+  if (!instance) {
+    // Reuse the instance for a file so several connections do not fight over its lock
+    instance = lockDown(DuckDBInstance.fromCache(filePath), fileDirectory);
+    instances.set(filePath, instance);
+    instance.catch(() => instances.delete(filePath));
+  }
+  return instance;
+}
+
+async function lockDown(opening: Promise<DuckDBInstance>, fileDirectory?: string): Promise<DuckDBInstance> {
+  const instance = await opening;
+  const connection = await instance.connect();
+  try {
+    if (fileDirectory) {
+      const directory = resolvePath(fileDirectory).replace(/\/?$/, '/');
+      await connection.run(`SET allowed_directories = ['${directory.replace(/'/g, "''")}']`);
+    }
+    await connection.run(`SET enable_external_access = false`);
+    await connection.run(`SET lock_configuration = true`);
+  } finally {
+    connection.closeSync();
+  }
+  return instance;
+}
+
+export class DuckDBDataSource implements DataSource {
+  readonly type = 'duckdb' as const;
+  readonly dialect = DUCKDB_DIALECT;
+  private connection: DuckDBConnection | null = null;
+  private database?: string;
+  private schema?: string;
+  private current?: string; // database.schema the connection is in, unknown after a USE in user SQL
+  private statements: Promise<unknown> = Promise.resolve(); // USE and the statement it is for run as one
+  private connectedAt?: Date;
+  private lastUsed?: Date;
+
+  constructor(readonly connectionId: string, private config: DataSourceConfig) {
+    this.database = config.database;
+    this.schema = config.schema;
+  }
+
+  async connect(): Promise<void> {
+    this.connection = await this.openConnection();
+    this.connectedAt = new Date();
+
+    if (this.database || this.schema) {
+      await this.connection.run(`USE ${this.qualifyCurrent(this.database, this.schema)}`);
+    }
+    const current = await this.connection.runAndReadAll('SELECT current_database() AS db, current_schema() AS schema');
+    const [row] = current.getRowObjectsJS();
+    this.database = String(row.db);
+    this.schema = String(row.schema);
+    this.current = this.qualifyCurrent(this.database, this.schema);
+  }
+
+  async test(): Promise<boolean> {
+    try {
+      const connection = await this.openConnection();
+      await connection.run('SELECT 1');
+      connection.closeSync();
+      return true;
+    } catch (error) {
+      console.error('DuckDB connection test failed:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  async execute(sql: string, options: QueryExecutionOptions = {}): Promise<DataSourceQueryResult> {
+    throwIfCancelled(options.signal);
+    const startTime = Date.now();
+    try {
+      // Interrupting only while this statement runs leaves the ones queued around it alone
+      const { columns, rows } = await this.inScope(options, async () => {
+        throwIfCancelled(options.signal);
+        const stopCancelling = onAbort(options.signal, () => this.connection?.interrupt());
+        try {
+          return await this.query(sql, undefined, options.maxRows);
+        } finally {
+          stopCancelling();
+          if (/^\s*USE\b/i.test(sql)) {
+            this.current = undefined;
+          }
+        }
+      });
+      return limitRows({
+        rows,
+        columns,
+        metadata: {
+          executionTime: Date.now() - startTime,
+          rowCount: rows.length
+        }
+      }, options.maxRows);
+    } catch (error) {
+      throwIfCancelled(options.signal);
+      throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async listDatabases(): Promise<string[]> {
+    const { rows } = await this.query('SELECT database_name AS name FROM duckdb_databases() WHERE NOT internal ORDER BY database_name');
+    return rows.map(row => row.name);
+  }
+
+  async listSchemas(database?: string): Promise<string[]> {
+    const { rows } = await this.query(
+      `SELECT schema_name AS name FROM duckdb_schemas() WHERE database_name = $1 AND schema_name NOT IN ('information_schema', 'pg_catalog') ORDER BY schema_name`,
+      [database || this.database || '']
+    );
+    return rows.map(row => row.name);
+  }
+
+  async listTables(database?: string, schema?: string): Promise<DataSourceTable[]> {
+    const targetDatabase = database || this.database || '';
+    const targetSchema = schema || this.schema || DEFAULT_DUCKDB_SCHEMA;
+    const { rows } = await this.query(`
+      SELECT table_name AS name, 'TABLE' AS kind, comment FROM duckdb_tables() WHERE database_name = $1 AND schema_name = $2 AND NOT internal
+      UNION ALL
+      SELECT view_name, 'VIEW', comment FROM duckdb_views() WHERE database_name = $1 AND schema_name = $2 AND NOT internal
+      ORDER BY name`, [targetDatabase, targetSchema]);
+
+    return rows.map(row => ({
+      name: row.name,
+      database: targetDatabase,
+      schema: targetSchema,
+      kind: row.kind,
+      comment: row.comment || undefined
+    }));
+  }
+
+  async describeTable(table: string, database?: string, schema?: string): Promise<DataSourceColumn[]> {
+    const { rows } = await this.query(`
+      SELECT column_name AS name, data_type AS type, is_nullable AS nullable, column_default AS "default", comment
+      FROM duckdb_columns()
+      WHERE database_name = $1 AND schema_name = $2 AND table_name = $3
+      ORDER BY column_index`, [database || this.database || '', schema || this.schema || DEFAULT_DUCKDB_SCHEMA, table]);
+
+    return rows.map(row => ({
+      name: row.name,
+      type: row.type,
+      nullable: row.nullable === true,
+      default: row.default,
+      comment: row.comment || undefined
+    }));
+  }
+
+  async listForeignKeys(database?: string, schema?: string): Promise<DataSourceForeignKey[]> {
+    const targetSchema = schema || this.schema || DEFAULT_DUCKDB_SCHEMA;
+    const { rows } = await this.query(`
+      SELECT constraint_name AS name, table_name AS "table", constraint_column_names AS columns,
+        referenced_table AS "referencedTable", referenced_column_names AS "referencedColumns"
+      FROM duckdb_constraints()
+      WHERE database_name = $1 AND schema_name = $2 AND constraint_type = 'FOREIGN KEY'
+      ORDER BY table_name, constraint_index`, [database || this.database || '', targetSchema]);
+
+    return rows.map(row => ({
+      name: row.name,
+      table: row.table,
+      columns: row.columns,
+      referencedSchema: targetSchema,
+      referencedTable: row.referencedTable,
+      referencedColumns: row.referencedColumns
+    }));
+  }
+
+  // Row counts are DuckDB's estimate; it does not record when a table was last altered
+  async readSchemaCatalog(database?: string, schema?: string): Promise<DataSourceSchemaCatalog> {
+    const targetDatabase = database || this.database || '';
+    const targetSchema = schema || this.schema || DEFAULT_DUCKDB_SCHEMA;
+    const { rows: tables } = await this.query(`
+      SELECT table_name AS name, 'TABLE' AS kind, comment, estimated_size AS "rowCount" FROM duckdb_tables() WHERE database_name = $1 AND schema_name = $2 AND NOT internal
+      UNION ALL
+      SELECT view_name, 'VIEW', comment, NULL FROM duckdb_views() WHERE database_name = $1 AND schema_name = $2 AND NOT internal
+      ORDER BY name`, [targetDatabase, targetSchema]);
+    const { rows: columns } = await this.query(`
+      SELECT table_name AS "table", column_name AS name, data_type AS type, is_nullable AS nullable, column_default AS "default", comment
+      FROM duckdb_columns()
+      WHERE database_name = $1 AND schema_name = $2
+      ORDER BY table_name, column_index`, [targetDatabase, targetSchema]);
+
+    return {
+      tables: tables.map(row => ({
+        name: row.name,
+        database: targetDatabase,
+        schema: targetSchema,
+        kind: row.kind,
+        comment: row.comment || undefined,
+        rowCount: row.rowCount ?? undefined
+      })),
+      columns: groupColumnsByTable(columns.map(row => ({
+        table: row.table,
+        name: row.name,
+        type: row.type,
+        nullable: row.nullable === true,
+        default: row.default,
+        comment: row.comment || undefined
+      })))
+    };
+  }
+
+  getInfo(): DataSourceInfo {
+    return {
+      type: this.type,
+      location: this.config.filePath || IN_MEMORY,
+      database: this.database,
+      schema: this.schema,
+      connectedAt: this.connectedAt,
+      lastUsed: this.lastUsed
+    };
+  }
+
+  async close(): Promise<void> {
+    this.connection?.closeSync();
+    this.connection = null;
+  }
+
+  private async openConnection(): Promise<DuckDBConnection> {
+    const instance = await openDuckDBInstance(this.config.filePath || IN_MEMORY, this.config.fileDirectory);
+    return await instance.connect();
+  }
+
+  /**
+   * Run with the connection in the scope's database and schema. The connection is shared by
+   * every session using the source, so each statement is queued behind the one before it.
+   */
+  private inScope<T>(scope: QueryScope, run: () => Promise<T>): Promise<T> {
+    const { database, schema } = resolveScope(scope, { database: this.database, schema: this.schema }, DUCKDB_DIALECT);
+    const target = this.qualifyCurrent(database, schema);
+    const next = this.statements.then(async () => {
+      if (target !== this.current) {
+        this.current = undefined;
+        await this.query(`USE ${target}`);
+        this.current = target;
+      }
+      return await run();
+    });
+    this.statements = next.catch(() => {});
+    return next;
+  }
+
+  // With maxRows, stop pulling chunks once one row past the limit has been read
+  private async query(sql: string, values?: any[], maxRows?: number): Promise<{ columns: string[]; rows: Record<string, any>[] }> {
+    if (!this.connection) {
+      throw new Error(`No active DuckDB connection found for ID: ${this.connectionId}`);
+    }
+    const reader = maxRows === undefined
+      ? await this.connection.runAndReadAll(sql, values)
+      : await this.connection.streamAndReadUntil(sql, maxRows + 1, values);
+    this.lastUsed = new Date();
+    return {
+      columns: reader.columnNames(),
+      rows: reader.getRowObjectsJS().map(toPlainRow)
+    };
+  }
+
+  private qualifyCurrent(database?: string, schema?: string): string {
+    return [database, schema].filter((part): part is string => !!part).map(quoteDuckDBIdentifier).join('.');
+  }
+}
+
+// BIGINT/HUGEINT come back as bigint, which JSON cannot serialize
+function toPlainRow(row: Record<string, any>): Record<string, any> {
+  const converted: Record<string, any> = {};
+  for (const [key, value] of Object.entries(row)) {
+    converted[key] = toPlainValue(value);
+  }
+  return converted;
+}
+
+function toPlainValue(value: any): any {
+  if (typeof value === 'bigint') {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlainValue);
+  }
+  return value;
+}
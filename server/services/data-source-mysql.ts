@@ -0,0 +1,263 @@
+/**
+ * MySQL Data Source
+ * MySQL has no schema level below the database, so a database doubles as its only schema
+ */
+
+import mysql from 'mysql2/promise';
+import { groupColumnsByTable, groupForeignKeyColumns, limitRows, onAbort, throwIfCancelled } from './data-source';
+import { secretsService } from './secrets';
+import type {
+  DataSource, DataSourceColumn, DataSourceConfig, DataSourceForeignKey, DataSourceInfo, DataSourceQueryResult, DataSourceSchemaCatalog, DataSourceTable,
+  QueryExecutionOptions, SqlDialect
+} from './data-source';
+
+const DEFAULT_MYSQL_PORT = 3306;
+const SYSTEM_DATABASES = ['information_schema', 'mysql', 'performance_schema', 'sys'];
+
+const quoteMySQLIdentifier = (name: string) => `\`${name.replace(/`/g, '``')}\``;
+
+export const MYSQL_DIALECT: SqlDialect = {
+  name: 'MySQL',
+  quoteIdentifier: quoteMySQLIdentifier,
+  qualifyTable: (table, database) =>
+    [database, table].filter((part): part is string => !!part).map(quoteMySQLIdentifier).join('.'),
+  promptRules: [
+    'Use MySQL 8 syntax (backtick identifiers, DATE_FORMAT, DATE_SUB/INTERVAL, IFNULL, LIMIT offset, count)',
+    'There are no schemas below a database; qualify tables as database.table',
+    'FULL OUTER JOIN, ILIKE and QUALIFY are not supported'
+  ]
+};
+
+export class MySQLDataSource implements DataSource {
+  readonly type = 'mysql' as const;
+  readonly dialect = MYSQL_DIALECT;
+  private connection: mysql.Connection | null = null;
+  private database?: string;
+  private connectedAt?: Date;
+  private lastUsed?: Date;
+
+  constructor(readonly connectionId: string, private config: DataSourceConfig) {
+    this.database = config.database || config.schema;
+  }
+
+  async connect(): Promise<void> {
+    this.connection = await this.openConnection();
+    this.connectedAt = new Date();
+  }
+
+  async test(): Promise<boolean> {
+    try {
+      const connection = await this.openConnection();
+      await connection.query('SELECT 1');
+      await connection.end();
+      return true;
+    } catch (error) {
+      console.error('MySQL connection test failed:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  async execute(sql: string, options: QueryExecutionOptions = {}): Promise<DataSourceQueryResult> {
+    const connection = this.requireConnection();
+    throwIfCancelled(options.signal);
+    const startTime = Date.now();
+    const stopCancelling = onAbort(options.signal, () => void this.killQuery(connection.threadId));
+    const database = options.database || options.schema || this.database;
+
+    try {
+      // Sent back to back, so no other caller's statement can run between them on the shared connection
+      const [, [result, fields]] = await Promise.all([
+        database ? connection.query(`USE ${quoteMySQLIdentifier(database)}`) : undefined,
+        connection.query({ sql, rowsAsArray: false })
+      ]);
+      this.lastUsed = new Date();
+
+      // Statements without a result set return a ResultSetHeader instead of rows
+      if (!Array.isArray(result)) {
+        const header = result as mysql.ResultSetHeader;
+        return {
+          rows: [{ status: 'Statement executed successfully.', rows_affected: header.affectedRows }],
+          columns: ['status', 'rows_affected'],
+          metadata: { executionTime: Date.now() - startTime, rowCount: 1 }
+        };
+      }
+
+      const rows = result as Record<string, any>[];
+      return limitRows({
+        rows,
+        columns: (fields || []).map(field => field.name),
+        metadata: {
+          executionTime: Date.now() - startTime,
+          rowCount: rows.length
+        }
+      }, options.maxRows);
+    } catch (error) {
+      throwIfCancelled(options.signal);
+      throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      stopCancelling();
+    }
+  }
+
+  async listDatabases(): Promise<string[]> {
+    const result = await this.execute('SHOW DATABASES');
+    return result.rows
+      .map(row => row.Database)
+      .filter(name => !SYSTEM_DATABASES.includes(name));
+  }
+
+  async listSchemas(database?: string): Promise<string[]> {
+    const target = database || this.database;
+    return target ? [target] : [];
+  }
+
+  async listTables(database?: string, schema?: string): Promise<DataSourceTable[]> {
+    const target = this.resolveDatabase(database, schema);
+    const rows = await this.query(`
+      SELECT TABLE_NAME AS name, TABLE_TYPE AS kind, TABLE_COMMENT AS comment
+      FROM information_schema.TABLES
+      WHERE TABLE_SCHEMA = ?
+      ORDER BY TABLE_NAME`, [target]);
+
+    return rows.map(row => ({
+      name: row.name,
+      database: target,
+      schema: target,
+      kind: row.kind === 'VIEW' ? 'VIEW' as const : 'TABLE' as const,
+      comment: row.comment || undefined
+    }));
+  }
+
+  async describeTable(table: string, database?: string, schema?: string): Promise<DataSourceColumn[]> {
+    const target = this.resolveDatabase(database, schema);
+    const rows = await this.query(`
+      SELECT COLUMN_NAME AS name, COLUMN_TYPE AS type, IS_NULLABLE AS nullable, COLUMN_DEFAULT AS \`default\`, COLUMN_COMMENT AS comment
+      FROM information_schema.COLUMNS
+      WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?
+      ORDER BY ORDINAL_POSITION`, [target, table]);
+
+    return rows.map(row => ({
+      name: row.name,
+      type: row.type,
+      nullable: row.nullable === 'YES',
+      default: row.default,
+      comment: row.comment || undefined
+    }));
+  }
+
+  async listForeignKeys(database?: string, schema?: string): Promise<DataSourceForeignKey[]> {
+    const target = this.resolveDatabase(database, schema);
+    const rows = await this.query(`
+      SELECT CONSTRAINT_NAME AS name, TABLE_NAME AS \`table\`, COLUMN_NAME AS \`column\`,
+        REFERENCED_TABLE_SCHEMA AS referencedSchema, REFERENCED_TABLE_NAME AS referencedTable, REFERENCED_COLUMN_NAME AS referencedColumn
+      FROM information_schema.KEY_COLUMN_USAGE
+      WHERE TABLE_SCHEMA = ? AND REFERENCED_TABLE_NAME IS NOT NULL
+      ORDER BY TABLE_NAME, CONSTRAINT_NAME, ORDINAL_POSITION`, [target]);
+
+    return groupForeignKeyColumns(rows);
+  }
+
+  // TABLE_ROWS is exact for MyISAM and an estimate for InnoDB
+  async readSchemaCatalog(database?: string, schema?: string): Promise<DataSourceSchemaCatalog> {
+    const target = this.resolveDatabase(database, schema);
+    const tables = await this.query(`
+      SELECT TABLE_NAME AS name, TABLE_TYPE AS kind, TABLE_COMMENT AS comment, TABLE_ROWS AS rowCount,
+        DATA_LENGTH + INDEX_LENGTH AS bytes, COALESCE(UPDATE_TIME, CREATE_TIME) AS lastAltered
+      FROM information_schema.TABLES
+      WHERE TABLE_SCHEMA = ?
+      ORDER BY TABLE_NAME`, [target]);
+    const columns = await this.query(`
+      SELECT TABLE_NAME AS \`table\`, COLUMN_NAME AS name, COLUMN_TYPE AS type, IS_NULLABLE AS nullable, COLUMN_DEFAULT AS \`default\`, COLUMN_COMMENT AS comment
+      FROM information_schema.COLUMNS
+      WHERE TABLE_SCHEMA = ?
+      ORDER BY TABLE_NAME, ORDINAL_POSITION`, [target]);
+
+    return {
+      tables: tables.map(row => ({
+        name: row.name,
+        database: target,
+        schema: target,
+        kind: row.kind === 'VIEW' ? 'VIEW' as const : 'TABLE' as const,
+        comment: row.comment || undefined,
+        rowCount: row.rowCount != null ? Number(row.rowCount) : undefined,
+        bytes: row.bytes != null ? Number(row.bytes) : undefined,
+        lastAltered: row.lastAltered ? new Date(row.lastAltered) : undefined
+      })),
+      columns: groupColumnsByTable(columns.map(row => ({
+        table: row.table,
+        name: row.name,
+        type: row.type,
+        nullable: row.nullable === 'YES',
+        default: row.default,
+        comment: row.comment || undefined
+      })))
+    };
+  }
+
+  getInfo(): DataSourceInfo {
+    return {
+      type: this.type,
+      location: `${this.config.host || 'localhost'}:${this.config.port || DEFAULT_MYSQL_PORT}`,
+      database: this.database,
+      schema: this.database,
+      role: this.config.username,
+      connectedAt: this.connectedAt,
+      lastUsed: this.lastUsed
+    };
+  }
+
+  async close(): Promise<void> {
+    const connection = this.connection;
+    this.connection = null;
+    await connection?.end().catch(error => console.error('Error closing MySQL connection:', error.message));
+  }
+
+  private async openConnection(): Promise<mysql.Connection> {
+    const connection = await mysql.createConnection({
+      host: this.config.host || 'localhost',
+      port: this.config.port || DEFAULT_MYSQL_PORT,
+      user: this.config.username,
+      password: secretsService.reveal(this.config.password),
+      database: this.database,
+      ssl: this.config.ssl ? { rejectUnauthorized: false } : undefined,
+      supportBigNumbers: true,
+      dateStrings: true
+    });
+    connection.on('error', error => console.error(`MySQL connection ${this.connectionId} error:`, error.message));
+    return connection;
+  }
+
+  // KILL QUERY has to be issued from another connection; the session itself stays open
+  private async killQuery(threadId: number): Promise<void> {
+    let killer: mysql.Connection | undefined;
+    try {
+      killer = await this.openConnection();
+      await killer.query(`KILL QUERY ${Number(threadId)}`);
+    } catch (error) {
+      console.error('Failed to cancel MySQL statement:', error instanceof Error ? error.message : error);
+    } finally {
+      await killer?.end().catch(() => {});
+    }
+  }
+
+  private async query(sql: string, values: any[]): Promise<any[]> {
+    const [rows] = await this.requireConnection().query(sql, values);
+    this.lastUsed = new Date();
+    return rows as any[];
+  }
+
+  private requireConnection(): mysql.Connection {
+    if (!this.connection) {
+      throw new Error(`No active MySQL connection found for ID: ${this.connectionId}`);
+    }
+    return this.connection;
+  }
+
+  private resolveDatabase(database?: string, schema?: string): string {
+    const target = database || schema || this.database;
+    if (!target) {
+      throw new Error('No MySQL database selected. Please select a database first.');
+    }
+    return target;
+  }
+}
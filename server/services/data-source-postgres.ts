@@ -0,0 +1,308 @@
+/**
+ * PostgreSQL Data Source
+ * A PostgreSQL session is bound to one database, so each database in use gets its own client
+ */
+
+import pg from 'pg';
+import { groupColumnsByTable, groupForeignKeyColumns, limitRows, onAbort, resolveScope, throwIfCancelled } from './data-source';
+import { secretsService } from './secrets';
+import type {
+  DataSource, DataSourceColumn, DataSourceConfig, DataSourceForeignKey, DataSourceInfo, DataSourceQueryResult, DataSourceSchemaCatalog, DataSourceTable,
+  QueryExecutionOptions, QueryScope, ScanEstimate, SqlDialect
+} from './data-source';
+
+const DEFAULT_POSTGRES_PORT = 5432;
+const DEFAULT_POSTGRES_SCHEMA = 'public';
+
+const quotePostgresIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+export const POSTGRES_DIALECT: SqlDialect = {
+  name: 'PostgreSQL',
+  quoteIdentifier: quotePostgresIdentifier,
+  // Cross-database references are not allowed, so tables are qualified by schema only
+  qualifyTable: (table, _database, schema) =>
+    [schema, table].filter((part): part is string => !!part).map(quotePostgresIdentifier).join('.'),
+  defaultSchema: DEFAULT_POSTGRES_SCHEMA,
+  promptRules: [
+    'Use PostgreSQL syntax (ILIKE, DATE_TRUNC, INTERVAL literals, :: casts, FILTER (WHERE ...))',
+    'Unquoted identifiers fold to lower case; quote names that contain upper case letters',
+    'Qualify tables as schema.table; queries cannot reference other databases'
+  ]
+};
+
+export class PostgresDataSource implements DataSource {
+  readonly type = 'postgres' as const;
+  readonly dialect = POSTGRES_DIALECT;
+  private client: pg.Client | null = null; // in the configured database
+  private otherClients = new Map<string, Promise<pg.Client>>(); // by database, opened on first use
+  private database?: string;
+  private schema?: string;
+  private connectedAt?: Date;
+  private lastUsed?: Date;
+
+  constructor(readonly connectionId: string, private config: DataSourceConfig) {
+    this.database = config.database;
+    this.schema = config.schema;
+  }
+
+  async connect(): Promise<void> {
+    this.client = await this.openClient(this.database);
+    this.connectedAt = new Date();
+    if (this.schema) {
+      await this.client.query(`SET search_path TO ${quotePostgresIdentifier(this.schema)}`);
+    }
+  }
+
+  async test(): Promise<boolean> {
+    try {
+      const client = await this.openClient(this.database);
+      await client.query('SELECT 1');
+      await client.end();
+      return true;
+    } catch (error) {
+      console.error('PostgreSQL connection test failed:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  async execute(sql: string, options: QueryExecutionOptions = {}): Promise<DataSourceQueryResult> {
+    const { database, schema } = resolveScope(options, { database: this.database, schema: this.schema }, POSTGRES_DIALECT);
+    const client = await this.getClient(database);
+    throwIfCancelled(options.signal);
+
+    const startTime = Date.now();
+    const stopCancelling = onAbort(options.signal, () => void this.cancelBackend(client));
+    try {
+      // The extended protocol runs exactly one statement, whatever the text turns out to contain
+      const statement: pg.QueryConfig & { queryMode: 'extended' } = { text: sql, queryMode: 'extended' };
+      // Sent back to back, so no other caller's statement can run between them on the shared client
+      const [, result] = await Promise.all([
+        client.query(`SET search_path TO ${quotePostgresIdentifier(schema!)}`),
+        client.query(statement)
+      ]);
+      this.lastUsed = new Date();
+
+      const columns = result.fields.map((field: pg.FieldDef) => field.name);
+      const rows = columns.length > 0
+        ? result.rows
+        : [{ status: `${result.command} completed`, rows_affected: result.rowCount ?? 0 }];
+
+      return limitRows({
+        rows,
+        columns: columns.length > 0 ? columns : ['status', 'rows_affected'],
+        metadata: {
+          executionTime: Date.now() - startTime,
+          rowCount: rows.length
+        }
+      }, options.maxRows);
+    } catch (error) {
+      throwIfCancelled(options.signal);
+      throw new Error(`Query failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      stopCancelling();
+    }
+  }
+
+  // Planner estimate: rows x width summed over the table scans in the plan
+  async estimateScan(sql: string, scope: QueryScope = {}): Promise<ScanEstimate | undefined> {
+    try {
+      const [row] = (await this.execute(`EXPLAIN (FORMAT JSON) ${sql}`, scope)).rows;
+      const plan = row?.['QUERY PLAN']?.[0]?.Plan;
+      return plan ? { bytes: sumScanBytes(plan) } : undefined;
+    } catch (error) {
+      console.warn('PostgreSQL EXPLAIN failed, skipping scan estimate:', error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  async listDatabases(): Promise<string[]> {
+    const result = await this.execute('SELECT datname AS name FROM pg_database WHERE NOT datistemplate AND datallowconn ORDER BY datname');
+    return result.rows.map(row => row.name);
+  }
+
+  async listSchemas(database?: string): Promise<string[]> {
+    const rows = await this.query(`
+      SELECT schema_name AS name FROM information_schema.schemata
+      WHERE schema_name NOT IN ('information_schema', 'pg_catalog', 'pg_toast') AND schema_name NOT LIKE 'pg_temp_%' AND schema_name NOT LIKE 'pg_toast_temp_%'
+      ORDER BY schema_name`, [], database);
+    return rows.map(row => row.name);
+  }
+
+  async listTables(database?: string, schema?: string): Promise<DataSourceTable[]> {
+    const targetSchema = schema || this.schema || DEFAULT_POSTGRES_SCHEMA;
+    const result = await this.query(`
+      SELECT t.table_name AS name, t.table_type AS kind, obj_description(c.oid, 'pg_class') AS comment
+      FROM information_schema.tables t
+      LEFT JOIN pg_catalog.pg_namespace n ON n.nspname = t.table_schema
+      LEFT JOIN pg_catalog.pg_class c ON c.relname = t.table_name AND c.relnamespace = n.oid
+      WHERE t.table_schema = $1
+      ORDER BY t.table_name`, [targetSchema], database);
+
+    return result.map(row => ({
+      name: row.name,
+      database: database || this.database || '',
+      schema: targetSchema,
+      kind: row.kind === 'VIEW' ? 'VIEW' as const : 'TABLE' as const,
+      comment: row.comment || undefined
+    }));
+  }
+
+  async describeTable(table: string, database?: string, schema?: string): Promise<DataSourceColumn[]> {
+    const targetSchema = schema || this.schema || DEFAULT_POSTGRES_SCHEMA;
+    const result = await this.query(`
+      SELECT c.column_name AS name, c.data_type AS type, c.is_nullable AS nullable, c.column_default AS "default",
+        col_description(format('%I.%I', c.table_schema, c.table_name)::regclass, c.ordinal_position) AS comment
+      FROM information_schema.columns c
+      WHERE c.table_schema = $1 AND c.table_name = $2
+      ORDER BY c.ordinal_position`, [targetSchema, table], database);
+
+    return result.map(row => ({
+      name: row.name,
+      type: row.type,
+      nullable: row.nullable === 'YES',
+      default: row.default,
+      comment: row.comment || undefined
+    }));
+  }
+
+  async listForeignKeys(database?: string, schema?: string): Promise<DataSourceForeignKey[]> {
+    const targetSchema = schema || this.schema || DEFAULT_POSTGRES_SCHEMA;
+    const rows = await this.query(`
+      SELECT con.conname AS name, cl.relname AS "table", att.attname AS "column",
+        fns.nspname AS "referencedSchema", fcl.relname AS "referencedTable", fatt.attname AS "referencedColumn"
+      FROM pg_catalog.pg_constraint con
+      JOIN pg_catalog.pg_class cl ON cl.oid = con.conrelid
+      JOIN pg_catalog.pg_namespace ns ON ns.oid = cl.relnamespace
+      JOIN pg_catalog.pg_class fcl ON fcl.oid = con.confrelid
+      JOIN pg_catalog.pg_namespace fns ON fns.oid = fcl.relnamespace
+      CROSS JOIN LATERAL unnest(con.conkey, con.confkey) WITH ORDINALITY AS k(attnum, fattnum, position)
+      JOIN pg_catalog.pg_attribute att ON att.attrelid = con.conrelid AND att.attnum = k.attnum
+      JOIN pg_catalog.pg_attribute fatt ON fatt.attrelid = con.confrelid AND fatt.attnum = k.fattnum
+      WHERE con.contype = 'f' AND ns.nspname = $1
+      ORDER BY cl.relname, con.conname, k.position`, [targetSchema], database);
+
+    return groupForeignKeyColumns(rows);
+  }
+
+  // Row counts are the planner's estimate; PostgreSQL does not record when a table was last altered
+  async readSchemaCatalog(database?: string, schema?: string): Promise<DataSourceSchemaCatalog> {
+    const targetSchema = schema || this.schema || DEFAULT_POSTGRES_SCHEMA;
+    const [tables, columns] = await Promise.all([
+      this.query(`
+        SELECT t.table_name AS name, t.table_type AS kind, obj_description(c.oid, 'pg_class') AS comment,
+          CASE WHEN c.reltuples >= 0 THEN c.reltuples::bigint END AS "rowCount", pg_total_relation_size(c.oid) AS bytes
+        FROM information_schema.tables t
+        LEFT JOIN pg_catalog.pg_namespace n ON n.nspname = t.table_schema
+        LEFT JOIN pg_catalog.pg_class c ON c.relname = t.table_name AND c.relnamespace = n.oid
+        WHERE t.table_schema = $1
+        ORDER BY t.table_name`, [targetSchema], database),
+      this.query(`
+        SELECT c.table_name AS "table", c.column_name AS name, c.data_type AS type, c.is_nullable AS nullable, c.column_default AS "default",
+          col_description(format('%I.%I', c.table_schema, c.table_name)::regclass, c.ordinal_position) AS comment
+        FROM information_schema.columns c
+        WHERE c.table_schema = $1
+        ORDER BY c.table_name, c.ordinal_position`, [targetSchema], database)
+    ]);
+
+    return {
+      tables: tables.map(row => ({
+        name: row.name,
+        database: database || this.database || '',
+        schema: targetSchema,
+        kind: row.kind === 'VIEW' ? 'VIEW' as const : 'TABLE' as const,
+        comment: row.comment || undefined,
+        rowCount: row.rowCount != null ? Number(row.rowCount) : undefined,
+        bytes: row.bytes != null ? Number(row.bytes) : undefined
+      })),
+      columns: groupColumnsByTable(columns.map(row => ({
+        table: row.table,
+        name: row.name,
+        type: row.type,
+        nullable: row.nullable === 'YES',
+        default: row.default,
+        comment: row.comment || undefined
+      })))
+    };
+  }
+
+  getInfo(): DataSourceInfo {
+    return {
+      type: this.type,
+      location: `${this.config.host || 'localhost'}:${this.config.port || DEFAULT_POSTGRES_PORT}`,
+      database: this.database,
+      schema: this.schema || DEFAULT_POSTGRES_SCHEMA,
+      role: this.config.username,
+      connectedAt: this.connectedAt,
+      lastUsed: this.lastUsed
+    };
+  }
+
+  async close(): Promise<void> {
+    const clients = [this.client, ...await Promise.all(Array.from(this.otherClients.values(), client => client.catch(() => null)))];
+    this.client = null;
+    this.otherClients.clear();
+    await Promise.all(clients.map(client =>
+      client?.end().catch(error => console.error('Error closing PostgreSQL connection:', error.message))
+    ));
+  }
+
+  private async getClient(database?: string): Promise<pg.Client> {
+    if (!this.client) {
+      throw new Error(`No active PostgreSQL connection found for ID: ${this.connectionId}`);
+    }
+    if (!database || database === this.database) {
+      return this.client;
+    }
+
+    let client = this.otherClients.get(database);
+    if (!client) {
+      client = this.openClient(database);
+      this.otherClients.set(database, client);
+      client.catch(() => this.otherClients.delete(database));
+    }
+    return await client;
+  }
+
+  private async openClient(database?: string): Promise<pg.Client> {
+    const client = new pg.Client({
+      host: this.config.host || 'localhost',
+      port: this.config.port || DEFAULT_POSTGRES_PORT,
+      user: this.config.username,
+      password: secretsService.reveal(this.config.password),
+      database,
+      ssl: this.config.ssl ? { rejectUnauthorized: false } : undefined,
+      application_name: 'DataMind'
+    });
+    // An idle client that loses its server emits 'error'; without a listener that would crash the process
+    client.on('error', error => console.error(`PostgreSQL connection ${this.connectionId} error:`, error.message));
+    await client.connect();
+    return client;
+  }
+
+  // A running statement can only be cancelled from a second session
+  private async cancelBackend(client: pg.Client): Promise<void> {
+    const processId = (client as pg.Client & { processID?: number }).processID;
+    if (!processId) return;
+
+    let canceller: pg.Client | undefined;
+    try {
+      canceller = await this.openClient(this.database);
+      await canceller.query('SELECT pg_cancel_backend($1)', [processId]);
+    } catch (error) {
+      console.error('Failed to cancel PostgreSQL statement:', error instanceof Error ? error.message : error);
+    } finally {
+      await canceller?.end().catch(() => {});
+    }
+  }
+
+  private async query(sql: string, values: any[], database?: string): Promise<any[]> {
+    const result = await (await this.getClient(database)).query(sql, values);
+    this.lastUsed = new Date();
+    return result.rows;
+  }
+}
+
+function sumScanBytes(node: any): number {
+  const own = node['Relation Name'] ? (node['Plan Rows'] || 0) * (node['Plan Width'] || 0) : 0;
+  return own + (node.Plans || []).reduce((total: number, child: any) => total + sumScanBytes(child), 0);
+}
@@ -0,0 +1,264 @@
+/**
+ * Snowflake Data Source
+ * DataSource adapter over SnowflakeService, which keeps owning the driver
+ * connections (password, PAT, key pair, OAuth and the local stand-in)
+ */
+
+import { snowflakeService, SnowflakeConnectionConfig } from './snowflake-service';
+import { groupColumnsByTable, groupForeignKeyColumns, limitRows, resolveScope } from './data-source';
+import type {
+  DataSource, DataSourceColumn, DataSourceConfig, DataSourceForeignKey, DataSourceInfo, DataSourceQueryResult, DataSourceSchemaCatalog, DataSourceTable,
+  QueryExecutionOptions, QueryScope, ScanEstimate, SqlDialect
+} from './data-source';
+
+const quoteSnowflakeIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+export const quoteSnowflakeLiteral = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "''")}'`;
+
+// INFORMATION_SCHEMA.COLUMNS splits the type from its length, precision and scale
+function formatColumnType(row: Record<string, any>): string {
+  const type = row.DATA_TYPE;
+  if (type === 'NUMBER' && row.NUMERIC_PRECISION != null) {
+    return `NUMBER(${row.NUMERIC_PRECISION},${row.NUMERIC_SCALE ?? 0})`;
+  }
+  if (type === 'TEXT' && row.CHARACTER_MAXIMUM_LENGTH != null) {
+    return `VARCHAR(${row.CHARACTER_MAXIMUM_LENGTH})`;
+  }
+  if (type === 'BINARY' && row.CHARACTER_MAXIMUM_LENGTH != null) {
+    return `BINARY(${row.CHARACTER_MAXIMUM_LENGTH})`;
+  }
+  return type;
+}
+
+export const SNOWFLAKE_DIALECT: SqlDialect = {
+  name: 'Snowflake',
+  quoteIdentifier: quoteSnowflakeIdentifier,
+  qualifyTable: (table, database, schema) =>
+    [database, schema, table].filter((part): part is string => !!part).map(quoteSnowflakeIdentifier).join('.'),
+  defaultSchema: 'PUBLIC',
+  promptRules: [
+    'Use Snowflake SQL syntax (QUALIFY, ILIKE, DATEADD, DATE_TRUNC, IFF, :: casts)',
+    'Unquoted identifiers resolve to upper case; quote mixed-case names',
+    'Use fully qualified DATABASE.SCHEMA.TABLE names'
+  ]
+};
+
+export class SnowflakeDataSource implements DataSource {
+  readonly type = 'snowflake' as const;
+  readonly dialect = SNOWFLAKE_DIALECT;
+
+  // Without a config the source attaches to a connection snowflakeService already holds
+  constructor(readonly connectionId: string, private config?: DataSourceConfig) {}
+
+  async connect(): Promise<void> {
+    if (snowflakeService.hasActiveConnection(this.connectionId)) {
+      return;
+    }
+    if (!this.config) {
+      throw new Error(`No Snowflake connection found for ID: ${this.connectionId}`);
+    }
+
+    const connected = await snowflakeService.createConnection(this.connectionId, this.toSnowflakeConfig(this.config));
+    if (!connected) {
+      throw new Error('Failed to establish Snowflake connection');
+    }
+  }
+
+  async test(): Promise<boolean> {
+    if (!this.config) {
+      return snowflakeService.hasActiveConnection(this.connectionId);
+    }
+    return await snowflakeService.testConnection(this.toSnowflakeConfig(this.config));
+  }
+
+  // Pooled sessions are shared, so every statement names the database and schema it runs in
+  async execute(sql: string, options: QueryExecutionOptions = {}): Promise<DataSourceQueryResult> {
+    const result = await snowflakeService.executeQuery(this.connectionId, sql, {
+      maxRows: options.maxRows,
+      signal: options.signal,
+      ...this.resolve(options)
+    });
+    return limitRows(result, options.maxRows);
+  }
+
+  async submitQuery(sql: string, scope: QueryScope = {}): Promise<string> {
+    return await snowflakeService.submitAsyncQuery(this.connectionId, sql, this.resolve(scope));
+  }
+
+  async isQueryRunning(queryId: string): Promise<boolean> {
+    return await snowflakeService.isAsyncQueryRunning(this.connectionId, queryId);
+  }
+
+  async fetchQueryResult(queryId: string, options: QueryExecutionOptions = {}): Promise<DataSourceQueryResult> {
+    const result = await snowflakeService.fetchAsyncQueryResult(this.connectionId, queryId, { maxRows: options.maxRows });
+    return limitRows(result, options.maxRows);
+  }
+
+  async cancelQuery(queryId: string): Promise<void> {
+    await snowflakeService.cancelAsyncQuery(this.connectionId, queryId);
+  }
+
+  // EXPLAIN only compiles the query; its GlobalStats row carries the pruned scan size
+  async estimateScan(sql: string, scope: QueryScope = {}): Promise<ScanEstimate | undefined> {
+    try {
+      const result = await this.execute(`EXPLAIN USING TABULAR ${sql}`, scope);
+      const stats = result.rows.find(row => (row.operation || row.OPERATION) === 'GlobalStats');
+      const bytes = Number(stats?.bytesAssigned ?? stats?.BYTESASSIGNED);
+      if (!stats || !Number.isFinite(bytes)) {
+        return undefined;
+      }
+      return {
+        bytes,
+        partitionsTotal: Number(stats.partitionsTotal ?? stats.PARTITIONSTOTAL),
+        partitionsAssigned: Number(stats.partitionsAssigned ?? stats.PARTITIONSASSIGNED)
+      };
+    } catch (error) {
+      // The local stand-in and some statement types cannot be explained
+      console.warn('Snowflake EXPLAIN failed, skipping scan estimate:', error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  async listDatabases(): Promise<string[]> {
+    const result = await this.execute('SHOW DATABASES');
+    return result.rows.map(row => row.name || row.NAME);
+  }
+
+  async listSchemas(database?: string): Promise<string[]> {
+    const target = database || this.getInfo().database;
+    const result = await this.execute(target ? `SHOW SCHEMAS IN DATABASE ${quoteSnowflakeIdentifier(target)}` : 'SHOW SCHEMAS');
+    return result.rows.map(row => row.name || row.NAME);
+  }
+
+  async listTables(database?: string, schema?: string): Promise<DataSourceTable[]> {
+    const info = this.getInfo();
+    const targetDatabase = database || info.database || '';
+    const targetSchema = schema || info.schema || '';
+    const scope = targetDatabase && targetSchema ? ` IN SCHEMA ${SNOWFLAKE_DIALECT.qualifyTable(targetSchema, targetDatabase)}` : '';
+
+    const result = await this.execute(`SHOW TABLES${scope}`);
+    return result.rows.map(row => ({
+      name: row.name || row.NAME,
+      database: row.database_name || targetDatabase,
+      schema: row.schema_name || targetSchema,
+      kind: 'TABLE' as const,
+      comment: row.comment || undefined
+    }));
+  }
+
+  async describeTable(table: string, database?: string, schema?: string): Promise<DataSourceColumn[]> {
+    const info = this.getInfo();
+    const result = await this.execute(
+      `DESCRIBE TABLE ${SNOWFLAKE_DIALECT.qualifyTable(table, database || info.database, schema || info.schema)}`
+    );
+    return result.rows.map(row => ({
+      name: row.name || row.NAME,
+      type: row.type || row.TYPE,
+      nullable: row['null?'] === 'Y' || row.null === 'Y' || row.NULLABLE === 'Y',
+      default: row.default || row.DEFAULT || null,
+      comment: row.comment || row.COMMENT || undefined
+    }));
+  }
+
+  async listForeignKeys(database?: string, schema?: string): Promise<DataSourceForeignKey[]> {
+    const info = this.getInfo();
+    const targetDatabase = database || info.database || '';
+    const targetSchema = schema || info.schema || '';
+    const scope = targetDatabase && targetSchema ? ` IN SCHEMA ${SNOWFLAKE_DIALECT.qualifyTable(targetSchema, targetDatabase)}` : '';
+
+    const result = await this.execute(`SHOW IMPORTED KEYS${scope}`);
+    const rows = result.rows
+      .map(row => ({
+        name: row.fk_name,
+        table: row.fk_table_name,
+        column: row.fk_column_name,
+        referencedSchema: row.pk_schema_name,
+        referencedTable: row.pk_table_name,
+        referencedColumn: row.pk_column_name,
+        sequence: Number(row.key_sequence) || 0
+      }))
+      .sort((a, b) => a.table.localeCompare(b.table) || a.name.localeCompare(b.name) || a.sequence - b.sequence);
+    return groupForeignKeyColumns(rows);
+  }
+
+  async readSchemaCatalog(database?: string, schema?: string): Promise<DataSourceSchemaCatalog> {
+    const info = this.getInfo();
+    const targetDatabase = database || info.database;
+    const targetSchema = schema || info.schema;
+    if (!targetDatabase || !targetSchema) {
+      throw new Error('No Snowflake database and schema selected. Please select both first.');
+    }
+    const informationSchema = `${quoteSnowflakeIdentifier(targetDatabase)}.INFORMATION_SCHEMA`;
+    const schemaLiteral = quoteSnowflakeLiteral(targetSchema);
+
+    const [tables, columns] = await Promise.all([
+      this.execute(`
+        SELECT TABLE_NAME, TABLE_TYPE, COMMENT, ROW_COUNT, BYTES, LAST_ALTERED
+        FROM ${informationSchema}.TABLES
+        WHERE TABLE_SCHEMA = ${schemaLiteral}
+        ORDER BY TABLE_NAME`),
+      this.execute(`
+        SELECT TABLE_NAME, COLUMN_NAME, DATA_TYPE, CHARACTER_MAXIMUM_LENGTH, NUMERIC_PRECISION, NUMERIC_SCALE, IS_NULLABLE, COLUMN_DEFAULT, COMMENT
+        FROM ${informationSchema}.COLUMNS
+        WHERE TABLE_SCHEMA = ${schemaLiteral}
+        ORDER BY TABLE_NAME, ORDINAL_POSITION`)
+    ]);
+
+    return {
+      tables: tables.rows.map(row => ({
+        name: row.TABLE_NAME,
+        database: targetDatabase,
+        schema: targetSchema,
+        kind: String(row.TABLE_TYPE).includes('VIEW') ? 'VIEW' as const : 'TABLE' as const,
+        comment: row.COMMENT || undefined,
+        rowCount: row.ROW_COUNT ?? undefined,
+        bytes: row.BYTES ?? undefined,
+        lastAltered: row.LAST_ALTERED ? new Date(row.LAST_ALTERED) : undefined
+      })),
+      columns: groupColumnsByTable(columns.rows.map(row => ({
+        table: row.TABLE_NAME,
+        name: row.COLUMN_NAME,
+        type: formatColumnType(row),
+        nullable: row.IS_NULLABLE === 'YES',
+        default: row.COLUMN_DEFAULT ?? null,
+        comment: row.COMMENT || undefined
+      })))
+    };
+  }
+
+  getInfo(): DataSourceInfo {
+    const metadata = snowflakeService.getConnectionMetadata(this.connectionId);
+    return {
+      type: this.type,
+      location: metadata?.account || this.config?.account || 'snowflake',
+      database: this.config?.database ?? metadata?.database,
+      schema: this.config?.schema ?? metadata?.schema,
+      warehouse: metadata?.warehouse || this.config?.warehouse,
+      role: metadata?.role || this.config?.role,
+      connectedAt: metadata?.connectedAt,
+      lastUsed: metadata?.lastUsed
+    };
+  }
+
+  // Unset parts stay unset so snowflakeService falls back to the session's connection config
+  private resolve(scope: QueryScope): QueryScope {
+    return scope.database || scope.schema ? resolveScope(scope, this.getInfo(), SNOWFLAKE_DIALECT) : {};
+  }
+
+  async close(): Promise<void> {
+    snowflakeService.removeConnection(this.connectionId);
+  }
+
+  private toSnowflakeConfig(config: DataSourceConfig): SnowflakeConnectionConfig {
+    return {
+      account: config.account || '',
+      username: config.username || '',
+      password: config.password || '',
+      database: config.database,
+      schema: config.schema,
+      warehouse: config.warehouse,
+      role: config.role,
+      authenticator: config.authenticator,
+      oauth: config.oauth,
+    };
+  }
+}
@@ -0,0 +1,371 @@
+/**
+ * Data Source Layer
+ * Common interface over the SQL engines DataMind can query (Snowflake, PostgreSQL,
+ * MySQL, DuckDB) and a registry of open sources keyed by connection id
+ */
+
+import type { CatalogForeignKey, DataConnection, DataSourceType, SnowflakeOAuthOptions } from '@shared/schema';
+import type { SnowflakeQueryResult } from './snowflake-service';
+import { snowflakeService } from './snowflake-service';
+import { SnowflakeDataSource } from './data-source-snowflake';
+import { PostgresDataSource } from './data-source-postgres';
+import { MySQLDataSource } from './data-source-mysql';
+import { DuckDBDataSource } from './data-source-duckdb';
+
+export type { DataSourceType } from '@shared/schema';
+
+// Every source returns rows in the shape the tools already consume
+export type DataSourceQueryResult = SnowflakeQueryResult;
+
+// Database and schema a statement runs in; sources fill in their own for parts left unset
+export interface QueryScope {
+  database?: string;
+  schema?: string;
+}
+
+export interface QueryExecutionOptions extends QueryScope {
+  maxRows?: number; // keep at most this many rows; the rest are dropped and the result marked truncated
+  signal?: AbortSignal; // cancels the statement on the server when aborted
+}
+
+// Planner estimate of the data a query will read
+export interface ScanEstimate {
+  bytes: number;
+  partitionsTotal?: number;
+  partitionsAssigned?: number;
+}
+
+export interface DataSourceConfig {
+  type: DataSourceType;
+  account?: string;
+  host?: string;
+  port?: number;
+  username?: string;
+  password?: string; // as stored (encrypted); drivers reveal it only to connect
+  database?: string;
+  schema?: string;
+  warehouse?: string;
+  role?: string;
+  authenticator?: string;
+  ssl?: boolean;
+  filePath?: string;
+  fileDirectory?: string;
+  oauth?: SnowflakeOAuthOptions;
+}
+
+// SQL flavour of a source, used when generating and quoting SQL
+export interface SqlDialect {
+  name: string;
+  quoteIdentifier(name: string): string;
+  qualifyTable(table: string, database?: string, schema?: string): string;
+  defaultSchema?: string; // schema a database is entered in; unset where databases have no schemas
+  promptRules: string[]; // dialect-specific instructions for generate_sql
+}
+
+export interface DataSourceTable {
+  name: string;
+  database: string;
+  schema: string;
+  kind: 'TABLE' | 'VIEW';
+  comment?: string;
+  rowCount?: number; // filled by readSchemaCatalog where the source tracks it
+  bytes?: number;
+  lastAltered?: Date;
+}
+
+export interface DataSourceColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  default?: string | null;
+  comment?: string;
+}
+
+export type DataSourceForeignKey = CatalogForeignKey;
+
+// A schema's tables and all their columns, read in one pass (INFORMATION_SCHEMA where the source has it)
+export interface DataSourceSchemaCatalog {
+  tables: DataSourceTable[];
+  columns: Record<string, DataSourceColumn[]>; // by table name, in column order
+}
+
+export interface DataSourceInfo {
+  type: DataSourceType;
+  location: string; // account, host:port or database file
+  database?: string;
+  schema?: string;
+  warehouse?: string;
+  role?: string;
+  connectedAt?: Date;
+  lastUsed?: Date;
+}
+
+export interface DataSource {
+  readonly type: DataSourceType;
+  readonly dialect: SqlDialect;
+  readonly connectionId: string;
+  connect(): Promise<void>;
+  test(): Promise<boolean>;
+  execute(sql: string, options?: QueryExecutionOptions): Promise<DataSourceQueryResult>;
+  estimateScan?(sql: string, scope?: QueryScope): Promise<ScanEstimate | undefined>; // sources without a usable planner estimate omit this
+  // Server-side asynchronous execution (Snowflake); query jobs on other sources run in process
+  submitQuery?(sql: string, scope?: QueryScope): Promise<string>;
+  isQueryRunning?(queryId: string): Promise<boolean>; // throws once the query has failed
+  fetchQueryResult?(queryId: string, options?: QueryExecutionOptions): Promise<DataSourceQueryResult>;
+  cancelQuery?(queryId: string): Promise<void>;
+  listDatabases(): Promise<string[]>;
+  listSchemas(database?: string): Promise<string[]>;
+  listTables(database?: string, schema?: string): Promise<DataSourceTable[]>;
+  describeTable(table: string, database?: string, schema?: string): Promise<DataSourceColumn[]>;
+  listForeignKeys(database?: string, schema?: string): Promise<DataSourceForeignKey[]>;
+  readSchemaCatalog(database?: string, schema?: string): Promise<DataSourceSchemaCatalog>;
+  getInfo(): DataSourceInfo; // database and schema are the ones statements run in when no scope is given
+  close(): Promise<void>;
+}
+
+const DATA_SOURCE_FACTORIES: Record<DataSourceType, (connectionId: string, config: DataSourceConfig) => DataSource> = {
+  snowflake: (connectionId, config) => new SnowflakeDataSource(connectionId, config),
+  postgres: (connectionId, config) => new PostgresDataSource(connectionId, config),
+  mysql: (connectionId, config) => new MySQLDataSource(connectionId, config),
+  duckdb: (connectionId, config) => new DuckDBDataSource(connectionId, config),
+};
+
+// Drop rows beyond maxRows for drivers that cannot stop reading early
+export function limitRows(result: DataSourceQueryResult, maxRows?: number): DataSourceQueryResult {
+  if (maxRows === undefined || result.rows.length <= maxRows) {
+    return result;
+  }
+  return {
+    ...result,
+    rows: result.rows.slice(0, maxRows),
+    metadata: {
+      ...result.metadata,
+      rowCount: maxRows,
+      truncated: true
+    }
+  };
+}
+
+// Fold one-row-per-column constraint listings, already in key order, into foreign keys
+export function groupForeignKeyColumns(rows: Array<{
+  name: string;
+  table: string;
+  column: string;
+  referencedSchema?: string;
+  referencedTable: string;
+  referencedColumn: string;
+}>): DataSourceForeignKey[] {
+  const keys = new Map<string, DataSourceForeignKey>();
+  for (const row of rows) {
+    const id = `${row.table}\u0000${row.name}`;
+    let key = keys.get(id);
+    if (!key) {
+      key = { name: row.name, table: row.table, columns: [], referencedSchema: row.referencedSchema, referencedTable: row.referencedTable, referencedColumns: [] };
+      keys.set(id, key);
+    }
+    key.columns.push(row.column);
+    key.referencedColumns.push(row.referencedColumn);
+  }
+  return Array.from(keys.values());
+}
+
+// Group column rows that carry their table name, already in column order
+export function groupColumnsByTable(rows: Array<DataSourceColumn & { table: string }>): Record<string, DataSourceColumn[]> {
+  const columns: Record<string, DataSourceColumn[]> = {};
+  for (const { table, ...column } of rows) {
+    (columns[table] ||= []).push(column);
+  }
+  return columns;
+}
+
+// A scope's database and schema, with the source's own filling in what it leaves unset.
+// A database named without a schema is entered in the dialect's default schema.
+export function resolveScope(scope: QueryScope, source: QueryScope, dialect: SqlDialect): QueryScope {
+  if (scope.database && scope.database !== source.database) {
+    return { database: scope.database, schema: scope.schema || dialect.defaultSchema };
+  }
+  return { database: source.database, schema: scope.schema || source.schema || dialect.defaultSchema };
+}
+
+/**
+ * Check that a database exists and work out the scope a session enters it with:
+ * the dialect's default schema when the database has it, otherwise its first schema
+ */
+export async function scopeForDatabase(source: DataSource, database: string): Promise<QueryScope> {
+  if (!(await source.listDatabases()).includes(database)) {
+    throw new Error(`Database ${database} not found`);
+  }
+  const schemas = await source.listSchemas(database);
+  const { defaultSchema } = source.dialect;
+  return { database, schema: defaultSchema && schemas.includes(defaultSchema) ? defaultSchema : schemas[0] };
+}
+
+// Check that a schema exists in the database; where databases have no schemas, selecting one selects that database
+export async function scopeForSchema(source: DataSource, database: string | undefined, schema: string): Promise<QueryScope> {
+  if (!source.dialect.defaultSchema) {
+    return await scopeForDatabase(source, schema);
+  }
+  if (!(await source.listSchemas(database)).includes(schema)) {
+    throw new Error(`Schema ${schema} not found in ${database || 'the current database'}`);
+  }
+  return { database, schema };
+}
+
+// Call handler once the signal aborts; returns a function that stops listening
+export function onAbort(signal: AbortSignal | undefined, handler: () => void): () => void {
+  if (!signal) {
+    return () => {};
+  }
+  if (signal.aborted) {
+    handler();
+    return () => {};
+  }
+  signal.addEventListener('abort', handler, { once: true });
+  return () => signal.removeEventListener('abort', handler);
+}
+
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new Error('Query cancelled');
+  }
+}
+
+// Map a stored connection row to the driver-agnostic config
+export function toDataSourceConfig(connection: DataConnection): DataSourceConfig {
+  return {
+    type: (connection.type || 'snowflake') as DataSourceType,
+    account: connection.account || undefined,
+    host: connection.host || undefined,
+    port: connection.port || undefined,
+    username: connection.username || undefined,
+    password: connection.password || undefined,
+    database: connection.database || undefined,
+    schema: connection.schema || undefined,
+    warehouse: connection.warehouse || undefined,
+    role: connection.role || undefined,
+    authenticator: connection.authenticator || undefined,
+    ssl: connection.options?.ssl,
+    filePath: connection.options?.filePath,
+    fileDirectory: connection.options?.fileDirectory,
+    oauth: connection.options?.oauth,
+  };
+}
+
+export class DataSourceService {
+  private sources = new Map<string, DataSource>();
+  private holders = new Map<string, Set<string>>(); // connection id -> agent sessions using the source
+
+  createDataSource(connectionId: string, config: DataSourceConfig): DataSource {
+    const factory = DATA_SOURCE_FACTORIES[config.type];
+    if (!factory) {
+      throw new Error(`Unsupported data source type: ${config.type}`);
+    }
+    return factory(connectionId, config);
+  }
+
+  /**
+   * Check credentials without keeping the connection open
+   */
+  async testConnection(config: DataSourceConfig): Promise<boolean> {
+    return await this.createDataSource(`test-${Date.now()}`, config).test();
+  }
+
+  /**
+   * Open a source and keep it for subsequent tool calls and API requests
+   */
+  async connect(connectionId: string, config: DataSourceConfig): Promise<DataSource> {
+    const existing = this.sources.get(connectionId);
+    if (existing) {
+      return existing;
+    }
+
+    const source = this.createDataSource(connectionId, config);
+    await source.connect();
+    this.sources.set(connectionId, source);
+    console.log(`Data source connected: ${connectionId} (${config.type})`);
+    return source;
+  }
+
+  async connectStored(connection: DataConnection): Promise<DataSource> {
+    return await this.connect(connection.id, toDataSourceConfig(connection));
+  }
+
+  /**
+   * Track a source whose connection was opened elsewhere (agent PAT / local Snowflake connections)
+   */
+  register(source: DataSource): DataSource {
+    this.sources.set(source.connectionId, source);
+    return source;
+  }
+
+  get(connectionId: string): DataSource | undefined {
+    const source = this.sources.get(connectionId);
+    if (source) {
+      return source;
+    }
+
+    // Connections opened straight through snowflakeService are adopted on first use
+    if (snowflakeService.hasActiveConnection(connectionId)) {
+      return this.register(new SnowflakeDataSource(connectionId));
+    }
+    return undefined;
+  }
+
+  require(connectionId: string): DataSource {
+    const source = this.get(connectionId);
+    if (!source) {
+      throw new Error(`No active data source connection found for ID: ${connectionId}`);
+    }
+    return source;
+  }
+
+  has(connectionId: string): boolean {
+    return this.get(connectionId) !== undefined;
+  }
+
+  /**
+   * Record that an agent session uses a source, so another session letting go of it leaves it open
+   */
+  hold(connectionId: string, sessionId: string): void {
+    let holders = this.holders.get(connectionId);
+    if (!holders) {
+      holders = new Set();
+      this.holders.set(connectionId, holders);
+    }
+    holders.add(sessionId);
+  }
+
+  /**
+   * Let go of a session's use of a source; it is closed once no session uses it
+   */
+  async release(connectionId: string, sessionId: string): Promise<void> {
+    const holders = this.holders.get(connectionId);
+    holders?.delete(sessionId);
+    if (holders?.size) {
+      return;
+    }
+    await this.close(connectionId);
+  }
+
+  async close(connectionId: string): Promise<void> {
+    const source = this.sources.get(connectionId);
+    this.sources.delete(connectionId);
+    this.holders.delete(connectionId);
+    if (source) {
+      await source.close();
+    } else {
+      await snowflakeService.closeConnection(connectionId);
+    }
+  }
+
+  async closeAll(): Promise<void> {
+    await Promise.all(Array.from(this.sources.keys()).map(id => this.close(id)));
+  }
+
+  getActiveCount(): number {
+    return this.sources.size;
+  }
+}
+
+// Global data source service instance
+export const dataSourceService = new DataSourceService();
@@ -0,0 +1,302 @@
+/**
+ * File Uploads
+ * Files a user uploads (CSV, JSON, XLSX, Parquet) are loaded as tables of a DuckDB database
+ * of their own, registered as the user's "Uploaded files" connection. Agents reach the tables
+ * like any other DuckDB source, so describe_table and generate_sql work on them. DuckDB infers
+ * column types while loading; XLSX sheets are converted to JSON Lines for it first.
+ * A copy of each file is kept for staging to Snowflake; XLSX files are kept as CSV.
+ * SQL on the database can only reach files under the user's own upload directory.
+ */
+
+import { createWriteStream } from 'fs';
+import { access, copyFile, mkdir, mkdtemp, readFile, rm } from 'fs/promises';
+import { join, resolve as resolvePath } from 'path';
+import { Transform, type Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { DuckDBConnection } from '@duckdb/node-api';
+import type { DataConnection, DataConnectionOptions, UploadedFile, UploadedFileColumn, UploadFormat } from '@shared/schema';
+import { storage } from '../storage';
+import { agentContextManager } from './agent-context';
+import { dataSourceService } from './data-source';
+import { openDuckDBInstance } from './data-source-duckdb';
+import { metadataCatalogService } from './metadata-catalog';
+import { readXlsx } from './xlsx-reader';
+import { writeOutput } from './zip-writer';
+
+export type UploadResult =
+  | { refused: false; file: UploadedFile }
+  | { refused: true; reason: string };
+
+export const UPLOADS_CONNECTION_NAME = 'Uploaded files';
+const UPLOADS_DIR = './data/uploads';
+const DEFAULT_MAX_UPLOAD_MB = 100;
+const MAX_TABLE_NAME = 63;
+
+const FORMATS_BY_EXTENSION: Record<string, UploadFormat> = {
+  csv: 'csv',
+  tsv: 'csv',
+  txt: 'csv',
+  json: 'json',
+  jsonl: 'json',
+  ndjson: 'json',
+  xlsx: 'xlsx',
+  parquet: 'parquet'
+};
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+const quoteString = (text: string) => `'${text.replace(/'/g, "''")}'`;
+
+// A lower-case SQL name from a file name: "Sales 2024 (Q1).csv" -> sales_2024_q1
+function toTableName(name: string): string {
+  const base = name.replace(/\.[^.]+$/, '').toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+  const safe = /^[0-9]/.test(base) ? `t_${base}` : base;
+  return (safe || 'upload').slice(0, MAX_TABLE_NAME);
+}
+
+const toSafeName = (name: string) => name.replace(/[^a-zA-Z0-9_-]/g, '_');
+
+// File name of the kept copy; it becomes the name of the file in a stage
+function stagingFileName(file: UploadedFile): string {
+  const name = file.fileName.replace(/[^a-zA-Z0-9._-]+/g, '_').replace(/^[._]+/, '') || 'upload';
+  return file.format === 'xlsx' ? name.replace(/\.xlsx$/i, '') + '.csv' : name;
+}
+
+// DuckDB source over the uploaded file; types are inferred from every row
+function readFunction(format: UploadFormat, path: string): string {
+  switch (format) {
+    case 'csv':
+      return `read_csv(${quoteString(path)}, auto_detect = true, sample_size = -1)`;
+    case 'json':
+    case 'xlsx': // converted to JSON Lines
+      return `read_json(${quoteString(path)}, format = 'auto', sample_size = -1)`;
+    case 'parquet':
+      return `read_parquet(${quoteString(path)})`;
+  }
+}
+
+export class FileUploadService {
+  getMaxBytes(): number {
+    const value = Number(process.env.UPLOAD_MAX_MB);
+    return (process.env.UPLOAD_MAX_MB && Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_UPLOAD_MB) * 1024 * 1024;
+  }
+
+  detectFormat(fileName: string): UploadFormat | undefined {
+    const extension = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+    return extension ? FORMATS_BY_EXTENSION[extension] : undefined;
+  }
+
+  /**
+   * Load an uploaded file as a table of the user's uploads database. A table of the same
+   * name is replaced, so uploading a file again refreshes it.
+   */
+  async ingest(userId: string, fileName: string, input: Readable, tableName?: string): Promise<UploadResult> {
+    const format = this.detectFormat(fileName);
+    if (!format) {
+      return { refused: true, reason: `Unsupported file type: ${fileName}. Upload CSV, JSON, XLSX or Parquet files.` };
+    }
+
+    // Received inside the user's directory, the only place the database may read files from
+    const connection = await this.getConnection(userId);
+    const directory = await mkdtemp(join(resolvePath(this.getUserDirectory(userId)), 'incoming-'));
+    try {
+      const received = await this.receive(input, join(directory, 'upload'));
+      if (received.tooLarge) {
+        return { refused: true, reason: `The file is larger than the ${Math.round(this.getMaxBytes() / 1024 / 1024)} MB upload limit.` };
+      }
+
+      const table = toTableName(tableName || fileName);
+      let loaded: { columns: UploadedFileColumn[]; rowCount: number };
+      try {
+        const source = format === 'xlsx'
+          ? await this.convertXlsx(received.path, join(directory, 'sheet.jsonl'))
+          : `SELECT * FROM ${readFunction(format, received.path)}`;
+        loaded = await this.withDatabase(connection, async (database) => {
+          await database.run(`CREATE OR REPLACE TABLE ${quoteIdentifier(table)} AS ${source}`);
+          return await this.describe(database, table);
+        });
+      } catch (error) {
+        return { refused: true, reason: `Could not read ${fileName}: ${error instanceof Error ? error.message : 'Unknown error'}` };
+      }
+
+      const replaced = (await storage.getUploadedFiles(userId)).filter(file => file.tableName === table);
+      for (const file of replaced) {
+        await rm(this.getFileDirectory(file), { recursive: true, force: true });
+        await storage.deleteUploadedFile(file.id);
+      }
+      const file = await storage.createUploadedFile({
+        userId,
+        connectionId: connection.id,
+        fileName,
+        format,
+        tableName: table,
+        columns: loaded.columns,
+        rowCount: loaded.rowCount,
+        sizeBytes: received.size
+      });
+      await this.keepCopy(file, received.path, connection).catch(error =>
+        console.error(`Failed to keep a copy of upload ${file.id}:`, error)
+      );
+      await metadataCatalogService.refresh(connection.id);
+      return { refused: false, file };
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  }
+
+  async remove(file: UploadedFile): Promise<void> {
+    const connection = await this.getConnection(file.userId);
+    await this.withDatabase(connection, database => database.run(`DROP TABLE IF EXISTS ${quoteIdentifier(file.tableName)}`));
+    await metadataCatalogService.refresh(connection.id);
+    await rm(this.getFileDirectory(file), { recursive: true, force: true });
+    await storage.deleteUploadedFile(file.id);
+  }
+
+  /**
+   * Absolute path of the kept copy of an upload, for PUT to a stage; files uploaded
+   * before copies were kept have none
+   */
+  async getStagingPath(file: UploadedFile): Promise<string | undefined> {
+    const path = resolvePath(this.getFileDirectory(file), stagingFileName(file));
+    return await access(path).then(() => path, () => undefined);
+  }
+
+  /**
+   * The user's "Uploaded files" connection, created with their first upload. Agents may
+   * only read it; tables are added and dropped through uploads.
+   */
+  async getConnection(userId: string): Promise<DataConnection> {
+    const filePath = this.getDatabasePath(userId);
+    const fileDirectory = this.getUserDirectory(userId);
+    await mkdir(fileDirectory, { recursive: true });
+    const existing = (await storage.getDataConnections(userId))
+      .find(connection => connection.type === 'duckdb' && connection.options?.filePath === filePath);
+    if (existing?.options?.fileDirectory === fileDirectory) {
+      return existing;
+    }
+    if (existing) {
+      // Created before file access was limited to the user's directory
+      return await storage.updateDataConnection(existing.id, { options: { ...existing.options, fileDirectory } });
+    }
+
+    // fileDirectory is left out of the API's insert schema so clients cannot widen it
+    const options: DataConnectionOptions = { filePath, fileDirectory, sqlPolicy: 'read_only' };
+    return await storage.createDataConnection({
+      userId,
+      name: UPLOADS_CONNECTION_NAME,
+      type: 'duckdb',
+      options,
+      isDefault: false,
+      isActive: true
+    });
+  }
+
+  /**
+   * Point a chat session's agent at the uploads connection, unless it already has a connection
+   */
+  async attachToSession(sessionId: string, connection: DataConnection): Promise<boolean> {
+    const context = await agentContextManager.getContext(sessionId);
+    if (context.connectionId) {
+      return false;
+    }
+    const source = await dataSourceService.connectStored(connection);
+    const info = source.getInfo();
+    await agentContextManager.updateContext(sessionId, {
+      connectionId: connection.id,
+      dataSourceType: source.type,
+      currentDatabase: info.database,
+      currentSchema: info.schema,
+      tables: []
+    });
+    return true;
+  }
+
+  private getDatabasePath(userId: string): string {
+    return join(UPLOADS_DIR, `${toSafeName(userId)}.duckdb`);
+  }
+
+  private getUserDirectory(userId: string): string {
+    return join(UPLOADS_DIR, toSafeName(userId));
+  }
+
+  private getFileDirectory(file: UploadedFile): string {
+    return join(this.getUserDirectory(file.userId), file.id);
+  }
+
+  // The received file as it was, or the loaded table as CSV for an XLSX workbook
+  private async keepCopy(file: UploadedFile, receivedPath: string, connection: DataConnection): Promise<void> {
+    const directory = this.getFileDirectory(file);
+    await mkdir(directory, { recursive: true });
+    const path = resolvePath(directory, stagingFileName(file));
+    if (file.format !== 'xlsx') {
+      await copyFile(receivedPath, path);
+      return;
+    }
+    await this.withDatabase(connection, database =>
+      database.run(`COPY ${quoteIdentifier(file.tableName)} TO ${quoteString(path)} (FORMAT CSV, HEADER)`)
+    );
+  }
+
+  // Copy the request body to a file, stopping once it passes the size limit
+  private async receive(input: Readable, path: string): Promise<{ path: string; size: number; tooLarge: boolean }> {
+    const maxBytes = this.getMaxBytes();
+    let size = 0;
+    let tooLarge = false;
+    const limit = new Transform({
+      transform(chunk: Buffer, _encoding, done) {
+        size += chunk.length;
+        tooLarge = size > maxBytes;
+        done(tooLarge ? new Error('Upload limit exceeded') : null, chunk);
+      }
+    });
+    try {
+      await pipeline(input, limit, createWriteStream(path));
+    } catch (error) {
+      if (!tooLarge) throw error;
+    }
+    return { path, size, tooLarge };
+  }
+
+  // Query over the first worksheet, written out as JSON Lines; a sheet with only a header has text columns
+  private async convertXlsx(path: string, jsonPath: string): Promise<string> {
+    const sheet = readXlsx(await readFile(path));
+    if (sheet.rows.length === 0) {
+      return `SELECT ${sheet.columns.map(column => `NULL::VARCHAR AS ${quoteIdentifier(column)}`).join(', ')} LIMIT 0`;
+    }
+    const file = createWriteStream(jsonPath);
+    try {
+      for (const row of sheet.rows) {
+        await writeOutput(file, JSON.stringify(row) + '\n');
+      }
+    } finally {
+      await new Promise(resolve => file.end(resolve));
+    }
+    return `SELECT * FROM ${readFunction('xlsx', jsonPath)}`;
+  }
+
+  // Column names and inferred types of a loaded table, and its row count
+  private async describe(database: DuckDBConnection, table: string): Promise<{ columns: UploadedFileColumn[]; rowCount: number }> {
+    const description = await database.runAndReadAll(`DESCRIBE ${quoteIdentifier(table)}`);
+    const count = await database.runAndReadAll(`SELECT count(*) AS row_count FROM ${quoteIdentifier(table)}`);
+    return {
+      columns: description.getRowObjectsJS().map(row => ({ name: String(row.column_name), type: String(row.column_type) })),
+      rowCount: Number(count.getRowObjectsJS()[0]?.row_count ?? 0)
+    };
+  }
+
+  // A short-lived connection to the uploads database; the instance is shared with the data source
+  private async withDatabase<T>(connection: DataConnection, action: (database: DuckDBConnection) => Promise<T>): Promise<T> {
+    const instance = await openDuckDBInstance(
+      connection.options?.filePath || this.getDatabasePath(connection.userId),
+      connection.options?.fileDirectory || this.getUserDirectory(connection.userId)
+    );
+    const database = await instance.connect();
+    try {
+      return await action(database);
+    } finally {
+      database.closeSync();
+    }
+  }
+}
+
+// Global file upload instance
+export const fileUploadService = new FileUploadService();
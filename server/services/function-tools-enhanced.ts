@@ -3,10 +3,32 @@
  * Based on CLI implementation with @function_tool decorators
  */
 
-import { AgentContext, agentContextManager } from './agent-context';
+import { AgentContext, agentContextManager, getQueryScope } from './agent-context';
 import { snowflakeService } from './snowflake-service';
+import { DataSource, dataSourceService, onAbort, scopeForDatabase, scopeForSchema } from './data-source';
+import { quoteSnowflakeLiteral, SnowflakeDataSource } from './data-source-snowflake';
 import { storage } from '../storage';
-import OpenAI from 'openai';
+import { AgentEventHandler, emitAgentEvent } from './agent-events';
+import { llmService, LLMSettings } from './llm-provider';
+import { isLocalSnowflakeMode } from './local-snowflake';
+import { sqlGuardService, SqlGuardDecision, SqlPolicyMode } from './sql-guard';
+import { formatBytes, queryLimitService } from './query-limits';
+import { queryJobService } from './query-jobs';
+import { accessControlService } from './access-control';
+import { schemaContextService } from './schema-context';
+import { metadataCatalogService } from './metadata-catalog';
+import { fileUploadService } from './file-uploads';
+import { errorMessage, NOT_CONNECTED, toolError, toolOutput, type ToolOutput } from './tool-results';
+import { roleAtLeast, type ToolResult, type UserRole } from '@shared/schema';
+
+// Per-call options passed by the agent runtime to a tool
+export interface ToolExecutionOptions {
+  onEvent?: AgentEventHandler;
+  llm?: LLMSettings; // model settings of the calling agent
+  sqlPolicy?: SqlPolicyMode; // SQL policy of the calling agent, combined with the connection's
+  signal?: AbortSignal; // aborted when the user stops the session's work
+  role?: UserRole; // role of the user the agent acts for
+}
 
 // Enhanced function tool interface matching CLI pattern
 export interface FunctionToolDefinition {
@@ -17,13 +39,73 @@ export interface FunctionToolDefinition {
     properties: Record<string, any>;
     required: string[];
   };
-  execute: (context: AgentContext, params: any) => Promise<string>;
+  minRole?: UserRole; // lowest role the tool is offered to; analyst when unset
+  execute: (context: AgentContext, params: any, options?: ToolExecutionOptions) => Promise<ToolOutput>;
 }
 
-// OpenAI client for advanced features
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const NO_RESULTS = toolError('No query results', 'No query results available. Please run a query first.', ['Run a query with execute_sql']);
+const NO_STAGE = toolError('No stage selected', 'No stage selected. Please select a stage first.', ['Select a stage with select_stage']);
+const NO_LOCATION = toolError('No schema selected', 'No database or schema selected. Please select both first.', ['Select a database with select_database', 'Select a schema with select_schema']);
+
+// Stage tools rely on Snowflake stages and are unavailable on other sources
+function getStageSource(context: AgentContext): DataSource | ToolOutput {
+  if (!context.connectionId) {
+    return NOT_CONNECTED;
+  }
+  const source = dataSourceService.require(context.connectionId);
+  if (source.type !== 'snowflake') {
+    return toolError('Stages unavailable', `Stages are only available on Snowflake connections; the current connection is ${source.dialect.name}.`);
+  }
+  return source;
+}
+
+// Tool result for SQL the guard did not let run: a confirmation card for the user, or the policy's refusal
+function guardRefusal(decision: Extract<SqlGuardDecision, { allowed: false }>, options?: ToolExecutionOptions): ToolOutput {
+  if (decision.confirmation) {
+    const { id, sql, keyword, kind } = decision.confirmation;
+    emitAgentEvent(options?.onEvent, { type: 'sql_confirmation_required', confirmation: { id, sql, keyword, kind } });
+    return toolOutput('pending', 'Confirmation required', decision.reason, {
+      data: { kind: 'sql', sql },
+      nextActions: ['Use Run on the confirmation card to execute it, or Cancel to discard it']
+    });
+  }
+  return toolError(`Blocked by SQL policy (${decision.policy})`, decision.reason);
+}
+
+/**
+ * Run a tool and stamp its name on the result; a tool that throws becomes an error result
+ */
+export async function runTool(tool: FunctionToolDefinition, context: AgentContext, params: any, options?: ToolExecutionOptions): Promise<ToolResult> {
+  try {
+    return { tool: tool.name, ...await tool.execute(context, params, options) };
+  } catch (error) {
+    return { tool: tool.name, ...toolError(`${tool.name} failed`, errorMessage(error)) };
+  }
+}
+
+// Tools run on the calling agent's model, or the environment default when invoked directly
+function getToolLLMSettings(options?: ToolExecutionOptions): LLMSettings {
+  return options?.llm || llmService.getDefaultSettings();
+}
+
+// Run a completion for a tool, streaming its tokens to the client when someone is listening
+async function streamToolCompletion(
+  toolName: string,
+  params: { messages: any[]; temperature: number },
+  options?: ToolExecutionOptions
+): Promise<string> {
+  const stream = await llmService.stream(getToolLLMSettings(options), { ...params, signal: options?.signal });
+
+  let content = '';
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) {
+      content += delta;
+      emitAgentEvent(options?.onEvent, { type: 'tool_output_token', toolName, delta });
+    }
+  }
+  return content;
+}
 
 // =============================================================================
 // CONNECTION TOOLS
@@ -39,45 +121,104 @@ export const connectToSnowflake: FunctionToolDefinition = {
   },
   execute: async (context: AgentContext, params: any) => {
     try {
-      // Use existing fresh PAT connection strategy
-      console.log('Creating fresh PAT connection for agent...');
-      
-      // Create a fresh PAT connection directly using known credentials
-      const connectionId = await snowflakeService.createFreshPATConnection();
+      // Local stand-in for development, otherwise the existing fresh PAT connection strategy
+      console.log('Creating fresh connection for agent...');
+      const connectionId = isLocalSnowflakeMode()
+        ? await snowflakeService.createLocalConnection()
+        : await snowflakeService.createFreshPATConnection();
+      const metadata = snowflakeService.getConnectionMetadata(connectionId);
+      dataSourceService.register(new SnowflakeDataSource(connectionId, {
+        type: 'snowflake',
+        database: metadata?.database,
+        schema: metadata?.schema
+      }));
       
       // Update context with new connection
       await agentContextManager.updateContext(context.sessionId, {
         connectionId: connectionId,
-        currentDatabase: 'CORTES_DEMO_2',
-        currentSchema: 'CORTEX_DEMO'
+        dataSourceType: 'snowflake',
+        currentDatabase: metadata?.database,
+        currentSchema: metadata?.schema
       });
 
-      // Enhanced structured response matching CLI format
-      const metadata = snowflakeService.getConnectionMetadata(connectionId);
-      
-      return `✅ **Connection Successful**
-
-🔗 **Connection Details:**
-- Status: Connected  
-- Connection ID: ${connectionId}
-- Account: ${metadata?.account || 'KIXUIIJ-MTC00254'}
-- Database: ${metadata?.database || 'CORTES_DEMO_2'}
-- Schema: ${metadata?.schema || 'CORTEX_DEMO'}
-- Warehouse: ${metadata?.warehouse || 'CORTEX_ANALYST_WH'}
-- Role: ${metadata?.role || 'nl2sql_service_role'}
-
-🚀 **Ready for queries!** Try:
-- \`check_connection_status\` - Test connection health
-- \`show databases\` - List available databases
-- \`show tables\` - List tables in current schema
-- \`disconnect\` - Close connection when done`;
+      return toolOutput('success', 'Connected', `Connected to Snowflake account ${metadata?.account}.`, {
+        data: {
+          kind: 'fields',
+          fields: [
+            { label: 'Connection ID', value: connectionId },
+            { label: 'Account', value: metadata?.account || 'Unknown' },
+            { label: 'Database', value: metadata?.database || 'None' },
+            { label: 'Schema', value: metadata?.schema || 'None' },
+            { label: 'Warehouse', value: metadata?.warehouse || 'User default' },
+            { label: 'Role', value: metadata?.role || 'User default' }
+          ]
+        },
+        nextActions: ['List databases', 'List tables in the current schema', 'Disconnect when done']
+      });
 
     } catch (error) {
-      return `❌ **Connection Failed**
-      
-Error: ${error instanceof Error ? error.message : 'Unknown error'}
+      return toolError('Connection failed', errorMessage(error), ['Reconnect or check your credentials']);
+    }
+  }
+};
+
+// Connect to one of the user's stored connections (Snowflake, PostgreSQL, MySQL or DuckDB)
+export const connectToDataSource: FunctionToolDefinition = {
+  name: 'connect_to_data_source',
+  description: 'Connect to a saved data source connection (Snowflake, PostgreSQL, MySQL or DuckDB). Uses the default connection unless a name is given. Files the user uploaded are tables of the "Uploaded files" connection',
+  parameters: {
+    type: 'object',
+    properties: {
+      connection_name: {
+        type: 'string',
+        description: 'Name of the saved connection (optional, defaults to the default connection)'
+      }
+    },
+    required: []
+  },
+  execute: async (context: AgentContext, params: any) => {
+    try {
+      const connections = context.userId ? await storage.getDataConnections(context.userId) : [];
+      const activeConnections = connections.filter(c => c.isActive);
+      const connection = params.connection_name
+        ? activeConnections.find(c => c.name.toLowerCase() === String(params.connection_name).toLowerCase())
+        : activeConnections.find(c => c.isDefault) || activeConnections[0];
+
+      if (!connection) {
+        return toolOutput('error', 'Connection not found', params.connection_name ? `No active connection named "${params.connection_name}".` : 'No active connections configured.', {
+          data: { kind: 'list', items: activeConnections.map(c => ({ name: c.name, detail: c.type })) },
+          nextActions: ['Add connections in Settings → Integrations']
+        });
+      }
+
+      const source = await dataSourceService.connectStored(connection);
+      const info = source.getInfo();
+      await storage.updateDataConnection(connection.id, { lastConnected: new Date() });
+
+      await agentContextManager.updateContext(context.sessionId, {
+        connectionId: connection.id,
+        dataSourceType: source.type,
+        currentDatabase: info.database,
+        currentSchema: info.schema,
+        tables: []
+      });
 
-💡 Try reconnecting or check your credentials.`;
+      return toolOutput('success', 'Connected', `Connected to ${connection.name} (${source.dialect.name}).`, {
+        data: {
+          kind: 'fields',
+          fields: [
+            { label: 'Connection', value: connection.name },
+            { label: 'Source', value: `${source.dialect.name} (${info.location})` },
+            { label: 'Database', value: info.database || 'Not selected' },
+            { label: 'Schema', value: info.schema || 'Not selected' },
+            ...(info.warehouse ? [{ label: 'Warehouse', value: info.warehouse }] : [])
+          ]
+        },
+        nextActions: ['List databases', 'List tables in the current schema']
+      });
+
+    } catch (error) {
+      return toolError('Connection failed', errorMessage(error), ['Check the connection settings in Settings → Integrations']);
     }
   }
 };
@@ -94,47 +235,43 @@ export const checkConnectionStatus: FunctionToolDefinition = {
   execute: async (context: AgentContext, params: any) => {
     try {
       if (!context.connectionId) {
-        return `❌ **No Connection**
-        
-No active connection found. Please connect first with \`connect_to_snowflake\`.`;
+        return NOT_CONNECTED;
       }
 
       // Test connection health with SELECT 1 like CLI
-      const result = await snowflakeService.executeQuery(context.connectionId, 'SELECT 1 as test');
+      const source = dataSourceService.require(context.connectionId);
+      await source.execute('SELECT 1 as test');
       
-      const metadata = snowflakeService.getConnectionMetadata(context.connectionId);
-      const connectedTime = metadata?.connectedAt ? 
-        new Date().getTime() - metadata.connectedAt.getTime() : 0;
-      const lastUsedAgo = metadata?.lastUsed ? 
-        new Date().getTime() - metadata.lastUsed.getTime() : 0;
-
-      return `✅ **Connection Healthy**
-
-🔗 **Connection Status:**
-- Connection ID: ${context.connectionId}
-- Account: ${metadata?.account || 'KIXUIIJ-MTC00254'}
-- Connected for: ${Math.floor(connectedTime / 1000)}s
-- Last used: ${Math.floor(lastUsedAgo / 1000)}s ago
-- Active connections: ${snowflakeService.getActiveConnectionsCount()}
-
-🏢 **Current Context:**
-- Database: ${context.currentDatabase || 'CORTES_DEMO_2'}
-- Schema: ${context.currentSchema || 'CORTEX_DEMO'}`;
+      const info = source.getInfo();
+      const connectedTime = info.connectedAt ? 
+        new Date().getTime() - info.connectedAt.getTime() : 0;
+      const lastUsedAgo = info.lastUsed ? 
+        new Date().getTime() - info.lastUsed.getTime() : 0;
+
+      return toolOutput('success', 'Connection healthy', `The ${source.dialect.name} connection answered a test query.`, {
+        data: {
+          kind: 'fields',
+          fields: [
+            { label: 'Connection ID', value: context.connectionId },
+            { label: 'Source', value: `${source.dialect.name} (${info.location})` },
+            { label: 'Connected for', value: `${Math.floor(connectedTime / 1000)}s` },
+            { label: 'Last used', value: `${Math.floor(lastUsedAgo / 1000)}s ago` },
+            { label: 'Active connections', value: String(dataSourceService.getActiveCount()) },
+            { label: 'Database', value: context.currentDatabase || 'None' },
+            { label: 'Schema', value: context.currentSchema || 'None' }
+          ]
+        }
+      });
 
     } catch (error) {
-      // Connection is dead, clean it up like CLI does
+      // Connection is dead; drop it from this session, which closes it once no other session uses it
       if (context.connectionId) {
-        snowflakeService.removeConnection(context.connectionId);
         await agentContextManager.updateContext(context.sessionId, {
           connectionId: null
         });
       }
       
-      return `❌ **Connection Dead**
-      
-Connection test failed and has been cleaned up: ${error instanceof Error ? error.message : 'Unknown error'}
-
-Please reconnect with \`connect_to_snowflake\`.`;
+      return toolError('Connection dead', `The connection test failed and this session let go of the connection: ${errorMessage(error)}`, ['Reconnect with connect_to_data_source']);
     }
   }
 };
@@ -142,7 +279,7 @@ Please reconnect with \`connect_to_snowflake\`.`;
 // CLI-style explicit disconnect
 export const disconnect: FunctionToolDefinition = {
   name: 'disconnect',
-  description: 'Explicitly close the current Snowflake connection',
+  description: 'Explicitly close the current data source connection',
   parameters: {
     type: 'object',
     properties: {},
@@ -151,40 +288,25 @@ export const disconnect: FunctionToolDefinition = {
   execute: async (context: AgentContext, params: any) => {
     try {
       if (!context.connectionId) {
-        return `ℹ️ **No Active Connection**
-        
-No connection to disconnect.`;
+        return toolOutput('info', 'No active connection', 'There is no connection to disconnect.');
       }
 
-      // Get connection info before closing
-      const metadata = snowflakeService.getConnectionMetadata(context.connectionId);
+      // Get connection info before letting go of it
+      const source = dataSourceService.get(context.connectionId);
+      const info = source?.getInfo();
       
-      // Close connection like CLI
-      const removed = snowflakeService.removeConnection(context.connectionId);
-      
-      if (removed) {
-        // Clear context
-        await agentContextManager.updateContext(context.sessionId, {
-          connectionId: null,
-          currentDatabase: null,
-          currentSchema: null
-        });
-
-        return `✅ **Connection Closed**
-        
-Successfully disconnected from Snowflake account: ${metadata?.account || 'KIXUIIJ-MTC00254'}
+      // Clearing the connection releases it; it closes once no other session uses it
+      await agentContextManager.updateContext(context.sessionId, {
+        connectionId: null,
+        dataSourceType: undefined,
+        currentDatabase: null,
+        currentSchema: null
+      });
 
-Active connections: ${snowflakeService.getActiveConnectionsCount()}`;
-      } else {
-        return `❌ **Disconnect Failed**
-        
-Could not close connection: ${context.connectionId}`;
-      }
+      return toolOutput('success', 'Connection closed', `Disconnected from ${source?.dialect.name || 'data source'}: ${info?.location || context.connectionId}. Active connections: ${dataSourceService.getActiveCount()}.`);
       
     } catch (error) {
-      return `❌ **Disconnect Error**
-      
-Error closing connection: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return toolError('Disconnect failed', errorMessage(error));
     }
   }
 };
@@ -198,11 +320,21 @@ export const getCurrentContext: FunctionToolDefinition = {
     required: []
   },
   execute: async (context: AgentContext, params: any) => {
-    const summary = agentContextManager.getContextSummary(context);
-    return `📊 **Current Agent State:**${summary}
-
-🔄 **Session ID:** ${context.sessionId}
-📝 **Conversation History:** ${context.conversationHistory.length} messages`;
+    return toolOutput('info', 'Current context', `Session ${context.sessionId} with ${context.conversationHistory.length} messages of history.`, {
+      data: {
+        kind: 'fields',
+        fields: [
+          { label: 'Connection', value: context.connectionId || 'Not connected' },
+          { label: 'Source', value: context.dataSourceType || 'None' },
+          { label: 'Database', value: context.currentDatabase || 'Not selected' },
+          { label: 'Schema', value: context.currentSchema || 'Not selected' },
+          { label: 'Stage', value: context.currentStage || 'Not selected' },
+          { label: 'Tables loaded', value: String(context.tables?.length || 0) },
+          { label: 'YAML file', value: context.yamlFilename || 'None' },
+          { label: 'Last query rows', value: String(context.lastQueryResults?.length || 0) }
+        ]
+      }
+    });
   }
 };
 
@@ -215,38 +347,33 @@ export const getDatabases: FunctionToolDefinition = {
   description: 'Get list of available databases',
   parameters: {
     type: 'object',
-    properties: {},
+    properties: {
+      refresh: {
+        type: 'boolean',
+        description: 'Read from the source instead of the cached catalog, e.g. after objects were created elsewhere'
+      }
+    },
     required: []
   },
   execute: async (context: AgentContext, params: any) => {
     try {
       if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+        return NOT_CONNECTED;
       }
 
-      const result = await snowflakeService.executeQuery(
-        context.connectionId,
-        'SHOW DATABASES'
-      );
-
-      const databases = result.rows?.map((row: any) => row.name || row.NAME) || [];
+      const databases = await metadataCatalogService.getDatabases(dataSourceService.require(context.connectionId), { refresh: params.refresh === true });
       
       if (databases.length === 0) {
-        return `No databases found.`;
+        return toolOutput('info', 'No databases', 'No databases found.');
       }
 
-      return `🗄️ **Available Databases**
-
-**${databases.length} databases found:**
-
-${databases.map((db: string) => `• **${db}**`).join('\n')}
-
-💡 **Next steps:**
-- \`USE DATABASE database_name\` - Switch to a database
-- Ask about specific database contents`;
+      return toolOutput('success', `${databases.length} databases`, `${databases.length} databases are available.`, {
+        data: { kind: 'list', items: databases.map(name => ({ name })) },
+        nextActions: ['Select a database with select_database']
+      });
 
     } catch (error) {
-      return `Error fetching databases: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return toolError('Could not list databases', errorMessage(error));
     }
   }
 };
@@ -267,28 +394,25 @@ export const selectDatabase: FunctionToolDefinition = {
   execute: async (context: AgentContext, params: any) => {
     try {
       if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+        return NOT_CONNECTED;
       }
 
       const { database_name } = params;
       
-      await snowflakeService.executeQuery(
-        context.connectionId,
-        `USE DATABASE "${database_name}"`
-      );
-
+      // Only this session moves; the shared source and other sessions on it stay where they are.
+      // The schema becomes the database's default one (MySQL: the database itself)
+      const scope = await scopeForDatabase(dataSourceService.require(context.connectionId), database_name);
       await agentContextManager.updateContext(context.sessionId, {
-        currentDatabase: database_name
+        currentDatabase: scope.database,
+        currentSchema: scope.schema
       });
 
-      return `✅ Selected database: **${database_name}**
-
-🔄 Ready for schema operations. Try:
-- \`SHOW SCHEMAS\` - List schemas in this database
-- \`USE SCHEMA schema_name\` - Select a schema`;
+      return toolOutput('success', 'Database selected', `Now using database ${database_name}.`, {
+        nextActions: ['List schemas in this database', 'Select a schema with select_schema']
+      });
 
     } catch (error) {
-      return `Error selecting database: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return toolError('Could not select database', errorMessage(error));
     }
   }
 };
@@ -302,6 +426,10 @@ export const getSchemas: FunctionToolDefinition = {
       database_name: {
         type: 'string',
         description: 'Database name (optional, uses current if not specified)'
+      },
+      refresh: {
+        type: 'boolean',
+        description: 'Read from the source instead of the cached catalog, e.g. after objects were created elsewhere'
       }
     },
     required: []
@@ -309,37 +437,27 @@ export const getSchemas: FunctionToolDefinition = {
   execute: async (context: AgentContext, params: any) => {
     try {
       if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+        return NOT_CONNECTED;
       }
 
       const database = params.database_name || context.currentDatabase;
       if (!database) {
-        return 'No database selected. Please select a database first.';
+        return toolError('No database selected', 'No database selected. Please select a database first.', ['Select a database with select_database']);
       }
 
-      const result = await snowflakeService.executeQuery(
-        context.connectionId,
-        `SHOW SCHEMAS IN DATABASE "${database}"`
-      );
-
-      const schemas = result.rows?.map((row: any) => row.name || row.NAME) || [];
+      const schemas = await metadataCatalogService.getSchemas(dataSourceService.require(context.connectionId), database, { refresh: params.refresh === true });
       
       if (schemas.length === 0) {
-        return `No schemas found in database ${database}.`;
+        return toolOutput('info', 'No schemas', `No schemas found in database ${database}.`);
       }
 
-      return `📂 **Available Schemas** in \`${database}\`
-
-**${schemas.length} schemas found:**
-
-${schemas.map((schema: string) => `• **${schema}**`).join('\n')}
-
-💡 **Next steps:**
-- \`USE SCHEMA schema_name\` - Switch to a schema
-- \`SHOW TABLES\` - List tables in a schema`;
+      return toolOutput('success', `${schemas.length} schemas`, `${schemas.length} schemas in ${database}.`, {
+        data: { kind: 'list', items: schemas.map(name => ({ name })) },
+        nextActions: ['Select a schema with select_schema', 'List the tables of a schema']
+      });
 
     } catch (error) {
-      return `Error fetching schemas: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return toolError('Could not list schemas', errorMessage(error));
     }
   }
 };
@@ -360,82 +478,89 @@ export const selectSchema: FunctionToolDefinition = {
   execute: async (context: AgentContext, params: any) => {
     try {
       if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+        return NOT_CONNECTED;
       }
 
       const { schema_name } = params;
       
-      await snowflakeService.executeQuery(
-        context.connectionId,
-        `USE SCHEMA "${schema_name}"`
-      );
-
+      const scope = await scopeForSchema(dataSourceService.require(context.connectionId), context.currentDatabase, schema_name);
       await agentContextManager.updateContext(context.sessionId, {
-        currentSchema: schema_name
+        currentDatabase: scope.database,
+        currentSchema: scope.schema
       });
 
-      return `✅ Selected schema: **${schema_name}**
-
-🔄 Ready for table operations. Try:
-- \`SHOW TABLES\` - List tables in this schema
-- \`DESCRIBE table_name\` - View table structure`;
+      return toolOutput('success', 'Schema selected', `Now using schema ${schema_name}.`, {
+        nextActions: ['List tables in this schema', 'Describe a table with describe_table']
+      });
 
     } catch (error) {
-      return `Error selecting schema: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return toolError('Could not select schema', errorMessage(error));
     }
   }
 };
 
 export const getTables: FunctionToolDefinition = {
   name: 'get_tables',
-  description: 'Get tables in the current database and schema',
+  description: 'Get tables in the current database and schema, with row counts and comments',
   parameters: {
     type: 'object',
-    properties: {},
+    properties: {
+      refresh: {
+        type: 'boolean',
+        description: 'Read from the source instead of the cached catalog, e.g. after objects were created elsewhere'
+      }
+    },
     required: []
   },
   execute: async (context: AgentContext, params: any) => {
     try {
       if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+        return NOT_CONNECTED;
       }
 
       if (!context.currentDatabase || !context.currentSchema) {
-        return 'No database or schema selected. Please select both first.';
+        return NO_LOCATION;
       }
 
-      const result = await snowflakeService.executeQuery(
-        context.connectionId,
-        `SHOW TABLES IN SCHEMA "${context.currentDatabase}"."${context.currentSchema}"`
+      const sourceTables = await metadataCatalogService.getTables(
+        dataSourceService.require(context.connectionId),
+        context.currentDatabase,
+        context.currentSchema,
+        { refresh: params.refresh === true }
       );
 
-      const tables = result.rows?.map((row: any) => ({
-        name: row.name || row.NAME,
+      const tables = sourceTables.map(table => ({
+        name: table.name,
         schema: context.currentSchema!,
         database: context.currentDatabase!
-      })) || [];
+      }));
 
       await agentContextManager.updateContext(context.sessionId, {
         tables
       });
       
       if (tables.length === 0) {
-        return `No tables found in ${context.currentDatabase}.${context.currentSchema}`;
+        return toolOutput('info', 'No tables', `No tables found in ${context.currentDatabase}.${context.currentSchema}.`);
       }
 
-      return `📊 **Available Tables** in \`${context.currentDatabase}.${context.currentSchema}\`
-
-**${tables.length} tables found:**
-
-${tables.map((table: any) => `• **${table.name}**`).join('\n')}
-
-💡 **Next steps:**
-- \`DESCRIBE table_name\` - View table structure
-- \`SELECT * FROM table_name LIMIT 10\` - Preview data
-- Ask about specific data analysis needs`;
+      return toolOutput('success', `${tables.length} tables`, `${tables.length} tables in ${context.currentDatabase}.${context.currentSchema}.`, {
+        data: {
+          kind: 'tables',
+          database: context.currentDatabase,
+          schema: context.currentSchema,
+          tables: sourceTables.map(table => ({
+            name: table.name,
+            kind: table.kind,
+            rowCount: table.rowCount ?? undefined,
+            bytes: table.bytes ?? undefined,
+            comment: table.comment || undefined
+          }))
+        },
+        nextActions: ['Describe a table with describe_table', 'Ask a question about the data']
+      });
 
     } catch (error) {
-      return `Error fetching tables: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return toolError('Could not list tables', errorMessage(error));
     }
   }
 };
@@ -449,6 +574,10 @@ export const describeTable: FunctionToolDefinition = {
       table_name: {
         type: 'string',
         description: 'Name of the table to describe'
+      },
+      refresh: {
+        type: 'boolean',
+        description: 'Read from the source instead of the cached catalog, e.g. after objects were created elsewhere'
       }
     },
     required: ['table_name']
@@ -456,47 +585,52 @@ export const describeTable: FunctionToolDefinition = {
   execute: async (context: AgentContext, params: any) => {
     try {
       if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+        return NOT_CONNECTED;
       }
 
       if (!context.currentDatabase || !context.currentSchema) {
-        return 'No database or schema selected. Please select both first.';
+        return NO_LOCATION;
       }
 
       const { table_name } = params;
+      const source = dataSourceService.require(context.connectionId);
+      const options = { refresh: params.refresh === true };
       
-      const result = await snowflakeService.executeQuery(
-        context.connectionId,
-        `DESCRIBE TABLE "${context.currentDatabase}"."${context.currentSchema}"."${table_name}"`
+      const columns = await metadataCatalogService.getColumns(
+        source,
+        table_name,
+        context.currentDatabase,
+        context.currentSchema,
+        options
       );
 
-      if (!result.rows || result.rows.length === 0) {
-        return `Table ${table_name} not found or no columns available.`;
+      if (columns.length === 0) {
+        return toolError('Table not found', `Table ${table_name} not found or no columns available.`, ['List tables with get_tables']);
       }
 
-      const columns = result.rows.map((row: any) => ({
-        name: row.name || row.NAME,
-        type: row.type || row.TYPE,
-        nullable: row.null === 'Y' || row.null === true || row.NULLABLE === 'Y' || row.NULLABLE === true,
-        default: row.default || row.DEFAULT || null,
-        comment: row.comment || row.COMMENT || ''
-      }));
-
-      return `📋 **Table Structure:** \`${table_name}\`
-
-**${columns.length} columns:**
-
-${columns.map((col: any) => 
-  `• **${col.name}** \`${col.type}\`${col.nullable ? ' (nullable)' : ' (required)'}`
-).join('\n')}
-
-💡 **Try these queries:**
-- \`SELECT * FROM ${table_name} LIMIT 10\` - Preview data
-- \`SELECT COUNT(*) FROM ${table_name}\` - Count rows
-- Ask about specific analysis on this table`;
+      const table = (await metadataCatalogService.getTables(source, context.currentDatabase, context.currentSchema))
+        .find(candidate => candidate.name.toLowerCase() === String(table_name).toLowerCase());
+
+      return toolOutput('success', table?.name || table_name, `${table?.kind === 'VIEW' ? 'View' : 'Table'} with ${columns.length} columns.`, {
+        data: {
+          kind: 'columns',
+          table: table?.name || table_name,
+          tableKind: table?.kind,
+          comment: table?.comment || undefined,
+          rowCount: table?.rowCount ?? undefined,
+          lastAltered: table?.lastAltered?.toISOString(),
+          columns: columns.map(column => ({
+            name: column.name,
+            type: column.type,
+            nullable: column.nullable,
+            comment: column.comment
+          }))
+        },
+        nextActions: ['Preview its rows', 'Ask a question about this table']
+      });
 
     } catch (error) {
-      return `Error describing table: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return toolError('Could not describe table', errorMessage(error));
     }
   }
 };
@@ -522,96 +656,76 @@ export const generateSql: FunctionToolDefinition = {
     },
     required: ['query']
   },
-  execute: async (context: AgentContext, params: any) => {
+  execute: async (context: AgentContext, params: any, options?: ToolExecutionOptions) => {
     try {
       if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+        return NOT_CONNECTED;
       }
 
       const { query, table_name } = params;
+      const source = dataSourceService.require(context.connectionId);
+      const dialect = source.dialect;
+      const { maxRows } = await queryLimitService.getLimits(context.connectionId);
       
-      // Get table schema information for context
-      let schemaContext = '';
-      if (context.tables.length > 0) {
-        const relevantTables = table_name 
-          ? context.tables.filter(t => t.name.toLowerCase().includes(table_name.toLowerCase()))
-          : context.tables;
-
-        // Get column information for relevant tables
-        for (const table of relevantTables.slice(0, 3)) { // Limit to 3 tables to avoid token limits
-          try {
-            const describeResult = await snowflakeService.executeQuery(
-              context.connectionId,
-              `DESCRIBE TABLE "${context.currentDatabase}"."${context.currentSchema}"."${table.name}"`
-            );
-            
-            const columns = describeResult.rows?.map((row: any) => ({
-              name: row.name || row.NAME,
-              type: row.type || row.TYPE,
-              nullable: row.null || row.NULL
-            })) || [];
-
-            schemaContext += `\nTable: ${table.name}\nColumns: ${columns.map(c => `${c.name} (${c.type})`).join(', ')}\n`;
-          } catch (error) {
-            console.error(`Error describing table ${table.name}:`, error);
-          }
-        }
-      }
+      // The tables and columns most relevant to the question, within the schema token budget
+      const schemaContext = await schemaContextService.buildContext(source, {
+        question: query,
+        focusTable: table_name,
+        database: context.currentDatabase,
+        schema: context.currentSchema,
+        recentSql: context.lastQuerySql
+      });
 
-      // Use OpenAI to generate SQL with context
-      const systemPrompt = `You are an expert SQL generator for Snowflake. Generate SQL queries based on natural language requests.
+      // Use the agent LLM to generate SQL with context
+      const systemPrompt = `You are an expert SQL generator for ${dialect.name}. Generate SQL queries based on natural language requests.
 
 Database Context:
 - Database: ${context.currentDatabase}
 - Schema: ${context.currentSchema}
-- Tables Available: ${context.tables.map(t => t.name).join(', ')}
+- Tables: ${schemaContext.totalTables} in this schema, the ${schemaContext.tables.length} most relevant described below
 
 Schema Information:
-${schemaContext}
+${schemaContext.text}
 
 Rules:
 1. Generate only the SQL query, no explanations
-2. Use proper Snowflake syntax
-3. Include appropriate LIMIT clauses for data exploration
+2. Use proper ${dialect.name} syntax; other SQL dialects will fail on this source
+3. Results are capped at ${maxRows} rows: aggregate where possible, and use ORDER BY with LIMIT for "top N" questions
 4. Use fully qualified table names when joining tables
-5. Handle common aggregations and filters appropriately`;
+5. Handle common aggregations and filters appropriately
+
+${dialect.name} notes:
+${dialect.promptRules.map(rule => `- ${rule}`).join('\n')}`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      const completion = await streamToolCompletion('generate_sql', {
         messages: [
           { role: "system", content: systemPrompt },
           { role: "user", content: `Generate SQL for: ${query}` }
         ],
         temperature: 0.1
-      });
+      }, options);
 
-      const generatedSql = response.choices[0].message.content?.trim() || '';
+      const generatedSql = completion.trim();
       
       // Store the generated SQL in context
       await agentContextManager.updateContext(context.sessionId, {
         lastQuerySql: generatedSql
       });
 
-      return `🔨 **Generated SQL Query:**
-
-\`\`\`sql
-${generatedSql}
-\`\`\`
-
-💡 **Next steps:**
-- \`execute_sql\` - Run this query
-- Ask for modifications to the query
-- Request explanation of the logic`;
+      return toolOutput('success', 'SQL generated', `SQL for: ${query}`, {
+        data: { kind: 'sql', sql: generatedSql },
+        nextActions: ['Run it with execute_sql', 'Ask for changes to the query']
+      });
 
     } catch (error) {
-      return `Error generating SQL: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return toolError('Could not generate SQL', errorMessage(error));
     }
   }
 };
 
 export const executeSql: FunctionToolDefinition = {
   name: 'execute_sql',
-  description: 'Execute SQL query and return formatted results',
+  description: 'Execute a single SQL statement and return formatted results. Statements that change data may need the user to approve them in the chat first; if so, tell the user and stop.',
   parameters: {
     type: 'object',
     properties: {
@@ -622,74 +736,121 @@ export const executeSql: FunctionToolDefinition = {
       table_name: {
         type: 'string',
         description: 'Table name for context (optional)'
+      },
+      confirmation_id: {
+        type: 'string',
+        description: 'ID of a confirmation the user approved for this exact statement (optional)'
       }
     },
     required: ['sql']
   },
-  execute: async (context: AgentContext, params: any) => {
+  execute: async (context: AgentContext, params: any, options?: ToolExecutionOptions) => {
     try {
       if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+        return NOT_CONNECTED;
       }
 
-      const { sql, table_name } = params;
+      const { sql, table_name, confirmation_id } = params;
+
+      const decision = await sqlGuardService.check(sql, {
+        connectionId: context.connectionId,
+        sessionId: context.sessionId,
+        agentPolicy: options?.sqlPolicy,
+        userPolicy: accessControlService.getSqlPolicy(options?.role),
+        confirmationId: confirmation_id
+      });
+      if (!decision.allowed) {
+        return guardRefusal(decision, options);
+      }
       
-      const result = await snowflakeService.executeQuery(context.connectionId, sql);
+      emitAgentEvent(options?.onEvent, { type: 'query_running', sql });
+      const submission = await queryJobService.submit(dataSourceService.require(context.connectionId), decision.statement, {
+        sessionId: context.sessionId,
+        userId: context.userId
+      }, getQueryScope(context));
+      if (submission.refused) {
+        return toolError('Query refused', submission.reason);
+      }
+
+      // Stopping the chat cancels the query only while the chat is still waiting on it
+      const jobId = submission.job.id;
+      const stopCancelling = onAbort(options?.signal, () => void queryJobService.cancel(jobId));
+      let outcome;
+      try {
+        outcome = await queryJobService.wait(jobId, queryJobService.getHandoffMs());
+      } finally {
+        stopCancelling();
+      }
+      const { job } = outcome;
+
+      if (job.status === 'running') {
+        emitAgentEvent(options?.onEvent, { type: 'query_job_started', job: { id: job.id, sql: job.sqlText } });
+        // The results become the context's last query once the job finishes
+        queryJobService.whenSettled(job.id)?.then(settled => {
+          if (settled.result) {
+            return agentContextManager.updateContext(context.sessionId, {
+              lastQueryResults: settled.result.rows,
+              lastQueryColumns: settled.result.columns || [],
+              lastQuerySql: sql
+            });
+          }
+        }).catch(error => console.error('Failed to store query job results in context:', error));
+
+        return toolOutput('pending', 'Query still running', `Running as background job ${job.id}. It keeps running if you leave this chat; the job card shows its progress and results.`, {
+          data: { kind: 'sql', sql }
+        });
+      }
+      if (job.status === 'cancelled') {
+        return toolOutput('info', 'Query cancelled', 'The statement was stopped before it finished.');
+      }
+      if (job.status === 'failed' || !outcome.result) {
+        throw new Error(job.error || 'Query failed');
+      }
+      const result = outcome.result;
+      const warnings = job.warnings || [];
+      // Created, altered or dropped tables show up in the next catalog read
+      if (decision.statement.kind === 'ddl') {
+        await metadataCatalogService.refresh(context.connectionId);
+      }
       
       const rowCount = result.rows?.length || 0;
+      emitAgentEvent(options?.onEvent, {
+        type: 'rows_received',
+        rowCount,
+        columns: result.columns || [],
+        executionTime: result.metadata.executionTime
+      });
       
       // Store results in context
       await agentContextManager.updateContext(context.sessionId, {
         lastQueryResults: result.rows,
-        lastQueryColumns: result.columns?.map((col: any) => col.name) || [],
+        lastQueryColumns: result.columns || [],
         lastQuerySql: sql
       });
 
-      let formattedResults = `✅ **Query executed successfully!**
-
-📊 **Results:** ${rowCount} rows returned\n\n`;
-
-      if (rowCount > 0 && result.columns) {
-        // Display first 10 rows in table format
-        const displayRows = result.rows?.slice(0, 10) || [];
-        const headers = result.columns.map((col: any) => col.name);
-        
-        formattedResults += `| ${headers.join(' | ')} |\n`;
-        formattedResults += `|${headers.map(() => '---').join('|')}|\n`;
-        
-        displayRows.forEach((row: any) => {
-          const values = headers.map(header => {
-            const value = row[header];
-            return value !== null && value !== undefined ? String(value) : '';
-          });
-          formattedResults += `| ${values.join(' | ')} |\n`;
-        });
-        
-        if (rowCount > 10) {
-          formattedResults += `\n... and ${rowCount - 10} more rows.`;
-        }
-
-        formattedResults += `\n\n💡 **Next steps:**
-- \`generate_summary\` - Get AI analysis of results
-- \`visualize_data\` - Create charts from this data
-- Ask follow-up questions about the data`;
-      }
-
-      return formattedResults;
+      return toolOutput(warnings.length > 0 ? 'warning' : 'success', `${rowCount} rows`, `The query returned ${rowCount} rows.`, {
+        data: {
+          kind: 'rows',
+          sql,
+          columns: result.columns || [],
+          rows: result.rows || [],
+          rowCount,
+          truncated: result.metadata.truncated,
+          executionTime: result.metadata.executionTime,
+          jobId: job.id
+        },
+        warnings,
+        nextActions: rowCount > 0 ? ['Summarize the results with generate_summary', 'Chart them with visualize_data'] : undefined
+      });
 
     } catch (error) {
-      return `❌ **Query execution failed:**
-
-\`\`\`sql
-${params.sql}
-\`\`\`
-
-**Error:** ${error instanceof Error ? error.message : 'Unknown error'}
-
-💡 Try:
-- Check table names and column spelling
-- Verify database and schema selection
-- Ask for help with the SQL syntax`;
+      if (options?.signal?.aborted) {
+        return toolOutput('info', 'Query cancelled', 'The statement was stopped before it finished.');
+      }
+      return toolOutput('error', 'Query failed', errorMessage(error), {
+        data: { kind: 'sql', sql: params.sql },
+        nextActions: ['Check table and column names', 'Check the selected database and schema']
+      });
     }
   }
 };
@@ -706,18 +867,19 @@ export const getStages: FunctionToolDefinition = {
     properties: {},
     required: []
   },
+  minRole: 'modeler',
   execute: async (context: AgentContext, params: any) => {
     try {
-      if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+      const source = getStageSource(context);
+      if ('status' in source) {
+        return source;
       }
 
       if (!context.currentDatabase || !context.currentSchema) {
-        return 'No database or schema selected. Please select both first.';
+        return NO_LOCATION;
       }
 
-      const result = await snowflakeService.executeQuery(
-        context.connectionId,
+      const result = await source.execute(
         `SHOW STAGES IN SCHEMA "${context.currentDatabase}"."${context.currentSchema}"`
       );
 
@@ -733,21 +895,16 @@ export const getStages: FunctionToolDefinition = {
       });
       
       if (stages.length === 0) {
-        return `No stages found in ${context.currentDatabase}.${context.currentSchema}`;
+        return toolOutput('info', 'No stages', `No stages found in ${context.currentDatabase}.${context.currentSchema}.`);
       }
 
-      return `📁 **Available Stages** in \`${context.currentDatabase}.${context.currentSchema}\`
-
-**${stages.length} stages found:**
-
-${stages.map((stage: any) => `• **${stage.name}** (${stage.type})`).join('\n')}
-
-💡 **Next steps:**
-- \`select_stage stage_name\` - Select a stage
-- \`LIST @stage_name\` - List files in a stage`;
+      return toolOutput('success', `${stages.length} stages`, `${stages.length} stages in ${context.currentDatabase}.${context.currentSchema}.`, {
+        data: { kind: 'list', items: stages.map(stage => ({ name: stage.name, detail: stage.type })) },
+        nextActions: ['Select a stage with select_stage', 'List the files of a stage']
+      });
 
     } catch (error) {
-      return `Error fetching stages: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return toolError('Could not list stages', errorMessage(error));
     }
   }
 };
@@ -765,10 +922,12 @@ export const selectStage: FunctionToolDefinition = {
     },
     required: ['stage_name']
   },
+  minRole: 'modeler',
   execute: async (context: AgentContext, params: any) => {
     try {
-      if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+      const source = getStageSource(context);
+      if ('status' in source) {
+        return source;
       }
 
       const { stage_name } = params;
@@ -777,14 +936,12 @@ export const selectStage: FunctionToolDefinition = {
         currentStage: stage_name
       });
 
-      return `✅ Selected stage: **${stage_name}**
-
-🔄 Ready for file operations. Try:
-- \`get_yaml_files\` - List YAML files in this stage
-- \`LIST @${stage_name}\` - List all files in stage`;
+      return toolOutput('success', 'Stage selected', `Now using stage @${stage_name}.`, {
+        nextActions: ['List YAML files with get_yaml_files', 'List all files in the stage']
+      });
 
     } catch (error) {
-      return `Error selecting stage: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return toolError('Could not select stage', errorMessage(error));
     }
   }
 };
@@ -803,28 +960,23 @@ export const listStageFiles: FunctionToolDefinition = {
     },
     required: ['stage_name']
   },
+  minRole: 'modeler',
   execute: async (context: AgentContext, params: any) => {
     try {
-      if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+      const source = getStageSource(context);
+      if ('status' in source) {
+        return source;
       }
 
       const { stage_name } = params;
       
       // Execute LIST command like CLI does
-      const result = await snowflakeService.executeQuery(
-        context.connectionId,
-        `LIST @${stage_name}`
-      );
+      const result = await source.execute(`LIST @${stage_name}`, getQueryScope(context));
 
       if (!result.rows || result.rows.length === 0) {
-        return `📂 **Stage Files:** \`@${stage_name}\`
-
-No files found in this stage.
-
-💡 **Try:**
-- Upload files to the stage first
-- Check if the stage name is correct`;
+        return toolOutput('info', 'No files', `No files found in stage @${stage_name}.`, {
+          nextActions: ['Upload files to the stage first', 'Check that the stage name is correct']
+        });
       }
 
       // Parse file information like CLI - matching CLI structure
@@ -840,30 +992,359 @@ No files found in this stage.
         };
       });
 
-      // Calculate total size and format like CLI
       const totalSize = files.reduce((sum, file) => sum + file.size, 0);
-      const formatSize = (bytes: number) => {
-        if (bytes === 0) return '0 B';
-        const k = 1024;
-        const sizes = ['B', 'KB', 'MB', 'GB'];
-        const i = Math.floor(Math.log(bytes) / Math.log(k));
-        return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+
+      return toolOutput('success', `${files.length} files`, `${files.length} files in @${stage_name}, ${formatBytes(totalSize)} in total.`, {
+        data: {
+          kind: 'list',
+          items: files.map(file => ({ name: file.name, detail: `${formatBytes(file.size)}, ${new Date(file.last_modified).toLocaleDateString()}` }))
+        },
+        nextActions: ['Query a file with SELECT ... FROM @stage/file', 'Load stage files into tables']
+      });
+
+    } catch (error) {
+      return toolError('Could not list stage files', errorMessage(error));
+    }
+  }
+};
+
+// Snowflake object names: "Quoted Name" or unquoted_name, optionally qualified with dots
+const SNOWFLAKE_NAME_PART = `(?:"(?:[^"]|"")+"|[A-Za-z_][\\w$]*)`;
+const SNOWFLAKE_NAME_RE = new RegExp(`^${SNOWFLAKE_NAME_PART}(?:\\.${SNOWFLAKE_NAME_PART}){0,2}$`);
+const STAGE_FOLDER_RE = /^[\w.\-/]*$/;
+const LOAD_ERROR_ROWS = 100; // rejected rows read back after a load
+
+interface StageFileFormat {
+  type: 'CSV' | 'JSON' | 'PARQUET';
+  inferOptions: string; // named file format for INFER_SCHEMA
+  copyOptions: string; // inline file format for COPY INTO
+}
+
+// @stage, qualified with the selected database and schema when the name is not
+function stageLocation(source: DataSource, context: AgentContext, stageName: string): string | undefined {
+  const name = stageName.trim().replace(/^@/, '');
+  if (!SNOWFLAKE_NAME_RE.test(name)) {
+    return undefined;
+  }
+  const qualified = name.includes('.') || !context.currentDatabase || !context.currentSchema;
+  return qualified ? `@${name}` : `@${source.dialect.quoteIdentifier(context.currentDatabase!)}.${source.dialect.quoteIdentifier(context.currentSchema!)}.${name}`;
+}
+
+// A file's path inside its stage; LIST shows files as stage_name/path
+function stageFilePath(stageName: string, fileName: string): string {
+  const path = fileName.trim().replace(/^@/, '').replace(/^\/+/, '');
+  const stage = (stageName.trim().match(new RegExp(`${SNOWFLAKE_NAME_PART}$`))?.[0] || '').replace(/^"|"$/g, '').toLowerCase();
+  return stage && path.toLowerCase().startsWith(`${stage}/`) ? path.slice(stage.length + 1) : path;
+}
+
+// File format from the file name; compressed files keep their inner extension (sales.csv.gz)
+function stageFileFormat(path: string): StageFileFormat | undefined {
+  const extension = path.toLowerCase().replace(/\.(gz|bz2|zst|deflate|br)$/, '').match(/\.([a-z0-9]+)$/)?.[1];
+  switch (extension) {
+    case 'csv':
+    case 'txt':
+    case 'tsv': {
+      const csv = `TYPE = CSV FIELD_DELIMITER = '${extension === 'tsv' ? '\\t' : ','}' FIELD_OPTIONALLY_ENCLOSED_BY = '"'`;
+      return { type: 'CSV', inferOptions: `${csv} PARSE_HEADER = TRUE`, copyOptions: `${csv} SKIP_HEADER = 1` };
+    }
+    case 'json':
+    case 'jsonl':
+    case 'ndjson':
+      return { type: 'JSON', inferOptions: 'TYPE = JSON STRIP_OUTER_ARRAY = TRUE', copyOptions: 'TYPE = JSON STRIP_OUTER_ARRAY = TRUE' };
+    case 'parquet':
+      return { type: 'PARQUET', inferOptions: 'TYPE = PARQUET', copyOptions: 'TYPE = PARQUET' };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Columns of a staged file from INFER_SCHEMA. It needs a named file format; a throwaway one is
+ * created and dropped rather than a temporary one, as pooled queries may run in different sessions.
+ */
+async function inferStageFileColumns(
+  source: DataSource,
+  context: AgentContext,
+  location: string,
+  format: StageFileFormat
+): Promise<{ name: string; type: string }[]> {
+  const quote = source.dialect.quoteIdentifier;
+  const fileFormat = `${quote(context.currentDatabase!)}.${quote(context.currentSchema!)}.${quote(`DATAMIND_INFER_${crypto.randomUUID().slice(0, 8).toUpperCase()}`)}`;
+  await source.execute(`CREATE FILE FORMAT ${fileFormat} ${format.inferOptions}`);
+  try {
+    const result = await source.execute(
+      `SELECT COLUMN_NAME, TYPE, ORDER_ID FROM TABLE(INFER_SCHEMA(LOCATION => ${quoteSnowflakeLiteral(location)}, FILE_FORMAT => ${quoteSnowflakeLiteral(fileFormat)}))`
+    );
+    return (result.rows || [])
+      .sort((a: any, b: any) => Number(a.ORDER_ID) - Number(b.ORDER_ID))
+      .map((row: any) => ({ name: String(row.COLUMN_NAME), type: String(row.TYPE) }));
+  } finally {
+    await source.execute(`DROP FILE FORMAT IF EXISTS ${fileFormat}`).catch(error =>
+      console.error(`Failed to drop file format ${fileFormat}:`, error)
+    );
+  }
+}
+
+export const putFileToStage: FunctionToolDefinition = {
+  name: 'put_file_to_stage',
+  description: 'Upload a file the user attached to the chat into a stage (PUT). The user may have to confirm the upload in the chat first; if so, tell the user and stop.',
+  parameters: {
+    type: 'object',
+    properties: {
+      file_name: {
+        type: 'string',
+        description: 'Name of the uploaded file, or the table it was loaded as'
+      },
+      stage_name: {
+        type: 'string',
+        description: 'Stage to upload to (optional, defaults to the selected stage)'
+      },
+      stage_path: {
+        type: 'string',
+        description: 'Folder within the stage (optional)'
+      },
+      confirmation_id: {
+        type: 'string',
+        description: 'ID of a confirmation the user approved for this upload (optional)'
+      }
+    },
+    required: ['file_name']
+  },
+  minRole: 'modeler',
+  execute: async (context: AgentContext, params: any, options?: ToolExecutionOptions) => {
+    try {
+      const source = getStageSource(context);
+      if ('status' in source) {
+        return source;
+      }
+
+      const { file_name, stage_path, confirmation_id } = params;
+      const stageName = params.stage_name || context.currentStage;
+      if (!stageName) {
+        return NO_STAGE;
+      }
+      const stage = stageLocation(source, context, stageName);
+      if (!stage) {
+        return toolError('Invalid stage name', `${stageName} is not a valid stage name.`, ['List stages with get_stages']);
+      }
+      const folder = String(stage_path || '').replace(/^\/+|\/+$/g, '');
+      if (!STAGE_FOLDER_RE.test(folder)) {
+        return toolError('Invalid stage path', 'Stage folders may only use letters, digits, dots, dashes, underscores and slashes.');
+      }
+
+      const uploads = context.userId ? await storage.getUploadedFiles(context.userId) : [];
+      const wanted = String(file_name || '').trim().toLowerCase();
+      const file = uploads.find(upload => upload.fileName.toLowerCase() === wanted || upload.tableName === wanted);
+      if (!file) {
+        return toolError('Upload not found', uploads.length > 0
+          ? `No uploaded file is named ${file_name}. Uploaded files: ${uploads.map(upload => upload.fileName).join(', ')}.`
+          : 'No files have been uploaded. Attach a file to the chat first.');
+      }
+      const localPath = await fileUploadService.getStagingPath(file);
+      if (!localPath) {
+        return toolError('Upload cannot be staged', `${file.fileName} was uploaded before copies were kept for staging. Upload it again.`);
+      }
+
+      const target = folder ? `${stage}/${folder}` : stage;
+      const sql = `PUT ${quoteSnowflakeLiteral(`file://${localPath}`)} ${target} AUTO_COMPRESS = TRUE OVERWRITE = TRUE`;
+      const decision = await sqlGuardService.check(sql, {
+        connectionId: context.connectionId!,
+        sessionId: context.sessionId,
+        agentPolicy: options?.sqlPolicy,
+        userPolicy: accessControlService.getStagePolicy(options?.role),
+        confirmationId: confirmation_id,
+        tool: { name: 'put_file_to_stage', params: { file_name, stage_name: stageName, stage_path } }
+      });
+      if (!decision.allowed) {
+        return guardRefusal(decision, options);
+      }
+
+      emitAgentEvent(options?.onEvent, { type: 'query_running', sql });
+      const result = await source.execute(sql, { ...getQueryScope(context), signal: options?.signal });
+      const row = result.rows?.[0] || {};
+      const staged = row.target || row.TARGET || file.fileName;
+      const size = Number(row.target_size ?? row.TARGET_SIZE ?? 0);
+
+      return toolOutput('success', 'File staged', `${file.fileName} was uploaded to ${target} as ${staged} (${formatBytes(size)}).`, {
+        data: { kind: 'sql', sql },
+        nextActions: [`Load it into a table with load_stage_file_to_table`, 'List the files of the stage']
+      });
+
+    } catch (error) {
+      return toolError('Could not upload the file to the stage', errorMessage(error));
+    }
+  }
+};
+
+export const loadStageFileToTable: FunctionToolDefinition = {
+  name: 'load_stage_file_to_table',
+  description: 'Load a CSV, TSV, JSON or Parquet file from a stage into a table. Infers the columns with INFER_SCHEMA and proposes CREATE TABLE and COPY INTO, which run only after the user confirms them in the chat; if so, tell the user and stop. Rows that fail to load are reported one by one.',
+  parameters: {
+    type: 'object',
+    properties: {
+      file_name: {
+        type: 'string',
+        description: 'Path of the file in the stage, as listed by list_stage_files'
+      },
+      table_name: {
+        type: 'string',
+        description: 'Table to load into, in the selected database and schema'
+      },
+      stage_name: {
+        type: 'string',
+        description: 'Stage holding the file (optional, defaults to the selected stage)'
+      },
+      append: {
+        type: 'boolean',
+        description: 'Load into the table even if it already exists (optional)'
+      },
+      confirmation_id: {
+        type: 'string',
+        description: 'ID of a confirmation the user approved for this load (optional)'
+      }
+    },
+    required: ['file_name', 'table_name']
+  },
+  minRole: 'modeler',
+  execute: async (context: AgentContext, params: any, options?: ToolExecutionOptions) => {
+    try {
+      const source = getStageSource(context);
+      if ('status' in source) {
+        return source;
+      }
+      if (!context.currentDatabase || !context.currentSchema) {
+        return NO_LOCATION;
+      }
+
+      const { file_name, table_name, append, confirmation_id } = params;
+      const stageName = params.stage_name || context.currentStage;
+      if (!stageName) {
+        return NO_STAGE;
+      }
+      const stage = stageLocation(source, context, stageName);
+      if (!stage) {
+        return toolError('Invalid stage name', `${stageName} is not a valid stage name.`, ['List stages with get_stages']);
+      }
+      const filePath = stageFilePath(stageName, String(file_name || ''));
+      const format = stageFileFormat(filePath);
+      if (!format) {
+        return toolError('Unsupported file type', `Cannot load ${filePath}: load CSV, TSV, JSON or Parquet files.`);
+      }
+
+      const guardRequest = {
+        connectionId: context.connectionId!,
+        sessionId: context.sessionId,
+        agentPolicy: options?.sqlPolicy,
+        userPolicy: accessControlService.getStagePolicy(options?.role),
+        confirmationId: confirmation_id,
+        tool: { name: 'load_stage_file_to_table', params: { file_name, table_name, stage_name: stageName, append } }
       };
+      // Checked up front, as inferring the schema already creates a file format
+      const policy = sqlGuardService.resolvePolicy(
+        await sqlGuardService.getConnectionPolicy(guardRequest.connectionId), guardRequest.agentPolicy, guardRequest.userPolicy
+      );
+      if (policy === 'read_only') {
+        return toolError('Blocked by SQL policy (read_only)', 'Loading a file creates and changes tables, which the read-only policy does not allow.');
+      }
 
-      return `📂 **Stage Files:** \`@${stage_name}\`
+      // Unquoted names resolve to upper case in Snowflake
+      const rawTableName = String(table_name || '').trim();
+      const tableName = /^[A-Za-z_][\w$]*$/.test(rawTableName) ? rawTableName.toUpperCase() : rawTableName;
+      if (!tableName) {
+        return toolError('No table name', 'Name the table to load the file into.');
+      }
+      const table = source.dialect.qualifyTable(tableName, context.currentDatabase, context.currentSchema);
+      const existing = await source.execute(
+        `SHOW TABLES LIKE ${quoteSnowflakeLiteral(tableName)} IN SCHEMA ${source.dialect.quoteIdentifier(context.currentDatabase)}.${source.dialect.quoteIdentifier(context.currentSchema)}`
+      );
+      const exists = (existing.rows || []).some((row: any) => (row.name || row.NAME) === tableName);
+      if (exists && !append) {
+        return toolError('Table exists', `${table} already exists.`, ['Append the file to the existing table', 'Load it into a new table']);
+      }
 
-**${files.length} files found** (${formatSize(totalSize)} total)
+      const location = `${stage}/${filePath}`;
+      const statements: string[] = [];
+      if (!exists) {
+        const columns = await inferStageFileColumns(source, context, location, format);
+        if (columns.length === 0) {
+          return toolError('No columns found', `INFER_SCHEMA found no columns in ${filePath}.`);
+        }
+        statements.push(`CREATE TABLE ${table} (\n${columns.map(column => `  ${source.dialect.quoteIdentifier(column.name)} ${column.type}`).join(',\n')}\n)`);
+      }
+      // CSV columns load by position, JSON and Parquet fields by name
+      const matchByName = format.type === 'CSV' ? '' : ' MATCH_BY_COLUMN_NAME = CASE_INSENSITIVE';
+      const copySql = `COPY INTO ${table} FROM ${stage} FILES = (${quoteSnowflakeLiteral(filePath)}) FILE_FORMAT = (${format.copyOptions})${matchByName} ON_ERROR = CONTINUE`;
+      statements.push(copySql);
+
+      const decision = await sqlGuardService.checkPlan(statements, guardRequest);
+      if (!decision.allowed) {
+        return guardRefusal(decision, options);
+      }
 
-${files.map((file: any) => 
-  `• **${file.name}** - ${formatSize(file.size)} (${new Date(file.last_modified).toLocaleDateString()})`
-).join('\n')}
+      if (!exists) {
+        emitAgentEvent(options?.onEvent, { type: 'query_running', sql: statements[0] });
+        await source.execute(statements[0], { ...getQueryScope(context), signal: options?.signal });
+      }
+      emitAgentEvent(options?.onEvent, { type: 'query_running', sql: copySql });
+      const copy = await source.execute(copySql, { ...getQueryScope(context), signal: options?.signal });
+      await metadataCatalogService.refresh(context.connectionId!);
+
+      // One row per file; a file loaded before is skipped and only a status comes back
+      const files = (copy.rows || []).filter((row: any) => row.file !== undefined);
+      if (files.length === 0) {
+        return toolOutput('info', 'Nothing loaded', `${filePath} was not loaded: Snowflake skips files it already loaded into ${table}.`, {
+          nextActions: ['Describe the table with describe_table']
+        });
+      }
+      const rowsParsed = files.reduce((sum: number, row: any) => sum + Number(row.rows_parsed || 0), 0);
+      const rowsLoaded = files.reduce((sum: number, row: any) => sum + Number(row.rows_loaded || 0), 0);
+      const errorsSeen = files.reduce((sum: number, row: any) => sum + Number(row.errors_seen || 0), 0);
+      const loadedSummary = `Loaded ${rowsLoaded} of ${rowsParsed} rows from ${filePath} into ${table}.`;
+      if (errorsSeen === 0) {
+        return toolOutput('success', `${rowsLoaded} rows loaded`, loadedSummary, {
+          data: { kind: 'fields', fields: [{ label: 'Table', value: table }, { label: 'File', value: filePath }, { label: 'Rows loaded', value: String(rowsLoaded) }] },
+          nextActions: ['Describe the table with describe_table', 'Query it with execute_sql']
+        });
+      }
 
-💡 **Next steps:**
-- \`SELECT * FROM @${stage_name}/filename\` - Query file contents
-- Load data from stage files into tables`;
+      // Every rejected row from the load job; the per-file first errors if that cannot be read
+      const validateSql = `SELECT * FROM TABLE(VALIDATE(${table}, JOB_ID => ${quoteSnowflakeLiteral(copy.metadata.queryId || '_last')}))`;
+      let rejected: Record<string, unknown>[];
+      try {
+        const validation = await source.execute(validateSql, { ...getQueryScope(context), maxRows: LOAD_ERROR_ROWS });
+        rejected = (validation.rows || []).map((row: any) => ({
+          line: row.LINE ?? row.ROW_START_LINE ?? null,
+          column: row.COLUMN_NAME ?? null,
+          error: row.ERROR,
+          rejected_record: row.REJECTED_RECORD ?? null
+        }));
+      } catch (error) {
+        console.error('Failed to read rejected rows:', error);
+        rejected = files.filter((row: any) => row.first_error).map((row: any) => ({
+          line: row.first_error_line ?? null,
+          column: row.first_error_column_name ?? null,
+          error: row.first_error,
+          rejected_record: null
+        }));
+      }
+
+      return toolOutput(rowsLoaded > 0 ? 'warning' : 'error', `${errorsSeen} rows rejected`, `${loadedSummary} ${errorsSeen} rows could not be loaded.`, {
+        data: {
+          kind: 'rows',
+          sql: validateSql,
+          columns: ['line', 'column', 'error', 'rejected_record'],
+          rows: rejected,
+          rowCount: errorsSeen,
+          truncated: rejected.length < errorsSeen
+        },
+        nextActions: ['Fix the rejected rows in the file and load it again', 'Query the loaded rows with execute_sql']
+      });
 
     } catch (error) {
-      return `Error listing stage files: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      if (options?.signal?.aborted) {
+        return toolOutput('info', 'Load cancelled', 'The load was stopped before it finished.');
+      }
+      return toolError('Could not load the file', errorMessage(error));
     }
   }
 };
@@ -876,20 +1357,19 @@ export const getYamlFiles: FunctionToolDefinition = {
     properties: {},
     required: []
   },
+  minRole: 'modeler',
   execute: async (context: AgentContext, params: any) => {
     try {
-      if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+      const source = getStageSource(context);
+      if ('status' in source) {
+        return source;
       }
 
       if (!context.currentStage) {
-        return 'No stage selected. Please select a stage first.';
+        return NO_STAGE;
       }
 
-      const result = await snowflakeService.executeQuery(
-        context.connectionId,
-        `LIST @${context.currentStage}`
-      );
+      const result = await source.execute(`LIST @${context.currentStage}`, getQueryScope(context));
 
       const allFiles = result.rows?.map((row: any) => ({
         name: row.name || row.NAME,
@@ -904,27 +1384,18 @@ export const getYamlFiles: FunctionToolDefinition = {
       );
 
       if (yamlFiles.length === 0) {
-        return `No YAML files found in stage @${context.currentStage}
-
-**All files (${allFiles.length}):**
-${allFiles.slice(0, 5).map((file: any) => `• ${file.name}`).join('\n')}
-${allFiles.length > 5 ? `... and ${allFiles.length - 5} more` : ''}`;
+        return toolOutput('info', 'No YAML files', `No YAML files found in stage @${context.currentStage}; it holds ${allFiles.length} other files.`, {
+          data: { kind: 'list', items: allFiles.slice(0, 5).map(file => ({ name: file.name })) }
+        });
       }
 
-      return `📄 **YAML Files** in stage \`@${context.currentStage}\`
-
-**${yamlFiles.length} YAML files found:**
-
-${yamlFiles.map((file: any, index: number) => 
-  `${index + 1}. **${file.name}** (${file.size} bytes)`
-).join('\n')}
-
-💡 **Next steps:**
-- \`load_yaml_file filename.yaml\` - Load a specific YAML file
-- Choose a file to load data dictionary`;
+      return toolOutput('success', `${yamlFiles.length} YAML files`, `${yamlFiles.length} YAML files in @${context.currentStage}.`, {
+        data: { kind: 'list', items: yamlFiles.map(file => ({ name: file.name, detail: formatBytes(Number(file.size) || 0) })) },
+        nextActions: ['Load a data dictionary with load_yaml_file']
+      });
 
     } catch (error) {
-      return `Error fetching YAML files: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return toolError('Could not list YAML files', errorMessage(error));
     }
   }
 };
@@ -942,28 +1413,27 @@ export const loadYamlFile: FunctionToolDefinition = {
     },
     required: ['filename']
   },
+  minRole: 'modeler',
   execute: async (context: AgentContext, params: any) => {
     try {
-      if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+      const source = getStageSource(context);
+      if ('status' in source) {
+        return source;
       }
 
       if (!context.currentStage) {
-        return 'No stage selected. Please select a stage first.';
+        return NO_STAGE;
       }
 
       const { filename } = params;
       
       // Get file content from stage
-      const result = await snowflakeService.executeQuery(
-        context.connectionId,
-        `SELECT GET(@${context.currentStage}, '${filename}') as content`
-      );
+      const result = await source.execute(`SELECT GET(@${context.currentStage}, '${filename}') as content`, getQueryScope(context));
 
       const content = result.rows?.[0]?.CONTENT || result.rows?.[0]?.content;
       
       if (!content) {
-        return `❌ File ${filename} not found in stage @${context.currentStage}`;
+        return toolError('File not found', `File ${filename} not found in stage @${context.currentStage}.`, ['List YAML files with get_yaml_files']);
       }
 
       // Store YAML content and data in context
@@ -972,22 +1442,12 @@ export const loadYamlFile: FunctionToolDefinition = {
         yamlFilename: filename
       });
 
-      return `✅ **Successfully loaded:** \`${filename}\`
-
-📊 **YAML Content loaded:**
-- File size: ${content.length} characters
-- Data dictionary available for queries
-
-🚀 **Ready for AI-powered queries!** Examples:
-- "Show me the table structure"
-- "What data is available?"
-- "Count records by category"
-- "Show top 10 customers"
-
-💡 The system now has context about your data structure and can generate intelligent SQL queries.`;
+      return toolOutput('success', 'YAML file loaded', `Loaded ${filename} (${content.length} characters) as the data dictionary for SQL generation.`, {
+        nextActions: ['Ask what data is available', 'Ask a question such as "count records by category"']
+      });
 
     } catch (error) {
-      return `Error loading YAML file: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return toolError('Could not load YAML file', errorMessage(error));
     }
   }
 };
@@ -1000,28 +1460,19 @@ export const getYamlContent: FunctionToolDefinition = {
     properties: {},
     required: []
   },
+  minRole: 'modeler',
   execute: async (context: AgentContext, params: any) => {
     try {
       if (!context.yamlContent) {
-        return 'No YAML file loaded. Please load a YAML file first using `load_yaml_file`.';
+        return toolError('No YAML file loaded', 'No YAML file loaded. Please load one first.', ['Load a data dictionary with load_yaml_file']);
       }
 
-      return `📊 **Loaded YAML Dictionary:** \`${context.yamlFilename || 'Unknown file'}\`
-
-**Content Preview:**
-\`\`\`yaml
-${context.yamlContent.substring(0, 1000)}${context.yamlContent.length > 1000 ? '\n...(truncated)' : ''}
-\`\`\`
-
-**Available for queries:** The data dictionary is loaded and ready for intelligent SQL generation.
-
-💡 **Try natural language queries:**
-- "What tables are available?"
-- "Show me customer data"
-- "Analyze sales by region"`;
+      return toolOutput('success', context.yamlFilename || 'Unknown file', `Data dictionary of ${context.yamlContent.length} characters${context.yamlContent.length > 1000 ? ', first 1000 shown' : ''}.`, {
+        data: { kind: 'text', format: 'yaml', text: context.yamlContent.substring(0, 1000) }
+      });
 
     } catch (error) {
-      return `Error getting YAML content: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return toolError('Could not read YAML content', errorMessage(error));
     }
   }
 };
@@ -1043,12 +1494,12 @@ export const visualizeData: FunctionToolDefinition = {
     },
     required: []
   },
-  execute: async (context: AgentContext, params: any) => {
+  execute: async (context: AgentContext, params: any, options?: ToolExecutionOptions) => {
     try {
       const { user_request = "create a chart" } = params;
       
       if (!context.lastQueryResults || context.lastQueryResults.length === 0) {
-        return 'No query results available for visualization. Please run a query first.';
+        return NO_RESULTS;
       }
 
       // Analyze data structure for LLM
@@ -1058,7 +1509,7 @@ export const visualizeData: FunctionToolDefinition = {
         sampleValues: context.lastQueryResults?.slice(0, 3).map((row: any) => row[col]) || []
       })) || [];
 
-      // Use OpenAI to generate visualization plan
+      // Use the agent LLM to generate visualization plan
       const systemPrompt = `You are a data visualization expert. Create interactive charts using Plotly based on data analysis and user requests.
 
 Data Context:
@@ -1085,20 +1536,21 @@ ${JSON.stringify({
 
 Create the best possible visualization plan for this data.`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      const response = await llmService.complete(getToolLLMSettings(options), {
         messages: [
           { role: "system", content: systemPrompt },
           { role: "user", content: userPrompt }
         ],
-        response_format: { type: "json_object" },
-        temperature: 0.1
+        responseFormat: "json_object",
+        temperature: 0.1,
+        signal: options?.signal
       });
 
       const vizPlan = JSON.parse(response.choices[0].message.content || '{}');
 
       // Store visualization in database for frontend display
       const visualization = await storage.createVisualization({
+        userId: context.userId,
         title: vizPlan.title || 'Data Visualization',
         chartType: vizPlan.chart_type || 'bar',
         chartConfig: {
@@ -1109,23 +1561,13 @@ Create the best possible visualization plan for this data.`;
         data: context.lastQueryResults
       });
 
-      return `🎨 **Visualization Created!**
-
-**Chart Type:** ${vizPlan.chart_type || 'Auto-selected'}
-**Title:** ${vizPlan.title || 'Data Visualization'}
-
-**Analysis:** ${vizPlan.explanation || 'Chart generated based on data analysis'}
-
-✅ **Interactive chart available in dashboard**
-🔄 You can now view, save, or modify this visualization
-
-💡 **Next steps:**
-- Pin this chart to dashboard
-- Request different chart types
-- Ask for insights about the visualization`;
+      return toolOutput('success', visualization.title, vizPlan.explanation || 'Chart generated based on data analysis.', {
+        data: { kind: 'visualization', visualizationId: visualization.id, chartType: visualization.chartType },
+        nextActions: ['Pin this chart to a dashboard', 'Ask for a different chart type']
+      });
 
     } catch (error) {
-      return `Error creating visualization: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return toolError('Could not create visualization', errorMessage(error));
     }
   }
 };
@@ -1138,10 +1580,10 @@ export const getVisualizationSuggestions: FunctionToolDefinition = {
     properties: {},
     required: []
   },
-  execute: async (context: AgentContext, params: any) => {
+  execute: async (context: AgentContext, params: any, options?: ToolExecutionOptions) => {
     try {
       if (!context.lastQueryResults || context.lastQueryResults.length === 0) {
-        return 'No query results available. Please run a query first.';
+        return NO_RESULTS;
       }
 
       // Analyze data for suggestions
@@ -1181,26 +1623,22 @@ Provide visualization recommendations with:
 2. Specific insights each chart would reveal
 3. Example commands to create them`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      const response = await llmService.complete(getToolLLMSettings(options), {
         messages: [
           { role: "system", content: systemPrompt },
           { role: "user", content: userPrompt }
         ],
-        temperature: 0.3
+        temperature: 0.3,
+        signal: options?.signal
       });
 
-      return `🤖 **LLM Analysis & Visualization Suggestions**
-
-${response.choices[0].message.content}
-
-💡 **To create visualizations, use:**
-- \`visualize_data "bar chart showing X by Y"\`
-- \`visualize_data "line chart of trends"\`
-- \`visualize_data "pie chart for distribution"\``;
+      return toolOutput('success', 'Visualization suggestions', `Chart ideas for the last ${context.lastQueryResults.length} result rows.`, {
+        data: { kind: 'text', format: 'markdown', text: response.choices[0].message.content || '' },
+        nextActions: ['Create one with visualize_data, e.g. "bar chart showing X by Y"']
+      });
 
     } catch (error) {
-      return `Error getting visualization suggestions: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return toolError('Could not suggest visualizations', errorMessage(error));
     }
   }
 };
@@ -1230,7 +1668,7 @@ export const generateSummary: FunctionToolDefinition = {
     },
     required: ['query']
   },
-  execute: async (context: AgentContext, params: any) => {
+  execute: async (context: AgentContext, params: any, options?: ToolExecutionOptions) => {
     try {
       const { query, sql, results } = params;
       
@@ -1239,10 +1677,10 @@ export const generateSummary: FunctionToolDefinition = {
       const querySql = sql || context.lastQuerySql;
       
       if (!queryResults || queryResults.length === 0) {
-        return 'No query results available to summarize. Please execute a query first.';
+        return NO_RESULTS;
       }
 
-      // Generate AI summary using OpenAI
+      // Generate AI summary using the agent LLM
       const systemPrompt = `You are a data analyst providing insights on query results. Analyze the data and provide a clear, business-focused summary with key findings, patterns, and actionable insights.`;
 
       const dataPreview = JSON.stringify(queryResults.slice(0, 5), null, 2);
@@ -1261,35 +1699,21 @@ Provide a comprehensive analysis including:
 4. Business implications
 5. Recommendations for further analysis`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      const summary = await streamToolCompletion('generate_summary', {
         messages: [
           { role: "system", content: systemPrompt },
           { role: "user", content: userPrompt }
         ],
         temperature: 0.3
-      });
+      }, options);
 
-      const summary = response.choices[0].message.content || '';
-
-      return `📊 **AI Analysis & Summary**
-
-**Original Question:** ${query}
-
-**Key Insights:**
-${summary}
-
-📈 **Data Overview:**
-- Total Records: ${queryResults.length}
-- Columns: ${context.lastQueryColumns?.join(', ') || 'Unknown'}
-
-💡 **Next steps:**
-- \`visualize_data\` - Create charts from this data
-- Ask follow-up questions for deeper analysis
-- Request specific metrics or breakdowns`;
+      return toolOutput('success', 'Summary', `Analysis of ${queryResults.length} rows for: ${query}`, {
+        data: { kind: 'text', format: 'markdown', text: summary },
+        nextActions: ['Chart the data with visualize_data', 'Ask follow-up questions']
+      });
 
     } catch (error) {
-      return `Error generating summary: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return toolError('Could not generate summary', errorMessage(error));
     }
   }
 };
@@ -1297,6 +1721,7 @@ ${summary}
 // Export all tools for agent registration
 export const enhancedFunctionTools: FunctionToolDefinition[] = [
   connectToSnowflake,
+  connectToDataSource,
   checkConnectionStatus,
   disconnect,
   getCurrentContext,
@@ -1309,6 +1734,8 @@ export const enhancedFunctionTools: FunctionToolDefinition[] = [
   getStages,
   selectStage,
   listStageFiles,
+  putFileToStage,
+  loadStageFileToTable,
   getYamlFiles,
   loadYamlFile,
   getYamlContent,
@@ -1322,4 +1749,13 @@ export const enhancedFunctionTools: FunctionToolDefinition[] = [
 // Helper function to get tool by name
 export function getEnhancedFunctionTool(name: string): FunctionToolDefinition | undefined {
   return enhancedFunctionTools.find(tool => tool.name === name);
+}
+
+export function isToolAllowedForRole(tool: FunctionToolDefinition, role: string | null | undefined): boolean {
+  return roleAtLeast(role, tool.minRole || 'analyst');
+}
+
+// Tools offered to the model for a user; stage and semantic model tools need a modeler
+export function getToolsForRole(role: string | null | undefined): FunctionToolDefinition[] {
+  return enhancedFunctionTools.filter(tool => isToolAllowedForRole(tool, role));
 }
\ No newline at end of file
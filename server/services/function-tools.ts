@@ -1,5 +1,8 @@
-import { AgentContext, agentContextManager } from './agent-context';
-import { snowflakeService } from './snowflake-service';
+import { AgentContext, agentContextManager, getQueryScope } from './agent-context';
+import { dataSourceService, scopeForDatabase, scopeForSchema, toDataSourceConfig } from './data-source';
+import { sqlGuardService } from './sql-guard';
+import { queryLimitService } from './query-limits';
+import { accessControlService } from './access-control';
 import { storage } from '../storage';
 
 // Function Tool System - Replicated from your Python @function_tool decorator pattern
@@ -18,10 +21,10 @@ export interface FunctionTool {
   execute: (context: AgentContext, params: any) => Promise<string>;
 }
 
-// Snowflake Connection Tools
-export const connectToSnowflake: FunctionTool = {
-  name: 'connect_to_snowflake',
-  description: 'Connect to Snowflake and establish a connection',
+// Data Source Connection Tools
+export const connectToDataSource: FunctionTool = {
+  name: 'connect_to_data_source',
+  description: 'Connect to the default data source (Snowflake, PostgreSQL, MySQL or DuckDB)',
   parameters: {
     type: 'object',
     properties: {},
@@ -29,73 +32,51 @@ export const connectToSnowflake: FunctionTool = {
   },
   execute: async (context: AgentContext, params: any) => {
     try {
-      const connections = await storage.getSnowflakeConnections(context.userId || '0d493db8-bfed-4dd0-ab40-ae8a3225f8a5');
+      const connections = context.userId ? await storage.getDataConnections(context.userId) : [];
       const defaultConnection = connections.find(c => c.isDefault && c.isActive);
       
       if (!defaultConnection) {
-        return 'No default Snowflake connection found. Please configure a connection in Settings → Integrations.';
+        return 'No default connection found. Please configure a connection in Settings → Integrations.';
       }
 
       // For PAT connections, skip test and proceed directly to establish connection
       // This bypasses network policy requirements for automated environments
-      if (defaultConnection.authenticator === 'PAT') {
+      if (defaultConnection.type === 'snowflake' && defaultConnection.authenticator === 'PAT') {
         console.log('Skipping test connection for PAT - establishing direct connection...');
       } else {
         // Test and establish connection for non-PAT connections
-        console.log('Testing Snowflake connection...');
-        const isConnected = await snowflakeService.testConnection({
-          account: defaultConnection.account,
-          username: defaultConnection.username,
-          password: defaultConnection.password || '',
-          database: defaultConnection.database || undefined,
-          schema: defaultConnection.schema || undefined,
-          warehouse: defaultConnection.warehouse || undefined,
-          role: defaultConnection.role || undefined,
-          authenticator: defaultConnection.authenticator || undefined,
-        });
+        console.log(`Testing ${defaultConnection.type} connection...`);
+        const isConnected = await dataSourceService.testConnection(toDataSourceConfig(defaultConnection));
         console.log('Connection test result:', isConnected);
 
         if (!isConnected) {
-          return 'Failed to connect to Snowflake. Please check your credentials.';
+          return `Failed to connect to ${defaultConnection.name}. Please check your credentials.`;
         }
       }
 
       // Create persistent connection for queries
-      const connectionCreated = await snowflakeService.createConnection(defaultConnection.id, {
-        account: defaultConnection.account,
-        username: defaultConnection.username,
-        password: defaultConnection.password || '',
-        database: defaultConnection.database || undefined,
-        schema: defaultConnection.schema || undefined,
-        warehouse: defaultConnection.warehouse || undefined,
-        role: defaultConnection.role || undefined,
-        authenticator: defaultConnection.authenticator || undefined,
-      });
-
-      if (!connectionCreated) {
-        return 'Failed to create persistent Snowflake connection.';
-      }
+      const source = await dataSourceService.connectStored(defaultConnection);
+      const info = source.getInfo();
 
       await agentContextManager.updateContext(context.sessionId, {
         connectionId: defaultConnection.id,
-        currentDatabase: defaultConnection.database || undefined,
-        currentSchema: defaultConnection.schema || undefined
+        dataSourceType: source.type,
+        currentDatabase: info.database,
+        currentSchema: info.schema
       });
 
-      return `✅ Successfully connected to Snowflake account: ${defaultConnection.account}
+      return `✅ Successfully connected to ${source.dialect.name}: ${info.location}
       
 🔗 **Connection Details:**
-- Database: ${defaultConnection.database}
-- Schema: ${defaultConnection.schema}
-- Warehouse: ${defaultConnection.warehouse}
-- Role: ${defaultConnection.role}
+- Database: ${info.database}
+- Schema: ${info.schema}${info.warehouse ? `\n- Warehouse: ${info.warehouse}` : ''}${info.role ? `\n- Role: ${info.role}` : ''}
 
 🚀 **Ready for queries!** Try:
 - "show databases" - List available databases
 - "show tables" - List tables in current schema
 - "SELECT * FROM table_name" - Run SQL directly`;
     } catch (error) {
-      return `Error connecting to Snowflake: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return `Error connecting to data source: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
   }
 };
@@ -111,15 +92,10 @@ export const getDatabases: FunctionTool = {
   execute: async (context: AgentContext, params: any) => {
     try {
       if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+        return 'Not connected to a data source. Please connect first.';
       }
 
-      const result = await snowflakeService.executeQuery(
-        context.connectionId,
-        'SHOW DATABASES'
-      );
-
-      const databases = result.rows?.map((row: any) => row.name || row.NAME) || [];
+      const databases = await dataSourceService.require(context.connectionId).listDatabases();
       
       if (databases.length === 0) {
         return `No databases found.`;
@@ -156,19 +132,15 @@ export const selectDatabase: FunctionTool = {
   execute: async (context: AgentContext, params: any) => {
     try {
       if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+        return 'Not connected to a data source. Please connect first.';
       }
 
       const { database_name } = params;
       
-      // Execute USE DATABASE command
-      await snowflakeService.executeQuery(
-        context.connectionId,
-        `USE DATABASE "${database_name}"`
-      );
-
+      const scope = await scopeForDatabase(dataSourceService.require(context.connectionId), database_name);
       await agentContextManager.updateContext(context.sessionId, {
-        currentDatabase: database_name
+        currentDatabase: scope.database,
+        currentSchema: scope.schema
       });
 
       return `Selected database: ${database_name}`;
@@ -194,7 +166,7 @@ export const getSchemas: FunctionTool = {
   execute: async (context: AgentContext, params: any) => {
     try {
       if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+        return 'Not connected to a data source. Please connect first.';
       }
 
       const database = params.database_name || context.currentDatabase;
@@ -202,12 +174,7 @@ export const getSchemas: FunctionTool = {
         return 'No database selected. Please select a database first.';
       }
 
-      const result = await snowflakeService.executeQuery(
-        context.connectionId,
-        `SHOW SCHEMAS IN DATABASE "${database}"`
-      );
-
-      const schemas = result.rows?.map((row: any) => row.name || row.NAME) || [];
+      const schemas = await dataSourceService.require(context.connectionId).listSchemas(database);
       
       if (schemas.length === 0) {
         return `No schemas found in database ${database}.`;
@@ -244,19 +211,15 @@ export const selectSchema: FunctionTool = {
   execute: async (context: AgentContext, params: any) => {
     try {
       if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+        return 'Not connected to a data source. Please connect first.';
       }
 
       const { schema_name } = params;
       
-      // Execute USE SCHEMA command
-      await snowflakeService.executeQuery(
-        context.connectionId,
-        `USE SCHEMA "${schema_name}"`
-      );
-
+      const scope = await scopeForSchema(dataSourceService.require(context.connectionId), context.currentDatabase, schema_name);
       await agentContextManager.updateContext(context.sessionId, {
-        currentSchema: schema_name
+        currentDatabase: scope.database,
+        currentSchema: scope.schema
       });
 
       return `Selected schema: ${schema_name}`;
@@ -277,23 +240,19 @@ export const getTables: FunctionTool = {
   execute: async (context: AgentContext, params: any) => {
     try {
       if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+        return 'Not connected to a data source. Please connect first.';
       }
 
       if (!context.currentDatabase || !context.currentSchema) {
         return 'No database or schema selected. Please select both first.';
       }
 
-      const result = await snowflakeService.executeQuery(
-        context.connectionId,
-        `SHOW TABLES IN SCHEMA "${context.currentDatabase}"."${context.currentSchema}"`
-      );
-
-      const tables = result.rows?.map((row: any) => ({
-        name: row.name || row.NAME,
+      const sourceTables = await dataSourceService.require(context.connectionId).listTables(context.currentDatabase, context.currentSchema);
+      const tables = sourceTables.map(table => ({
+        name: table.name,
         schema: context.currentSchema!,
         database: context.currentDatabase!
-      })) || [];
+      }));
 
       await agentContextManager.updateContext(context.sessionId, {
         tables
@@ -335,7 +294,7 @@ export const describeTable: FunctionTool = {
   execute: async (context: AgentContext, params: any) => {
     try {
       if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+        return 'Not connected to a data source. Please connect first.';
       }
 
       if (!context.currentDatabase || !context.currentSchema) {
@@ -344,23 +303,16 @@ export const describeTable: FunctionTool = {
 
       const { table_name } = params;
       
-      const result = await snowflakeService.executeQuery(
-        context.connectionId,
-        `DESCRIBE TABLE "${context.currentDatabase}"."${context.currentSchema}"."${table_name}"`
+      const columns = await dataSourceService.require(context.connectionId).describeTable(
+        table_name,
+        context.currentDatabase,
+        context.currentSchema
       );
 
-      if (!result.rows || result.rows.length === 0) {
+      if (columns.length === 0) {
         return `Table ${table_name} not found or no columns available.`;
       }
 
-      const columns = result.rows.map((row: any) => ({
-        name: row.name || row.NAME,
-        type: row.type || row.TYPE,
-        nullable: row.null === 'Y' || row.null === true || row.NULLABLE === 'Y' || row.NULLABLE === true,
-        default: row.default || row.DEFAULT || null,
-        comment: row.comment || row.COMMENT || ''
-      }));
-
       return `📋 **Table Structure:** \`${table_name}\`
 
 **${columns.length} columns:**
@@ -400,10 +352,11 @@ export const generateSql: FunctionTool = {
   execute: async (context: AgentContext, params: any) => {
     try {
       if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+        return 'Not connected to a data source. Please connect first.';
       }
 
       const { query, table_name } = params;
+      const dialect = dataSourceService.require(context.connectionId).dialect;
       
       // Get table schema information for context
       let schemaContext = '';
@@ -415,18 +368,12 @@ export const generateSql: FunctionTool = {
         // Get column information for relevant tables
         for (const table of relevantTables.slice(0, 3)) { // Limit to 3 tables to avoid token limits
           try {
-            const describeResult = await snowflakeService.executeQuery(
-              context.connectionId,
-              `DESCRIBE TABLE "${context.currentDatabase}"."${context.currentSchema}"."${table.name}"`
+            const columns = await dataSourceService.require(context.connectionId).describeTable(
+              table.name,
+              context.currentDatabase,
+              context.currentSchema
             );
             
-            const columns = describeResult.rows?.map((row: any) => ({
-              name: row.name || row.NAME,
-              type: row.type || row.TYPE,
-              nullable: row.null || row.NULL
-            })) || [];
-            
-            table.columns = columns;
             schemaContext += `\nTable: ${table.name}\nColumns: ${columns.map(c => `${c.name} (${c.type})`).join(', ')}\n`;
           } catch (error) {
             console.log(`Could not describe table ${table.name}:`, error);
@@ -435,7 +382,7 @@ export const generateSql: FunctionTool = {
       }
 
       // Use OpenAI to generate SQL with schema context
-      const prompt = `Generate a Snowflake SQL query for the following request:
+      const prompt = `Generate a ${dialect.name} SQL query for the following request:
 
 Request: "${query}"
 
@@ -445,9 +392,8 @@ Database Context:
 ${schemaContext}
 
 Rules:
-- Use proper Snowflake syntax
+${dialect.promptRules.map(rule => `- ${rule}`).join('\n')}
 - Include appropriate column names and table references
-- Use fully qualified table names (database.schema.table)
 - Return only the SQL query without explanations
 - Ensure the query is safe and follows best practices
 
@@ -477,6 +423,10 @@ export const executeSql: FunctionTool = {
       sql: {
         type: 'string',
         description: 'SQL query to execute'
+      },
+      confirmation_id: {
+        type: 'string',
+        description: 'ID of a confirmation the user approved for this exact statement (optional)'
       }
     },
     required: ['sql']
@@ -484,12 +434,27 @@ export const executeSql: FunctionTool = {
   execute: async (context: AgentContext, params: any) => {
     try {
       if (!context.connectionId) {
-        return 'Not connected to Snowflake. Please connect first.';
+        return 'Not connected to a data source. Please connect first.';
       }
 
-      const { sql } = params;
-      
-      const result = await snowflakeService.executeQuery(context.connectionId, sql);
+      const { sql, confirmation_id } = params;
+      const owner = context.userId ? await storage.getUser(context.userId) : undefined;
+
+      const decision = await sqlGuardService.check(sql, {
+        connectionId: context.connectionId,
+        sessionId: context.sessionId,
+        userPolicy: accessControlService.getSqlPolicy(owner?.role),
+        confirmationId: confirmation_id
+      });
+      if (!decision.allowed) {
+        return `Query not executed: ${decision.reason}`;
+      }
+
+      const outcome = await queryLimitService.execute(dataSourceService.require(context.connectionId), decision.statement, undefined, getQueryScope(context));
+      if (outcome.refused) {
+        return `Query not executed: ${outcome.reason}`;
+      }
+      const { result, warnings } = outcome;
 
       await agentContextManager.updateContext(context.sessionId, {
         lastQuerySql: sql,
@@ -501,6 +466,9 @@ export const executeSql: FunctionTool = {
       const displayRows = result.rows?.slice(0, 10) || [];
       
       let formattedResults = `Query executed successfully!\n\nRows returned: ${rowCount}\n\n`;
+      warnings.forEach(warning => {
+        formattedResults += `Warning: ${warning}\n\n`;
+      });
       
       if (displayRows.length > 0 && result.columns) {
         // Create table format
@@ -541,7 +509,7 @@ export const getCurrentContext: FunctionTool = {
 
 // Export all available function tools
 export const availableFunctionTools: FunctionTool[] = [
-  connectToSnowflake,
+  connectToDataSource,
   getDatabases,
   selectDatabase,
   getSchemas,
@@ -0,0 +1,218 @@
+/**
+ * LLM Provider Layer
+ * Routes chat completions to OpenAI, Azure OpenAI, Anthropic or any
+ * OpenAI-compatible endpoint (Ollama, vLLM) based on per-agent settings.
+ * Server-wide API keys go with every request, so an agent's base URL must be
+ * LLM_BASE_URL, AZURE_OPENAI_ENDPOINT or one listed in LLM_ALLOWED_BASE_URLS.
+ */
+
+import OpenAI, { AzureOpenAI } from 'openai';
+import { createRecordReplayFromEnv, RecordReplayLLM } from './llm-replay';
+
+export type LLMProviderType = 'openai' | 'azure' | 'anthropic' | 'openai-compatible';
+
+// Per-agent model settings, stored in the Agent Hub AgentConfig as `llm`
+export interface LLMSettings {
+  provider: LLMProviderType;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  baseUrl?: string; // Azure endpoint or self-hosted server URL; must be allowed by the server
+}
+
+export interface LLMChatRequest {
+  messages: any[];
+  tools?: any[];
+  tool_choice?: 'auto' | 'none';
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: 'text' | 'json_object';
+  signal?: AbortSignal; // aborts the HTTP request; never sent to the model
+}
+
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+  complete(settings: LLMSettings, request: LLMChatRequest): Promise<OpenAI.Chat.ChatCompletion>;
+  stream(settings: LLMSettings, request: LLMChatRequest): Promise<AsyncIterable<OpenAI.Chat.ChatCompletionChunk>>;
+}
+
+const DEFAULT_PROVIDER: LLMProviderType = 'openai';
+const DEFAULT_MODEL = 'gpt-4o'; // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1/';
+const LLM_PROVIDER_TYPES: LLMProviderType[] = ['openai', 'azure', 'anthropic', 'openai-compatible'];
+
+// Every supported backend speaks the OpenAI chat completions wire format;
+// providers differ only in how the client is constructed
+class OpenAICompatibleProvider implements LLMProvider {
+  private clients = new Map<string, OpenAI>();
+
+  constructor(
+    readonly type: LLMProviderType,
+    private createClient: (settings: LLMSettings) => OpenAI
+  ) {}
+
+  async complete(settings: LLMSettings, request: LLMChatRequest): Promise<OpenAI.Chat.ChatCompletion> {
+    return await this.getClient(settings).chat.completions.create({
+      ...this.buildParams(settings, request),
+      stream: false
+    }, { signal: request.signal });
+  }
+
+  async stream(settings: LLMSettings, request: LLMChatRequest): Promise<AsyncIterable<OpenAI.Chat.ChatCompletionChunk>> {
+    return await this.getClient(settings).chat.completions.create({
+      ...this.buildParams(settings, request),
+      stream: true
+    }, { signal: request.signal });
+  }
+
+  private buildParams(settings: LLMSettings, request: LLMChatRequest) {
+    const maxTokens = request.maxTokens ?? settings.maxTokens;
+    return {
+      model: settings.model,
+      messages: request.messages,
+      temperature: request.temperature ?? settings.temperature,
+      ...(maxTokens !== undefined && { max_tokens: maxTokens }),
+      ...(request.tools && request.tools.length > 0 && { tools: request.tools, tool_choice: request.tool_choice }),
+      ...(request.responseFormat && { response_format: { type: request.responseFormat } })
+    };
+  }
+
+  private getClient(settings: LLMSettings): OpenAI {
+    // Azure binds the deployment into the client, so the model is part of the key
+    const key = `${settings.baseUrl || ''}|${this.type === 'azure' ? settings.model : ''}`;
+    let client = this.clients.get(key);
+    if (!client) {
+      client = this.createClient(settings);
+      this.clients.set(key, client);
+    }
+    return client;
+  }
+}
+
+export class LLMService {
+  private providers = new Map<LLMProviderType, LLMProvider>();
+  // When set, completions are recorded to or replayed from fixture files
+  private recordReplay: RecordReplayLLM | undefined = createRecordReplayFromEnv();
+
+  constructor() {
+    this.registerProvider(new OpenAICompatibleProvider('openai', () => new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    })));
+
+    this.registerProvider(new OpenAICompatibleProvider('azure', (settings) => new AzureOpenAI({
+      endpoint: settings.baseUrl || process.env.AZURE_OPENAI_ENDPOINT,
+      apiKey: process.env.AZURE_OPENAI_API_KEY,
+      apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+      deployment: settings.model
+    })));
+
+    // Anthropic exposes an OpenAI-compatible chat completions endpoint
+    this.registerProvider(new OpenAICompatibleProvider('anthropic', () => new OpenAI({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      baseURL: ANTHROPIC_BASE_URL
+    })));
+
+    // Self-hosted models (Ollama, vLLM, ...) so sensitive data never leaves the VPC
+    this.registerProvider(new OpenAICompatibleProvider('openai-compatible', (settings) => {
+      const baseURL = settings.baseUrl || process.env.LLM_BASE_URL;
+      if (!baseURL) {
+        throw new Error('The openai-compatible provider requires a base URL (agent setting or LLM_BASE_URL)');
+      }
+      return new OpenAI({
+        apiKey: process.env.LLM_API_KEY || 'not-needed',
+        baseURL
+      });
+    }));
+  }
+
+  registerProvider(provider: LLMProvider): void {
+    this.providers.set(provider.type, provider);
+  }
+
+  setRecordReplay(recordReplay: RecordReplayLLM | undefined): void {
+    this.recordReplay = recordReplay;
+  }
+
+  // Resolve model settings for an agent: Agent Hub config, then env, then built-in defaults
+  getAgentSettings(
+    agentConfig: any,
+    agentType: string,
+    defaults: { temperature?: number; maxTokens?: number } = {}
+  ): LLMSettings {
+    const agentConfigs = agentConfig?.configData?.agentConfigs || [];
+    const foundAgentConfig = agentConfigs.find((agent: any) => agent.type === agentType && agent.enabled);
+    const configured: Partial<LLMSettings> = foundAgentConfig?.llm || {};
+    if (configured.baseUrl && !this.isAllowedBaseUrl(configured.baseUrl)) {
+      throw new Error(`The ${agentType} agent's base URL ${configured.baseUrl} is not allowed; add it to LLM_ALLOWED_BASE_URLS`);
+    }
+
+    const envProvider = process.env.LLM_PROVIDER as LLMProviderType | undefined;
+    const provider = [configured.provider, envProvider].find(
+      (type): type is LLMProviderType => !!type && LLM_PROVIDER_TYPES.includes(type)
+    ) || DEFAULT_PROVIDER;
+
+    return {
+      provider,
+      model: configured.model || process.env.LLM_MODEL || DEFAULT_MODEL,
+      temperature: toNumber(configured.temperature) ?? defaults.temperature,
+      maxTokens: toNumber(configured.maxTokens) ?? defaults.maxTokens,
+      baseUrl: configured.baseUrl || undefined
+    };
+  }
+
+  /**
+   * Whether an agent may send requests (and the server's API key) to a base URL
+   */
+  isAllowedBaseUrl(baseUrl: string): boolean {
+    const allowed = [
+      process.env.LLM_BASE_URL,
+      process.env.AZURE_OPENAI_ENDPOINT,
+      ...(process.env.LLM_ALLOWED_BASE_URLS || '').split(',')
+    ];
+    return allowed.some(url => !!url?.trim() && normalizeBaseUrl(url) === normalizeBaseUrl(baseUrl));
+  }
+
+  getDefaultSettings(defaults: { temperature?: number; maxTokens?: number } = {}): LLMSettings {
+    return this.getAgentSettings(undefined, '', defaults);
+  }
+
+  async complete(settings: LLMSettings, request: LLMChatRequest): Promise<OpenAI.Chat.ChatCompletion> {
+    if (this.recordReplay) {
+      return await this.recordReplay.complete(settings, request, () => this.getProvider(settings));
+    }
+    return await this.getProvider(settings).complete(settings, request);
+  }
+
+  async stream(settings: LLMSettings, request: LLMChatRequest): Promise<AsyncIterable<OpenAI.Chat.ChatCompletionChunk>> {
+    if (this.recordReplay) {
+      return await this.recordReplay.stream(settings, request, () => this.getProvider(settings));
+    }
+    return await this.getProvider(settings).stream(settings, request);
+  }
+
+  private getProvider(settings: LLMSettings): LLMProvider {
+    const provider = this.providers.get(settings.provider);
+    if (!provider) {
+      throw new Error(`LLM provider not available: ${settings.provider}`);
+    }
+    return provider;
+  }
+}
+
+// "HTTP://Host:11434/v1/" and "http://host:11434/v1" are the same endpoint
+function normalizeBaseUrl(url: string): string {
+  try {
+    return new URL(url.trim()).href.replace(/\/+$/, '');
+  } catch {
+    return url.trim().replace(/\/+$/, '');
+  }
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// Export singleton instance
+export const llmService = new LLMService();
@@ -0,0 +1,234 @@
+/**
+ * Record / Replay LLM Backend
+ * Records live chat completions to fixture files keyed by a hash of the prompt
+ * and replays them deterministically, so the full chat -> tool -> response flow
+ * can run offline (CI, regression tests) through the regular llmService path
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type OpenAI from 'openai';
+import type { LLMChatRequest, LLMProvider, LLMSettings } from './llm-provider';
+
+export type LLMReplayMode = 'record' | 'replay';
+
+interface RecordedToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+// On-disk fixture format; fixtures may also be written by hand to script a conversation
+export interface LLMFixture {
+  hash: string;
+  recordedAt: string;
+  request: {
+    messages: any[];
+    tools: string[];
+    tool_choice?: 'auto' | 'none';
+    responseFormat?: 'text' | 'json_object';
+  };
+  response: {
+    content: string | null;
+    tool_calls: RecordedToolCall[];
+  };
+}
+
+// Values that change between otherwise identical runs and must not affect the hash
+const VOLATILE_PATTERNS: Array<[RegExp, string]> = [
+  [/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>'],
+  [/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z?/g, '<timestamp>'],
+  [/\b\d+(\.\d+)?\s?ms\b/g, '<duration>']
+];
+
+function normalizeText(text: string): string {
+  return VOLATILE_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+// Provider-agnostic view of a request: the same prompt replays regardless of provider/model
+function toFixtureRequest(request: LLMChatRequest): LLMFixture['request'] {
+  return {
+    messages: request.messages.map(message => ({
+      role: message.role,
+      content: typeof message.content === 'string' ? normalizeText(message.content) : message.content ?? null,
+      ...(message.tool_calls && { tool_calls: message.tool_calls }),
+      ...(message.tool_call_id && { tool_call_id: message.tool_call_id })
+    })),
+    tools: (request.tools || []).map(tool => tool.function?.name).filter(Boolean),
+    ...(request.tool_choice && { tool_choice: request.tool_choice }),
+    ...(request.responseFormat && { responseFormat: request.responseFormat })
+  };
+}
+
+export function hashLLMRequest(request: LLMChatRequest): string {
+  return crypto.createHash('sha256').update(JSON.stringify(toFixtureRequest(request))).digest('hex');
+}
+
+export class RecordReplayLLM {
+  constructor(
+    readonly mode: LLMReplayMode,
+    private fixturesDir: string
+  ) {}
+
+  async complete(
+    settings: LLMSettings,
+    request: LLMChatRequest,
+    getLiveProvider: () => LLMProvider
+  ): Promise<OpenAI.Chat.ChatCompletion> {
+    const hash = hashLLMRequest(request);
+
+    if (this.mode === 'replay') {
+      const fixture = await this.loadFixture(hash);
+      return this.toCompletion(fixture, settings);
+    }
+
+    const completion = await getLiveProvider().complete(settings, request);
+    const message = completion.choices[0]?.message;
+    await this.saveFixture(hash, request, {
+      content: message?.content ?? null,
+      tool_calls: (message?.tool_calls || [])
+        .filter(toolCall => toolCall.type === 'function')
+        .map(toolCall => ({
+          id: toolCall.id,
+          type: 'function' as const,
+          function: { name: toolCall.function.name, arguments: toolCall.function.arguments }
+        }))
+    });
+    return completion;
+  }
+
+  async stream(
+    settings: LLMSettings,
+    request: LLMChatRequest,
+    getLiveProvider: () => LLMProvider
+  ): Promise<AsyncIterable<OpenAI.Chat.ChatCompletionChunk>> {
+    const hash = hashLLMRequest(request);
+
+    if (this.mode === 'replay') {
+      const fixture = await this.loadFixture(hash);
+      return this.toChunks(fixture, settings);
+    }
+
+    const liveStream = await getLiveProvider().stream(settings, request);
+    return this.recordStream(liveStream, hash, request);
+  }
+
+  private async loadFixture(hash: string): Promise<LLMFixture> {
+    try {
+      return JSON.parse(await fs.readFile(this.fixturePath(hash), 'utf8'));
+    } catch (error) {
+      throw new Error(`No recorded LLM response for prompt hash ${hash} in ${this.fixturesDir}`);
+    }
+  }
+
+  private async saveFixture(hash: string, request: LLMChatRequest, response: LLMFixture['response']): Promise<void> {
+    const fixture: LLMFixture = {
+      hash,
+      recordedAt: new Date().toISOString(),
+      request: toFixtureRequest(request),
+      response
+    };
+
+    try {
+      await fs.mkdir(this.fixturesDir, { recursive: true });
+      await fs.writeFile(this.fixturePath(hash), JSON.stringify(fixture, null, 2));
+      console.log(`[LLMReplay] Recorded fixture ${hash}`);
+    } catch (error) {
+      console.error('[LLMReplay] Failed to write fixture:', error);
+    }
+  }
+
+  private fixturePath(hash: string): string {
+    return path.join(this.fixturesDir, `${hash}.json`);
+  }
+
+  // Pass the live stream through untouched while accumulating the response to record
+  private async *recordStream(
+    source: AsyncIterable<OpenAI.Chat.ChatCompletionChunk>,
+    hash: string,
+    request: LLMChatRequest
+  ): AsyncIterable<OpenAI.Chat.ChatCompletionChunk> {
+    let content = '';
+    const toolCalls: RecordedToolCall[] = [];
+
+    for await (const chunk of source) {
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) content += delta.content;
+      for (const toolCallDelta of delta?.tool_calls || []) {
+        if (!toolCalls[toolCallDelta.index]) {
+          toolCalls[toolCallDelta.index] = { id: '', type: 'function', function: { name: '', arguments: '' } };
+        }
+        const toolCall = toolCalls[toolCallDelta.index];
+        if (toolCallDelta.id) toolCall.id = toolCallDelta.id;
+        if (toolCallDelta.function?.name) toolCall.function.name += toolCallDelta.function.name;
+        if (toolCallDelta.function?.arguments) toolCall.function.arguments += toolCallDelta.function.arguments;
+      }
+      yield chunk;
+    }
+
+    await this.saveFixture(hash, request, { content: content || null, tool_calls: toolCalls.filter(Boolean) });
+  }
+
+  private toCompletion(fixture: LLMFixture, settings: LLMSettings): OpenAI.Chat.ChatCompletion {
+    const { content, tool_calls } = fixture.response;
+    return {
+      id: `replay-${fixture.hash.slice(0, 12)}`,
+      object: 'chat.completion',
+      created: 0,
+      model: settings.model,
+      choices: [{
+        index: 0,
+        finish_reason: tool_calls.length > 0 ? 'tool_calls' : 'stop',
+        logprobs: null,
+        message: {
+          role: 'assistant',
+          content,
+          refusal: null,
+          ...(tool_calls.length > 0 && { tool_calls })
+        }
+      }]
+    };
+  }
+
+  // Replay content word by word so streaming consumers see incremental tokens
+  private async *toChunks(fixture: LLMFixture, settings: LLMSettings): AsyncIterable<OpenAI.Chat.ChatCompletionChunk> {
+    const { content, tool_calls } = fixture.response;
+    const base = {
+      id: `replay-${fixture.hash.slice(0, 12)}`,
+      object: 'chat.completion.chunk' as const,
+      created: 0,
+      model: settings.model
+    };
+
+    for (const token of (content || '').match(/\S+\s*|\s+/g) || []) {
+      yield { ...base, choices: [{ index: 0, delta: { content: token }, finish_reason: null, logprobs: null }] };
+    }
+
+    for (const [index, toolCall] of tool_calls.entries()) {
+      yield {
+        ...base,
+        choices: [{
+          index: 0,
+          delta: { tool_calls: [{ index, id: toolCall.id, type: 'function', function: toolCall.function }] },
+          finish_reason: null,
+          logprobs: null
+        }]
+      };
+    }
+
+    yield { ...base, choices: [{ index: 0, delta: {}, finish_reason: tool_calls.length > 0 ? 'tool_calls' : 'stop', logprobs: null }] };
+  }
+}
+
+// LLM_REPLAY_MODE=record|replay enables the backend; fixtures live in LLM_FIXTURES_DIR
+export function createRecordReplayFromEnv(): RecordReplayLLM | undefined {
+  const mode = process.env.LLM_REPLAY_MODE;
+  if (mode !== 'record' && mode !== 'replay') {
+    return undefined;
+  }
+
+  const fixturesDir = process.env.LLM_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'llm');
+  console.log(`[LLMReplay] ${mode} mode, fixtures in ${fixturesDir}`);
+  return new RecordReplayLLM(mode, fixturesDir);
+}
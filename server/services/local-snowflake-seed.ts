@@ -0,0 +1,125 @@
+/**
+ * Demo data for the local Snowflake stand-in
+ * Runs through the stand-in itself, so it uses the same Snowflake-style commands
+ * (CREATE DATABASE, USE SCHEMA, CREATE STAGE) the emulation understands.
+ * Values are derived from hash() so every fresh seed produces identical data.
+ */
+
+export const LOCAL_SNOWFLAKE_SEED_SQL = `
+CREATE DATABASE DEMO_DB;
+CREATE SCHEMA DEMO_DB.SALES;
+USE SCHEMA DEMO_DB.SALES;
+
+CREATE TABLE CUSTOMERS (
+  CUSTOMER_ID INTEGER PRIMARY KEY,
+  CUSTOMER_NAME VARCHAR NOT NULL,
+  EMAIL VARCHAR,
+  REGION VARCHAR,
+  SEGMENT VARCHAR,
+  SIGNUP_DATE DATE
+);
+COMMENT ON TABLE CUSTOMERS IS 'Registered customers, one row per account';
+INSERT INTO CUSTOMERS
+SELECT
+  i,
+  'Customer ' || i,
+  'customer' || i || '@example.com',
+  ['NORTH', 'SOUTH', 'EAST', 'WEST'][1 + (hash(i) % 4)::INTEGER],
+  ['CONSUMER', 'SMB', 'ENTERPRISE'][1 + (hash(i * 7) % 3)::INTEGER],
+  DATE '2022-01-01' + (hash(i * 13) % 900)::INTEGER
+FROM range(1, 201) t(i);
+
+CREATE TABLE PRODUCTS (
+  PRODUCT_ID INTEGER PRIMARY KEY,
+  PRODUCT_NAME VARCHAR NOT NULL,
+  CATEGORY VARCHAR,
+  UNIT_PRICE DECIMAL(10, 2)
+);
+COMMENT ON TABLE PRODUCTS IS 'Product catalog with list prices';
+INSERT INTO PRODUCTS
+SELECT
+  i,
+  ['Widget', 'Gadget', 'Gizmo', 'Doohickey', 'Sprocket'][1 + ((i - 1) % 5)::INTEGER] || ' ' || i,
+  ['HARDWARE', 'SOFTWARE', 'SERVICES', 'ACCESSORIES'][1 + (hash(i * 3) % 4)::INTEGER],
+  (5 + (hash(i * 11) % 49500) / 100.0)::DECIMAL(10, 2)
+FROM range(1, 26) t(i);
+
+CREATE TABLE ORDERS (
+  ORDER_ID INTEGER PRIMARY KEY,
+  CUSTOMER_ID INTEGER REFERENCES CUSTOMERS (CUSTOMER_ID),
+  ORDER_DATE DATE,
+  STATUS VARCHAR,
+  SALES_CHANNEL VARCHAR
+);
+COMMENT ON TABLE ORDERS IS 'Customer orders; amounts are in ORDER_ITEMS';
+INSERT INTO ORDERS
+SELECT
+  i,
+  1 + (hash(i * 17) % 200)::INTEGER,
+  DATE '2023-01-01' + (hash(i * 19) % 640)::INTEGER,
+  ['DELIVERED', 'DELIVERED', 'DELIVERED', 'SHIPPED', 'PROCESSING', 'CANCELLED'][1 + (hash(i * 23) % 6)::INTEGER],
+  ['ONLINE', 'RETAIL', 'PARTNER'][1 + (hash(i * 29) % 3)::INTEGER]
+FROM range(1, 1001) t(i);
+
+CREATE TABLE ORDER_ITEMS (
+  ORDER_ITEM_ID INTEGER PRIMARY KEY,
+  ORDER_ID INTEGER REFERENCES ORDERS (ORDER_ID),
+  PRODUCT_ID INTEGER REFERENCES PRODUCTS (PRODUCT_ID),
+  QUANTITY INTEGER,
+  UNIT_PRICE DECIMAL(10, 2),
+  DISCOUNT DECIMAL(4, 2)
+);
+COMMENT ON TABLE ORDER_ITEMS IS 'Order line items with the price charged at order time';
+INSERT INTO ORDER_ITEMS
+SELECT
+  i,
+  1 + (hash(i * 31) % 1000)::INTEGER AS ORDER_ID,
+  p.PRODUCT_ID,
+  1 + (hash(i * 37) % 5)::INTEGER,
+  p.UNIT_PRICE,
+  [0, 0, 0, 0.05, 0.10, 0.15][1 + (hash(i * 41) % 6)::INTEGER]::DECIMAL(4, 2)
+FROM range(1, 3001) t(i)
+JOIN PRODUCTS p ON p.PRODUCT_ID = 1 + (hash(i * 43) % 25)::INTEGER
+ORDER BY i;
+
+CREATE VIEW DAILY_REVENUE AS
+SELECT o.ORDER_DATE, SUM(oi.QUANTITY * oi.UNIT_PRICE * (1 - oi.DISCOUNT)) AS REVENUE, COUNT(DISTINCT o.ORDER_ID) AS ORDER_COUNT
+FROM ORDERS o
+JOIN ORDER_ITEMS oi ON oi.ORDER_ID = o.ORDER_ID
+WHERE o.STATUS <> 'CANCELLED'
+GROUP BY o.ORDER_DATE;
+
+CREATE STAGE DEMO_STAGE;
+`;
+
+// Files placed in DEMO_DB.SALES.DEMO_STAGE on first start
+export const LOCAL_SNOWFLAKE_SEED_STAGE_FILES: Record<string, string> = {
+  'sales_model.yaml': `name: sales_model
+description: Semantic model for the local demo sales data
+tables:
+  - name: customers
+    base_table: DEMO_DB.SALES.CUSTOMERS
+    primary_key: CUSTOMER_ID
+    dimensions: [CUSTOMER_NAME, REGION, SEGMENT, SIGNUP_DATE]
+  - name: orders
+    base_table: DEMO_DB.SALES.ORDERS
+    primary_key: ORDER_ID
+    dimensions: [ORDER_DATE, STATUS, SALES_CHANNEL]
+  - name: order_items
+    base_table: DEMO_DB.SALES.ORDER_ITEMS
+    measures:
+      - name: revenue
+        expr: SUM(QUANTITY * UNIT_PRICE * (1 - DISCOUNT))
+relationships:
+  - from: orders.CUSTOMER_ID
+    to: customers.CUSTOMER_ID
+  - from: order_items.ORDER_ID
+    to: orders.ORDER_ID
+`,
+  'regions.csv': `REGION,MANAGER,TARGET_REVENUE
+NORTH,Avery Chen,250000
+SOUTH,Jordan Patel,200000
+EAST,Riley Gomez,275000
+WEST,Casey Okafor,225000
+`
+};
@@ -0,0 +1,1470 @@
+/**
+ * Local Snowflake Stand-in
+ * Embedded DuckDB behind the same connection surface as snowflake-sdk, emulating the
+ * SHOW / DESCRIBE / USE / LIST @stage and INFORMATION_SCHEMA result shapes the agent tools parse.
+ * Each Snowflake database is a DuckDB file and each stage a directory under LOCAL_SNOWFLAKE_DIR.
+ * PUT, INFER_SCHEMA, COPY INTO and VALIDATE cover loading CSV, JSON and Parquet files from stages.
+ * DuckDB may only open files under LOCAL_SNOWFLAKE_DIR, and PUT only reads the server's copies of uploads.
+ */
+
+import type { DuckDBConnection, DuckDBInstance } from '@duckdb/node-api';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { openDuckDBInstance } from './data-source-duckdb';
+import { LOCAL_SNOWFLAKE_SEED_SQL, LOCAL_SNOWFLAKE_SEED_STAGE_FILES } from './local-snowflake-seed';
+
+export const LOCAL_AUTHENTICATOR = 'LOCAL';
+
+const LOCAL_SNOWFLAKE_DIR = process.env.LOCAL_SNOWFLAKE_DIR || path.join(process.cwd(), 'data', 'local-snowflake');
+const STAGES_DIR = path.join(LOCAL_SNOWFLAKE_DIR, 'stages');
+// Where the kept copies of uploaded files live (see file-uploads); PUT reads nothing else
+const PUT_SOURCE_DIR = path.join(process.cwd(), 'data', 'uploads');
+const LOCAL_VERSION = '8.0.0-local';
+const DEFAULT_SCHEMA = 'PUBLIC';
+
+// Snowflake identifiers: "Quoted Name" or unquoted_name, optionally qualified with dots
+const IDENT = `(?:"(?:[^"]|"")+"|[A-Za-z_][\\w$]*)`;
+const QUALIFIED = `${IDENT}(?:\\s*\\.\\s*${IDENT}){0,2}`;
+const LIKE_CLAUSE = `(?:\\s+LIKE\\s+'((?:[^']|'')*)')?`;
+
+const SHOW_RE = new RegExp(
+  `^SHOW\\s+(?:TERSE\\s+)?(DATABASES|SCHEMAS|TABLES|VIEWS|STAGES|IMPORTED\\s+KEYS)${LIKE_CLAUSE}` +
+  `(?:\\s+IN\\s+(?:(ACCOUNT|DATABASE|SCHEMA)\\b\\s*)?(${QUALIFIED})?)?(?:\\s+LIMIT\\s+\\d+)?$`, 'i'
+);
+const DESCRIBE_RE = new RegExp(`^DESC(?:RIBE)?\\s+(?:TABLE|VIEW)\\s+(${QUALIFIED})(?:\\s+TYPE\\s*=\\s*COLUMNS)?$`, 'i');
+const USE_RE = new RegExp(`^USE\\s+(?:(DATABASE|SCHEMA|WAREHOUSE|ROLE)\\s+)?(${QUALIFIED})$`, 'i');
+const CREATE_DATABASE_RE = new RegExp(`^CREATE\\s+(OR\\s+REPLACE\\s+)?(?:TRANSIENT\\s+)?DATABASE\\s+(IF\\s+NOT\\s+EXISTS\\s+)?(${IDENT})`, 'i');
+const DROP_DATABASE_RE = new RegExp(`^DROP\\s+DATABASE\\s+(IF\\s+EXISTS\\s+)?(${IDENT})(?:\\s+(?:CASCADE|RESTRICT))?$`, 'i');
+const CREATE_STAGE_RE = new RegExp(`^CREATE\\s+(OR\\s+REPLACE\\s+)?(?:TEMP(?:ORARY)?\\s+)?STAGE\\s+(IF\\s+NOT\\s+EXISTS\\s+)?(${QUALIFIED})`, 'i');
+const DROP_STAGE_RE = new RegExp(`^DROP\\s+STAGE\\s+(IF\\s+EXISTS\\s+)?(${QUALIFIED})$`, 'i');
+const LIST_RE = new RegExp(`^(?:LIST|LS)\\s+@(${QUALIFIED})(/[^\\s]*)?(?:\\s+PATTERN\\s*=\\s*'((?:[^']|'')*)')?$`, 'i');
+const CANCEL_QUERY_RE = /^SELECT\s+SYSTEM\$CANCEL_QUERY\(\s*'([^']*)'\s*\)$/i;
+const GET_FILE_RE = new RegExp(`GET\\(\\s*@(${QUALIFIED})\\s*,\\s*'((?:[^']|'')*)'\\s*\\)`, 'gi');
+const PUT_RE = new RegExp(`^PUT\\s+'((?:[^'\\\\]|''|\\\\.)*)'\\s+'?@(${QUALIFIED})(/[^\\s']*)?'?((?:\\s+\\w+\\s*=\\s*\\w+)*)$`, 'i');
+const CREATE_FILE_FORMAT_RE = new RegExp(`^CREATE\\s+(OR\\s+REPLACE\\s+)?(?:TEMP(?:ORARY)?\\s+)?FILE\\s+FORMAT\\s+(IF\\s+NOT\\s+EXISTS\\s+)?(${QUALIFIED})([\\s\\S]*)$`, 'i');
+const DROP_FILE_FORMAT_RE = new RegExp(`^DROP\\s+FILE\\s+FORMAT\\s+(IF\\s+EXISTS\\s+)?(${QUALIFIED})$`, 'i');
+const COPY_INTO_RE = new RegExp(`^COPY\\s+INTO\\s+(${QUALIFIED})\\s+FROM\\s+@(${QUALIFIED})(/[^\\s]*)?([\\s\\S]*)$`, 'i');
+const CREATE_TABLE_RE = /^CREATE\s+(?:OR\s+REPLACE\s+)?(?:(?:TRANSIENT|TEMP|TEMPORARY)\s+)?TABLE\b/i;
+const INFER_SCHEMA_RE = /TABLE\s*\(\s*INFER_SCHEMA\s*\(((?:'(?:[^'\\]|''|\\.)*'|[^()'])*)\)\s*\)/gi;
+const VALIDATE_RE = new RegExp(`TABLE\\s*\\(\\s*VALIDATE\\s*\\(\\s*(${QUALIFIED})\\s*,\\s*JOB_ID\\s*=>\\s*'((?:[^']|'')*)'\\s*\\)\\s*\\)`, 'gi');
+// A Snowflake type after a column name; names that look like types are left alone
+const SNOWFLAKE_TYPE_RE = /(["\w]\s+)(NUMBER|TIMESTAMP_NTZ|TIMESTAMP_LTZ|TIMESTAMP_TZ|TIME|BINARY|VARBINARY|VARIANT|OBJECT|ARRAY)\b(?:\s*\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\))?/gi;
+const INFORMATION_SCHEMA_RE = new RegExp(`(?:(${IDENT})\\s*\\.\\s*)?INFORMATION_SCHEMA\\s*\\.\\s*(TABLES|COLUMNS)\\b`, 'gi');
+
+const INFORMATION_SCHEMA_COLUMNS: Record<string, string[]> = {
+  TABLES: ['TABLE_CATALOG', 'TABLE_SCHEMA', 'TABLE_NAME', 'TABLE_OWNER', 'TABLE_TYPE', 'ROW_COUNT', 'BYTES', 'COMMENT', 'CREATED', 'LAST_ALTERED'],
+  COLUMNS: [
+    'TABLE_CATALOG', 'TABLE_SCHEMA', 'TABLE_NAME', 'COLUMN_NAME', 'ORDINAL_POSITION', 'COLUMN_DEFAULT', 'IS_NULLABLE', 'DATA_TYPE',
+    'CHARACTER_MAXIMUM_LENGTH', 'NUMERIC_PRECISION', 'NUMERIC_SCALE', 'COMMENT'
+  ]
+};
+
+const PUT_COLUMNS = ['source', 'target', 'source_size', 'target_size', 'source_compression', 'target_compression', 'status', 'message'];
+const COPY_COLUMNS = [
+  'file', 'status', 'rows_parsed', 'rows_loaded', 'error_limit', 'errors_seen',
+  'first_error', 'first_error_line', 'first_error_character', 'first_error_column_name'
+];
+const INFER_SCHEMA_COLUMNS = ['COLUMN_NAME', 'TYPE', 'NULLABLE', 'EXPRESSION', 'FILENAMES', 'ORDER_ID'];
+const VALIDATE_COLUMNS = [
+  'ERROR', 'FILE', 'LINE', 'CHARACTER', 'BYTE_OFFSET', 'CATEGORY', 'CODE', 'SQL_STATE',
+  'COLUMN_NAME', 'ROW_NUMBER', 'ROW_START_LINE', 'REJECTED_RECORD'
+];
+const MAX_LOAD_ERRORS = 1000; // rejected rows kept per COPY INTO for VALIDATE
+
+export interface LocalConnectionOptions {
+  username?: string;
+  database?: string;
+  schema?: string;
+  warehouse?: string;
+  role?: string;
+}
+
+interface LocalQueryResult {
+  columns: string[];
+  rows: Record<string, any>[];
+}
+
+interface LocalStatement {
+  getColumns(): Array<{ getName(): string }>;
+  getStatementId(): string;
+  getQueryId(): string;
+  getSqlText(): string;
+  cancel(callback?: (err: Error | undefined, stmt: LocalStatement) => void): void;
+}
+
+type LocalQueryStatus = 'RUNNING' | 'SUCCESS' | 'FAILED_WITH_ERROR' | 'ABORTED' | 'NO_DATA';
+
+// KEY = value options of PUT, COPY INTO and CREATE FILE FORMAT
+type CopyOptionValue = string | string[] | CopyOptions;
+interface CopyOptions {
+  [name: string]: CopyOptionValue;
+}
+
+interface LocalFileFormat {
+  type: 'CSV' | 'JSON' | 'PARQUET';
+  delimiter: string;
+  quote?: string;
+  header: boolean; // first line holds names (PARSE_HEADER) or is skipped (SKIP_HEADER)
+}
+
+// Statements still running, so SYSTEM$CANCEL_QUERY can reach them from any session
+const RUNNING_STATEMENTS = new Map<string, LocalStatement>();
+
+// Outcomes of asyncExec statements, kept for an hour like a (much shorter) query history
+const ASYNC_RESULT_TTL_MS = 60 * 60 * 1000;
+const ASYNC_QUERIES = new Map<string, {
+  status: LocalQueryStatus;
+  result?: LocalQueryResult;
+  error?: Error;
+  finishedAt?: number;
+}>();
+
+// Named file formats by DATABASE.SCHEMA.NAME; kept in memory, so they do not survive a restart
+const FILE_FORMATS = new Map<string, LocalFileFormat>();
+
+// Rows rejected by COPY INTO statements, by query id, for VALIDATE; kept as long as async results
+const LOAD_ERRORS = new Map<string, { rows: Record<string, any>[]; finishedAt: number }>();
+
+// =============================================================================
+// SHARED INSTANCE
+// =============================================================================
+
+let instancePromise: Promise<DuckDBInstance> | null = null;
+
+// One in-memory DuckDB instance per process; database files are attached to it on first use
+function getLocalInstance(): Promise<DuckDBInstance> {
+  if (!instancePromise) {
+    instancePromise = openLocalInstance().catch(error => {
+      instancePromise = null;
+      throw error;
+    });
+  }
+  return instancePromise;
+}
+
+async function openLocalInstance(): Promise<DuckDBInstance> {
+  await fs.mkdir(STAGES_DIR, { recursive: true });
+  const instance = await openDuckDBInstance(':memory:', LOCAL_SNOWFLAKE_DIR);
+  const connection = await instance.connect();
+
+  try {
+    const databaseFiles = (await fs.readdir(LOCAL_SNOWFLAKE_DIR)).filter(file => file.endsWith('.duckdb'));
+    for (const file of databaseFiles) {
+      await connection.run(`ATTACH ${quoteLiteral(path.join(LOCAL_SNOWFLAKE_DIR, file))} AS ${quoteIdent(path.basename(file, '.duckdb'))}`);
+    }
+
+    if (databaseFiles.length === 0) {
+      await seedLocalSnowflake(new LocalSnowflakeSession(connection, {}));
+    }
+  } finally {
+    connection.closeSync();
+  }
+
+  console.log(`Local Snowflake stand-in ready in ${LOCAL_SNOWFLAKE_DIR}`);
+  return instance;
+}
+
+// Seed demo data (or the SQL file in LOCAL_SNOWFLAKE_SEED) into an empty data directory
+async function seedLocalSnowflake(session: LocalSnowflakeSession): Promise<void> {
+  const seedSql = process.env.LOCAL_SNOWFLAKE_SEED
+    ? await fs.readFile(process.env.LOCAL_SNOWFLAKE_SEED, 'utf8')
+    : LOCAL_SNOWFLAKE_SEED_SQL;
+
+  console.log('Seeding local Snowflake stand-in...');
+  for (const statement of seedSql.split(/;\s*(?:\n|$)/).map(s => s.trim()).filter(Boolean)) {
+    await session.execute(statement);
+  }
+
+  if (!process.env.LOCAL_SNOWFLAKE_SEED) {
+    const stageDir = path.join(STAGES_DIR, 'DEMO_DB', 'SALES', 'DEMO_STAGE');
+    await fs.mkdir(stageDir, { recursive: true });
+    for (const [file, content] of Object.entries(LOCAL_SNOWFLAKE_SEED_STAGE_FILES)) {
+      await fs.writeFile(path.join(stageDir, file), content);
+    }
+  }
+}
+
+export function isLocalSnowflakeMode(): boolean {
+  return process.env.SNOWFLAKE_MODE === 'local';
+}
+
+// =============================================================================
+// SESSION - statement emulation on top of one DuckDB connection
+// =============================================================================
+
+class LocalSnowflakeSession {
+  private queue: Promise<unknown> = Promise.resolve();
+  private runningStatementId?: string;
+  private cancelledStatementIds = new Set<string>();
+  private lastCopyId?: string; // for VALIDATE(..., JOB_ID => '_last')
+
+  constructor(
+    private connection: DuckDBConnection,
+    private options: LocalConnectionOptions
+  ) {}
+
+  async initialize(): Promise<void> {
+    await this.defineContextFunctions();
+    if (this.options.database) {
+      await this.execute(`USE DATABASE ${quoteIdent(this.options.database)}`);
+      if (this.options.schema) {
+        await this.execute(`USE SCHEMA ${quoteIdent(this.options.schema)}`);
+      }
+    }
+  }
+
+  // Statements on one connection run one at a time, like a Snowflake session
+  execute(sqlText: string, statementId?: string): Promise<LocalQueryResult> {
+    const run = this.queue.then(() => this.runStatement(sqlText, statementId));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  interrupt(): void {
+    this.connection.interrupt();
+  }
+
+  // A queued statement is skipped when its turn comes; a running one is interrupted
+  cancel(statementId: string): void {
+    if (this.runningStatementId === statementId) {
+      this.interrupt();
+    } else {
+      this.cancelledStatementIds.add(statementId);
+    }
+  }
+
+  close(): void {
+    this.connection.closeSync();
+  }
+
+  private async runStatement(sqlText: string, statementId?: string): Promise<LocalQueryResult> {
+    if (statementId && this.cancelledStatementIds.delete(statementId)) {
+      throw new Error('SQL execution canceled');
+    }
+    this.runningStatementId = statementId;
+    try {
+      return await this.executeStatement(sqlText, statementId || crypto.randomUUID());
+    } finally {
+      this.runningStatementId = undefined;
+    }
+  }
+
+  private async executeStatement(sqlText: string, statementId: string): Promise<LocalQueryResult> {
+    const sql = sqlText.trim().replace(/;\s*$/, '');
+    let match: RegExpMatchArray | null;
+
+    if ((match = sql.match(SHOW_RE))) {
+      return await this.show(match[1].toUpperCase().replace(/\s+/g, ' '), match[2], match[3]?.toUpperCase(), match[4]);
+    }
+    if ((match = sql.match(DESCRIBE_RE))) {
+      return await this.describeTable(parseQualifiedName(match[1]));
+    }
+    if ((match = sql.match(USE_RE))) {
+      return await this.use(match[1]?.toUpperCase(), parseQualifiedName(match[2]));
+    }
+    if ((match = sql.match(CREATE_DATABASE_RE))) {
+      return await this.createDatabase(parseQualifiedName(match[3])[0], !!match[1], !!match[2]);
+    }
+    if ((match = sql.match(DROP_DATABASE_RE))) {
+      return await this.dropDatabase(parseQualifiedName(match[2])[0], !!match[1]);
+    }
+    if ((match = sql.match(CREATE_STAGE_RE))) {
+      return await this.createStage(parseQualifiedName(match[3]), !!match[1], !!match[2]);
+    }
+    if ((match = sql.match(DROP_STAGE_RE))) {
+      return await this.dropStage(parseQualifiedName(match[2]), !!match[1]);
+    }
+    if ((match = sql.match(LIST_RE))) {
+      return await this.listStage(parseQualifiedName(match[1]), match[2], match[3]?.replace(/''/g, "'"));
+    }
+    if ((match = sql.match(CANCEL_QUERY_RE))) {
+      return cancelQuery(match[1]);
+    }
+    if ((match = sql.match(PUT_RE))) {
+      return await this.putFile(unescapeLiteral(match[1]), parseQualifiedName(match[2]), match[3], match[4]);
+    }
+    if ((match = sql.match(CREATE_FILE_FORMAT_RE))) {
+      return await this.createFileFormat(parseQualifiedName(match[3]), match[4], !!match[1], !!match[2]);
+    }
+    if ((match = sql.match(DROP_FILE_FORMAT_RE))) {
+      return await this.dropFileFormat(parseQualifiedName(match[2]), !!match[1]);
+    }
+    if ((match = sql.match(COPY_INTO_RE))) {
+      return await this.copyInto(parseQualifiedName(match[1]), parseQualifiedName(match[2]), match[3], match[4], statementId);
+    }
+
+    const duckSql = CREATE_TABLE_RE.test(sql) ? toDuckDBTypes(sql) : sql;
+    return await this.runDuckDB(this.inlineLoadErrors(await this.inferSchemas(await this.inlineInformationSchema(await this.inlineStageFiles(duckSql)))));
+  }
+
+  private async runDuckDB(sql: string): Promise<LocalQueryResult> {
+    const reader = await this.connection.runAndReadAll(sql);
+    const columns = reader.columnNames();
+
+    // DuckDB reports DDL and DML as a "Count" column; answer with Snowflake's status shapes
+    const rows = reader.getRowObjectsJS().map(row => toSnowflakeRow(row));
+    if (columns.length === 0 || (columns.length === 1 && columns[0] === 'Count')) {
+      const verb = sql.match(/^\s*(INSERT|UPDATE|DELETE|MERGE)\b/i)?.[1].toUpperCase();
+      if (!verb) {
+        return statusResult('Statement executed successfully.');
+      }
+      const column = verb === 'MERGE' ? 'number of rows updated' : `number of rows ${verb.toLowerCase()}${verb === 'INSERT' ? 'ed' : 'd'}`;
+      return { columns: [column], rows: [{ [column]: rows[0]?.Count ?? 0 }] };
+    }
+    return { columns, rows };
+  }
+
+  private async query(sql: string, values: any[] = []): Promise<Record<string, any>[]> {
+    const reader = await this.connection.runAndReadAll(sql, values);
+    return reader.getRowObjectsJS().map(row => toSnowflakeRow(row));
+  }
+
+  private async defineContextFunctions(): Promise<void> {
+    const functions: Record<string, string> = {
+      current_warehouse: this.options.warehouse || 'LOCAL_WH',
+      current_role: this.options.role || 'LOCAL_ROLE',
+      current_account: 'LOCAL',
+      current_region: 'LOCAL',
+      current_version: LOCAL_VERSION
+    };
+    for (const [name, value] of Object.entries(functions)) {
+      await this.connection.run(`CREATE OR REPLACE TEMP MACRO ${name}() AS ${quoteLiteral(value)}`);
+    }
+  }
+
+  private async currentContext(): Promise<{ database: string | null; schema: string | null }> {
+    const [row] = await this.query(`SELECT current_database() AS database, current_schema() AS schema`);
+    const database = row?.database && row.database !== 'memory' ? row.database : null;
+    return { database, schema: database && row.schema !== 'main' ? row.schema : null };
+  }
+
+  // Fill in database/schema from the session for partially qualified names
+  private async qualify(parts: string[], length: 2 | 3): Promise<string[]> {
+    const current = await this.currentContext();
+    const defaults = length === 3 ? [current.database, current.schema] : [current.database];
+    const qualified = [...defaults.slice(0, length - parts.length), ...parts];
+    if (qualified.some(part => !part)) {
+      throw new Error('SQL compilation error:\nCannot perform operation. This session does not have a current database. Call \'USE DATABASE\', or use a qualified name.');
+    }
+    return qualified as string[];
+  }
+
+  // ---------------------------------------------------------------------------
+  // SHOW
+  // ---------------------------------------------------------------------------
+
+  private async show(objectType: string, likePattern?: string, scopeType?: string, scopeName?: string): Promise<LocalQueryResult> {
+    const scope = scopeName ? parseQualifiedName(scopeName) : [];
+    const current = await this.currentContext();
+    let result: LocalQueryResult;
+
+    if (objectType === 'DATABASES') {
+      result = await this.showDatabases(current.database);
+    } else if (objectType === 'SCHEMAS') {
+      const database = scope[0] || current.database;
+      result = await this.showSchemas(scopeType === 'ACCOUNT' ? null : database, current);
+    } else {
+      // IN ACCOUNT -> everything, IN DATABASE db -> all schemas, IN [SCHEMA] [db.]schema -> one schema
+      let database: string | null = null;
+      let schema: string | null = null;
+      if (scopeType === 'DATABASE') {
+        database = scope[0];
+      } else if (scopeType !== 'ACCOUNT') {
+        [database, schema] = scope.length > 0 ? await this.qualify(scope, 2) : [current.database, current.schema];
+        if (!database) {
+          throw new Error('SQL compilation error:\nCannot perform SHOW. This session does not have a current database. Call \'USE DATABASE\', or use a qualified name.');
+        }
+      }
+
+      if (objectType === 'TABLES') result = await this.showTables(database, schema);
+      else if (objectType === 'VIEWS') result = await this.showViews(database, schema);
+      else if (objectType === 'IMPORTED KEYS') result = await this.showImportedKeys(database, schema);
+      else result = await this.showStages(database, schema);
+    }
+
+    if (likePattern !== undefined) {
+      const like = likeToRegExp(likePattern.replace(/''/g, "'"));
+      result.rows = result.rows.filter(row => like.test(row.name));
+    }
+    return result;
+  }
+
+  private async showDatabases(currentDatabase: string | null): Promise<LocalQueryResult> {
+    const databases = await this.query(
+      `SELECT database_name, path FROM duckdb_databases() WHERE NOT internal AND database_name <> 'memory' ORDER BY database_name`
+    );
+    const rows = await Promise.all(databases.map(async db => ({
+      created_on: await fileCreatedOn(db.path),
+      name: db.database_name,
+      is_default: 'N',
+      is_current: db.database_name === currentDatabase ? 'Y' : 'N',
+      origin: '',
+      owner: this.options.role || 'LOCAL_ROLE',
+      comment: null,
+      options: '',
+      retention_time: '1',
+      kind: 'STANDARD'
+    })));
+    return withColumns(rows, ['created_on', 'name', 'is_default', 'is_current', 'origin', 'owner', 'comment', 'options', 'retention_time', 'kind']);
+  }
+
+  private async showSchemas(database: string | null, current: { database: string | null; schema: string | null }): Promise<LocalQueryResult> {
+    const schemas = await this.query(
+      `SELECT s.database_name, s.schema_name, s.comment, d.path
+       FROM duckdb_schemas() s JOIN duckdb_databases() d ON d.database_name = s.database_name
+       WHERE NOT s.internal AND NOT d.internal AND s.database_name <> 'memory' AND s.schema_name <> 'main'
+         AND (? IS NULL OR lower(s.database_name) = lower(?))
+       ORDER BY s.database_name, s.schema_name`,
+      [database, database]
+    );
+    const rows = await Promise.all(schemas.map(async schema => ({
+      created_on: await fileCreatedOn(schema.path),
+      name: schema.schema_name,
+      is_default: 'N',
+      is_current: schema.database_name === current.database && schema.schema_name === current.schema ? 'Y' : 'N',
+      database_name: schema.database_name,
+      owner: this.options.role || 'LOCAL_ROLE',
+      comment: schema.comment,
+      options: '',
+      retention_time: '1'
+    })));
+    return withColumns(rows, ['created_on', 'name', 'is_default', 'is_current', 'database_name', 'owner', 'comment', 'options', 'retention_time']);
+  }
+
+  private async showTables(database: string | null, schema: string | null): Promise<LocalQueryResult> {
+    const tables = await this.query(
+      `SELECT t.database_name, t.schema_name, t.table_name, t.estimated_size, t.comment, d.path
+       FROM duckdb_tables() t JOIN duckdb_databases() d ON d.database_name = t.database_name
+       WHERE NOT t.internal AND NOT t.temporary AND t.database_name <> 'memory'
+         AND (? IS NULL OR lower(t.database_name) = lower(?))
+         AND (? IS NULL OR lower(t.schema_name) = lower(?))
+       ORDER BY t.database_name, t.schema_name, t.table_name`,
+      [database, database, schema, schema]
+    );
+    const rows = await Promise.all(tables.map(async table => ({
+      created_on: await fileCreatedOn(table.path),
+      name: table.table_name,
+      database_name: table.database_name,
+      schema_name: table.schema_name,
+      kind: 'TABLE',
+      comment: table.comment || '',
+      cluster_by: '',
+      rows: table.estimated_size,
+      bytes: null,
+      owner: this.options.role || 'LOCAL_ROLE',
+      retention_time: '1',
+      automatic_clustering: 'OFF',
+      change_tracking: 'OFF'
+    })));
+    return withColumns(rows, ['created_on', 'name', 'database_name', 'schema_name', 'kind', 'comment', 'cluster_by', 'rows', 'bytes', 'owner', 'retention_time', 'automatic_clustering', 'change_tracking']);
+  }
+
+  private async showViews(database: string | null, schema: string | null): Promise<LocalQueryResult> {
+    const views = await this.query(
+      `SELECT v.database_name, v.schema_name, v.view_name, v.comment, v.sql, d.path
+       FROM duckdb_views() v JOIN duckdb_databases() d ON d.database_name = v.database_name
+       WHERE NOT v.internal AND NOT v.temporary AND v.database_name <> 'memory'
+         AND (? IS NULL OR lower(v.database_name) = lower(?))
+         AND (? IS NULL OR lower(v.schema_name) = lower(?))
+       ORDER BY v.database_name, v.schema_name, v.view_name`,
+      [database, database, schema, schema]
+    );
+    const rows = await Promise.all(views.map(async view => ({
+      created_on: await fileCreatedOn(view.path),
+      name: view.view_name,
+      reserved: '',
+      database_name: view.database_name,
+      schema_name: view.schema_name,
+      owner: this.options.role || 'LOCAL_ROLE',
+      comment: view.comment || '',
+      text: view.sql,
+      is_secure: 'false',
+      is_materialized: 'false'
+    })));
+    return withColumns(rows, ['created_on', 'name', 'reserved', 'database_name', 'schema_name', 'owner', 'comment', 'text', 'is_secure', 'is_materialized']);
+  }
+
+  // One row per foreign key column, like Snowflake; DuckDB keys reference tables in their own schema
+  private async showImportedKeys(database: string | null, schema: string | null): Promise<LocalQueryResult> {
+    const constraints = await this.query(
+      `SELECT database_name, schema_name, table_name, constraint_name, constraint_column_names, referenced_table, referenced_column_names
+       FROM duckdb_constraints()
+       WHERE constraint_type = 'FOREIGN KEY' AND database_name <> 'memory'
+         AND (? IS NULL OR lower(database_name) = lower(?))
+         AND (? IS NULL OR lower(schema_name) = lower(?))
+       ORDER BY database_name, schema_name, table_name, constraint_index`,
+      [database, database, schema, schema]
+    );
+    const rows = constraints.flatMap(constraint => (constraint.constraint_column_names as string[]).map((column, index) => ({
+      created_on: null,
+      pk_database_name: constraint.database_name,
+      pk_schema_name: constraint.schema_name,
+      pk_table_name: constraint.referenced_table,
+      pk_column_name: constraint.referenced_column_names[index],
+      fk_database_name: constraint.database_name,
+      fk_schema_name: constraint.schema_name,
+      fk_table_name: constraint.table_name,
+      fk_column_name: column,
+      key_sequence: index + 1,
+      update_rule: 'NO ACTION',
+      delete_rule: 'NO ACTION',
+      fk_name: constraint.constraint_name,
+      pk_name: null,
+      deferrability: 'NOT DEFERRABLE',
+      rely: 'false',
+      comment: null
+    })));
+    return withColumns(rows, [
+      'created_on', 'pk_database_name', 'pk_schema_name', 'pk_table_name', 'pk_column_name', 'fk_database_name', 'fk_schema_name',
+      'fk_table_name', 'fk_column_name', 'key_sequence', 'update_rule', 'delete_rule', 'fk_name', 'pk_name', 'deferrability', 'rely', 'comment'
+    ]);
+  }
+
+  private async showStages(database: string | null, schema: string | null): Promise<LocalQueryResult> {
+    const rows: Record<string, any>[] = [];
+    for (const databaseDir of await listDirectories(STAGES_DIR)) {
+      if (database && databaseDir.toLowerCase() !== database.toLowerCase()) continue;
+      for (const schemaDir of await listDirectories(path.join(STAGES_DIR, databaseDir))) {
+        if (schema && schemaDir.toLowerCase() !== schema.toLowerCase()) continue;
+        for (const stageDir of await listDirectories(path.join(STAGES_DIR, databaseDir, schemaDir))) {
+          const stat = await fs.stat(path.join(STAGES_DIR, databaseDir, schemaDir, stageDir));
+          rows.push({
+            created_on: stat.birthtime,
+            name: stageDir,
+            database_name: databaseDir,
+            schema_name: schemaDir,
+            url: '',
+            has_credentials: 'N',
+            has_encryption_key: 'N',
+            owner: this.options.role || 'LOCAL_ROLE',
+            comment: '',
+            region: null,
+            type: 'INTERNAL',
+            cloud: null,
+            notification_channel: null,
+            storage_integration: null
+          });
+        }
+      }
+    }
+    return withColumns(rows, ['created_on', 'name', 'database_name', 'schema_name', 'url', 'has_credentials', 'has_encryption_key', 'owner', 'comment', 'region', 'type', 'cloud', 'notification_channel', 'storage_integration']);
+  }
+
+  // ---------------------------------------------------------------------------
+  // DESCRIBE / USE
+  // ---------------------------------------------------------------------------
+
+  private async describeTable(parts: string[]): Promise<LocalQueryResult> {
+    const [database, schema, table] = await this.qualify(parts, 3);
+    const columns = await this.query(
+      `SELECT c.column_name, c.data_type, c.is_nullable, c.column_default, c.comment,
+              coalesce(list_contains(pk.constraint_column_names, c.column_name), false) AS is_primary_key
+       FROM duckdb_columns() c
+       LEFT JOIN (
+         SELECT database_name, schema_name, table_name, constraint_column_names
+         FROM duckdb_constraints() WHERE constraint_type = 'PRIMARY KEY'
+       ) pk ON pk.database_name = c.database_name AND pk.schema_name = c.schema_name AND pk.table_name = c.table_name
+       WHERE lower(c.database_name) = lower(?) AND lower(c.schema_name) = lower(?) AND lower(c.table_name) = lower(?)
+       ORDER BY c.column_index`,
+      [database, schema, table]
+    );
+
+    if (columns.length === 0) {
+      throw new Error(`SQL compilation error:\nTable '${database}.${schema}.${table}' does not exist or not authorized.`);
+    }
+
+    const rows = columns.map(column => ({
+      name: column.column_name,
+      type: toSnowflakeType(column.data_type),
+      kind: 'COLUMN',
+      'null?': column.is_nullable ? 'Y' : 'N',
+      default: column.column_default ?? null,
+      'primary key': column.is_primary_key ? 'Y' : 'N',
+      'unique key': 'N',
+      check: null,
+      expression: null,
+      comment: column.comment ?? null,
+      'policy name': null,
+      'privacy domain': null
+    }));
+    return withColumns(rows, ['name', 'type', 'kind', 'null?', 'default', 'primary key', 'unique key', 'check', 'expression', 'comment', 'policy name', 'privacy domain']);
+  }
+
+  private async use(objectType: string | undefined, parts: string[]): Promise<LocalQueryResult> {
+    if (objectType === 'WAREHOUSE' || objectType === 'ROLE') {
+      this.options = { ...this.options, [objectType === 'WAREHOUSE' ? 'warehouse' : 'role']: parts[0] };
+      await this.defineContextFunctions();
+      return statusResult('Statement executed successfully.');
+    }
+
+    if (objectType === 'SCHEMA' || (!objectType && parts.length === 2)) {
+      const [database, schema] = await this.qualify(parts, 2);
+      await this.connection.run(`USE ${quoteIdent(database)}.${quoteIdent(schema)}`);
+    } else {
+      // USE DATABASE lands in PUBLIC like Snowflake when the database has one
+      await this.connection.run(`USE ${quoteIdent(parts[0])}`);
+      const [publicSchema] = await this.query(
+        `SELECT schema_name FROM duckdb_schemas() WHERE lower(database_name) = lower(?) AND schema_name = ?`,
+        [parts[0], DEFAULT_SCHEMA]
+      );
+      if (publicSchema) {
+        await this.connection.run(`USE ${quoteIdent(parts[0])}.${quoteIdent(DEFAULT_SCHEMA)}`);
+      }
+    }
+    return statusResult('Statement executed successfully.');
+  }
+
+  // ---------------------------------------------------------------------------
+  // DATABASES AND STAGES
+  // ---------------------------------------------------------------------------
+
+  private async createDatabase(name: string, orReplace: boolean, ifNotExists: boolean): Promise<LocalQueryResult> {
+    assertSafeName(name);
+    const [existing] = await this.query(`SELECT database_name FROM duckdb_databases() WHERE lower(database_name) = lower(?)`, [name]);
+    if (existing) {
+      if (ifNotExists) return statusResult(`${name} already exists, statement succeeded.`);
+      if (!orReplace) throw new Error(`SQL compilation error:\nObject '${name}' already exists.`);
+      await this.dropDatabase(existing.database_name, false);
+    }
+
+    await this.connection.run(`ATTACH ${quoteLiteral(path.join(LOCAL_SNOWFLAKE_DIR, `${name}.duckdb`))} AS ${quoteIdent(name)}`);
+    await this.connection.run(`CREATE SCHEMA IF NOT EXISTS ${quoteIdent(name)}.${quoteIdent(DEFAULT_SCHEMA)}`);
+    await this.connection.run(`USE ${quoteIdent(name)}.${quoteIdent(DEFAULT_SCHEMA)}`);
+    return statusResult(`Database ${name} successfully created.`);
+  }
+
+  private async dropDatabase(name: string, ifExists: boolean): Promise<LocalQueryResult> {
+    assertSafeName(name);
+    const [existing] = await this.query(
+      `SELECT database_name, path FROM duckdb_databases() WHERE lower(database_name) = lower(?) AND NOT internal AND database_name <> 'memory'`,
+      [name]
+    );
+    if (!existing) {
+      if (ifExists) return statusResult(`Drop statement executed successfully (${name} already dropped).`);
+      throw new Error(`SQL compilation error:\nDatabase '${name}' does not exist or not authorized.`);
+    }
+
+    const current = await this.currentContext();
+    if (current.database === existing.database_name) {
+      await this.connection.run(`USE memory`);
+    }
+    await this.connection.run(`DETACH ${quoteIdent(existing.database_name)}`);
+    await fs.rm(existing.path, { force: true });
+    await fs.rm(`${existing.path}.wal`, { force: true });
+    await fs.rm(path.join(STAGES_DIR, existing.database_name), { recursive: true, force: true });
+    return statusResult(`${existing.database_name} successfully dropped.`);
+  }
+
+  private async createStage(parts: string[], orReplace: boolean, ifNotExists: boolean): Promise<LocalQueryResult> {
+    const stage = await this.resolveStage(parts);
+    const exists = await fs.stat(stage.dir).then(() => true, () => false);
+    if (exists) {
+      if (ifNotExists) return statusResult(`${stage.name} already exists, statement succeeded.`);
+      if (!orReplace) throw new Error(`SQL compilation error:\nObject '${stage.name}' already exists.`);
+      await fs.rm(stage.dir, { recursive: true, force: true });
+    }
+    await fs.mkdir(stage.dir, { recursive: true });
+    return statusResult(`Stage area ${stage.name} successfully created.`);
+  }
+
+  private async dropStage(parts: string[], ifExists: boolean): Promise<LocalQueryResult> {
+    const stage = await this.resolveStage(parts);
+    const exists = await fs.stat(stage.dir).then(() => true, () => false);
+    if (!exists) {
+      if (ifExists) return statusResult(`Drop statement executed successfully (${stage.name} already dropped).`);
+      throw new Error(`SQL compilation error:\nStage '${stage.name}' does not exist or not authorized.`);
+    }
+    await fs.rm(stage.dir, { recursive: true, force: true });
+    return statusResult(`${stage.name} successfully dropped.`);
+  }
+
+  private async listStage(parts: string[], subPath?: string, pattern?: string): Promise<LocalQueryResult> {
+    const stage = await this.requireStage(parts);
+    const prefix = (subPath || '').replace(/^\/+/, '');
+    const patternRe = pattern ? new RegExp(`^(?:${pattern})$`, 'i') : null;
+    const stagePrefix = stage.stageName.toLowerCase();
+    const rows: Record<string, any>[] = [];
+
+    for (const relativePath of await listFilesRecursive(stage.dir)) {
+      const name = `${stagePrefix}/${relativePath}`;
+      if (prefix && !relativePath.startsWith(prefix)) continue;
+      if (patternRe && !patternRe.test(name)) continue;
+
+      const filePath = path.join(stage.dir, relativePath);
+      const [stat, content] = await Promise.all([fs.stat(filePath), fs.readFile(filePath)]);
+      rows.push({
+        name,
+        size: stat.size,
+        md5: crypto.createHash('md5').update(content).digest('hex'),
+        last_modified: stat.mtime.toUTCString()
+      });
+    }
+    return withColumns(rows, ['name', 'size', 'md5', 'last_modified']);
+  }
+
+  // GET(@stage, 'file') is answered with the file contents as a string literal
+  private async inlineStageFiles(sql: string): Promise<string> {
+    const matches = Array.from(sql.matchAll(GET_FILE_RE));
+    let result = sql;
+    for (const match of matches) {
+      const stage = await this.resolveStage(parseQualifiedName(match[1]));
+      const filePath = resolveInside(stage.dir, match[2].replace(/''/g, "'"));
+      const content = await fs.readFile(filePath, 'utf8').catch(() => null);
+      result = result.replace(match[0], content === null ? 'NULL' : quoteLiteral(content));
+    }
+    return result;
+  }
+
+  // <db>.INFORMATION_SCHEMA.TABLES / COLUMNS are answered with Snowflake's columns, inlined as VALUES
+  private async inlineInformationSchema(sql: string): Promise<string> {
+    const matches = Array.from(sql.matchAll(INFORMATION_SCHEMA_RE));
+    let result = sql;
+    for (const match of matches) {
+      const database = match[1] ? parseQualifiedName(match[1])[0] : (await this.currentContext()).database;
+      if (!database) {
+        throw new Error('SQL compilation error:\nCannot perform SELECT. This session does not have a current database. Call \'USE DATABASE\', or use a qualified name.');
+      }
+      const view = match[2].toUpperCase();
+      const rows = view === 'TABLES' ? await this.informationSchemaTables(database) : await this.informationSchemaColumns(database);
+      result = result.replace(match[0], inlineRows(rows, INFORMATION_SCHEMA_COLUMNS[view]));
+    }
+    return result;
+  }
+
+  private async informationSchemaTables(database: string): Promise<Record<string, any>[]> {
+    const objects = await this.query(
+      `SELECT t.database_name, t.schema_name, t.table_name AS name, 'BASE TABLE' AS type, t.estimated_size, t.comment, d.path
+       FROM duckdb_tables() t JOIN duckdb_databases() d ON d.database_name = t.database_name
+       WHERE NOT t.internal AND NOT t.temporary AND lower(t.database_name) = lower(?)
+       UNION ALL
+       SELECT v.database_name, v.schema_name, v.view_name, 'VIEW', NULL, v.comment, d.path
+       FROM duckdb_views() v JOIN duckdb_databases() d ON d.database_name = v.database_name
+       WHERE NOT v.internal AND NOT v.temporary AND lower(v.database_name) = lower(?)`,
+      [database, database]
+    );
+    // A database is one file, so its modification time stands in for every table's
+    return await Promise.all(objects.map(async object => ({
+      TABLE_CATALOG: object.database_name,
+      TABLE_SCHEMA: object.schema_name,
+      TABLE_NAME: object.name,
+      TABLE_OWNER: this.options.role || 'LOCAL_ROLE',
+      TABLE_TYPE: object.type,
+      ROW_COUNT: object.estimated_size,
+      BYTES: null,
+      COMMENT: object.comment,
+      CREATED: await fileCreatedOn(object.path),
+      LAST_ALTERED: object.path ? await fs.stat(object.path).then(stat => stat.mtime, () => null) : null
+    })));
+  }
+
+  private async informationSchemaColumns(database: string): Promise<Record<string, any>[]> {
+    const columns = await this.query(
+      `SELECT database_name, schema_name, table_name, column_name, column_index, column_default, is_nullable, data_type, comment
+       FROM duckdb_columns()
+       WHERE NOT internal AND lower(database_name) = lower(?)`,
+      [database]
+    );
+    return columns.map(column => {
+      // Snowflake reports NUMBER(38,0) as NUMBER with precision 38 and scale 0, VARCHAR(n) as TEXT with length n
+      const type = toSnowflakeType(column.data_type);
+      const [, base, first, second] = type.match(/^(\w+)(?:\((\d+)(?:,(\d+))?\))?$/) || [null, type];
+      const dataType = base === 'VARCHAR' ? 'TEXT' : base;
+      const numeric = dataType === 'NUMBER';
+      return {
+        TABLE_CATALOG: column.database_name,
+        TABLE_SCHEMA: column.schema_name,
+        TABLE_NAME: column.table_name,
+        COLUMN_NAME: column.column_name,
+        ORDINAL_POSITION: column.column_index,
+        COLUMN_DEFAULT: column.column_default ?? null,
+        IS_NULLABLE: column.is_nullable ? 'YES' : 'NO',
+        DATA_TYPE: dataType,
+        CHARACTER_MAXIMUM_LENGTH: !numeric && first ? Number(first) : null,
+        NUMERIC_PRECISION: numeric && first ? Number(first) : null,
+        NUMERIC_SCALE: numeric && second ? Number(second) : null,
+        COMMENT: column.comment ?? null
+      };
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // LOADING FILES
+  // ---------------------------------------------------------------------------
+
+  // Files are stored as they are; AUTO_COMPRESS is ignored, as DuckDB reads compressed and plain files alike
+  private async putFile(source: string, stageParts: string[], subPath: string | undefined, optionsText: string): Promise<LocalQueryResult> {
+    const options = parseCopyOptions(optionsText);
+    const stage = await this.requireStage(stageParts);
+    const localPath = source.replace(/^file:\/\//i, '');
+    const stat = await fs.stat(localPath).catch(() => null);
+    if (!stat?.isFile()) {
+      throw new Error(`File doesn't exist: ['${localPath}']`);
+    }
+    // Links are followed first, so one inside the directory cannot point out of it
+    const [realPath, sourceDir] = await Promise.all([fs.realpath(localPath), fs.realpath(PUT_SOURCE_DIR).catch(() => path.resolve(PUT_SOURCE_DIR))]);
+    if (!realPath.startsWith(sourceDir + path.sep)) {
+      throw new Error(`File '${localPath}' cannot be staged: the local stand-in only stages uploaded files.`);
+    }
+
+    const fileName = path.basename(localPath);
+    const target = resolveInside(stage.dir, path.posix.join(subPath || '', fileName));
+    const skipped = !isTrue(options.OVERWRITE) && await fs.stat(target).then(() => true, () => false);
+    if (!skipped) {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.copyFile(realPath, target);
+    }
+    return withColumns([{
+      source: fileName,
+      target: fileName,
+      source_size: stat.size,
+      target_size: stat.size,
+      source_compression: 'NONE',
+      target_compression: 'NONE',
+      status: skipped ? 'SKIPPED' : 'UPLOADED',
+      message: ''
+    }], PUT_COLUMNS);
+  }
+
+  private async createFileFormat(parts: string[], optionsText: string, orReplace: boolean, ifNotExists: boolean): Promise<LocalQueryResult> {
+    const key = (await this.qualify(parts, 3)).join('.');
+    if (FILE_FORMATS.has(key)) {
+      if (ifNotExists) return statusResult(`${key} already exists, statement succeeded.`);
+      if (!orReplace) throw new Error(`SQL compilation error:\nObject '${key}' already exists.`);
+    }
+    FILE_FORMATS.set(key, toFileFormat(parseCopyOptions(optionsText)));
+    return statusResult(`File format ${key} successfully created.`);
+  }
+
+  private async dropFileFormat(parts: string[], ifExists: boolean): Promise<LocalQueryResult> {
+    const key = (await this.qualify(parts, 3)).join('.');
+    if (!FILE_FORMATS.delete(key) && !ifExists) {
+      throw new Error(`SQL compilation error:\nFile format '${key}' does not exist or not authorized.`);
+    }
+    return statusResult(`${key} successfully dropped.`);
+  }
+
+  /**
+   * COPY INTO a table from stage files. Every row is checked against the table's column types
+   * first; ON_ERROR decides whether rejected rows abort the statement, skip their file or are
+   * left out. Files are loaded again on every COPY, as no load history is kept.
+   */
+  private async copyInto(tableParts: string[], stageParts: string[], subPath: string | undefined, optionsText: string, statementId: string): Promise<LocalQueryResult> {
+    const options = parseCopyOptions(optionsText);
+    const [database, schema, table] = await this.qualify(tableParts, 3);
+    const columns = await this.query(
+      `SELECT column_name, data_type FROM duckdb_columns()
+       WHERE lower(database_name) = lower(?) AND lower(schema_name) = lower(?) AND lower(table_name) = lower(?)
+       ORDER BY column_index`,
+      [database, schema, table]
+    );
+    if (columns.length === 0) {
+      throw new Error(`SQL compilation error:\nTable '${database}.${schema}.${table}' does not exist or not authorized.`);
+    }
+
+    const format = await this.resolveCopyFileFormat(options.FILE_FORMAT);
+    const stage = await this.requireStage(stageParts);
+    const folder = (subPath || '').replace(/^\/+/, '');
+    const files = Array.isArray(options.FILES)
+      ? options.FILES.map(file => path.posix.join(folder, file))
+      : await this.stageFiles(stage.dir, folder);
+    if (files.length === 0) {
+      return statusResult('Copy executed with 0 files processed.');
+    }
+
+    const onError = String(options.ON_ERROR || 'ABORT_STATEMENT').toUpperCase();
+    const byName = String(options.MATCH_BY_COLUMN_NAME || 'NONE').toUpperCase() !== 'NONE';
+    const targetTable = `${quoteIdent(database)}.${quoteIdent(schema)}.${quoteIdent(table)}`;
+    const checkedFiles: Array<{ file: string; sourceTable: string; parsed: number; rejected: number; errors: Record<string, any>[]; insertSql: string }> = [];
+    try {
+      for (const [index, file] of files.entries()) {
+        const sourceTable = quoteIdent(`copy_source_${index}`);
+        const filePath = resolveInside(stage.dir, file);
+        if (!(await fs.stat(filePath).then(stat => stat.isFile(), () => false))) {
+          throw new Error(`Remote file '${stage.stageName.toLowerCase()}/${file}' was not found. There are several potential causes. The file might not exist.`);
+        }
+        await this.connection.run(
+          `CREATE OR REPLACE TEMP TABLE ${sourceTable} AS SELECT row_number() OVER () AS __row, * FROM ${readStagedFile(filePath, format, true)}`
+        );
+        const described = (await this.query(`DESCRIBE ${sourceTable}`)).filter(row => row.column_name !== '__row');
+        const sourceColumns = described.map(row => String(row.column_name));
+        // JSON fields with mixed types are read as JSON text; their values are compared unquoted
+        const jsonColumns = new Set(described.filter(row => row.column_type === 'JSON').map(row => String(row.column_name)));
+        const readValue = (row: Record<string, any>, name: string) => jsonColumns.has(name) && row[name] !== null ? JSON.parse(row[name]) : row[name];
+
+        // Table columns paired with file columns by position, or by name with MATCH_BY_COLUMN_NAME
+        const pairs = columns.map((column, position) => {
+          const source = byName
+            ? sourceColumns.find(name => name.toLowerCase() === String(column.column_name).toLowerCase())
+            : sourceColumns[position];
+          // Empty CSV fields load as NULL
+          const value = !source ? 'NULL'
+            : format.type === 'CSV' ? `NULLIF(${quoteIdent(source)}, '')`
+            : jsonColumns.has(source) ? `(${quoteIdent(source)} ->> '$')`
+            : quoteIdent(source);
+          return { target: String(column.column_name), type: String(column.data_type), source, value };
+        });
+        const countMismatch = !byName && sourceColumns.length !== columns.length;
+        const failedColumn = countMismatch ? '-1' : `CASE ${pairs.map((pair, position) =>
+          `WHEN ${pair.value} IS NOT NULL AND TRY_CAST(${pair.value} AS ${pair.type}) IS NULL THEN ${position + 1}`).join(' ')} ELSE 0 END`;
+
+        const [counts] = await this.query(`SELECT count(*) AS parsed, count(*) FILTER (WHERE ${failedColumn} <> 0) AS rejected FROM ${sourceTable}`);
+        const rejectedRows = await this.query(
+          `SELECT ${failedColumn} AS __failed, * FROM ${sourceTable} WHERE ${failedColumn} <> 0 ORDER BY __row LIMIT ${MAX_LOAD_ERRORS}`
+        );
+        const stageFile = `${stage.stageName.toLowerCase()}/${file}`;
+        const errors = rejectedRows.map(row => {
+          const pair = row.__failed > 0 ? pairs[row.__failed - 1] : undefined;
+          const line = row.__row + (format.type === 'CSV' && format.header ? 1 : 0);
+          return {
+            ERROR: pair
+              ? conversionError(pair.type, readValue(row, pair.source!))
+              : `Number of columns in file (${sourceColumns.length}) does not match that of the corresponding table (${columns.length}), use file format option error_on_column_count_mismatch=false to ignore this error`,
+            FILE: stageFile,
+            LINE: line,
+            CHARACTER: 1,
+            BYTE_OFFSET: null,
+            CATEGORY: pair ? 'conversion' : 'parsing',
+            CODE: pair ? 100038 : 100080,
+            SQL_STATE: pair ? '22018' : '22000',
+            COLUMN_NAME: pair ? `"${table}"["${pair.target}":${row.__failed}]` : null,
+            ROW_NUMBER: row.__row,
+            ROW_START_LINE: line,
+            REJECTED_RECORD: format.type === 'CSV'
+              ? sourceColumns.map(name => row[name] ?? '').join(format.delimiter)
+              : JSON.stringify(Object.fromEntries(sourceColumns.map(name => [name, readValue(row, name)])))
+          };
+        });
+
+        checkedFiles.push({
+          file: stageFile,
+          sourceTable,
+          parsed: Number(counts.parsed),
+          rejected: Number(counts.rejected),
+          errors,
+          insertSql: `INSERT INTO ${targetTable} (${pairs.map(pair => quoteIdent(pair.target)).join(', ')})
+            SELECT ${pairs.map(pair => `TRY_CAST(${pair.value} AS ${pair.type})`).join(', ')} FROM ${sourceTable} WHERE ${failedColumn} = 0`
+        });
+      }
+
+      const firstError = checkedFiles.flatMap(checked => checked.errors)[0];
+      if (onError === 'ABORT_STATEMENT' && firstError) {
+        throw new Error(
+          `${firstError.ERROR}\n  File '${firstError.FILE}', line ${firstError.LINE}, character 1\n  Row ${firstError.ROW_NUMBER}` +
+          `${firstError.COLUMN_NAME ? ` starts at line ${firstError.LINE}, column ${firstError.COLUMN_NAME}` : ''}\n` +
+          `  If you would like to continue loading when an error is encountered, use other values such as 'SKIP_FILE' or 'CONTINUE' for the ON_ERROR option.`
+        );
+      }
+
+      const rows: Record<string, any>[] = [];
+      for (const checked of checkedFiles) {
+        const skipFile = onError.startsWith('SKIP_FILE') && checked.rejected > 0;
+        const loaded = skipFile ? 0 : checked.parsed - checked.rejected;
+        if (loaded > 0) {
+          await this.connection.run(checked.insertSql);
+        }
+        const [first] = checked.errors;
+        rows.push({
+          file: checked.file,
+          status: checked.rejected === 0 ? 'LOADED' : loaded > 0 ? 'PARTIALLY_LOADED' : 'LOAD_FAILED',
+          rows_parsed: checked.parsed,
+          rows_loaded: loaded,
+          error_limit: onError === 'CONTINUE' ? checked.parsed : 1,
+          errors_seen: checked.rejected,
+          first_error: first?.ERROR ?? null,
+          first_error_line: first?.LINE ?? null,
+          first_error_character: first ? 1 : null,
+          first_error_column_name: first?.COLUMN_NAME ?? null
+        });
+      }
+
+      pruneLoadErrors();
+      LOAD_ERRORS.set(statementId, { rows: checkedFiles.flatMap(checked => checked.errors).slice(0, MAX_LOAD_ERRORS), finishedAt: Date.now() });
+      this.lastCopyId = statementId;
+      return withColumns(rows, COPY_COLUMNS);
+    } finally {
+      for (const checked of checkedFiles) {
+        await this.connection.run(`DROP TABLE IF EXISTS ${checked.sourceTable}`).catch(() => undefined);
+      }
+    }
+  }
+
+  // TABLE(INFER_SCHEMA(LOCATION => '@stage/path', FILE_FORMAT => 'name')) is answered from the first matching file
+  private async inferSchemas(sql: string): Promise<string> {
+    const matches = Array.from(sql.matchAll(INFER_SCHEMA_RE));
+    let result = sql;
+    for (const match of matches) {
+      const args: Record<string, string> = {};
+      for (const arg of match[1].matchAll(/(\w+)\s*=>\s*'((?:[^'\\]|''|\\.)*)'/g)) {
+        args[arg[1].toUpperCase()] = unescapeLiteral(arg[2]);
+      }
+      if (!args.LOCATION || !args.FILE_FORMAT) {
+        throw new Error('SQL compilation error:\nINFER_SCHEMA needs the LOCATION and FILE_FORMAT arguments.');
+      }
+
+      const format = await this.getFileFormat(parseQualifiedName(args.FILE_FORMAT));
+      const location = args.LOCATION.match(new RegExp(`^@(${QUALIFIED})(/.*)?$`));
+      if (!location) {
+        throw new Error(`SQL compilation error:\nInvalid stage location '${args.LOCATION}'.`);
+      }
+      const stage = await this.requireStage(parseQualifiedName(location[1]));
+      const [file] = await this.stageFiles(stage.dir, (location[2] || '').replace(/^\/+/, ''));
+      if (!file) {
+        throw new Error(`Remote file '${args.LOCATION}' was not found.`);
+      }
+
+      const described = await this.query(`DESCRIBE SELECT * FROM ${readStagedFile(resolveInside(stage.dir, file), format, false)}`);
+      const rows = described.map((column, index) => {
+        const type = toSnowflakeType(String(column.column_type));
+        const name = format.type === 'CSV' && !format.header ? `c${index + 1}` : String(column.column_name);
+        return {
+          COLUMN_NAME: name,
+          TYPE: type,
+          NULLABLE: true,
+          EXPRESSION: format.type === 'CSV' ? `$${index + 1}::${type}` : `$1:${quoteIdent(name)}::${type}`,
+          FILENAMES: file,
+          ORDER_ID: index
+        };
+      });
+      result = result.replace(match[0], inlineRows(rows, INFER_SCHEMA_COLUMNS));
+    }
+    return result;
+  }
+
+  // TABLE(VALIDATE(table, JOB_ID => 'id')) is answered with the rows that COPY INTO rejected
+  private inlineLoadErrors(sql: string): string {
+    return sql.replace(VALIDATE_RE, (_, _table: string, jobId: string) => {
+      const id = jobId === '_last' ? this.lastCopyId : jobId.replace(/''/g, "'");
+      const job = id ? LOAD_ERRORS.get(id) : undefined;
+      if (!job) {
+        throw new Error(`SQL compilation error:\nInvalid argument [${jobId}] for function VALIDATE: no COPY INTO job with that ID.`);
+      }
+      return inlineRows(job.rows, VALIDATE_COLUMNS);
+    });
+  }
+
+  private async getFileFormat(parts: string[]): Promise<LocalFileFormat> {
+    const key = (await this.qualify(parts, 3)).join('.');
+    const format = FILE_FORMATS.get(key);
+    if (!format) {
+      throw new Error(`SQL compilation error:\nFile format '${key}' does not exist or not authorized.`);
+    }
+    return format;
+  }
+
+  // FILE_FORMAT = (TYPE = CSV ...) or (FORMAT_NAME = 'name'); CSV when not given
+  private async resolveCopyFileFormat(value: CopyOptionValue | undefined): Promise<LocalFileFormat> {
+    if (!value || typeof value === 'string' || Array.isArray(value)) {
+      return toFileFormat({});
+    }
+    return typeof value.FORMAT_NAME === 'string' ? await this.getFileFormat(parseQualifiedName(value.FORMAT_NAME)) : toFileFormat(value);
+  }
+
+  // Files at a stage path: the file itself, or every file under the folder
+  private async stageFiles(stageDir: string, prefix: string): Promise<string[]> {
+    const files = await listFilesRecursive(stageDir);
+    return files.filter(file => !prefix || file === prefix || file.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`));
+  }
+
+  private async requireStage(parts: string[]): Promise<{ name: string; stageName: string; dir: string }> {
+    const stage = await this.resolveStage(parts);
+    const exists = await fs.stat(stage.dir).then(() => true, () => false);
+    if (!exists) {
+      throw new Error(`SQL compilation error:\nStage '${stage.name}' does not exist or not authorized.`);
+    }
+    return stage;
+  }
+
+  private async resolveStage(parts: string[]): Promise<{ name: string; stageName: string; dir: string }> {
+    const [database, schema, stageName] = await this.qualify(parts, 3);
+    [database, schema, stageName].forEach(assertSafeName);
+    return {
+      name: `${database}.${schema}.${stageName}`,
+      stageName,
+      dir: path.join(STAGES_DIR, database, schema, stageName)
+    };
+  }
+}
+
+// =============================================================================
+// CONNECTION - the snowflake-sdk surface used by SnowflakeService
+// =============================================================================
+
+export class LocalSnowflakeConnection {
+  private session: LocalSnowflakeSession | null = null;
+
+  constructor(private options: LocalConnectionOptions = {}) {}
+
+  connect(callback: (err: Error | undefined, conn: LocalSnowflakeConnection) => void): void {
+    openLocalSession(this.options).then(
+      session => {
+        this.session = session;
+        callback(undefined, this);
+      },
+      error => callback(error instanceof Error ? error : new Error(String(error)), this)
+    );
+  }
+
+  // With asyncExec, complete fires once the statement is queued and its outcome is read back by query id
+  execute(options: {
+    sqlText: string;
+    asyncExec?: boolean;
+    complete: (err: Error | undefined, stmt: LocalStatement, rows?: any[]) => void;
+  }): LocalStatement {
+    const statementId = crypto.randomUUID();
+    const session = this.session;
+    let columns: string[] = [];
+    let finished = false;
+    const stmt: LocalStatement = {
+      getColumns: () => columns.map(name => ({ getName: () => name })),
+      getStatementId: () => statementId,
+      getQueryId: () => statementId,
+      getSqlText: () => options.sqlText,
+      cancel: (callback) => {
+        if (!finished) session?.cancel(statementId);
+        callback?.(undefined, stmt);
+      }
+    };
+
+    if (!session) {
+      finished = true;
+      setImmediate(() => options.complete(new Error('Unable to perform operation using terminated connection.'), stmt));
+      return stmt;
+    }
+
+    RUNNING_STATEMENTS.set(statementId, stmt);
+    const execution = session.execute(options.sqlText, statementId).finally(() => {
+      finished = true;
+      RUNNING_STATEMENTS.delete(statementId);
+    });
+
+    if (options.asyncExec) {
+      pruneAsyncQueries();
+      const entry: { status: LocalQueryStatus; result?: LocalQueryResult; error?: Error; finishedAt?: number } = { status: 'RUNNING' };
+      ASYNC_QUERIES.set(statementId, entry);
+      execution.then(
+        result => Object.assign(entry, { status: 'SUCCESS', result, finishedAt: Date.now() }),
+        error => Object.assign(entry, {
+          status: /cancel|interrupt/i.test(String(error?.message)) ? 'ABORTED' : 'FAILED_WITH_ERROR',
+          error: error instanceof Error ? error : new Error(String(error)),
+          finishedAt: Date.now()
+        })
+      );
+      setImmediate(() => options.complete(undefined, stmt));
+      return stmt;
+    }
+
+    execution.then(
+      result => {
+        columns = result.columns;
+        options.complete(undefined, stmt, result.rows);
+      },
+      error => options.complete(error instanceof Error ? error : new Error(String(error)), stmt)
+    );
+    return stmt;
+  }
+
+  async getQueryStatus(queryId: string): Promise<LocalQueryStatus> {
+    return ASYNC_QUERIES.get(queryId)?.status ?? 'NO_DATA';
+  }
+
+  async getQueryStatusThrowIfError(queryId: string): Promise<LocalQueryStatus> {
+    const entry = ASYNC_QUERIES.get(queryId);
+    if (!entry) {
+      throw new Error(`No data found for query ${queryId}.`);
+    }
+    if (entry.status === 'FAILED_WITH_ERROR' || entry.status === 'ABORTED') {
+      throw entry.error || new Error(`Query ${queryId} failed.`);
+    }
+    return entry.status;
+  }
+
+  isStillRunning(status: LocalQueryStatus): boolean {
+    return status === 'RUNNING';
+  }
+
+  // Waits for the query like the driver does, then completes with the buffered rows
+  async getResultsFromQueryId(options: {
+    queryId: string;
+    complete?: (err: Error | undefined, stmt: LocalStatement, rows?: any[]) => void;
+  }): Promise<LocalStatement> {
+    while ((await this.getQueryStatusThrowIfError(options.queryId)) === 'RUNNING') {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    const result = ASYNC_QUERIES.get(options.queryId)!.result!;
+    const stmt: LocalStatement = {
+      getColumns: () => result.columns.map(name => ({ getName: () => name })),
+      getStatementId: () => options.queryId,
+      getQueryId: () => options.queryId,
+      getSqlText: () => '',
+      cancel: (callback) => callback?.(undefined, stmt)
+    };
+    setImmediate(() => options.complete?.(undefined, stmt, result.rows));
+    return stmt;
+  }
+
+  destroy(callback?: (err: Error | undefined, conn: LocalSnowflakeConnection) => void): void {
+    this.session?.close();
+    this.session = null;
+    callback?.(undefined, this);
+  }
+
+  isUp(): boolean {
+    return this.session !== null;
+  }
+}
+
+async function openLocalSession(options: LocalConnectionOptions): Promise<LocalSnowflakeSession> {
+  const instance = await getLocalInstance();
+  const session = new LocalSnowflakeSession(await instance.connect(), options);
+  try {
+    await session.initialize();
+  } catch (error) {
+    session.close();
+    throw error;
+  }
+  return session;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+// Split a dotted name; unquoted parts are upper-cased like Snowflake identifiers
+function parseQualifiedName(text: string): string[] {
+  const parts = text.match(new RegExp(IDENT, 'g')) || [];
+  return parts.map(part => part.startsWith('"') ? part.slice(1, -1).replace(/""/g, '"') : part.toUpperCase());
+}
+
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// Object names become file and directory names, so keep them on a single path segment
+function assertSafeName(name: string): void {
+  if (!name || name === '.' || name === '..' || /[\\/\0]/.test(name)) {
+    throw new Error(`SQL compilation error:\nInvalid identifier '${name}'.`);
+  }
+}
+
+function resolveInside(baseDir: string, relativePath: string): string {
+  const resolved = path.resolve(baseDir, relativePath.replace(/^\/+/, ''));
+  if (!resolved.startsWith(path.resolve(baseDir) + path.sep)) {
+    throw new Error(`Invalid stage path: ${relativePath}`);
+  }
+  return resolved;
+}
+
+// Contents of a Snowflake string literal: '' and backslash escapes
+function unescapeLiteral(text: string): string {
+  const escapes: Record<string, string> = { t: '\t', n: '\n', r: '\r', '0': '\0' };
+  return text.replace(/''|\\(.)/g, (match, char: string | undefined) => char === undefined ? "'" : escapes[char] ?? char);
+}
+
+function isTrue(value: CopyOptionValue | undefined): boolean {
+  return typeof value === 'string' && value.toUpperCase() === 'TRUE';
+}
+
+// Options as KEY = 'text', KEY = word, KEY = ('a', 'b') or KEY = (NESTED = options)
+function parseCopyOptions(text: string): CopyOptions {
+  const options: CopyOptions = {};
+  const optionRe = /\s*([A-Za-z_]+)\s*=\s*('(?:[^'\\]|''|\\.)*'|\((?:'(?:[^'\\]|''|\\.)*'|[^()'])*\)|[^\s()]+)/y;
+  let end = 0;
+  let match: RegExpExecArray | null;
+  while ((match = optionRe.exec(text))) {
+    end = optionRe.lastIndex;
+    const [, name, value] = match;
+    if (value.startsWith("'")) {
+      options[name.toUpperCase()] = unescapeLiteral(value.slice(1, -1));
+    } else if (value.startsWith('(')) {
+      const inner = value.slice(1, -1);
+      options[name.toUpperCase()] = /^\s*[A-Za-z_]+\s*=/.test(inner)
+        ? parseCopyOptions(inner)
+        : Array.from(inner.matchAll(/'((?:[^'\\]|''|\\.)*)'/g), item => unescapeLiteral(item[1]));
+    } else {
+      options[name.toUpperCase()] = value;
+    }
+  }
+  const rest = text.slice(end).trim();
+  if (rest) {
+    throw new Error(`SQL compilation error:\nsyntax error unexpected '${rest.split(/\s+/)[0]}'.`);
+  }
+  return options;
+}
+
+function toFileFormat(options: CopyOptions): LocalFileFormat {
+  const type = String(options.TYPE || 'CSV').toUpperCase();
+  if (type !== 'CSV' && type !== 'JSON' && type !== 'PARQUET') {
+    throw new Error(`SQL compilation error:\nFile format type ${type} is not supported by the local stand-in.`);
+  }
+  const quote = options.FIELD_OPTIONALLY_ENCLOSED_BY;
+  return {
+    type,
+    delimiter: typeof options.FIELD_DELIMITER === 'string' ? options.FIELD_DELIMITER : ',',
+    quote: typeof quote === 'string' && quote.toUpperCase() !== 'NONE' ? quote : undefined,
+    // SKIP_HEADER skips one line at most here
+    header: isTrue(options.PARSE_HEADER) || Number(options.SKIP_HEADER || 0) > 0
+  };
+}
+
+// DuckDB table function over a staged file; CSV values stay text for loading, so each row can be checked
+function readStagedFile(filePath: string, format: LocalFileFormat, asText: boolean): string {
+  switch (format.type) {
+    case 'CSV':
+      return `read_csv(${quoteLiteral(filePath)}, delim = ${quoteLiteral(format.delimiter)}, header = ${format.header}` +
+        `${format.quote ? `, quote = ${quoteLiteral(format.quote)}` : ''}, sample_size = -1${asText ? ', all_varchar = true' : ''})`;
+    case 'JSON':
+      return `read_json(${quoteLiteral(filePath)}, format = 'auto', sample_size = -1)`;
+    case 'PARQUET':
+      return `read_parquet(${quoteLiteral(filePath)})`;
+  }
+}
+
+// Snowflake's message for a value that does not fit its column
+function conversionError(duckType: string, value: unknown): string {
+  const type = duckType.toUpperCase();
+  const text = typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+  if (/^(DECIMAL|U?(TINYINT|SMALLINT|INTEGER|BIGINT|HUGEINT)|FLOAT|DOUBLE|REAL)/.test(type)) return `Numeric value '${text}' is not recognized`;
+  if (type === 'DATE') return `Date '${text}' is not recognized`;
+  if (type.startsWith('TIMESTAMP')) return `Timestamp '${text}' is not recognized`;
+  if (type.startsWith('TIME')) return `Time '${text}' is not recognized`;
+  if (type === 'BOOLEAN') return `Boolean value '${text}' is not recognized`;
+  return `Value '${text}' cannot be converted to ${toSnowflakeType(duckType)}`;
+}
+
+// Snowflake column types in CREATE TABLE, as DuckDB spells them
+function toDuckDBTypes(sql: string): string {
+  return sql.replace(SNOWFLAKE_TYPE_RE, (_, before: string, type: string, precision?: string, scale?: string) => {
+    switch (type.toUpperCase()) {
+      case 'NUMBER': return `${before}DECIMAL(${precision || 38},${scale || 0})`;
+      case 'TIMESTAMP_NTZ': return `${before}TIMESTAMP`;
+      case 'TIMESTAMP_LTZ':
+      case 'TIMESTAMP_TZ': return `${before}TIMESTAMPTZ`;
+      case 'TIME': return `${before}TIME`;
+      case 'BINARY':
+      case 'VARBINARY': return `${before}BLOB`;
+      default: return `${before}JSON`; // VARIANT, OBJECT, ARRAY
+    }
+  });
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => (char === '%' ? '.*' : char === '_' ? '.' : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function cancelQuery(queryId: string): LocalQueryResult {
+  const stmt = RUNNING_STATEMENTS.get(queryId);
+  if (!stmt) {
+    throw new Error(`SQL execution error: Query ${queryId} is not running.`);
+  }
+  stmt.cancel();
+  return { columns: [`SYSTEM$CANCEL_QUERY('${queryId}')`], rows: [{ [`SYSTEM$CANCEL_QUERY('${queryId}')`]: `query [${queryId}] terminated.` }] };
+}
+
+function pruneLoadErrors(): void {
+  const cutoff = Date.now() - ASYNC_RESULT_TTL_MS;
+  for (const [queryId, entry] of LOAD_ERRORS) {
+    if (entry.finishedAt < cutoff) {
+      LOAD_ERRORS.delete(queryId);
+    }
+  }
+}
+
+function pruneAsyncQueries(): void {
+  const cutoff = Date.now() - ASYNC_RESULT_TTL_MS;
+  for (const [queryId, entry] of ASYNC_QUERIES) {
+    if (entry.finishedAt !== undefined && entry.finishedAt < cutoff) {
+      ASYNC_QUERIES.delete(queryId);
+    }
+  }
+}
+
+function statusResult(status: string): LocalQueryResult {
+  return { columns: ['status'], rows: [{ status }] };
+}
+
+function withColumns(rows: Record<string, any>[], columns: string[]): LocalQueryResult {
+  return { columns, rows };
+}
+
+// snowflake-sdk hands back plain numbers; BIGINT values outside the safe range become strings
+function toSnowflakeRow(row: Record<string, any>): Record<string, any> {
+  const converted: Record<string, any> = {};
+  for (const [key, value] of Object.entries(row)) {
+    converted[key] = toSnowflakeValue(value);
+  }
+  return converted;
+}
+
+function toSnowflakeValue(value: any): any {
+  if (typeof value === 'bigint') {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toSnowflakeValue);
+  }
+  return value;
+}
+
+function toSnowflakeType(duckType: string): string {
+  const type = duckType.toUpperCase();
+  const decimal = type.match(/^DECIMAL\((\d+),\s*(\d+)\)$/);
+  if (decimal) return `NUMBER(${decimal[1]},${decimal[2]})`;
+  if (/^U?(TINYINT|SMALLINT|INTEGER|BIGINT|HUGEINT)$/.test(type)) return 'NUMBER(38,0)';
+  if (/^(FLOAT|DOUBLE|REAL)$/.test(type)) return 'FLOAT';
+  if (type.startsWith('VARCHAR')) return 'VARCHAR(16777216)';
+  if (type === 'BOOLEAN') return 'BOOLEAN';
+  if (type === 'DATE') return 'DATE';
+  if (type.startsWith('TIME') && !type.startsWith('TIMESTAMP')) return 'TIME(9)';
+  if (type === 'TIMESTAMP WITH TIME ZONE') return 'TIMESTAMP_TZ(9)';
+  if (type.startsWith('TIMESTAMP')) return 'TIMESTAMP_NTZ(9)';
+  if (type === 'BLOB') return 'BINARY(8388608)';
+  if (type.endsWith('[]')) return 'ARRAY';
+  if (type === 'JSON' || type.startsWith('STRUCT') || type.startsWith('MAP')) return 'VARIANT';
+  return type;
+}
+
+// Rows as an inline table for DuckDB; an empty listing still has its columns
+function inlineRows(rows: Record<string, any>[], columns: string[]): string {
+  const literal = (value: any) => value === null || value === undefined ? 'NULL'
+    : typeof value === 'number' || typeof value === 'boolean' ? String(value).toUpperCase()
+    : value instanceof Date ? `TIMESTAMP ${quoteLiteral(value.toISOString().replace('T', ' ').replace('Z', ''))}`
+    : quoteLiteral(String(value));
+  if (rows.length === 0) {
+    return `(SELECT ${columns.map(column => `NULL AS ${column}`).join(', ')} WHERE false)`;
+  }
+  const values = rows.map(row => `(${columns.map(column => literal(row[column])).join(', ')})`).join(',\n');
+  return `(SELECT * FROM (VALUES ${values}) AS information_schema_rows(${columns.join(', ')}))`;
+}
+
+async function fileCreatedOn(filePath: string | null): Promise<Date | null> {
+  if (!filePath) return null;
+  return await fs.stat(filePath).then(stat => stat.birthtime, () => null);
+}
+
+async function listDirectories(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  return entries.filter(entry => entry.isDirectory()).map(entry => entry.name).sort();
+}
+
+async function listFilesRecursive(dir: string, prefix = ''): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...await listFilesRecursive(path.join(dir, entry.name), relativePath));
+    } else {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
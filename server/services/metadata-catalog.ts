@@ -0,0 +1,218 @@
+/**
+ * Metadata Catalog
+ * Databases, schemas, tables and columns of each connection, kept in SQLite and reused until
+ * they are older than CATALOG_TTL_MS or refreshed explicitly. A schema's tables (with row
+ * counts, comments and last-altered times), columns and foreign keys are read together from
+ * INFORMATION_SCHEMA the first time anything in it is needed, so the catalog fills in
+ * schema by schema as users and the agent move around.
+ */
+
+import type { CatalogColumn, CatalogForeignKey, CatalogScope, CatalogScopeKind, CatalogTable } from '@shared/schema';
+import { storage } from '../storage';
+import type { DataSource, DataSourceColumn } from './data-source';
+
+export interface CatalogReadOptions {
+  refresh?: boolean; // read from the source even when the cached listing is fresh
+}
+
+// Where a listing lives; empty names stand for the source's defaults
+interface CatalogLocation {
+  database: string;
+  schema: string;
+}
+
+const DEFAULT_CATALOG_TTL_MS = 60 * 60 * 1000;
+const CATALOG_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // catalogs not refreshed for this long are removed
+const CATALOG_PRUNE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+function toDataSourceColumn(column: CatalogColumn): DataSourceColumn {
+  return {
+    name: column.name,
+    type: column.type,
+    nullable: column.nullable,
+    default: column.defaultValue,
+    comment: column.comment || undefined
+  };
+}
+
+export class MetadataCatalogService {
+  private loading = new Map<string, Promise<void>>();
+
+  constructor() {
+    setInterval(() => {
+      storage.deleteStaleCatalogs(new Date(Date.now() - CATALOG_RETENTION_MS))
+        .catch(error => console.error('Failed to prune metadata catalogs:', error));
+    }, CATALOG_PRUNE_INTERVAL_MS).unref();
+  }
+
+  getTtlMs(): number {
+    const value = Number(process.env.CATALOG_TTL_MS);
+    return process.env.CATALOG_TTL_MS && Number.isFinite(value) && value >= 0 ? value : DEFAULT_CATALOG_TTL_MS;
+  }
+
+  async getDatabases(source: DataSource, options: CatalogReadOptions = {}): Promise<string[]> {
+    return await this.readNames(source, 'databases', '', () => source.listDatabases(), options);
+  }
+
+  async getSchemas(source: DataSource, database?: string, options: CatalogReadOptions = {}): Promise<string[]> {
+    const { database: target } = this.locate(source, database);
+    return await this.readNames(source, 'schemas', target, () => source.listSchemas(target || undefined), options);
+  }
+
+  async getTables(source: DataSource, database?: string, schema?: string, options: CatalogReadOptions = {}): Promise<CatalogTable[]> {
+    const location = await this.ensureSchema(source, database, schema, options);
+    return await storage.getCatalogTables(source.connectionId, location.database, location.schema);
+  }
+
+  /**
+   * Columns of one table; tables created since the last refresh are described live
+   */
+  async getColumns(source: DataSource, table: string, database?: string, schema?: string, options: CatalogReadOptions = {}): Promise<DataSourceColumn[]> {
+    const location = await this.ensureSchema(source, database, schema, options);
+    let columns = await storage.getCatalogColumns(source.connectionId, location.database, location.schema, table);
+    if (columns.length === 0) {
+      // Unquoted names may differ in case from how the source stores them
+      const tables = await storage.getCatalogTables(source.connectionId, location.database, location.schema);
+      const match = tables.find(candidate => candidate.name.toLowerCase() === table.toLowerCase());
+      if (match) {
+        columns = await storage.getCatalogColumns(source.connectionId, location.database, location.schema, match.name);
+      }
+    }
+    if (columns.length === 0) {
+      return await source.describeTable(table, location.database || undefined, location.schema || undefined);
+    }
+    return columns.map(toDataSourceColumn);
+  }
+
+  /**
+   * Every table of a schema with its columns and foreign keys, for ranking in generate_sql
+   */
+  async getSchema(source: DataSource, database?: string, schema?: string, options: CatalogReadOptions = {}): Promise<{
+    location: CatalogLocation;
+    tables: CatalogTable[];
+    columns: Record<string, DataSourceColumn[]>;
+    foreignKeys: CatalogForeignKey[];
+  }> {
+    const location = await this.ensureSchema(source, database, schema, options);
+    const [tables, columns, scope] = await Promise.all([
+      storage.getCatalogTables(source.connectionId, location.database, location.schema),
+      storage.getCatalogColumns(source.connectionId, location.database, location.schema),
+      storage.getCatalogScope(source.connectionId, 'tables', location.database, location.schema)
+    ]);
+    const byTable: Record<string, DataSourceColumn[]> = {};
+    for (const column of columns) {
+      (byTable[column.tableName] ||= []).push(toDataSourceColumn(column));
+    }
+    return { location, tables, columns: byTable, foreignKeys: scope?.foreignKeys || [] };
+  }
+
+  /**
+   * Mark cached listings stale, for the whole connection or one database or schema;
+   * they are read again from the source on next use
+   */
+  async refresh(connectionId: string, database?: string, schema?: string): Promise<void> {
+    await storage.expireCatalogScopes(connectionId, database, schema);
+  }
+
+  private locate(source: DataSource, database?: string, schema?: string): CatalogLocation {
+    const info = source.getInfo();
+    return { database: database || info.database || '', schema: schema || info.schema || '' };
+  }
+
+  private isFresh(scope: CatalogScope | undefined): scope is CatalogScope {
+    return !!scope && Date.now() - scope.refreshedAt.getTime() < this.getTtlMs();
+  }
+
+  private async readNames(
+    source: DataSource,
+    kind: 'databases' | 'schemas',
+    database: string,
+    list: () => Promise<string[]>,
+    options: CatalogReadOptions
+  ): Promise<string[]> {
+    const scope = await storage.getCatalogScope(source.connectionId, kind, database);
+    if (!options.refresh && this.isFresh(scope)) {
+      return scope.names || [];
+    }
+
+    await this.load(source, kind, database, '', scope, async () => {
+      await storage.saveCatalogNames(source.connectionId, kind, database, await list());
+    });
+    // Read back, since the load may have been started by another caller
+    const current = await storage.getCatalogScope(source.connectionId, kind, database);
+    return current?.names || [];
+  }
+
+  private async ensureSchema(source: DataSource, database: string | undefined, schema: string | undefined, options: CatalogReadOptions): Promise<CatalogLocation> {
+    const location = this.locate(source, database, schema);
+    const scope = await storage.getCatalogScope(source.connectionId, 'tables', location.database, location.schema);
+    if (!options.refresh && this.isFresh(scope)) {
+      return location;
+    }
+
+    await this.load(source, 'tables', location.database, location.schema, scope, async () => {
+      const catalog = await source.readSchemaCatalog(location.database || undefined, location.schema || undefined);
+      // Join hints are a bonus; sources or roles that cannot list constraints still get a catalog
+      const foreignKeys = await source.listForeignKeys(location.database || undefined, location.schema || undefined).catch(error => {
+        console.warn(`Foreign keys unavailable for ${source.connectionId}:`, error instanceof Error ? error.message : error);
+        return [];
+      });
+      await storage.saveCatalogSchema(
+        source.connectionId,
+        location.database,
+        location.schema,
+        catalog.tables.map(table => ({
+          name: table.name,
+          kind: table.kind,
+          comment: table.comment ?? null,
+          rowCount: table.rowCount ?? null,
+          bytes: table.bytes ?? null,
+          lastAltered: table.lastAltered ?? null
+        })),
+        Object.entries(catalog.columns).flatMap(([tableName, columns]) => columns.map((column, index) => ({
+          tableName,
+          name: column.name,
+          position: index + 1,
+          type: column.type,
+          nullable: column.nullable,
+          defaultValue: column.default == null ? null : String(column.default),
+          comment: column.comment ?? null
+        }))),
+        foreignKeys
+      );
+    });
+    return location;
+  }
+
+  /**
+   * Run one load per listing at a time; when the source fails, the last good listing is used
+   * if there is one
+   */
+  private async load(
+    source: DataSource,
+    kind: CatalogScopeKind,
+    database: string,
+    schema: string,
+    cached: CatalogScope | undefined,
+    read: () => Promise<void>
+  ): Promise<void> {
+    const key = [source.connectionId, kind, database, schema].join('\u0000');
+    let pending = this.loading.get(key);
+    if (!pending) {
+      pending = read().finally(() => this.loading.delete(key));
+      this.loading.set(key, pending);
+    }
+
+    try {
+      await pending;
+    } catch (error) {
+      if (!cached) {
+        throw error;
+      }
+      console.warn(`Using cached ${kind} for ${source.connectionId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+// Global metadata catalog instance
+export const metadataCatalogService = new MetadataCatalogService();
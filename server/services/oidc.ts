@@ -0,0 +1,164 @@
+/**
+ * OIDC Sign-in
+ * Authorization code flow with PKCE against any OpenID Connect provider (Okta, Entra ID,
+ * Google, Keycloak...). The ID token is taken straight from the token endpoint over
+ * TLS, so its claims are checked (issuer, audience, expiry, nonce) but not its signature.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+}
+
+// State kept in the login session between the redirect and the callback
+export interface OidcPendingLogin {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+}
+
+export interface OidcProfile {
+  issuer: string;
+  subject: string;
+  username: string;
+  displayName?: string;
+}
+
+const base64url = (buffer: Buffer) => buffer.toString('base64url');
+
+export class OidcService {
+  private discovery?: Promise<OidcDiscovery>;
+
+  isEnabled(): boolean {
+    return !!(process.env.OIDC_ISSUER_URL && process.env.OIDC_CLIENT_ID);
+  }
+
+  getProviderName(): string {
+    return process.env.OIDC_PROVIDER_NAME || 'Single sign-on';
+  }
+
+  /**
+   * Build the provider's authorization URL; the pending login must be kept for the callback
+   */
+  async createLogin(redirectUri: string): Promise<{ url: string; pending: OidcPendingLogin }> {
+    const config = await this.getDiscovery();
+    const pending: OidcPendingLogin = {
+      state: base64url(randomBytes(16)),
+      nonce: base64url(randomBytes(16)),
+      codeVerifier: base64url(randomBytes(32)),
+      redirectUri: process.env.OIDC_REDIRECT_URI || redirectUri
+    };
+
+    const url = new URL(config.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: process.env.OIDC_CLIENT_ID!,
+      redirect_uri: pending.redirectUri,
+      scope: process.env.OIDC_SCOPES || 'openid profile email',
+      state: pending.state,
+      nonce: pending.nonce,
+      code_challenge: base64url(createHash('sha256').update(pending.codeVerifier).digest()),
+      code_challenge_method: 'S256'
+    }).toString();
+    return { url: url.toString(), pending };
+  }
+
+  /**
+   * Exchange the callback's code for tokens and return who signed in
+   */
+  async completeLogin(query: Record<string, unknown>, pending: OidcPendingLogin): Promise<OidcProfile> {
+    if (query.error) {
+      throw new Error(`Sign-in was rejected: ${query.error_description || query.error}`);
+    }
+    if (typeof query.code !== 'string' || query.state !== pending.state) {
+      throw new Error('Sign-in response does not match the login request');
+    }
+
+    const config = await this.getDiscovery();
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: query.code,
+      redirect_uri: pending.redirectUri,
+      client_id: process.env.OIDC_CLIENT_ID!,
+      code_verifier: pending.codeVerifier
+    });
+    if (process.env.OIDC_CLIENT_SECRET) {
+      body.set('client_secret', process.env.OIDC_CLIENT_SECRET);
+    }
+
+    const response = await fetch(config.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body
+    });
+    const tokens = await response.json() as { id_token?: string; access_token?: string; error?: string; error_description?: string };
+    if (!response.ok || !tokens.id_token) {
+      throw new Error(`Token exchange failed: ${tokens.error_description || tokens.error || response.statusText}`);
+    }
+
+    const claims = this.readIdToken(tokens.id_token, config.issuer, pending.nonce);
+    let profile: Record<string, any> = claims;
+    if (!claims.preferred_username && !claims.email && config.userinfo_endpoint && tokens.access_token) {
+      const userinfo = await fetch(config.userinfo_endpoint, { headers: { Authorization: `Bearer ${tokens.access_token}` } });
+      if (userinfo.ok) {
+        profile = { ...(await userinfo.json()), ...claims };
+      }
+    }
+
+    return {
+      issuer: config.issuer,
+      subject: String(claims.sub),
+      username: String(profile.preferred_username || profile.email || claims.sub),
+      displayName: profile.name || undefined
+    };
+  }
+
+  private readIdToken(idToken: string, issuer: string, nonce: string): Record<string, any> {
+    const [, payload] = idToken.split('.');
+    if (!payload) {
+      throw new Error('Malformed ID token');
+    }
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+    if (claims.iss !== issuer) {
+      throw new Error(`ID token issuer ${claims.iss} does not match ${issuer}`);
+    }
+    if (!audiences.includes(process.env.OIDC_CLIENT_ID)) {
+      throw new Error('ID token was issued for a different client');
+    }
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) {
+      throw new Error('ID token has expired');
+    }
+    if (claims.nonce !== nonce) {
+      throw new Error('ID token nonce does not match the login request');
+    }
+    if (!claims.sub) {
+      throw new Error('ID token has no subject');
+    }
+    return claims;
+  }
+
+  private getDiscovery(): Promise<OidcDiscovery> {
+    if (!this.discovery) {
+      const issuer = process.env.OIDC_ISSUER_URL!.replace(/\/$/, '');
+      this.discovery = fetch(`${issuer}/.well-known/openid-configuration`).then(async response => {
+        if (!response.ok) {
+          throw new Error(`OIDC discovery failed for ${issuer}: ${response.status} ${response.statusText}`);
+        }
+        return await response.json() as OidcDiscovery;
+      });
+      // Retry discovery on the next login instead of caching the failure
+      this.discovery.catch(() => { this.discovery = undefined; });
+    }
+    return this.discovery;
+  }
+}
+
+// Global OIDC instance
+export const oidcService = new OidcService();
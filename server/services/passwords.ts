@@ -0,0 +1,53 @@
+/**
+ * Passwords
+ * scrypt hashes stored as `scrypt:<salt>:<key>` (hex) in users.password
+ */
+
+import { randomBytes, scrypt, scryptSync, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keyLength: number) => Promise<Buffer>;
+
+const HASH_PREFIX = 'scrypt';
+const KEY_LENGTH = 64;
+
+export function isPasswordHash(value: string | null | undefined): boolean {
+  return !!value && value.startsWith(`${HASH_PREFIX}:`) && value.split(':').length === 3;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${HASH_PREFIX}:${salt}:${key.toString('hex')}`;
+}
+
+// For startup migrations, which run before the event loop matters
+export function hashPasswordSync(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  return `${HASH_PREFIX}:${salt}:${scryptSync(password, salt, KEY_LENGTH).toString('hex')}`;
+}
+
+/**
+ * Constant-time check of a password against a stored hash; anything that is not a
+ * hash (empty for OIDC-only users) never matches
+ */
+export async function verifyPassword(password: string, stored: string | null | undefined): Promise<boolean> {
+  if (!isPasswordHash(stored)) {
+    return false;
+  }
+  const [, salt, keyHex] = stored!.split(':');
+  const expected = Buffer.from(keyHex, 'hex');
+  const actual = await scryptAsync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// For startup migrations, like hashPasswordSync
+export function verifyPasswordSync(password: string, stored: string | null | undefined): boolean {
+  if (!isPasswordHash(stored)) {
+    return false;
+  }
+  const [, salt, keyHex] = stored!.split(':');
+  const expected = Buffer.from(keyHex, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
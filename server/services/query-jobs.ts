@@ -0,0 +1,322 @@
+/**
+ * Query Jobs
+ * Long-running queries run as jobs: Snowflake executes them asynchronously on the
+ * warehouse, other sources in process. Status and result rows are kept in SQLite so
+ * a job can be polled, subscribed to and paged after the request that started it is gone
+ */
+
+import type { QueryJob } from '@shared/schema';
+import { storage } from '../storage';
+import { dataSourceService, type DataSource, type DataSourceQueryResult, type QueryScope } from './data-source';
+import { queryLimitService, describeTruncation } from './query-limits';
+import type { ClassifiedStatement } from './sql-guard';
+
+export type QueryJobListener = (job: QueryJob) => void;
+
+// A settled job, with the rows still in memory for the caller that waited for it
+export interface QueryJobOutcome {
+  job: QueryJob;
+  result?: DataSourceQueryResult;
+}
+
+export type QueryJobSubmission =
+  | { refused: false; job: QueryJob }
+  | { refused: true; reason: string };
+
+export interface QueryJobResultPage {
+  jobId: string;
+  columns: string[];
+  rows: Record<string, any>[];
+  offset: number;
+  limit: number;
+  totalRows: number;
+  hasMore: boolean;
+}
+
+const DEFAULT_HANDOFF_MS = 10000;
+const FIRST_POLL_MS = 250;
+const MAX_POLL_MS = 2000;
+export const DEFAULT_RESULT_PAGE_SIZE = 100;
+export const MAX_RESULT_PAGE_SIZE = 1000;
+
+type ServerJobSource = DataSource & Required<Pick<DataSource, 'submitQuery' | 'isQueryRunning' | 'fetchQueryResult'>>;
+
+function supportsServerJobs(source: DataSource): source is ServerJobSource {
+  return !!(source.submitQuery && source.isQueryRunning && source.fetchQueryResult);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class QueryJobService {
+  private listeners = new Map<string, Set<QueryJobListener>>();
+  private runs = new Map<string, Promise<QueryJobOutcome>>(); // jobs executing in this process
+  private controllers = new Map<string, AbortController>(); // in-process executions
+  private cancelRequested = new Set<string>();
+
+  /**
+   * How long execute_sql waits for a result before handing back the job instead
+   */
+  getHandoffMs(): number {
+    const configured = Number(process.env.QUERY_JOB_HANDOFF_MS);
+    return process.env.QUERY_JOB_HANDOFF_MS && Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_HANDOFF_MS;
+  }
+
+  /**
+   * Start a statement the SQL guard allowed as a job, within the connection's limits,
+   * in the scope's database and schema
+   */
+  async submit(
+    source: DataSource,
+    statement: ClassifiedStatement,
+    owner: { sessionId?: string; userId?: string } = {},
+    scope: QueryScope = {}
+  ): Promise<QueryJobSubmission> {
+    const prepared = await queryLimitService.prepare(source, statement, scope);
+    if (prepared.refused) {
+      return { refused: true, reason: prepared.reason };
+    }
+
+    const job = await storage.createQueryJob({
+      connectionId: source.connectionId,
+      sessionId: owner.sessionId,
+      userId: owner.userId,
+      sqlText: prepared.sql,
+      status: 'running',
+      warnings: prepared.warnings
+    });
+    this.track(job.id, this.run(job, source, prepared.limits.maxRows, scope));
+    return { refused: false, job };
+  }
+
+  async get(jobId: string): Promise<QueryJob | undefined> {
+    return await storage.getQueryJob(jobId);
+  }
+
+  /**
+   * Wait up to timeoutMs for a job; one that is still running is returned as it is
+   */
+  async wait(jobId: string, timeoutMs: number): Promise<QueryJobOutcome> {
+    const run = this.runs.get(jobId);
+    if (run) {
+      const timedOut = new Promise<undefined>(resolve => {
+        const timer = setTimeout(resolve, timeoutMs);
+        run.then(() => clearTimeout(timer), () => clearTimeout(timer));
+      });
+      const outcome = await Promise.race([run, timedOut]);
+      if (outcome) {
+        return outcome;
+      }
+    }
+
+    const job = await storage.getQueryJob(jobId);
+    if (!job) {
+      throw new Error(`Query job not found: ${jobId}`);
+    }
+    return { job, result: job.status === 'succeeded' ? await this.loadResult(job) : undefined };
+  }
+
+  /**
+   * Settles with the job's outcome when it is executing in this process
+   */
+  whenSettled(jobId: string): Promise<QueryJobOutcome> | undefined {
+    return this.runs.get(jobId);
+  }
+
+  async cancel(jobId: string): Promise<QueryJob | undefined> {
+    const job = await storage.getQueryJob(jobId);
+    if (!job || job.status !== 'running') {
+      return job;
+    }
+
+    this.cancelRequested.add(jobId);
+    this.controllers.get(jobId)?.abort();
+    if (job.queryId) {
+      try {
+        await dataSourceService.get(job.connectionId)?.cancelQuery?.(job.queryId);
+      } catch (error) {
+        console.error(`Failed to cancel query ${job.queryId}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    // The run settles as cancelled too; marking it now keeps a stuck driver from hiding the request
+    return await this.finish(jobId, { status: 'cancelled' });
+  }
+
+  async getResultPage(job: QueryJob, offset: number, limit: number): Promise<QueryJobResultPage> {
+    const rows = await storage.getQueryJobRows(job.id, offset, limit);
+    const totalRows = job.rowCount ?? 0;
+    return {
+      jobId: job.id,
+      columns: job.columns || [],
+      rows,
+      offset,
+      limit,
+      totalRows,
+      hasMore: offset + rows.length < totalRows
+    };
+  }
+
+  /**
+   * Call listener on every status change of the job; returns the unsubscribe function
+   */
+  subscribe(jobId: string, listener: QueryJobListener): () => void {
+    let listeners = this.listeners.get(jobId);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(jobId, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners!.delete(listener);
+      if (listeners!.size === 0) {
+        this.listeners.delete(jobId);
+      }
+    };
+  }
+
+  /**
+   * Pick up jobs a previous process left running: Snowflake queries keep going on the
+   * warehouse and are polled again, anything executed in process was lost with it
+   */
+  async resumeInterruptedJobs(): Promise<void> {
+    const jobs = await storage.getQueryJobsByStatus('running');
+    for (const job of jobs) {
+      const source = job.queryId ? await this.reconnect(job.connectionId) : undefined;
+      if (source && supportsServerJobs(source)) {
+        console.log(`Resuming query job ${job.id} (query ${job.queryId})`);
+        const limits = await queryLimitService.getLimits(job.connectionId);
+        this.track(job.id, this.run(job, source, limits.maxRows));
+      } else {
+        await this.finish(job.id, { status: 'failed', error: 'The server restarted before the query finished. Run it again.' });
+      }
+    }
+  }
+
+  private track(jobId: string, run: Promise<QueryJobOutcome>): void {
+    this.runs.set(jobId, run);
+    run.then(
+      () => this.runs.delete(jobId),
+      error => {
+        this.runs.delete(jobId);
+        console.error(`Query job ${jobId} could not be recorded:`, error instanceof Error ? error.message : error);
+      }
+    );
+  }
+
+  // A resumed job has no scope; its query was submitted in one already
+  private async run(job: QueryJob, source: DataSource, maxRows: number, scope: QueryScope = {}): Promise<QueryJobOutcome> {
+    const startedAt = job.createdAt?.getTime() ?? Date.now();
+    try {
+      const result = supportsServerJobs(source)
+        ? await this.runOnServer(job, source, maxRows, scope)
+        : await this.runInProcess(job, source, maxRows, scope);
+      if (this.cancelRequested.has(job.id)) {
+        return { job: await this.finish(job.id, { status: 'cancelled' }) };
+      }
+
+      await storage.saveQueryJobRows(job.id, result.rows);
+      const truncation = describeTruncation(result, maxRows);
+      const finished = await this.finish(job.id, {
+        status: 'succeeded',
+        columns: result.columns,
+        rowCount: result.rows.length,
+        totalRows: result.metadata.totalRows ?? null,
+        truncated: !!result.metadata.truncated,
+        warnings: truncation ? [...(job.warnings || []), truncation] : job.warnings,
+        executionTime: Date.now() - startedAt
+      });
+      return { job: finished, result };
+    } catch (error) {
+      if (this.cancelRequested.has(job.id)) {
+        return { job: await this.finish(job.id, { status: 'cancelled' }) };
+      }
+      return {
+        job: await this.finish(job.id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          executionTime: Date.now() - startedAt
+        })
+      };
+    } finally {
+      this.cancelRequested.delete(job.id);
+      this.controllers.delete(job.id);
+    }
+  }
+
+  // Submit once, then poll with backoff; a resumed job already has its query id
+  private async runOnServer(job: QueryJob, source: ServerJobSource, maxRows: number, scope: QueryScope): Promise<DataSourceQueryResult> {
+    let queryId = job.queryId;
+    if (!queryId) {
+      queryId = await source.submitQuery(job.sqlText, scope);
+      await this.update(job.id, { queryId });
+      if (this.cancelRequested.has(job.id)) {
+        await source.cancelQuery?.(queryId); // cancelled before the query id was known
+      }
+    }
+
+    let pollMs = FIRST_POLL_MS;
+    while (await source.isQueryRunning(queryId)) {
+      await sleep(pollMs);
+      pollMs = Math.min(pollMs * 2, MAX_POLL_MS);
+    }
+    return await source.fetchQueryResult(queryId, { maxRows });
+  }
+
+  private async runInProcess(job: QueryJob, source: DataSource, maxRows: number, scope: QueryScope): Promise<DataSourceQueryResult> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    return await source.execute(job.sqlText, { ...scope, maxRows, signal: controller.signal });
+  }
+
+  private async reconnect(connectionId: string): Promise<DataSource | undefined> {
+    const existing = dataSourceService.get(connectionId);
+    if (existing) {
+      return existing;
+    }
+    const connection = await storage.getDataConnection(connectionId);
+    if (!connection) {
+      return undefined;
+    }
+    try {
+      return await dataSourceService.connectStored(connection);
+    } catch (error) {
+      console.error(`Could not reconnect ${connectionId} to resume query jobs:`, error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  // Rebuild a finished job's result from the stored rows
+  private async loadResult(job: QueryJob): Promise<DataSourceQueryResult> {
+    const rows = await storage.getQueryJobRows(job.id, 0, job.rowCount ?? 0);
+    return {
+      rows,
+      columns: job.columns || [],
+      metadata: {
+        executionTime: job.executionTime ?? 0,
+        rowCount: rows.length,
+        queryId: job.queryId || undefined,
+        truncated: job.truncated || undefined,
+        totalRows: job.totalRows ?? undefined
+      }
+    };
+  }
+
+  private async finish(jobId: string, updates: Partial<QueryJob>): Promise<QueryJob> {
+    return await this.update(jobId, { ...updates, finishedAt: new Date() });
+  }
+
+  private async update(jobId: string, updates: Partial<QueryJob>): Promise<QueryJob> {
+    const job = await storage.updateQueryJob(jobId, updates);
+    for (const listener of this.listeners.get(jobId) || []) {
+      try {
+        listener(job);
+      } catch (error) {
+        console.error('Query job listener failed:', error);
+      }
+    }
+    return job;
+  }
+}
+
+// Global query job instance
+export const queryJobService = new QueryJobService();
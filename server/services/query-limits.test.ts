@@ -0,0 +1,54 @@
+/**
+ * Row limits: the LIMIT appended to or clamped in a read covers the whole statement and
+ * stays in front of trailing comments.
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+let workDir: string;
+let limit: (sql: string, maxRows: number) => string;
+
+before(async () => {
+  // Limits are read from connections in the app database under ./data
+  workDir = await mkdtemp(join(tmpdir(), 'datamind-query-limits-test-'));
+  process.chdir(workDir);
+  const { classifySql } = await import('./sql-guard');
+  const { applyRowLimit } = await import('./query-limits');
+  limit = (sql, maxRows) => applyRowLimit(classifySql(sql).statements[0], maxRows);
+});
+
+after(async () => {
+  process.chdir(tmpdir());
+  await rm(workDir, { recursive: true, force: true });
+});
+
+test('a UNION gets one LIMIT for the combined result', () => {
+  assert.equal(limit('SELECT a FROM t UNION SELECT a FROM u', 100), 'SELECT a FROM t UNION SELECT a FROM u LIMIT 101');
+  assert.equal(
+    limit('(SELECT a FROM t LIMIT 5) UNION (SELECT a FROM u)', 100),
+    '(SELECT a FROM t LIMIT 5) UNION (SELECT a FROM u) LIMIT 101'
+  );
+});
+
+test('the outer LIMIT of a UNION is clamped, not the branches', () => {
+  assert.equal(limit('SELECT a FROM t UNION ALL SELECT a FROM u LIMIT 50000', 100), 'SELECT a FROM t UNION ALL SELECT a FROM u LIMIT 101');
+  assert.equal(limit('SELECT a FROM t UNION ALL SELECT a FROM u LIMIT 10', 100), 'SELECT a FROM t UNION ALL SELECT a FROM u LIMIT 10');
+});
+
+test('the LIMIT goes before a trailing comment', () => {
+  assert.equal(limit('SELECT a FROM t -- newest first', 100), 'SELECT a FROM t LIMIT 101 -- newest first');
+  assert.equal(limit('SELECT a FROM t /* all rows */', 100), 'SELECT a FROM t LIMIT 101 /* all rows */');
+});
+
+test('a LIMIT inside a comment is not mistaken for the statement\'s own', () => {
+  assert.equal(limit('SELECT a FROM t -- LIMIT 5', 100), 'SELECT a FROM t LIMIT 101 -- LIMIT 5');
+  assert.equal(limit('SELECT a FROM t LIMIT 5 -- LIMIT 500', 100), 'SELECT a FROM t LIMIT 5 -- LIMIT 500');
+});
+
+test('writes are left alone', () => {
+  assert.equal(limit('DELETE FROM t', 100), 'DELETE FROM t');
+});
@@ -0,0 +1,189 @@
+/**
+ * Query Limits
+ * Keeps result sets and scans within a connection's budget: reads get a clamped or
+ * appended LIMIT, drivers stop fetching at the row cap, and the planner's scan
+ * estimate is checked against warn / refuse thresholds before anything runs
+ */
+
+import { storage } from '../storage';
+import type { DataSource, DataSourceQueryResult, QueryScope, ScanEstimate } from './data-source';
+import { lexSql, type ClassifiedStatement, type SqlToken } from './sql-guard';
+
+export interface QueryLimits {
+  maxRows: number;
+  warnScanBytes?: number;
+  maxScanBytes?: number;
+}
+
+// A statement rewritten and checked against the limits, ready to run
+export type PreparedQuery =
+  | { refused: false; sql: string; limits: QueryLimits; scanEstimate?: ScanEstimate; warnings: string[] }
+  | { refused: true; reason: string; scanEstimate?: ScanEstimate };
+
+export type LimitedQueryOutcome =
+  | { refused: false; result: DataSourceQueryResult; sql: string; scanEstimate?: ScanEstimate; warnings: string[] }
+  | { refused: true; reason: string; scanEstimate?: ScanEstimate };
+
+const DEFAULT_MAX_ROWS = 10000;
+const BYTES_PER_GB = 1024 ** 3;
+
+// Reads whose size a LIMIT clause can cap
+const LIMITABLE_KEYWORDS = new Set(['SELECT', 'WITH', 'VALUES', 'TABLE']);
+
+// Top-level clauses that an appended LIMIT would conflict with
+const LIMIT_CONFLICTS = new Set(['FETCH', 'FOR', 'OFFSET', 'TOP']);
+
+function positiveNumber(value: unknown): number | undefined {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB', 'PB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+/**
+ * Cap a read at maxRows + 1 rows (the extra row tells us the result was cut off).
+ * Existing larger limits are lowered; statements whose limit cannot be rewritten
+ * safely are returned unchanged and rely on the driver-side cap.
+ */
+export function applyRowLimit(statement: ClassifiedStatement, maxRows: number): string {
+  const sql = statement.sql;
+  if (statement.kind !== 'read' || !LIMITABLE_KEYWORDS.has(statement.keyword)) {
+    return sql;
+  }
+
+  const tokens = lexSql(sql).statements[0]?.tokens || [];
+  const topLevel = tokens.filter(token => token.depth === 0);
+  const cap = maxRows + 1;
+
+  const limitIndex = topLevel.map(token => token.type === 'word' && token.value === 'LIMIT').lastIndexOf(true);
+  if (limitIndex !== -1) {
+    const count = findLimitCount(topLevel, limitIndex);
+    if (!count) {
+      return sql;
+    }
+    const isOpenEnded = count.type === 'word'; // LIMIT ALL / LIMIT NULL
+    if (!isOpenEnded && Number(count.value) <= cap) {
+      return sql;
+    }
+    return `${sql.slice(0, count.start)}${cap}${sql.slice(count.end)}`;
+  }
+
+  if (topLevel.some(token => token.type === 'word' && LIMIT_CONFLICTS.has(token.value))) {
+    return sql;
+  }
+  const last = tokens[tokens.length - 1];
+  return `${sql.slice(0, last.end)} LIMIT ${cap}${sql.slice(last.end)}`;
+}
+
+// The row count of LIMIT n, LIMIT offset, n (MySQL) or LIMIT ALL / NULL
+function findLimitCount(tokens: SqlToken[], limitIndex: number): SqlToken | undefined {
+  const first = tokens[limitIndex + 1];
+  if (!first) return undefined;
+  if (first.type === 'word') {
+    return first.value === 'ALL' || first.value === 'NULL' ? first : undefined;
+  }
+  if (first.type !== 'literal' || !/^\d+$/.test(first.value)) return undefined;
+
+  const separator = tokens[limitIndex + 2];
+  const second = tokens[limitIndex + 3];
+  if (separator?.value === ',') {
+    return second?.type === 'literal' && /^\d+$/.test(second.value) ? second : undefined;
+  }
+  return first;
+}
+
+// Warning for a result that was cut off at the row limit
+export function describeTruncation(result: DataSourceQueryResult, maxRows: number): string | undefined {
+  if (!result.metadata.truncated) {
+    return undefined;
+  }
+  const total = result.metadata.totalRows !== undefined ? ` of ${result.metadata.totalRows}` : '';
+  return `Only the first ${result.rows.length}${total} rows were kept (row limit ${maxRows}).`;
+}
+
+export class QueryLimitService {
+  getDefaultLimits(): QueryLimits {
+    const warnScanGb = positiveNumber(process.env.QUERY_WARN_SCAN_GB);
+    const maxScanGb = positiveNumber(process.env.QUERY_MAX_SCAN_GB);
+    return {
+      maxRows: Math.floor(positiveNumber(process.env.QUERY_MAX_ROWS) ?? DEFAULT_MAX_ROWS),
+      warnScanBytes: warnScanGb !== undefined ? warnScanGb * BYTES_PER_GB : undefined,
+      maxScanBytes: maxScanGb !== undefined ? maxScanGb * BYTES_PER_GB : undefined
+    };
+  }
+
+  /**
+   * Connection settings override the environment defaults field by field
+   */
+  async getLimits(connectionId?: string): Promise<QueryLimits> {
+    const defaults = this.getDefaultLimits();
+    const options = connectionId ? (await storage.getDataConnection(connectionId))?.options : undefined;
+    if (!options) {
+      return defaults;
+    }
+
+    const warnScanGb = positiveNumber(options.warnScanGb);
+    const maxScanGb = positiveNumber(options.maxScanGb);
+    return {
+      maxRows: Math.floor(positiveNumber(options.maxRows) ?? defaults.maxRows),
+      warnScanBytes: warnScanGb !== undefined ? warnScanGb * BYTES_PER_GB : defaults.warnScanBytes,
+      maxScanBytes: maxScanGb !== undefined ? maxScanGb * BYTES_PER_GB : defaults.maxScanBytes
+    };
+  }
+
+  /**
+   * Run a statement the SQL guard allowed, within the connection's row and scan limits.
+   * Aborting the signal cancels the statement on the source.
+   */
+  async execute(source: DataSource, statement: ClassifiedStatement, signal?: AbortSignal, scope: QueryScope = {}): Promise<LimitedQueryOutcome> {
+    const prepared = await this.prepare(source, statement, scope);
+    if (prepared.refused) {
+      return prepared;
+    }
+
+    const { sql, limits, scanEstimate, warnings } = prepared;
+    const result = await source.execute(sql, { ...scope, maxRows: limits.maxRows, signal });
+    const truncation = describeTruncation(result, limits.maxRows);
+    return { refused: false, result, sql, scanEstimate, warnings: truncation ? [...warnings, truncation] : warnings };
+  }
+
+  /**
+   * Apply the row limit and check the scan estimate without running the statement
+   */
+  async prepare(source: DataSource, statement: ClassifiedStatement, scope: QueryScope = {}): Promise<PreparedQuery> {
+    const limits = await this.getLimits(source.connectionId);
+    const sql = applyRowLimit(statement, limits.maxRows);
+    const warnings: string[] = [];
+
+    let scanEstimate: ScanEstimate | undefined;
+    const hasScanThreshold = limits.warnScanBytes !== undefined || limits.maxScanBytes !== undefined;
+    if (hasScanThreshold && source.estimateScan && statement.kind === 'read' && LIMITABLE_KEYWORDS.has(statement.keyword)) {
+      scanEstimate = await source.estimateScan(sql, scope);
+
+      if (scanEstimate && limits.maxScanBytes !== undefined && scanEstimate.bytes > limits.maxScanBytes) {
+        return {
+          refused: true,
+          scanEstimate,
+          reason: `the estimated scan of ${formatBytes(scanEstimate.bytes)} exceeds this connection's limit of ${formatBytes(limits.maxScanBytes)}. Add filters on partitioned or clustered columns, or aggregate before selecting.`
+        };
+      }
+      if (scanEstimate && limits.warnScanBytes !== undefined && scanEstimate.bytes > limits.warnScanBytes) {
+        warnings.push(`This query scans an estimated ${formatBytes(scanEstimate.bytes)} (warning threshold ${formatBytes(limits.warnScanBytes)}).`);
+      }
+    }
+
+    return { refused: false, sql, limits, scanEstimate, warnings };
+  }
+}
+
+// Global query limit instance
+export const queryLimitService = new QueryLimitService();
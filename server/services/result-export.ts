@@ -0,0 +1,283 @@
+/**
+ * Result Export
+ * Downloads of query results as CSV, XLSX, Parquet or JSON Lines. Rows are read in batches
+ * (from a query job's stored rows, or a chart's data) and written to the response as they
+ * are read, so an export never holds the whole result in memory. Parquet is written by DuckDB
+ * from a JSON Lines file in a temporary directory.
+ */
+
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { DuckDBInstance } from '@duckdb/node-api';
+import type { QueryJob, SqlPolicyMode } from '@shared/schema';
+import { storage } from '../storage';
+import { agentContextManager, getQueryScope } from './agent-context';
+import { dataSourceService, type DataSource } from './data-source';
+import { queryJobService } from './query-jobs';
+import { sqlGuardService } from './sql-guard';
+import { ZipWriter, writeOutput } from './zip-writer';
+
+export const exportFormats = ['csv', 'xlsx', 'parquet', 'jsonl'] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+export type RowBatches = AsyncIterable<Record<string, any>[]>;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  parquet: 'application/vnd.apache.parquet',
+  jsonl: 'application/x-ndjson; charset=utf-8'
+};
+
+export const EXPORT_BATCH_ROWS = 1000;
+const XLSX_MAX_ROWS = 1048576; // a worksheet's row limit, header included
+const XLSX_MAX_TEXT = 32767; // characters in a cell
+const XLSX_SHEET_NAME = 'Results';
+
+const XLSX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`;
+const XLSX_ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+const XLSX_WORKBOOK = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${XLSX_SHEET_NAME}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+const XLSX_WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+// Style 1 is the bold header row
+const XLSX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`;
+const XLSX_SHEET_START = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>`;
+const XLSX_SHEET_END = '</sheetData></worksheet>';
+
+// Objects and arrays are written as JSON text in the flat formats
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function csvValue(value: unknown): string {
+  const text = toText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// XML text without the control characters XML 1.0 cannot hold
+function xmlText(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function xlsxCell(value: unknown, style?: number): string {
+  const styleAttribute = style ? ` s="${style}"` : '';
+  if (value === null || value === undefined) {
+    return `<c${styleAttribute}/>`;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c${styleAttribute}><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c t="b"${styleAttribute}><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c t="inlineStr"${styleAttribute}><is><t xml:space="preserve">${xmlText(toText(value).slice(0, XLSX_MAX_TEXT))}</t></is></c>`;
+}
+
+function xlsxRow(rowNumber: number, values: unknown[], style?: number): string {
+  return `<row r="${rowNumber}">${values.map(value => xlsxCell(value, style)).join('')}</row>`;
+}
+
+// A record with exactly the result's columns, in order
+function pick(row: Record<string, any>, columns: string[]): Record<string, any> {
+  return Object.fromEntries(columns.map(column => [column, row[column] ?? null]));
+}
+
+const quoteDuckDBIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+const quoteDuckDBString = (text: string) => `'${text.replace(/'/g, "''")}'`;
+
+export class ResultExportService {
+  isFormat(value: unknown): value is ExportFormat {
+    return exportFormats.includes(value as ExportFormat);
+  }
+
+  getContentType(format: ExportFormat): string {
+    return CONTENT_TYPES[format];
+  }
+
+  /**
+   * Download file name: the base reduced to safe characters, with the format's extension
+   */
+  getFileName(base: string, format: ExportFormat): string {
+    const safe = base.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 80);
+    return `${safe || 'results'}.${format}`;
+  }
+
+  /**
+   * A finished job's stored rows, in order, in batches
+   */
+  async *readJobRows(job: QueryJob, batchSize = EXPORT_BATCH_ROWS): AsyncGenerator<Record<string, any>[]> {
+    for (let offset = 0; ; offset += batchSize) {
+      const rows = await storage.getQueryJobRows(job.id, offset, batchSize);
+      if (rows.length > 0) {
+        yield rows;
+      }
+      if (rows.length < batchSize) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Rows already in memory (a chart's data) as batches, with every key that appears as a column
+   */
+  fromRows(rows: Record<string, any>[]): { columns: string[]; batches: RowBatches } {
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+    async function* batches() {
+      for (let offset = 0; offset < rows.length; offset += EXPORT_BATCH_ROWS) {
+        yield rows.slice(offset, offset + EXPORT_BATCH_ROWS);
+      }
+    }
+    return { columns, batches: batches() };
+  }
+
+  /**
+   * Run a job's statement again as a new job on the same connection and wait for it, so an
+   * export gets current data. The statement goes through the SQL guard as it did the first time.
+   */
+  async rerun(job: QueryJob, userPolicy?: SqlPolicyMode): Promise<{ job: QueryJob } | { reason: string }> {
+    const source = await this.findSource(job);
+    if (!source) {
+      return { reason: 'The connection the query ran on is no longer open' };
+    }
+
+    const decision = await sqlGuardService.check(job.sqlText, { connectionId: source.connectionId, userPolicy });
+    if (!decision.allowed) {
+      return { reason: decision.reason || 'The query is not allowed' };
+    }
+    // A session's query reruns in the database and schema the session has selected
+    const context = job.sessionId ? await agentContextManager.getContext(job.sessionId) : undefined;
+    const submission = await queryJobService.submit(source, decision.statement!, {
+      sessionId: job.sessionId ?? undefined,
+      userId: job.userId ?? undefined
+    }, context?.connectionId === job.connectionId ? getQueryScope(context) : {});
+    if (submission.refused) {
+      return { reason: `Query refused: ${submission.reason}` };
+    }
+
+    const settled = queryJobService.whenSettled(submission.job.id);
+    const outcome = settled ? await settled : await queryJobService.wait(submission.job.id, 0);
+    if (outcome.job.status !== 'succeeded') {
+      return { reason: outcome.job.error || `Query ${outcome.job.status}` };
+    }
+    return { job: outcome.job };
+  }
+
+  /**
+   * Write the rows to out in the format; the caller ends the stream
+   */
+  async write(format: ExportFormat, columns: string[], batches: RowBatches, out: Writable): Promise<void> {
+    switch (format) {
+      case 'csv':
+        return await this.writeCsv(columns, batches, out);
+      case 'jsonl':
+        return await this.writeJsonLines(columns, batches, out);
+      case 'xlsx':
+        return await this.writeXlsx(columns, batches, out);
+      case 'parquet':
+        return await this.writeParquet(columns, batches, out);
+    }
+  }
+
+  private async writeCsv(columns: string[], batches: RowBatches, out: Writable): Promise<void> {
+    await writeOutput(out, columns.map(csvValue).join(',') + '\r\n');
+    for await (const rows of batches) {
+      await writeOutput(out, rows.map(row => columns.map(column => csvValue(row[column])).join(',') + '\r\n').join(''));
+    }
+  }
+
+  private async writeJsonLines(columns: string[], batches: RowBatches, out: Writable): Promise<void> {
+    for await (const rows of batches) {
+      await writeOutput(out, rows.map(row => JSON.stringify(pick(row, columns)) + '\n').join(''));
+    }
+  }
+
+  // One worksheet of inline strings, streamed into the zip; rows past Excel's limit are dropped
+  private async writeXlsx(columns: string[], batches: RowBatches, out: Writable): Promise<void> {
+    async function* sheet() {
+      yield XLSX_SHEET_START;
+      yield xlsxRow(1, columns, 1);
+      let rowNumber = 1;
+      for await (const rows of batches) {
+        const kept = rows.slice(0, XLSX_MAX_ROWS - rowNumber);
+        yield kept.map(row => xlsxRow(++rowNumber, columns.map(column => row[column]))).join('');
+        if (rowNumber >= XLSX_MAX_ROWS) {
+          break;
+        }
+      }
+      yield XLSX_SHEET_END;
+    }
+
+    const zip = new ZipWriter(out);
+    await zip.addFile('[Content_Types].xml', XLSX_CONTENT_TYPES);
+    await zip.addFile('_rels/.rels', XLSX_ROOT_RELS);
+    await zip.addFile('xl/workbook.xml', XLSX_WORKBOOK);
+    await zip.addFile('xl/_rels/workbook.xml.rels', XLSX_WORKBOOK_RELS);
+    await zip.addFile('xl/styles.xml', XLSX_STYLES);
+    await zip.addFile('xl/worksheets/sheet1.xml', sheet());
+    await zip.finish();
+  }
+
+  // DuckDB infers the column types from a JSON Lines copy of the rows and writes the Parquet file
+  private async writeParquet(columns: string[], batches: RowBatches, out: Writable): Promise<void> {
+    const directory = await mkdtemp(join(tmpdir(), 'datamind-export-'));
+    try {
+      const jsonPath = join(directory, 'rows.jsonl');
+      const parquetPath = join(directory, 'rows.parquet');
+      const file = createWriteStream(jsonPath);
+      let rowCount = 0;
+      try {
+        for await (const rows of batches) {
+          rowCount += rows.length;
+          await writeOutput(file, rows.map(row => JSON.stringify(pick(row, columns)) + '\n').join(''));
+        }
+      } finally {
+        await new Promise(resolve => file.end(resolve));
+      }
+
+      // An empty file has no types to infer, so an empty result is written as text columns
+      const source = rowCount > 0
+        ? `SELECT * FROM read_json(${quoteDuckDBString(jsonPath)}, format = 'newline_delimited', sample_size = -1)`
+        : `SELECT ${columns.length > 0 ? columns.map(column => `NULL::VARCHAR AS ${quoteDuckDBIdentifier(column)}`).join(', ') : 'NULL::VARCHAR AS value'} LIMIT 0`;
+      const instance = await DuckDBInstance.create(':memory:');
+      const connection = await instance.connect();
+      try {
+        await connection.run(`COPY (${source}) TO ${quoteDuckDBString(parquetPath)} (FORMAT PARQUET)`);
+      } finally {
+        connection.closeSync();
+        instance.closeSync();
+      }
+
+      await pipeline(createReadStream(parquetPath), out, { end: false });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  }
+
+  // The job's connection if it is still open, or its stored connection reopened for the job's owner
+  private async findSource(job: QueryJob): Promise<DataSource | undefined> {
+    const open = dataSourceService.get(job.connectionId);
+    if (open) {
+      return open;
+    }
+    const connection = await storage.getDataConnection(job.connectionId);
+    return connection && connection.userId === job.userId ? await dataSourceService.connectStored(connection) : undefined;
+  }
+}
+
+// Global result export instance
+export const resultExportService = new ResultExportService();
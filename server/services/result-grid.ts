@@ -0,0 +1,210 @@
+/**
+ * Result Grid
+ * Full results of the queries behind a chat answer. execute_sql keeps every result as a query
+ * job, and the answer's tool results name the job, so the grid can page, sort and filter all of
+ * its rows in SQLite and show a histogram per column.
+ */
+
+import type { ChatMessage, QueryJob, ToolResult } from '@shared/schema';
+import { storage, type QueryJobRowFilter, type QueryJobRowQuery } from '../storage';
+
+export type ResultColumnType = 'number' | 'boolean' | 'date' | 'text';
+
+export interface ResultHistogramBin {
+  label: string;
+  count: number;
+}
+
+export interface ResultColumnSummary {
+  name: string;
+  type: ResultColumnType;
+  nulls: number;
+  distinct: number;
+  bins: ResultHistogramBin[]; // value ranges for numbers and dates, most common values otherwise
+}
+
+export interface ResultGridPage {
+  columns: string[];
+  rows: Record<string, any>[];
+  offset: number;
+  limit: number;
+  totalRows: number; // rows matching the filters
+  resultRows: number; // rows kept of the query's result
+  hasMore: boolean;
+}
+
+export interface ResultGridOptions {
+  offset: number;
+  limit: number;
+  sort?: string;
+  direction?: string;
+  filters?: Record<string, string>; // column -> "text", "=value", ">10", "<=2024-01-01"
+}
+
+const HISTOGRAM_BINS = 12;
+const TOP_VALUES = 8;
+const CACHED_SUMMARIES = 50;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const COMPARISON_PATTERN = /^(>=|<=|>|<|=)\s*(.+)$/;
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+function inferType(values: unknown[]): ResultColumnType {
+  const present = values.filter(value => value !== null && value !== undefined);
+  if (present.length === 0) return 'text';
+  if (present.every(value => typeof value === 'boolean' || value === 0 || value === 1) && present.some(value => typeof value === 'boolean')) return 'boolean';
+  if (present.every(value => toNumber(value) !== undefined)) return 'number';
+  if (present.every(value => typeof value === 'string' && DATE_PATTERN.test(value))) return 'date';
+  return 'text';
+}
+
+// Equal-width ranges between the smallest and largest value
+function rangeBins(values: number[], label: (value: number) => string): ResultHistogramBin[] {
+  if (values.length === 0) return [];
+  let min = values[0];
+  let max = values[0];
+  for (const value of values) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  if (min === max) {
+    return [{ label: label(min), count: values.length }];
+  }
+
+  const width = (max - min) / HISTOGRAM_BINS;
+  const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+  for (const value of values) {
+    counts[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width))]++;
+  }
+  return counts.map((count, index) => ({ label: `${label(min + index * width)} – ${label(min + (index + 1) * width)}`, count }));
+}
+
+function topValueBins(values: unknown[]): ResultHistogramBin[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const key = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  const sorted = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  const bins = sorted.slice(0, TOP_VALUES).map(([label, count]) => ({ label, count }));
+  const other = sorted.slice(TOP_VALUES).reduce((sum, [, count]) => sum + count, 0);
+  return other > 0 ? [...bins, { label: 'Other', count: other }] : bins;
+}
+
+function summarize(name: string, values: unknown[]): ResultColumnSummary {
+  const present = values.filter(value => value !== null && value !== undefined);
+  const type = inferType(present);
+  const distinct = new Set(present.map(value => typeof value === 'object' ? JSON.stringify(value) : String(value))).size;
+  const bins = type === 'number'
+    ? rangeBins(present.map(value => toNumber(value)!), value => Number(value.toPrecision(4)).toLocaleString('en-US'))
+    : type === 'date'
+      ? rangeBins(present.map(value => Date.parse(String(value))).filter(Number.isFinite), value => new Date(value).toISOString().slice(0, 10))
+      : topValueBins(present);
+  return { name, type, nulls: values.length - present.length, distinct, bins };
+}
+
+export class ResultGridService {
+  // Finished jobs never change, so their summaries are kept for the most recent ones
+  private summaries = new Map<string, ResultColumnSummary[]>();
+
+  /**
+   * The query job behind the tool result at `index` of an answer
+   */
+  async findJob(message: ChatMessage, index: number): Promise<QueryJob | undefined> {
+    const results = (message.metadata as { toolResults?: ToolResult[] } | null)?.toolResults;
+    const data = Array.isArray(results) ? results[index]?.data : undefined;
+    if (data?.kind !== 'rows' || !data.jobId) {
+      return undefined;
+    }
+    return await storage.getQueryJob(data.jobId);
+  }
+
+  async getPage(job: QueryJob, options: ResultGridOptions): Promise<ResultGridPage> {
+    const { rows, matchingRows } = await storage.findQueryJobRows(job.id, this.toRowQuery(job, options));
+    return {
+      columns: job.columns || [],
+      rows,
+      offset: options.offset,
+      limit: options.limit,
+      totalRows: matchingRows,
+      resultRows: job.rowCount ?? 0,
+      hasMore: options.offset + rows.length < matchingRows
+    };
+  }
+
+  /**
+   * Every row matching the grid's order and filters, in batches, e.g. for an export
+   */
+  async *readRows(job: QueryJob, options: Omit<ResultGridOptions, 'offset' | 'limit'>, batchSize: number): AsyncGenerator<Record<string, any>[]> {
+    for (let offset = 0; ; offset += batchSize) {
+      const { rows } = await storage.findQueryJobRows(job.id, this.toRowQuery(job, { ...options, offset, limit: batchSize }));
+      if (rows.length > 0) {
+        yield rows;
+      }
+      if (rows.length < batchSize) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Type, null count and histogram of every column, over all stored rows
+   */
+  async getSummary(job: QueryJob): Promise<ResultColumnSummary[]> {
+    const cached = this.summaries.get(job.id);
+    if (cached) {
+      return cached;
+    }
+
+    const summary: ResultColumnSummary[] = [];
+    for (const column of job.columns || []) {
+      summary.push(this.isQueryable(job.columns || [], column)
+        ? summarize(column, await storage.getQueryJobColumnValues(job.id, column))
+        : { name: column, type: 'text', nulls: 0, distinct: 0, bins: [] });
+    }
+
+    this.summaries.set(job.id, summary);
+    if (this.summaries.size > CACHED_SUMMARIES) {
+      this.summaries.delete(this.summaries.keys().next().value!);
+    }
+    return summary;
+  }
+
+  private toRowQuery(job: QueryJob, options: ResultGridOptions): QueryJobRowQuery {
+    const columns = job.columns || [];
+    const query: QueryJobRowQuery = { offset: options.offset, limit: options.limit };
+    if (options.sort && this.isQueryable(columns, options.sort)) {
+      query.sort = { column: options.sort, direction: options.direction === 'desc' ? 'desc' : 'asc' };
+    }
+    query.filters = Object.entries(options.filters || {})
+      .filter(([column, text]) => this.isQueryable(columns, column) && text.trim() !== '')
+      .map(([column, text]) => this.parseFilter(column, text.trim()));
+    return query;
+  }
+
+  // Names are used in a JSON path, which cannot hold a double quote
+  private isQueryable(columns: string[], column: string): boolean {
+    return columns.includes(column) && !column.includes('"');
+  }
+
+  // "=5", ">10" and "<=2024-01-01" compare; anything else matches as text
+  private parseFilter(column: string, text: string): QueryJobRowFilter {
+    const match = text.match(COMPARISON_PATTERN);
+    if (!match) {
+      return { column, operator: 'contains', value: text };
+    }
+    const operator = match[1] as QueryJobRowFilter['operator'];
+    const number = toNumber(match[2]);
+    return { column, operator, value: number ?? match[2].trim() };
+  }
+}
+
+// Global result grid instance
+export const resultGridService = new ResultGridService();
@@ -0,0 +1,385 @@
+/**
+ * Schema Context
+ * Chooses the tables and columns generate_sql is shown, so large schemas still get SQL against
+ * the right tables. Tables, columns and foreign keys come from the metadata catalog; they are
+ * ranked against the question by keyword overlap and a locally computed hashed n-gram
+ * embedding, then packed into a token budget together with join hints.
+ */
+
+import type { DataSource, DataSourceColumn, DataSourceForeignKey, DataSourceTable } from './data-source';
+import { metadataCatalogService } from './metadata-catalog';
+
+export interface SchemaContextRequest {
+  question: string;
+  focusTable?: string; // table the caller asked to focus on
+  database?: string;
+  schema?: string;
+  recentSql?: string; // tables used by the last query rank a little higher for follow-ups
+  tokenBudget?: number;
+}
+
+export interface SchemaContext {
+  text: string; // table and column listing plus join hints, ready for the prompt
+  tables: string[]; // tables described in the text, best first
+  totalTables: number;
+}
+
+interface CachedTable {
+  table: DataSourceTable;
+  columns: DataSourceColumn[];
+  vector?: Float32Array;
+}
+
+interface SchemaSnapshot {
+  database?: string;
+  schema?: string;
+  tables: CachedTable[];
+  foreignKeys: DataSourceForeignKey[];
+}
+
+interface RankedTable {
+  entry: CachedTable;
+  score: number;
+}
+
+interface JoinHint {
+  from: string;
+  to: string;
+  declared: boolean;
+}
+
+const DEFAULT_CONTEXT_TOKENS = 2500;
+const MAX_CONTEXT_TABLES = 12;
+const MIN_TABLE_TOKENS = 60; // a table is not shown when less than this remains
+const EMBEDDING_DIMENSIONS = 512;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'by', 'for', 'from', 'give', 'how', 'in', 'is', 'it', 'list', 'me', 'many',
+  'much', 'of', 'on', 'or', 'per', 'show', 'that', 'the', 'their', 'there', 'this', 'to', 'was', 'were', 'what',
+  'which', 'who', 'with', 'all', 'each', 'get', 'find', 'top', 'sql', 'query', 'table', 'tables', 'data'
+]);
+
+function readPositive(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Rough count for budgeting, about four characters per token
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Plural and simple inflections fold together, so "customers" matches CUSTOMER_ID
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && /(ses|xes|ches|shes)$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Words of an identifier or sentence: camelCase and snake_case are split, stop words dropped
+ */
+export function tokenize(text: string | undefined): string[] {
+  if (!text) return [];
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+// FNV-1a, enough to spread features over the embedding dimensions
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Local embedding: words and their character trigrams hashed into a fixed-size unit vector,
+ * so related spellings ("revenue" / "REV_AMOUNT", "order" / "ORDERS") still land close
+ */
+export function embed(words: string[]): Float32Array {
+  const vector = new Float32Array(EMBEDDING_DIMENSIONS);
+  const add = (feature: string, weight: number) => {
+    const hash = hashFeature(feature);
+    vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+  };
+  for (const word of words) {
+    add(`w:${word}`, 1);
+    const padded = `^${word}$`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`t:${padded.slice(i, i + 3)}`, 0.5);
+    }
+  }
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+function cosine(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return Math.max(0, dot);
+}
+
+function tableWords(entry: CachedTable): string[] {
+  return [
+    ...tokenize(entry.table.name),
+    ...tokenize(entry.table.comment),
+    ...entry.columns.flatMap(column => [...tokenize(column.name), ...tokenize(column.comment)])
+  ];
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+export class SchemaContextService {
+  /**
+   * Schema description for a question, within the token budget
+   */
+  async buildContext(source: DataSource, request: SchemaContextRequest): Promise<SchemaContext> {
+    const snapshot = await this.getSnapshot(source, request.database, request.schema);
+    if (snapshot.tables.length === 0) {
+      return { text: '', tables: [], totalTables: 0 };
+    }
+
+    const queryWords = [...tokenize(request.question), ...tokenize(request.focusTable)];
+    const queryVector = embed(queryWords);
+    const ranked = this.rankTables(snapshot, queryWords, queryVector, request.focusTable, request.recentSql?.toLowerCase() || '');
+
+    const budget = request.tokenBudget || readPositive('SCHEMA_CONTEXT_TOKENS', DEFAULT_CONTEXT_TOKENS);
+    return this.pack(source, snapshot, ranked, queryWords, queryVector, budget);
+  }
+
+  private async getSnapshot(source: DataSource, database?: string, schema?: string): Promise<SchemaSnapshot> {
+    const catalog = await metadataCatalogService.getSchema(source, database, schema);
+    return {
+      database: catalog.location.database || undefined,
+      schema: catalog.location.schema || undefined,
+      tables: catalog.tables.map(table => ({
+        table: {
+          name: table.name,
+          database: table.databaseName,
+          schema: table.schemaName,
+          kind: table.kind,
+          comment: table.comment || undefined
+        },
+        columns: catalog.columns[table.name] || []
+      })),
+      foreignKeys: catalog.foreignKeys
+    };
+  }
+
+  private rankTables(
+    snapshot: SchemaSnapshot,
+    queryWords: string[],
+    queryVector: Float32Array,
+    focusTable: string | undefined,
+    recentSql: string
+  ): RankedTable[] {
+    const querySet = new Set(queryWords);
+
+    // Rare words count more: a word found in every table says little about which one is meant
+    const documentFrequency = new Map<string, number>();
+    const documents = snapshot.tables.map(entry => new Set(tableWords(entry)));
+    for (const words of documents) {
+      for (const word of Array.from(words)) {
+        if (querySet.has(word)) documentFrequency.set(word, (documentFrequency.get(word) || 0) + 1);
+      }
+    }
+    const weight = (word: string) => Math.log(1 + snapshot.tables.length / (documentFrequency.get(word) || 1));
+
+    const keywordScores = snapshot.tables.map(entry => {
+      const nameWords = new Set(tokenize(entry.table.name));
+      const commentWords = new Set(tokenize(entry.table.comment));
+      const columnWords = new Set(entry.columns.flatMap(column => [...tokenize(column.name), ...tokenize(column.comment)]));
+      let score = 0;
+      for (const word of Array.from(querySet)) {
+        if (nameWords.has(word)) score += 3 * weight(word);
+        else if (columnWords.has(word)) score += 1.5 * weight(word);
+        else if (commentWords.has(word)) score += weight(word);
+      }
+      return score;
+    });
+    const topKeyword = Math.max(...keywordScores, 0);
+
+    const scores = new Map<CachedTable, number>();
+    snapshot.tables.forEach((entry, index) => {
+      entry.vector ||= embed(tableWords(entry));
+      let score = 0.6 * (topKeyword > 0 ? keywordScores[index] / topKeyword : 0) + 0.4 * cosine(queryVector, entry.vector);
+      if (focusTable && entry.table.name.toLowerCase().includes(focusTable.toLowerCase())) score += 1;
+      if (recentSql && recentSql.includes(entry.table.name.toLowerCase())) score += 0.1;
+      scores.set(entry, score);
+    });
+
+    // Tables joined to a strong match come along, since the answer often needs the join
+    const boosted = new Map(scores);
+    for (const key of snapshot.foreignKeys) {
+      const from = snapshot.tables.find(entry => sameName(entry.table.name, key.table));
+      const to = snapshot.tables.find(entry => sameName(entry.table.name, key.referencedTable));
+      if (!from || !to) continue;
+      boosted.set(to, Math.max(boosted.get(to)!, 0.3 * scores.get(from)! + scores.get(to)!));
+      boosted.set(from, Math.max(boosted.get(from)!, 0.3 * scores.get(to)! + scores.get(from)!));
+    }
+
+    return snapshot.tables
+      .map(entry => ({ entry, score: boosted.get(entry)! }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private pack(
+    source: DataSource,
+    snapshot: SchemaSnapshot,
+    ranked: RankedTable[],
+    queryWords: string[],
+    queryVector: Float32Array,
+    budget: number
+  ): SchemaContext {
+    const dialect = source.dialect;
+    const blocks: string[] = [];
+    const shown: CachedTable[] = [];
+    let remaining = budget;
+
+    for (const { entry } of ranked) {
+      if (shown.length >= MAX_CONTEXT_TABLES || remaining < MIN_TABLE_TOKENS) break;
+      const block = this.renderTable(source, snapshot, entry, queryWords, queryVector, remaining);
+      if (!block) continue;
+      blocks.push(block);
+      shown.push(entry);
+      remaining -= estimateTokens(block);
+    }
+
+    const hints = this.joinHints(snapshot, shown);
+    let hintText = hints.length > 0
+      ? `\nJoin hints:\n${hints.map(hint => `- ${hint.from} = ${hint.to}${hint.declared ? '' : ' (inferred from column names)'}`).join('\n')}\n`
+      : '';
+    if (estimateTokens(hintText) > remaining) {
+      hintText = '';
+    }
+    remaining -= estimateTokens(hintText);
+
+    // Names of the tables left out, so the model can still ask for them
+    const others = snapshot.tables.filter(entry => !shown.includes(entry)).map(entry => entry.table.name);
+    let otherText = '';
+    if (others.length > 0) {
+      const listed: string[] = [];
+      for (const name of others) {
+        if (estimateTokens([...listed, name].join(', ')) + 20 > remaining) break;
+        listed.push(name);
+      }
+      if (listed.length > 0) {
+        otherText = `\nOther tables (not described): ${listed.join(', ')}${listed.length < others.length ? `, … (+${others.length - listed.length} more)` : ''}\n`;
+      }
+    }
+
+    return {
+      text: `${blocks.join('')}${hintText}${otherText}`,
+      tables: shown.map(entry => dialect.qualifyTable(entry.table.name, snapshot.database, snapshot.schema)),
+      totalTables: snapshot.tables.length
+    };
+  }
+
+  /**
+   * One table with as many columns as fit; keys and the columns closest to the question go first
+   */
+  private renderTable(
+    source: DataSource,
+    snapshot: SchemaSnapshot,
+    entry: CachedTable,
+    queryWords: string[],
+    queryVector: Float32Array,
+    budget: number
+  ): string | undefined {
+    const qualifiedName = source.dialect.qualifyTable(entry.table.name, snapshot.database, snapshot.schema);
+    const header = `\nTable: ${qualifiedName}${entry.table.kind === 'VIEW' ? ' (view)' : ''}${entry.table.comment ? ` - ${entry.table.comment}` : ''}\nColumns: `;
+    const columns = entry.columns;
+    const describe = (column: DataSourceColumn) => `${column.name} (${column.type})${column.comment ? ` - ${column.comment}` : ''}`;
+
+    const full = `${header}${columns.map(describe).join(', ')}\n`;
+    if (estimateTokens(full) <= budget) {
+      return full;
+    }
+
+    const keyColumns = new Set(snapshot.foreignKeys.flatMap(key => [
+      ...(sameName(key.table, entry.table.name) ? key.columns : []),
+      ...(sameName(key.referencedTable, entry.table.name) ? key.referencedColumns : [])
+    ]).map(name => name.toLowerCase()));
+    const querySet = new Set(queryWords);
+    const columnScore = (column: DataSourceColumn) => {
+      const words = [...tokenize(column.name), ...tokenize(column.comment)];
+      return (keyColumns.has(column.name.toLowerCase()) || /(^|_)id$/i.test(column.name) ? 1 : 0)
+        + words.filter(word => querySet.has(word)).length
+        + cosine(queryVector, embed(words));
+    };
+
+    // Chosen by relevance, listed in table order
+    const byRelevance = columns.map((column, position) => ({ column, position, score: columnScore(column) }))
+      .sort((a, b) => b.score - a.score);
+    const chosen: typeof byRelevance = [];
+    for (const candidate of byRelevance) {
+      const next = [...chosen, candidate].sort((a, b) => a.position - b.position);
+      const text = `${header}${next.map(item => describe(item.column)).join(', ')}, … (+${columns.length - next.length} more columns)\n`;
+      if (estimateTokens(text) > budget) break;
+      chosen.push(candidate);
+    }
+    if (chosen.length === 0) {
+      return undefined;
+    }
+    chosen.sort((a, b) => a.position - b.position);
+    return `${header}${chosen.map(item => describe(item.column)).join(', ')}, … (+${columns.length - chosen.length} more columns)\n`;
+  }
+
+  // Declared foreign keys between the shown tables, else ORDERS.CUSTOMER_ID -> CUSTOMERS.ID style guesses
+  private joinHints(snapshot: SchemaSnapshot, shown: CachedTable[]): JoinHint[] {
+    const isShown = (name: string) => shown.some(entry => sameName(entry.table.name, name));
+    const hints: JoinHint[] = [];
+    const seen = new Set<string>();
+    const add = (hint: JoinHint) => {
+      const key = `${hint.from}=${hint.to}`.toLowerCase();
+      if (!seen.has(key)) {
+        seen.add(key);
+        hints.push(hint);
+      }
+    };
+
+    for (const key of snapshot.foreignKeys) {
+      if (!isShown(key.table) || !isShown(key.referencedTable)) continue;
+      key.columns.forEach((column, index) => add({
+        from: `${key.table}.${column}`,
+        to: `${key.referencedTable}.${key.referencedColumns[index]}`,
+        declared: true
+      }));
+    }
+    if (hints.length > 0) {
+      return hints;
+    }
+
+    for (const entry of shown) {
+      for (const column of entry.columns) {
+        const match = column.name.match(/^(.+?)_?id$/i);
+        if (!match || !match[1]) continue;
+        const target = stem(match[1].replace(/_$/, '').toLowerCase());
+        const referenced = shown.find(other => other !== entry && tokenize(other.table.name).join('_') === target);
+        const referencedColumn = referenced?.columns.find(other => sameName(other.name, 'id') || sameName(other.name, column.name));
+        if (referenced && referencedColumn) {
+          add({ from: `${entry.table.name}.${column.name}`, to: `${referenced.table.name}.${referencedColumn.name}`, declared: false });
+        }
+      }
+    }
+    return hints;
+  }
+}
+
+// Global schema context instance
+export const schemaContextService = new SchemaContextService();
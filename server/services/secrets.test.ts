@@ -0,0 +1,80 @@
+/**
+ * Envelope encryption: a sealed value re-wrapped under a new master key still reveals the
+ * same plain text, and only under the key it is wrapped with; the previous key stays usable.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  SecretsService, generateMasterKey, getMasterKeyId, parseMasterKey, revealWithKey, rewrapWithKey, sealWithKey, writeKeyFile
+} from './secrets';
+
+const oldKey = parseMasterKey(generateMasterKey());
+const newKey = parseMasterKey(generateMasterKey());
+
+// enc:v1:<key id>:<wrapped data key>:<ciphertext>
+const parts = (value: string) => value.split(':').slice(2);
+
+test('a re-wrapped value reveals the same plain text under the new key', () => {
+  for (const plaintext of ['hunter2', '', 'pässwörd 🔑', JSON.stringify({ privateKey: 'a:b:c', passphrase: 'x' })]) {
+    const sealed = sealWithKey(plaintext, oldKey);
+    const rewrapped = rewrapWithKey(sealed, oldKey, newKey);
+    assert.equal(revealWithKey(rewrapped, newKey), plaintext);
+  }
+});
+
+test('re-wrapping replaces the key id and wrapped key but keeps the ciphertext', () => {
+  const sealed = sealWithKey('token', oldKey);
+  const rewrapped = rewrapWithKey(sealed, oldKey, newKey);
+  const [oldId, oldWrapped, oldCiphertext] = parts(sealed);
+  const [newId, newWrapped, newCiphertext] = parts(rewrapped);
+
+  assert.equal(oldId, getMasterKeyId(oldKey));
+  assert.equal(newId, getMasterKeyId(newKey));
+  assert.notEqual(newWrapped, oldWrapped);
+  assert.equal(newCiphertext, oldCiphertext);
+});
+
+test('a value can be re-wrapped back to the old key', () => {
+  const sealed = sealWithKey('round trip', oldKey);
+  const back = rewrapWithKey(rewrapWithKey(sealed, oldKey, newKey), newKey, oldKey);
+  assert.equal(revealWithKey(back, oldKey), 'round trip');
+});
+
+test('a re-wrapped value no longer reveals under the old key', () => {
+  const rewrapped = rewrapWithKey(sealWithKey('secret', oldKey), oldKey, newKey);
+  assert.throws(() => revealWithKey(rewrapped, oldKey), /encrypted with another master key/);
+});
+
+test('re-wrapping with the wrong old key fails without producing a value', () => {
+  const sealed = sealWithKey('secret', oldKey);
+  assert.throws(() => rewrapWithKey(sealed, newKey, oldKey), /encrypted with another master key/);
+  assert.throws(() => rewrapWithKey('enc:v1:abcd1234', oldKey, newKey), /Malformed encrypted credential/);
+});
+
+test('a server that was running during a rotation reads values sealed under either key', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'datamind-secrets-test-'));
+  const keyFile = join(directory, 'credentials.key');
+  process.env.CREDENTIALS_KEY_FILE = keyFile;
+  try {
+    writeKeyFile(keyFile, oldKey.toString('base64'));
+    const service = new SecretsService();
+    const sealedBefore = service.seal('refresh token');
+
+    // What the rotation command leaves behind
+    writeKeyFile(keyFile, newKey.toString('base64'));
+    writeKeyFile(service.getPreviousKeyFilePath(), oldKey.toString('base64'));
+    const rotated = rewrapWithKey(sealedBefore, oldKey, newKey);
+
+    assert.equal(service.reveal(rotated), 'refresh token');
+    assert.equal(service.reveal(sealedBefore), 'refresh token');
+    assert.equal(revealWithKey(service.rewrapPrevious(sealedBefore)!, newKey), 'refresh token');
+    assert.equal(service.rewrapPrevious(rotated), undefined);
+  } finally {
+    delete process.env.CREDENTIALS_KEY_FILE;
+    rmSync(directory, { recursive: true, force: true });
+  }
+});
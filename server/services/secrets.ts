@@ -0,0 +1,206 @@
+/**
+ * Connection Secrets
+ * Envelope encryption for stored connection passwords and tokens: every value gets its own
+ * AES-256-GCM data key, which is wrapped with the master key. Stored values look like
+ * `enc:v1:<key id>:<wrapped data key>:<ciphertext>`, so rotating the master key only re-wraps
+ * the data keys. Values are revealed only by the drivers that open connections.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+const SEALED_PREFIX = 'enc:v1:';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const DEFAULT_KEY_FILE = './data/credentials.key';
+
+export function isSealedSecret(value: string | null | undefined): boolean {
+  return !!value && value.startsWith(SEALED_PREFIX);
+}
+
+/**
+ * Parse a master key given as 32 bytes in base64 or hex
+ */
+export function parseMasterKey(text: string): Buffer {
+  const trimmed = text.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`The credentials master key must be ${KEY_BYTES} bytes, base64 or hex encoded`);
+  }
+  return key;
+}
+
+export function generateMasterKey(): string {
+  return randomBytes(KEY_BYTES).toString('base64');
+}
+
+// Short fingerprint stored with each value, so a wrong key fails clearly instead of as a GCM error
+export function getMasterKeyId(key: Buffer): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 8);
+}
+
+// Id of the master key a sealed value was encrypted under
+export function getSealedKeyId(value: string): string {
+  return value.slice(SEALED_PREFIX.length).split(':')[0];
+}
+
+function encrypt(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+function decrypt(key: Buffer, encoded: string): Buffer {
+  const data = Buffer.from(encoded, 'base64url');
+  const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(0, IV_BYTES));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+function unwrapDataKey(value: string, masterKey: Buffer): { dataKey: Buffer; ciphertext: string } {
+  const [keyId, wrappedKey, ciphertext] = value.slice(SEALED_PREFIX.length).split(':');
+  if (!wrappedKey || !ciphertext) {
+    throw new Error('Malformed encrypted credential');
+  }
+  if (keyId !== getMasterKeyId(masterKey)) {
+    throw new Error(`Credential was encrypted with another master key (${keyId}); restore that key or re-enter the credential`);
+  }
+  return { dataKey: decrypt(masterKey, wrappedKey), ciphertext };
+}
+
+export function sealWithKey(plaintext: string, masterKey: Buffer): string {
+  const dataKey = randomBytes(KEY_BYTES);
+  return `${SEALED_PREFIX}${getMasterKeyId(masterKey)}:${encrypt(masterKey, dataKey)}:${encrypt(dataKey, Buffer.from(plaintext, 'utf8'))}`;
+}
+
+export function revealWithKey(value: string, masterKey: Buffer): string {
+  const { dataKey, ciphertext } = unwrapDataKey(value, masterKey);
+  return decrypt(dataKey, ciphertext).toString('utf8');
+}
+
+/**
+ * Re-wrap a sealed value's data key under a new master key; the ciphertext is unchanged
+ */
+export function rewrapWithKey(value: string, oldKey: Buffer, newKey: Buffer): string {
+  const { dataKey, ciphertext } = unwrapDataKey(value, oldKey);
+  return `${SEALED_PREFIX}${getMasterKeyId(newKey)}:${encrypt(newKey, dataKey)}:${ciphertext}`;
+}
+
+export class SecretsService {
+  private masterKey?: Buffer;
+  private previousKey?: Buffer | null; // null when there is none
+
+  getKeyFilePath(): string {
+    return process.env.CREDENTIALS_KEY_FILE || DEFAULT_KEY_FILE;
+  }
+
+  // The rotation command keeps the replaced key here
+  getPreviousKeyFilePath(): string {
+    return `${this.getKeyFilePath()}.previous`;
+  }
+
+  // Where the master key comes from; the rotation command writes new keys back to the file
+  getKeySource(): 'env' | 'file' {
+    return process.env.CREDENTIALS_MASTER_KEY ? 'env' : 'file';
+  }
+
+  /**
+   * CREDENTIALS_MASTER_KEY, else the key file, which is created on first use
+   */
+  getMasterKey(): Buffer {
+    if (!this.masterKey) {
+      this.masterKey = this.loadMasterKey();
+    }
+    return this.masterKey;
+  }
+
+  /**
+   * The master key replaced by the last rotation, from CREDENTIALS_PREVIOUS_MASTER_KEY or the
+   * previous key file. A server running during the rotation sealed new values under it.
+   */
+  getPreviousKey(): Buffer | undefined {
+    if (this.previousKey === undefined) {
+      const keyFile = this.getPreviousKeyFilePath();
+      const encoded = process.env.CREDENTIALS_PREVIOUS_MASTER_KEY || (existsSync(keyFile) ? readFileSync(keyFile, 'utf8') : undefined);
+      this.previousKey = encoded ? parseMasterKey(encoded) : null;
+    }
+    return this.previousKey ?? undefined;
+  }
+
+  /**
+   * The key a sealed value was encrypted under. A rotation may have replaced the keys since
+   * they were loaded, so they are read again once before giving up.
+   */
+  getKeyFor(value: string): Buffer {
+    const keyId = getSealedKeyId(value);
+    for (const reload of [false, true]) {
+      if (reload) {
+        this.masterKey = undefined;
+        this.previousKey = undefined;
+      }
+      const key = [this.getMasterKey(), this.getPreviousKey()].find(candidate => candidate && getMasterKeyId(candidate) === keyId);
+      if (key) {
+        return key;
+      }
+    }
+    return this.getMasterKey(); // revealing then reports the unknown key
+  }
+
+  seal(plaintext: string): string {
+    if (!plaintext || isSealedSecret(plaintext)) {
+      return plaintext;
+    }
+    return sealWithKey(plaintext, this.getMasterKey());
+  }
+
+  /**
+   * Plain text of a stored secret; values saved before encryption existed pass through
+   */
+  reveal(value: string | null | undefined): string | undefined {
+    if (!value || !isSealedSecret(value)) {
+      return value || undefined;
+    }
+    return revealWithKey(value, this.getKeyFor(value));
+  }
+
+  /**
+   * A value sealed under the previous master key, re-wrapped under the current one; undefined
+   * when it needs no change
+   */
+  rewrapPrevious(value: string | null | undefined): string | undefined {
+    const previous = this.getPreviousKey();
+    if (!value || !isSealedSecret(value) || !previous || getSealedKeyId(value) !== getMasterKeyId(previous)) {
+      return undefined;
+    }
+    return rewrapWithKey(value, previous, this.getMasterKey());
+  }
+
+  private loadMasterKey(): Buffer {
+    if (process.env.CREDENTIALS_MASTER_KEY) {
+      return parseMasterKey(process.env.CREDENTIALS_MASTER_KEY);
+    }
+
+    const keyFile = this.getKeyFilePath();
+    if (existsSync(keyFile)) {
+      return parseMasterKey(readFileSync(keyFile, 'utf8'));
+    }
+
+    const encoded = generateMasterKey();
+    writeKeyFile(keyFile, encoded);
+    console.warn(`Created credentials master key at ${keyFile}; back it up, stored connection passwords cannot be read without it`);
+    return parseMasterKey(encoded);
+  }
+}
+
+// Owner-only permissions; chmod is a no-op on platforms without POSIX modes
+export function writeKeyFile(path: string, encodedKey: string): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, `${encodedKey}\n`, { mode: 0o600 });
+  chmodSync(path, 0o600);
+}
+
+// Global secrets instance
+export const secretsService = new SecretsService();
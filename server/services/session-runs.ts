@@ -0,0 +1,55 @@
+/**
+ * Session Runs
+ * Tracks the agent work in flight for each chat session so the user can stop it:
+ * cancelling a session aborts its pending LLM calls and running statements
+ */
+
+export class SessionRunService {
+  private runs = new Map<string, Set<AbortController>>();
+
+  /**
+   * Register a new unit of work for the session; pass the signal down and call
+   * finish when the work is done
+   */
+  start(sessionId: string): AbortController {
+    const controller = new AbortController();
+    let controllers = this.runs.get(sessionId);
+    if (!controllers) {
+      controllers = new Set();
+      this.runs.set(sessionId, controllers);
+    }
+    controllers.add(controller);
+    return controller;
+  }
+
+  finish(sessionId: string, controller: AbortController): void {
+    const controllers = this.runs.get(sessionId);
+    if (!controllers) return;
+    controllers.delete(controller);
+    if (controllers.size === 0) {
+      this.runs.delete(sessionId);
+    }
+  }
+
+  /**
+   * Abort everything running for the session; returns false when nothing was running
+   */
+  cancel(sessionId: string): boolean {
+    const controllers = this.runs.get(sessionId);
+    if (!controllers || controllers.size === 0) {
+      return false;
+    }
+    for (const controller of controllers) {
+      controller.abort(new Error('Cancelled by user'));
+    }
+    this.runs.delete(sessionId);
+    return true;
+  }
+
+  isRunning(sessionId: string): boolean {
+    return (this.runs.get(sessionId)?.size ?? 0) > 0;
+  }
+}
+
+// Global session run instance
+export const sessionRunService = new SessionRunService();
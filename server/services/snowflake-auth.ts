@@ -0,0 +1,180 @@
+/**
+ * Snowflake Authentication
+ * Credentials for the key-pair (SNOWFLAKE_JWT), OAuth refresh-token and OAuth token-exchange
+ * methods. Their secrets are kept together as one JSON bundle in data_connections.password
+ * (encrypted like any password); non-secret settings live in options.oauth. Everything here
+ * works on plain text, so only SnowflakeService calls it, after revealing the stored value.
+ */
+
+import { createPrivateKey } from 'crypto';
+import { snowflakeBundleAuthenticators, type SnowflakeOAuthOptions } from '@shared/schema';
+
+export const KEY_PAIR_AUTHENTICATOR = 'SNOWFLAKE_JWT';
+export const OAUTH_AUTHENTICATOR = 'OAUTH';
+export const TOKEN_EXCHANGE_AUTHENTICATOR = 'OAUTH_TOKEN_EXCHANGE';
+
+const BUNDLE_AUTHENTICATORS = new Set<string>(snowflakeBundleAuthenticators);
+
+const TOKEN_EXCHANGE_GRANT = 'urn:ietf:params:oauth:grant-type:token-exchange';
+const ACCESS_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:access_token';
+
+// Tokens are renewed this long before they expire
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+// Lifetime assumed when a token response has no expires_in
+const DEFAULT_TOKEN_LIFETIME_S = 600;
+
+export interface SnowflakeSecretBundle {
+  privateKey?: string; // PEM, PKCS#8 or PKCS#1, optionally encrypted
+  privateKeyPassphrase?: string;
+  clientSecret?: string;
+  refreshToken?: string; // OAUTH
+  subjectToken?: string; // OAUTH_TOKEN_EXCHANGE: token issued to the user or workload by the identity provider
+  subjectTokenType?: string;
+}
+
+export interface OAuthAccessToken {
+  accessToken: string;
+  expiresAt: number;
+  refreshToken?: string; // set when the provider rotated the refresh token
+}
+
+export function usesSecretBundle(authenticator: string | null | undefined): boolean {
+  return !!authenticator && BUNDLE_AUTHENTICATORS.has(authenticator);
+}
+
+export function isTokenFresh(token: OAuthAccessToken | undefined): token is OAuthAccessToken {
+  return !!token && token.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now();
+}
+
+/**
+ * Check the secrets submitted for a method and serialize them for storage
+ */
+export function packSecretBundle(authenticator: string, secrets: SnowflakeSecretBundle, oauth?: SnowflakeOAuthOptions): string {
+  const pick = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  const bundle: SnowflakeSecretBundle = {
+    privateKey: pick(secrets.privateKey),
+    privateKeyPassphrase: typeof secrets.privateKeyPassphrase === 'string' && secrets.privateKeyPassphrase ? secrets.privateKeyPassphrase : undefined,
+    clientSecret: pick(secrets.clientSecret),
+    refreshToken: pick(secrets.refreshToken),
+    subjectToken: pick(secrets.subjectToken),
+    subjectTokenType: pick(secrets.subjectTokenType)
+  };
+
+  switch (authenticator) {
+    case KEY_PAIR_AUTHENTICATOR:
+      // Fails here, with a clear message, on a wrong passphrase or a file that is not a key
+      readPrivateKey(bundle);
+      return JSON.stringify({ privateKey: bundle.privateKey, privateKeyPassphrase: bundle.privateKeyPassphrase });
+    case OAUTH_AUTHENTICATOR:
+      if (!bundle.refreshToken || !oauth?.clientId) {
+        throw new Error('OAuth connections need a client ID and a refresh token');
+      }
+      return JSON.stringify({ clientSecret: bundle.clientSecret, refreshToken: bundle.refreshToken });
+    case TOKEN_EXCHANGE_AUTHENTICATOR:
+      if (!bundle.subjectToken || !oauth?.clientId || !oauth.tokenEndpoint) {
+        throw new Error('Token exchange needs the identity provider token endpoint, a client ID and a subject token');
+      }
+      return JSON.stringify({ clientSecret: bundle.clientSecret, subjectToken: bundle.subjectToken, subjectTokenType: bundle.subjectTokenType });
+    default:
+      throw new Error(`${authenticator} does not store a credential bundle`);
+  }
+}
+
+export function parseSecretBundle(plaintext: string | undefined): SnowflakeSecretBundle {
+  if (!plaintext) {
+    return {};
+  }
+  try {
+    return JSON.parse(plaintext) as SnowflakeSecretBundle;
+  } catch {
+    throw new Error('Stored credentials for this connection are not in the expected format; enter them again');
+  }
+}
+
+/**
+ * Unencrypted PKCS#8 PEM for the driver, whatever format and encryption the uploaded key had
+ */
+export function readPrivateKey(bundle: SnowflakeSecretBundle): string {
+  if (!bundle.privateKey) {
+    throw new Error('Key-pair authentication needs a private key');
+  }
+  try {
+    return createPrivateKey({ key: bundle.privateKey, format: 'pem', passphrase: bundle.privateKeyPassphrase })
+      .export({ format: 'pem', type: 'pkcs8' })
+      .toString();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(/passphrase|decrypt/i.test(message)
+      ? 'The private key passphrase is missing or wrong'
+      : `The private key could not be read: ${message}`);
+  }
+}
+
+// Snowflake's own OAuth server, used when no token endpoint is configured
+export function getDefaultTokenEndpoint(account: string): string {
+  return `https://${account}.snowflakecomputing.com/oauth/token-request`;
+}
+
+/**
+ * New access token from a refresh token (Snowflake OAuth or an External OAuth provider)
+ */
+export async function refreshAccessToken(tokenEndpoint: string, oauth: SnowflakeOAuthOptions, bundle: SnowflakeSecretBundle): Promise<OAuthAccessToken> {
+  return await requestToken(tokenEndpoint, oauth, bundle, {
+    grant_type: 'refresh_token',
+    refresh_token: bundle.refreshToken || ''
+  });
+}
+
+/**
+ * RFC 8693 token exchange: the identity provider swaps the subject token for an access token
+ * Snowflake accepts as External OAuth, so SSO works without a browser on the server
+ */
+export async function exchangeToken(oauth: SnowflakeOAuthOptions, bundle: SnowflakeSecretBundle): Promise<OAuthAccessToken> {
+  const params: Record<string, string> = {
+    grant_type: TOKEN_EXCHANGE_GRANT,
+    subject_token: bundle.subjectToken || '',
+    subject_token_type: bundle.subjectTokenType || ACCESS_TOKEN_TYPE,
+    requested_token_type: ACCESS_TOKEN_TYPE
+  };
+  if (oauth.audience) {
+    params.audience = oauth.audience;
+  }
+  return await requestToken(oauth.tokenEndpoint!, oauth, bundle, params);
+}
+
+async function requestToken(
+  tokenEndpoint: string,
+  oauth: SnowflakeOAuthOptions,
+  bundle: SnowflakeSecretBundle,
+  params: Record<string, string>
+): Promise<OAuthAccessToken> {
+  const body = new URLSearchParams(params);
+  if (oauth.scope) {
+    body.set('scope', oauth.scope);
+  }
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' };
+  // Confidential clients authenticate with HTTP Basic, which Snowflake's OAuth server requires
+  if (bundle.clientSecret) {
+    headers.Authorization = `Basic ${Buffer.from(`${encodeURIComponent(oauth.clientId || '')}:${encodeURIComponent(bundle.clientSecret)}`).toString('base64')}`;
+  } else {
+    body.set('client_id', oauth.clientId || '');
+  }
+
+  const response = await fetch(tokenEndpoint, { method: 'POST', headers, body });
+  const result = await response.json().catch(() => ({})) as {
+    access_token?: string;
+    expires_in?: number;
+    refresh_token?: string;
+    error?: string;
+    error_description?: string;
+  };
+  if (!response.ok || !result.access_token) {
+    throw new Error(`OAuth token request failed: ${result.error_description || result.error || `${response.status} ${response.statusText}`}`);
+  }
+
+  return {
+    accessToken: result.access_token,
+    expiresAt: Date.now() + (Number(result.expires_in) || DEFAULT_TOKEN_LIFETIME_S) * 1000,
+    refreshToken: result.refresh_token && result.refresh_token !== bundle.refreshToken ? result.refresh_token : undefined
+  };
+}
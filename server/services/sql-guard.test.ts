@@ -0,0 +1,100 @@
+/**
+ * SQL classification: comments, strings and quoted names cannot hide a write from the
+ * guard or make a read look like a write, and file access is refused under every policy.
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+let workDir: string;
+let classifySql: typeof import('./sql-guard').classifySql;
+let sqlGuardService: typeof import('./sql-guard').sqlGuardService;
+
+// Kind and keyword of each statement, e.g. ['read:SELECT', 'ddl:DROP']
+const classify = (sql: string) => classifySql(sql).statements.map(statement => `${statement.kind}:${statement.keyword}`);
+
+before(async () => {
+  // The guard reads connection policies from the app database under ./data
+  workDir = await mkdtemp(join(tmpdir(), 'datamind-sql-guard-test-'));
+  process.chdir(workDir);
+  const { initializeDatabase } = await import('../db');
+  ({ classifySql, sqlGuardService } = await import('./sql-guard'));
+  initializeDatabase();
+});
+
+after(async () => {
+  process.chdir(tmpdir());
+  await rm(workDir, { recursive: true, force: true });
+});
+
+test('statements inside comments are ignored', () => {
+  assert.deepEqual(classify('SELECT 1 -- ; DROP TABLE users'), ['read:SELECT']);
+  assert.deepEqual(classify('/* DELETE FROM t; */ SELECT 1'), ['read:SELECT']);
+});
+
+test('a comment cannot make a write look like a read', () => {
+  assert.deepEqual(classify('/* SELECT */ DELETE FROM t'), ['dml:DELETE']);
+  assert.deepEqual(classify('-- SELECT\nUPDATE t SET a = 1'), ['dml:UPDATE']);
+});
+
+test('semicolons and keywords inside strings and quoted names do not split or change a statement', () => {
+  assert.deepEqual(classify(`SELECT '; DELETE FROM t' AS x`), ['read:SELECT']);
+  assert.deepEqual(classify(`SELECT 'it''s; DROP TABLE t'`), ['read:SELECT']);
+  assert.deepEqual(classify('SELECT $$; DROP TABLE t$$'), ['read:SELECT']);
+  assert.deepEqual(classify('SELECT "DELETE" FROM t'), ['read:SELECT']);
+});
+
+test('a statement after a semicolon is classified on its own', () => {
+  assert.deepEqual(classify('SELECT 1; DROP TABLE t'), ['read:SELECT', 'ddl:DROP']);
+});
+
+test('a write inside a CTE makes the statement a write', () => {
+  assert.deepEqual(classify('WITH d AS (DELETE FROM t RETURNING *) SELECT * FROM d'), ['dml:DELETE']);
+});
+
+test('unterminated strings and comments are reported instead of guessed at', () => {
+  assert.equal(classifySql(`SELECT 'open`).error, 'Unterminated string literal');
+  assert.equal(classifySql('SELECT /* open').error, 'Unterminated comment');
+});
+
+test('a backslash-escaped quote in an E string does not hide the statements after it', () => {
+  assert.deepEqual(classify(`SELECT E'a\\''; DROP TABLE t; -- '`), ['read:SELECT', 'ddl:DROP']);
+  assert.deepEqual(classify(`SELECT e'it\\'s', E'C:\\\\'`), ['read:SELECT']);
+});
+
+test('a backslash before a quote in other strings is refused, as dialects read it differently', async () => {
+  assert.match(classifySql(`SELECT 'a\\''; DROP TABLE t; -- '`).error ?? '', /Backslash before a quote/);
+  const decision = await sqlGuardService.check(`SELECT 'a\\''; DROP TABLE t; -- '`, { connectionId: 'none', agentPolicy: 'read_only' });
+  assert.equal(decision.allowed, false);
+});
+
+test('file-reading functions, file paths and extensions are file access', () => {
+  assert.deepEqual(classify(`SELECT read_text('data/credentials.key')`), ['file:READ_TEXT']);
+  assert.deepEqual(classify(`SELECT * FROM "read_csv"('x.csv')`), ['file:READ_CSV']);
+  assert.deepEqual(classify(`SELECT * FROM glob('*')`), ['file:GLOB']);
+  assert.deepEqual(classify(`SELECT * FROM t JOIN 'other.parquet' USING (id)`), ['file:FROM file']);
+  assert.deepEqual(classify(`SELECT * FROM t WHERE id IN (SELECT id FROM 'ids.csv')`), ['file:FROM file']);
+  assert.deepEqual(classify(`COPY t TO '/tmp/t.csv'`), ['file:COPY TO file']);
+  assert.deepEqual(classify(`COPY t FROM PROGRAM 'cat /etc/passwd'`), ['file:COPY FROM PROGRAM']);
+  assert.deepEqual(classify(`ATTACH 'data/datamind.db'`), ['file:ATTACH']);
+  assert.deepEqual(classify('INSTALL httpfs'), ['file:INSTALL']);
+  assert.deepEqual(classify('LOAD httpfs'), ['file:LOAD']);
+});
+
+test('string literals that are not table references are not file access', () => {
+  assert.deepEqual(classify(`SELECT EXTRACT(YEAR FROM '2024-01-31'::DATE)`), ['read:SELECT']);
+  assert.deepEqual(classify(`SELECT substring('abc' FROM 2)`), ['read:SELECT']);
+  assert.deepEqual(classify(`SELECT 'a', 'b' FROM t WHERE a = 'read_csv(x)'`), ['read:SELECT']);
+  assert.deepEqual(classify('COPY INTO t FROM @stage'), ['dml:COPY']);
+});
+
+test('file access is refused even where writes are allowed', async () => {
+  const decision = await sqlGuardService.check(`SELECT * FROM 'data/datamind.db'`, { connectionId: 'none', agentPolicy: 'allow' });
+  assert.equal(decision.allowed, false);
+  if (!decision.allowed) {
+    assert.match(decision.reason, /may not read or write files/);
+  }
+});
@@ -0,0 +1,543 @@
+/**
+ * SQL Guard
+ * Classifies SQL before it reaches a data source and applies the connection / agent
+ * policy: reads always run, writes are blocked or wait for explicit user confirmation.
+ * Statements that read or write files on the database host never run.
+ */
+
+import { sqlPolicyModes, type SqlPolicyMode } from '@shared/schema';
+import { storage } from '../storage';
+
+export type { SqlPolicyMode } from '@shared/schema';
+
+export type SqlStatementKind = 'read' | 'session' | 'dml' | 'ddl' | 'dcl' | 'file' | 'other';
+
+export interface ClassifiedStatement {
+  sql: string;
+  kind: SqlStatementKind;
+  keyword: string; // leading keyword(s), e.g. SELECT, DELETE, ALTER SESSION
+  mutating: boolean;
+}
+
+export interface SqlClassification {
+  statements: ClassifiedStatement[];
+  error?: string; // lexing problem (unterminated string or comment)
+}
+
+export interface PendingSqlConfirmation {
+  id: string;
+  sql: string;
+  keyword: string;
+  kind: SqlStatementKind;
+  connectionId: string;
+  sessionId?: string;
+  tool?: ConfirmingTool; // proposed by a tool other than execute_sql
+  status: 'pending' | 'approved' | 'rejected';
+  createdAt: Date;
+}
+
+// A tool that asked for the confirmation; Run calls it again with the same parameters
+export interface ConfirmingTool {
+  name: string;
+  params: Record<string, unknown>;
+}
+
+export type SqlGuardDecision =
+  | { allowed: true; policy: SqlPolicyMode; statement: ClassifiedStatement }
+  | { allowed: false; policy: SqlPolicyMode; reason: string; statement?: ClassifiedStatement; confirmation?: PendingSqlConfirmation };
+
+export interface SqlGuardRequest {
+  connectionId: string;
+  sessionId?: string;
+  agentPolicy?: SqlPolicyMode;
+  userPolicy?: SqlPolicyMode; // limit from the role of the user the SQL runs for
+  confirmationId?: string; // chat flow: a confirmation the user approved in the UI
+  confirmed?: boolean; // REST flow: the caller is the user and confirmed in the request
+  tool?: ConfirmingTool; // recorded on a new confirmation
+}
+
+// Pending confirmations are forgotten after this long
+const CONFIRMATION_TTL_MS = 15 * 60 * 1000;
+
+const POLICY_STRICTNESS: Record<SqlPolicyMode, number> = { allow: 0, confirm: 1, read_only: 2 };
+
+const READ_KEYWORDS = new Set(['SELECT', 'WITH', 'SHOW', 'DESCRIBE', 'DESC', 'EXPLAIN', 'LIST', 'LS', 'VALUES', 'TABLE']);
+const SESSION_KEYWORDS = new Set(['USE', 'SET', 'UNSET', 'RESET', 'COMMIT', 'ROLLBACK', 'START', 'BEGIN']);
+const DML_KEYWORDS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE', 'UPSERT', 'REPLACE', 'COPY', 'PUT', 'GET', 'REMOVE', 'RM', 'UNLOAD']);
+const DDL_KEYWORDS = new Set([
+  'CREATE', 'ALTER', 'DROP', 'TRUNCATE', 'RENAME', 'COMMENT', 'UNDROP',
+  'VACUUM', 'ANALYZE', 'REINDEX', 'CLUSTER', 'REFRESH', 'OPTIMIZE'
+]);
+const DCL_KEYWORDS = new Set(['GRANT', 'REVOKE']);
+
+// Data-modifying statements that can hide inside a read (CTE bodies, WITH ... DELETE)
+const NESTED_WRITE_KEYWORDS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE']);
+
+// Functions with side effects that are callable from a plain SELECT
+const SIDE_EFFECT_FUNCTIONS = new Set([
+  'PG_TERMINATE_BACKEND', 'PG_CANCEL_BACKEND', 'PG_RELOAD_CONF', 'SET_CONFIG', 'SETVAL', 'NEXTVAL',
+  'LO_IMPORT', 'LO_EXPORT', 'DBLINK_EXEC', 'SYSTEM$CANCEL_QUERY', 'SYSTEM$CANCEL_ALL_QUERIES', 'SYSTEM$ABORT_SESSION'
+]);
+
+// Statements that open, install or load files on the database host (DuckDB ATTACH and
+// extensions, MySQL LOAD DATA, PostgreSQL LOAD)
+const FILE_KEYWORDS = new Set(['ATTACH', 'INSTALL', 'LOAD', 'IMPORT', 'EXPORT']);
+
+// Functions that read files on the database host; every READ_* function counts as well
+const FILE_FUNCTIONS = new Set([
+  'GLOB', 'SNIFF_CSV', 'PARQUET_SCAN', 'PARQUET_METADATA', 'PARQUET_SCHEMA', 'PARQUET_FILE_METADATA', 'PARQUET_KV_METADATA',
+  'DELTA_SCAN', 'ICEBERG_SCAN', 'ICEBERG_METADATA', 'ICEBERG_SNAPSHOTS', 'SQLITE_SCAN', 'SQLITE_ATTACH',
+  'PG_READ_FILE', 'PG_READ_BINARY_FILE', 'PG_LS_DIR', 'PG_STAT_FILE'
+]);
+
+// Functions whose arguments use FROM, as in EXTRACT(YEAR FROM '2024-01-31')
+const FROM_ARGUMENT_FUNCTIONS = new Set(['EXTRACT', 'SUBSTRING', 'TRIM', 'OVERLAY', 'POSITION']);
+
+// Words that end a FROM clause at their nesting level
+const FROM_CLAUSE_END = new Set([
+  'WHERE', 'GROUP', 'HAVING', 'QUALIFY', 'WINDOW', 'ORDER', 'LIMIT', 'OFFSET', 'FETCH',
+  'UNION', 'EXCEPT', 'INTERSECT', 'ON', 'USING', 'SELECT', 'SET', 'RETURNING'
+]);
+
+// BEGIN alone starts a transaction; anything else is a scripting block
+const TRANSACTION_WORDS = new Set(['TRANSACTION', 'WORK', 'ISOLATION', 'READ']);
+
+export interface SqlToken {
+  type: 'word' | 'identifier' | 'symbol' | 'literal';
+  value: string; // upper-cased for words, digits for numbers, the name for quoted identifiers
+  depth: number; // parenthesis nesting level
+  start: number; // offsets into the original SQL text
+  end: number;
+}
+
+export interface LexedStatement {
+  text: string;
+  tokens: SqlToken[];
+}
+
+/**
+ * Split SQL text into statements and tokens. Strings, quoted identifiers, comments
+ * and dollar-quoted bodies are skipped, so keywords inside them never count.
+ * Backslashes escape the next character in E'...' strings. Elsewhere dialects disagree on
+ * whether a backslash before a quote ends the string, so such text is an error.
+ */
+export function lexSql(sql: string): { statements: LexedStatement[]; error?: string } {
+  const statements: LexedStatement[] = [];
+  let tokens: SqlToken[] = [];
+  let start = 0;
+  let depth = 0;
+  let i = 0;
+
+  const endStatement = (end: number) => {
+    if (tokens.length > 0) {
+      statements.push({ text: sql.slice(start, end).trim(), tokens });
+    }
+    tokens = [];
+    start = end + 1;
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (ch === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      if (end === -1) return { statements, error: 'Unterminated comment' };
+      i = end + 2;
+    } else if (ch === '\'' || ch === '"' || ch === '`') {
+      // The E of an escape string was read as a word; it belongs to the literal
+      const prefix = tokens[tokens.length - 1];
+      const escapes = ch === '\'' && prefix?.type === 'word' && prefix.value === 'E' && prefix.end === i;
+      if (escapes) tokens.pop();
+      let j = i + 1;
+      for (;; j++) {
+        if (j >= sql.length) return { statements, error: `Unterminated ${ch === '\'' ? 'string literal' : 'quoted identifier'}` };
+        if (sql[j] === '\\' && escapes) { j++; continue; }
+        if (sql[j] === '\\' && sql[j + 1] === ch && ch !== '`') {
+          return { statements, error: 'Backslash before a quote inside quotes; double the quote instead' };
+        }
+        if (sql[j] !== ch) continue;
+        if (sql[j + 1] === ch) { j++; continue; } // doubled quote escapes itself
+        break;
+      }
+      const value = ch === '\'' ? '' : sql.slice(i + 1, j).split(ch + ch).join(ch);
+      tokens.push({ type: ch === '\'' ? 'literal' : 'identifier', value, depth, start: escapes ? prefix.start : i, end: j + 1 });
+      i = j + 1;
+    } else if (ch === '$' && /^\$[A-Za-z_]*\$/.test(sql.slice(i))) {
+      const tag = sql.slice(i).match(/^\$[A-Za-z_]*\$/)![0];
+      const end = sql.indexOf(tag, i + tag.length);
+      if (end === -1) return { statements, error: 'Unterminated dollar-quoted string' };
+      tokens.push({ type: 'literal', value: '', depth, start: i, end: end + tag.length });
+      i = end + tag.length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      let j = i + 1;
+      while (j < sql.length && /[A-Za-z0-9_$]/.test(sql[j])) j++;
+      tokens.push({ type: 'word', value: sql.slice(i, j).toUpperCase(), depth, start: i, end: j });
+      i = j;
+    } else if (/[0-9]/.test(ch)) {
+      let j = i + 1;
+      while (j < sql.length && /[0-9.eE]/.test(sql[j])) j++;
+      tokens.push({ type: 'literal', value: sql.slice(i, j), depth, start: i, end: j });
+      i = j;
+    } else if (ch === ';') {
+      endStatement(i);
+      depth = 0;
+      i++;
+    } else {
+      if (ch === '(') {
+        tokens.push({ type: 'symbol', value: ch, depth, start: i, end: i + 1 });
+        depth++;
+      } else if (ch === ')') {
+        depth = Math.max(0, depth - 1);
+        tokens.push({ type: 'symbol', value: ch, depth, start: i, end: i + 1 });
+      } else {
+        tokens.push({ type: 'symbol', value: ch, depth, start: i, end: i + 1 });
+      }
+      i++;
+    }
+  }
+  endStatement(sql.length);
+  return { statements };
+}
+
+function classifyTokens(tokens: SqlToken[]): { kind: SqlStatementKind; keyword: string } {
+  const words = tokens.filter(token => token.type === 'word');
+  const first = words[0]?.value;
+  const second = words[1]?.value;
+  // Only a keyword or an opening parenthesis can start a statement we understand
+  if (!first || tokens[0].type !== 'word' && tokens[0].value !== '(') {
+    return { kind: 'other', keyword: first || tokens[0]?.value || '' };
+  }
+
+  const fileAccess = findFileAccess(tokens);
+  if (fileAccess) return { kind: 'file', keyword: fileAccess };
+  if (FILE_KEYWORDS.has(first)) return { kind: 'file', keyword: first };
+  if (first === 'FORCE' && second === 'INSTALL') return { kind: 'file', keyword: 'FORCE INSTALL' };
+
+  if (first === 'ALTER' && second === 'SESSION') return { kind: 'session', keyword: 'ALTER SESSION' };
+  if (first === 'SET' && (second === 'GLOBAL' || second === 'PERSIST' || second === 'PERSIST_ONLY')) return { kind: 'other', keyword: `SET ${second}` };
+  if (first === 'BEGIN' && second && !TRANSACTION_WORDS.has(second)) return { kind: 'other', keyword: 'BEGIN' };
+
+  // EXPLAIN only plans the statement, except EXPLAIN ANALYZE which runs it
+  if (first === 'EXPLAIN') {
+    const analyzes = tokens.some(token => token.type === 'word' && token.value === 'ANALYZE');
+    const innerStart = tokens.findIndex((token, index) => index > 0 && token.type === 'word' && isStatementKeyword(token.value));
+    if (analyzes && innerStart !== -1) {
+      const inner = classifyTokens(tokens.slice(innerStart));
+      return inner.kind === 'read' ? { kind: 'read', keyword: 'EXPLAIN' } : { kind: inner.kind, keyword: `EXPLAIN ANALYZE ${inner.keyword}` };
+    }
+    return { kind: 'read', keyword: 'EXPLAIN' };
+  }
+
+  if (DML_KEYWORDS.has(first)) return { kind: 'dml', keyword: first };
+  if (DDL_KEYWORDS.has(first)) return { kind: 'ddl', keyword: first };
+  if (DCL_KEYWORDS.has(first)) return { kind: 'dcl', keyword: first };
+  if (SESSION_KEYWORDS.has(first)) return { kind: 'session', keyword: first };
+  if (!READ_KEYWORDS.has(first)) return { kind: 'other', keyword: first };
+
+  return classifyRead(tokens, first);
+}
+
+/**
+ * The file-reading function or file path a statement uses, if any: read_csv(...), glob(...),
+ * FROM 'data.csv' (DuckDB scans a file named as a table), COPY ... FROM/TO 'path' or PROGRAM.
+ * Quoted names count, as DuckDB resolves "read_text"(...) like read_text(...).
+ */
+function findFileAccess(tokens: SqlToken[]): string | undefined {
+  const calls: string[] = []; // for each open parenthesis, the function it calls ('' for none)
+  const fromDepths = new Set<number>(); // nesting levels inside a FROM clause
+  const isCopy = tokens[0]?.value === 'COPY';
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+    const previous = tokens[index - 1];
+    const following = tokens[index + 1];
+    const name = token.type === 'word' || token.type === 'identifier' ? token.value.toUpperCase() : '';
+
+    if (token.type === 'symbol' && token.value === '(') {
+      calls.push(previous && (previous.type === 'word' || previous.type === 'identifier') ? previous.value.toUpperCase() : '');
+      continue;
+    }
+    if (token.type === 'symbol' && token.value === ')') {
+      fromDepths.delete(token.depth + 1);
+      calls.pop();
+      continue;
+    }
+
+    if (name && following?.type === 'symbol' && following.value === '(' && (name.startsWith('READ_') || FILE_FUNCTIONS.has(name))) {
+      return name;
+    }
+    if (token.type === 'word') {
+      if (isCopy && (name === 'FROM' || name === 'TO') && token.depth === 0 && (following?.type === 'literal' || following?.value === 'PROGRAM')) {
+        return `COPY ${name} ${following.type === 'literal' ? 'file' : 'PROGRAM'}`;
+      }
+      if ((name === 'FROM' || name === 'JOIN') && !FROM_ARGUMENT_FUNCTIONS.has(calls[calls.length - 1] ?? '')) {
+        fromDepths.add(token.depth);
+      } else if (FROM_CLAUSE_END.has(name)) {
+        fromDepths.delete(token.depth);
+      }
+    }
+    const startsTableReference = previous && (previous.type === 'word' && (previous.value === 'FROM' || previous.value === 'JOIN') || previous.value === ',');
+    if (token.type === 'literal' && startsTableReference && fromDepths.has(token.depth)) {
+      return `FROM file`;
+    }
+  }
+  return undefined;
+}
+
+function isStatementKeyword(word: string): boolean {
+  return word !== 'EXPLAIN' && word !== 'ANALYZE' && [READ_KEYWORDS, DML_KEYWORDS, DDL_KEYWORDS, DCL_KEYWORDS].some(keywords => keywords.has(word));
+}
+
+// A read can still write: data-modifying CTEs, SELECT ... INTO and side-effecting functions
+function classifyRead(tokens: SqlToken[], keyword: string): { kind: SqlStatementKind; keyword: string } {
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+    if (token.type !== 'word') continue;
+    const previous = tokens[index - 1];
+    const following = tokens[index + 1];
+
+    const startsNestedStatement = previous?.type === 'symbol' && (previous.value === '(' || previous.value === ')' && token.depth === 0);
+    if (NESTED_WRITE_KEYWORDS.has(token.value) && startsNestedStatement) {
+      return { kind: 'dml', keyword: token.value };
+    }
+    if (token.value === 'INTO' && token.depth === 0) {
+      return { kind: 'ddl', keyword: 'SELECT INTO' };
+    }
+    if (SIDE_EFFECT_FUNCTIONS.has(token.value) && following?.value === '(') {
+      return { kind: 'other', keyword: token.value };
+    }
+  }
+  return { kind: 'read', keyword };
+}
+
+/**
+ * Classify every statement in a SQL payload
+ */
+export function classifySql(sql: string): SqlClassification {
+  const { statements, error } = lexSql(sql);
+  return {
+    error,
+    statements: statements.map(statement => {
+      const { kind, keyword } = classifyTokens(statement.tokens);
+      return { sql: statement.text, kind, keyword, mutating: kind !== 'read' && kind !== 'session' };
+    })
+  };
+}
+
+export function isSqlPolicyMode(value: unknown): value is SqlPolicyMode {
+  return typeof value === 'string' && (sqlPolicyModes as readonly string[]).includes(value);
+}
+
+// Whitespace and a trailing semicolon do not make a statement different
+function normalizeSql(sql: string): string {
+  return sql.trim().replace(/;\s*$/, '').trim();
+}
+
+export class SqlGuardService {
+  private confirmations = new Map<string, PendingSqlConfirmation>();
+
+  getDefaultPolicy(): SqlPolicyMode {
+    const configured = process.env.SQL_POLICY_DEFAULT;
+    return isSqlPolicyMode(configured) ? configured : 'confirm';
+  }
+
+  /**
+   * Policy set for an agent in the Agent Hub configuration, if any
+   */
+  getAgentPolicy(agentConfig: any, agentType: string): SqlPolicyMode | undefined {
+    const agentConfigs = agentConfig?.configData?.agentConfigs || [];
+    const foundAgentConfig = agentConfigs.find((agent: any) => agent.type === agentType && agent.enabled);
+    return isSqlPolicyMode(foundAgentConfig?.sqlPolicy) ? foundAgentConfig.sqlPolicy : undefined;
+  }
+
+  async getConnectionPolicy(connectionId: string): Promise<SqlPolicyMode | undefined> {
+    const connection = await storage.getDataConnection(connectionId);
+    const policy = connection?.options?.sqlPolicy;
+    return isSqlPolicyMode(policy) ? policy : undefined;
+  }
+
+  /**
+   * The strictest of the connection, agent and user policies; the default applies when none is set
+   */
+  resolvePolicy(...policies: (SqlPolicyMode | undefined)[]): SqlPolicyMode {
+    const configured = policies.filter(isSqlPolicyMode);
+    if (configured.length === 0) {
+      return this.getDefaultPolicy();
+    }
+    return configured.reduce((strictest, policy) => POLICY_STRICTNESS[policy] > POLICY_STRICTNESS[strictest] ? policy : strictest);
+  }
+
+  /**
+   * Decide whether a SQL payload may run on a connection
+   */
+  async check(sql: string, request: SqlGuardRequest): Promise<SqlGuardDecision> {
+    const policy = this.resolvePolicy(await this.getConnectionPolicy(request.connectionId), request.agentPolicy, request.userPolicy);
+    const { statements, error } = classifySql(sql || '');
+
+    if (error) {
+      return { allowed: false, policy, reason: `The SQL could not be parsed safely: ${error}.` };
+    }
+    if (statements.length === 0) {
+      return { allowed: false, policy, reason: 'No SQL statement found.' };
+    }
+    if (statements.length > 1) {
+      return {
+        allowed: false,
+        policy,
+        reason: `Multi-statement payloads are not allowed (found ${statements.length} statements). Run one statement at a time.`
+      };
+    }
+
+    return this.decide(statements[0], sql, policy, request);
+  }
+
+  /**
+   * Decide whether a fixed sequence of statements a tool built (CREATE TABLE, then COPY INTO)
+   * may run. Each must be a single statement; one confirmation covers the whole plan.
+   */
+  async checkPlan(sqls: string[], request: SqlGuardRequest): Promise<SqlGuardDecision> {
+    const policy = this.resolvePolicy(await this.getConnectionPolicy(request.connectionId), request.agentPolicy, request.userPolicy);
+    const planned: ClassifiedStatement[] = [];
+    for (const sql of sqls) {
+      const { statements, error } = classifySql(sql);
+      if (error || statements.length !== 1) {
+        return { allowed: false, policy, reason: `The plan must consist of single statements: ${error || sql}` };
+      }
+      planned.push(statements[0]);
+    }
+
+    const fileAccess = planned.find(statement => statement.kind === 'file');
+    if (fileAccess) {
+      return this.decide(fileAccess, fileAccess.sql, policy, request);
+    }
+
+    const mutating = planned.filter(statement => statement.mutating);
+    const plan: ClassifiedStatement = {
+      sql: planned.map(statement => statement.sql).join(';\n'),
+      kind: (mutating[0] || planned[0])?.kind || 'read',
+      keyword: mutating.map(statement => statement.keyword).join(' + '),
+      mutating: mutating.length > 0
+    };
+    return this.decide(plan, plan.sql, policy, request);
+  }
+
+  getConfirmation(id: string): PendingSqlConfirmation | undefined {
+    this.evictExpired();
+    return this.confirmations.get(id);
+  }
+
+  /**
+   * Record the user's answer; an approved confirmation can be redeemed once by the tool that asked for it
+   */
+  resolveConfirmation(id: string, approved: boolean): PendingSqlConfirmation | undefined {
+    const confirmation = this.getConfirmation(id);
+    if (!confirmation || confirmation.status !== 'pending') {
+      return undefined;
+    }
+    confirmation.status = approved ? 'approved' : 'rejected';
+    return confirmation;
+  }
+
+  private decide(statement: ClassifiedStatement, sql: string, policy: SqlPolicyMode, request: SqlGuardRequest): SqlGuardDecision {
+    // No policy or confirmation lets SQL read the server's files (keys, the app database, other users' uploads)
+    if (statement.kind === 'file') {
+      return {
+        allowed: false,
+        policy,
+        statement,
+        reason: `${statement.keyword} statements are blocked: SQL may not read or write files on the database server. Query tables instead.`
+      };
+    }
+    if (!statement.mutating || policy === 'allow') {
+      return { allowed: true, policy, statement };
+    }
+    if (policy === 'read_only') {
+      return {
+        allowed: false,
+        policy,
+        statement,
+        reason: request.userPolicy === 'read_only'
+          ? `${statement.keyword} statements are blocked: your role only allows read-only queries.`
+          : `${statement.keyword} statements are blocked: this connection only allows read-only queries.`
+      };
+    }
+
+    if (request.confirmed) {
+      return { allowed: true, policy, statement };
+    }
+    if (request.confirmationId) {
+      return this.redeemConfirmation(request.confirmationId, sql, request.connectionId, policy, statement);
+    }
+
+    const confirmation = this.requestConfirmation(statement, request);
+    return {
+      allowed: false,
+      policy,
+      statement,
+      confirmation,
+      reason: `${statement.keyword} statements change data and need explicit confirmation before they run.`
+    };
+  }
+
+  private requestConfirmation(statement: ClassifiedStatement, request: SqlGuardRequest): PendingSqlConfirmation {
+    this.evictExpired();
+    const confirmation: PendingSqlConfirmation = {
+      id: crypto.randomUUID(),
+      sql: statement.sql,
+      keyword: statement.keyword,
+      kind: statement.kind,
+      connectionId: request.connectionId,
+      sessionId: request.sessionId,
+      tool: request.tool,
+      status: 'pending',
+      createdAt: new Date()
+    };
+    this.confirmations.set(confirmation.id, confirmation);
+    return confirmation;
+  }
+
+  private redeemConfirmation(
+    id: string,
+    sql: string,
+    connectionId: string,
+    policy: SqlPolicyMode,
+    statement: ClassifiedStatement
+  ): SqlGuardDecision {
+    const confirmation = this.getConfirmation(id);
+    if (!confirmation) {
+      return { allowed: false, policy, statement, reason: 'The confirmation has expired or was already used. Ask for a new one.' };
+    }
+    if (confirmation.status !== 'approved') {
+      return {
+        allowed: false,
+        policy,
+        statement,
+        reason: confirmation.status === 'rejected' ? 'The user rejected this statement.' : 'The user has not approved this statement yet.'
+      };
+    }
+    if (confirmation.connectionId !== connectionId || normalizeSql(confirmation.sql) !== normalizeSql(sql)) {
+      return { allowed: false, policy, statement, reason: 'The SQL does not match the statement the user approved.' };
+    }
+
+    this.confirmations.delete(id);
+    return { allowed: true, policy, statement };
+  }
+
+  private evictExpired(): void {
+    const cutoff = Date.now() - CONFIRMATION_TTL_MS;
+    for (const [id, confirmation] of this.confirmations) {
+      if (confirmation.createdAt.getTime() < cutoff) {
+        this.confirmations.delete(id);
+      }
+    }
+  }
+}
+
+// Global SQL guard instance
+export const sqlGuardService = new SqlGuardService();
@@ -0,0 +1,102 @@
+/**
+ * Tool Results
+ * The envelope agent tools return: a status, a headline and summary, the data itself and
+ * suggested next steps. The client renders it from message metadata; the model gets a compact
+ * plain-text serialization instead.
+ */
+
+import type { ToolResult, ToolResultData, ToolResultStatus } from '@shared/schema';
+
+// What a tool's execute returns; the runtime adds the tool name
+export type ToolOutput = Omit<ToolResult, 'tool'>;
+
+const MODEL_ROWS = 20; // result rows shown to the model
+const MODEL_VALUE_CHARS = 200;
+const STORED_ROWS = 100; // result rows kept in message metadata
+
+export function toolOutput(status: ToolResultStatus, title: string, summary: string, extras: Partial<Pick<ToolOutput, 'data' | 'warnings' | 'nextActions'>> = {}): ToolOutput {
+  return { status, title, summary, ...extras };
+}
+
+export function toolError(title: string, summary: string, nextActions?: string[]): ToolOutput {
+  return toolOutput('error', title, summary, nextActions ? { nextActions } : {});
+}
+
+export const NOT_CONNECTED = toolError('Not connected', 'Not connected to a data source. Please connect first.', ['Connect with connect_to_data_source']);
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.length > MODEL_VALUE_CHARS ? `${text.slice(0, MODEL_VALUE_CHARS)}…` : text;
+}
+
+function serializeData(data: ToolResultData): string[] {
+  switch (data.kind) {
+    case 'fields':
+      return data.fields.map(field => `${field.label}: ${field.value}`);
+    case 'list':
+      return data.items.map(item => `- ${item.name}${item.detail ? ` (${item.detail})` : ''}`);
+    case 'tables':
+      return data.tables.map(table => {
+        const details = [
+          table.kind === 'VIEW' ? 'view' : undefined,
+          table.rowCount != null ? `${table.rowCount} rows` : undefined
+        ].filter(Boolean).join(', ');
+        return `- ${table.name}${details ? ` (${details})` : ''}${table.comment ? `: ${table.comment}` : ''}`;
+      });
+    case 'columns':
+      return [
+        ...(data.comment ? [`comment: ${data.comment}`] : []),
+        ...(data.rowCount != null ? [`rows: ${data.rowCount}`] : []),
+        ...data.columns.map(column => `- ${column.name} ${column.type}${column.nullable ? '' : ' NOT NULL'}${column.comment ? `: ${column.comment}` : ''}`)
+      ];
+    case 'sql':
+      return ['sql:', data.sql];
+    case 'rows': {
+      const shown = data.rows.slice(0, MODEL_ROWS);
+      return [
+        `sql: ${data.sql}`,
+        `rows: ${data.rowCount}${data.truncated ? ' (truncated)' : ''}${shown.length < data.rowCount ? `, first ${shown.length} below` : ''}`,
+        data.columns.join(' | '),
+        ...shown.map(row => data.columns.map(column => formatValue(row[column])).join(' | '))
+      ];
+    }
+    case 'text':
+      return [data.text];
+    case 'visualization':
+      return [`visualization: ${data.visualizationId} (${data.chartType})`];
+  }
+}
+
+/**
+ * Plain text for the model: status and summary first, then the data, warnings and next steps
+ */
+export function serializeToolResult(result: ToolResult): string {
+  return [
+    `[${result.status}] ${result.title}: ${result.summary}`,
+    ...(result.data ? serializeData(result.data) : []),
+    ...(result.warnings || []).map(warning => `warning: ${warning}`),
+    ...(result.nextActions?.length ? [`next: ${result.nextActions.join('; ')}`] : [])
+  ].join('\n');
+}
+
+/**
+ * Copy for message metadata, with result rows capped so stored messages stay small
+ */
+export function toStoredToolResult(result: ToolResult): ToolResult {
+  if (result.data?.kind !== 'rows' || result.data.rows.length <= STORED_ROWS) {
+    return result;
+  }
+  return { ...result, data: { ...result.data, rows: result.data.rows.slice(0, STORED_ROWS) } };
+}
+
+/**
+ * Message text for a reply that is only a tool result; the card under it shows the data
+ */
+export function describeToolResult(result: ToolResult): string {
+  return result.title === result.summary ? result.summary : `${result.title}: ${result.summary}`;
+}
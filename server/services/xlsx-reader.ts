@@ -0,0 +1,209 @@
+/**
+ * XLSX Reader
+ * Reads the first worksheet of an Excel workbook into records, using its first row as
+ * column names. The workbook is unzipped in memory, so callers bound the file size.
+ * Shared and inline strings, booleans and numbers are read as such; numbers in cells
+ * with a date format become ISO dates.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+export interface XlsxSheet {
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_HEADER = 0x02014b50;
+const STORED = 0;
+const DEFLATE = 8;
+const EXCEL_EPOCH_OFFSET_DAYS = 25569; // days from 1900-01-00 (with Excel's leap year bug) to 1970-01-01
+const MS_PER_DAY = 86400000;
+// Built-in number formats that show dates or times
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// Entries of a zip archive by name, inflated on demand
+function readZip(buffer: Buffer): Map<string, () => Buffer> {
+  let end = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 65557); offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('The file is not a valid XLSX workbook');
+  }
+
+  const entries = new Map<string, () => Buffer>();
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_HEADER) {
+      throw new Error('The XLSX workbook is corrupt');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    entries.set(name, () => {
+      // The local header repeats the name and may carry a different extra field
+      const start = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      const data = buffer.subarray(start, start + compressedSize);
+      if (method === STORED) return data;
+      if (method === DEFLATE) return inflateRawSync(data);
+      throw new Error(`Unsupported compression in XLSX entry ${name}`);
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+  });
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+// Text of a string item: plain <t> or the runs of rich text, without phonetic hints
+function itemText(xml: string): string {
+  return Array.from(xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g))
+    .map(match => decodeXml(match[1]))
+    .join('');
+}
+
+function readSharedStrings(xml: string | undefined): string[] {
+  return xml ? Array.from(xml.matchAll(/<si>([\s\S]*?)<\/si>/g)).map(match => itemText(match[1])) : [];
+}
+
+// Which cell styles (by index) show a date
+function readDateStyles(xml: string | undefined): boolean[] {
+  if (!xml) return [];
+  const customDateFormats = new Set<number>();
+  for (const match of xml.matchAll(/<numFmt\b([^>]*)\/?>/g)) {
+    const id = Number(attribute(match[1], 'numFmtId'));
+    // Date codes use d, m, y or h outside of quoted text and [colour] sections
+    const code = (attribute(match[1], 'formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]/g, '');
+    if (/[dmyh]/i.test(code)) customDateFormats.add(id);
+  }
+  const cellXfs = xml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] || '';
+  return Array.from(cellXfs.matchAll(/<xf\b([^>]*)\/?>/g)).map(match => {
+    const id = Number(attribute(match[1], 'numFmtId') || 0);
+    return DATE_FORMAT_IDS.has(id) || customDateFormats.has(id);
+  });
+}
+
+// Path of the first worksheet, from the workbook and its relationships
+function firstSheetPath(entries: Map<string, () => Buffer>): string {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const workbook = entries.get('xl/workbook.xml')?.().toString('utf8');
+  const rels = entries.get('xl/_rels/workbook.xml.rels')?.().toString('utf8');
+  const sheet = workbook?.match(/<sheet\b([^>]*)\/?>/)?.[1];
+  const id = sheet ? attribute(sheet, 'r:id') : undefined;
+  if (!id || !rels) return fallback;
+
+  for (const match of rels.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    if (attribute(match[1], 'Id') === id) {
+      const target = attribute(match[1], 'Target') || '';
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  return fallback;
+}
+
+// "C12" -> 2
+function columnIndex(reference: string | undefined, fallback: number): number {
+  const letters = reference?.match(/^[A-Z]+/)?.[0];
+  if (!letters) return fallback;
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function toDate(serial: number): string {
+  const iso = new Date(Math.round((serial - EXCEL_EPOCH_OFFSET_DAYS) * MS_PER_DAY)).toISOString();
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso.replace('.000Z', 'Z');
+}
+
+function readCell(attributes: string, body: string, sharedStrings: string[], dateStyles: boolean[]): unknown {
+  const type = attribute(attributes, 't');
+  if (type === 'inlineStr') {
+    return itemText(body.match(/<is>([\s\S]*?)<\/is>/)?.[1] || '');
+  }
+  const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+  if (value === undefined) return null;
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(value)] ?? null;
+    case 'b':
+      return value === '1';
+    case 'str':
+      return decodeXml(value);
+    case 'e':
+      return null; // #N/A, #DIV/0! and other errors
+    default: {
+      const number = Number(value);
+      if (!Number.isFinite(number)) return decodeXml(value);
+      return dateStyles[Number(attribute(attributes, 's') || 0)] ? toDate(number) : number;
+    }
+  }
+}
+
+// Column names from the header row; blanks and repeats get a numbered name
+function toColumnNames(header: unknown[]): string[] {
+  const used = new Set<string>();
+  return header.map((value, index) => {
+    const base = value === null || value === undefined || String(value).trim() === '' ? `column_${index + 1}` : String(value).trim();
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix++) {
+      name = `${base}_${suffix}`;
+    }
+    used.add(name);
+    return name;
+  });
+}
+
+export function readXlsx(buffer: Buffer): XlsxSheet {
+  const entries = readZip(buffer);
+  const sheet = entries.get(firstSheetPath(entries))?.().toString('utf8');
+  if (!sheet) {
+    throw new Error('The XLSX workbook has no worksheet');
+  }
+  const sharedStrings = readSharedStrings(entries.get('xl/sharedStrings.xml')?.().toString('utf8'));
+  const dateStyles = readDateStyles(entries.get('xl/styles.xml')?.().toString('utf8'));
+
+  const grid: unknown[][] = [];
+  for (const row of sheet.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const values: unknown[] = [];
+    for (const cell of (row[1] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      values[columnIndex(attribute(cell[1], 'r'), values.length)] = readCell(cell[1], cell[2] || '', sharedStrings, dateStyles);
+    }
+    if (values.some(value => value !== null && value !== undefined)) {
+      grid.push(values);
+    }
+  }
+  if (grid.length === 0) {
+    throw new Error('The first worksheet is empty');
+  }
+
+  const width = grid.reduce((widest, values) => Math.max(widest, values.length), 0);
+  const columns = toColumnNames(Array.from({ length: width }, (_, index) => grid[0][index]));
+  const rows = grid.slice(1).map(values =>
+    Object.fromEntries(columns.map((column, index) => [column, values[index] ?? null]))
+  );
+  return { columns, rows };
+}
@@ -0,0 +1,166 @@
+/**
+ * Zip Writer
+ * Writes a zip archive to a stream one entry at a time, deflating as it goes, so a large
+ * entry (an XLSX worksheet) is never held in memory. Each entry's checksum and sizes follow
+ * its data in a data descriptor; archives over 4 GB (zip64) are not supported.
+ */
+
+import { once } from 'events';
+import type { Writable } from 'stream';
+import { createDeflateRaw, crc32 } from 'zlib';
+
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number; // of the local header
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const VERSION = 20;
+const FLAGS = 0x0808; // sizes in a data descriptor, UTF-8 names
+const DEFLATE = 8;
+const MAX_SIZE = 0xffffffff;
+
+/**
+ * Write to a stream, waiting while it is full; rejects once the stream is closed (a download cancelled)
+ */
+export async function writeOutput(out: Writable, chunk: string | Buffer): Promise<void> {
+  if (out.destroyed) {
+    throw new Error('Output stream closed');
+  }
+  if (out.write(chunk)) {
+    return;
+  }
+  await new Promise<void>((resolve, reject) => {
+    const drained = () => {
+      out.off('close', closed);
+      resolve();
+    };
+    const closed = () => {
+      out.off('drain', drained);
+      reject(new Error('Output stream closed'));
+    };
+    out.once('drain', drained);
+    out.once('close', closed);
+  });
+}
+
+// Modification time in MS-DOS format
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+export class ZipWriter {
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private modified = dosDateTime(new Date());
+
+  constructor(private out: Writable) {}
+
+  /**
+   * Add an entry from a string or from chunks produced while it is written
+   */
+  async addFile(name: string, content: string | Iterable<string> | AsyncIterable<string>): Promise<void> {
+    const entry: ZipEntry = { name: Buffer.from(name, 'utf8'), crc: 0, compressedSize: 0, size: 0, offset: this.offset };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_HEADER, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(FLAGS, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(this.modified.time, 10);
+    header.writeUInt16LE(this.modified.date, 12);
+    // checksum and sizes (14-25) stay zero; the data descriptor carries them
+    header.writeUInt16LE(entry.name.length, 26);
+    await this.write(Buffer.concat([header, entry.name]));
+
+    const deflate = createDeflateRaw();
+    const feed = async () => {
+      try {
+        for await (const text of typeof content === 'string' ? [content] : content) {
+          const data = Buffer.from(text, 'utf8');
+          entry.crc = crc32(data, entry.crc);
+          entry.size += data.length;
+          if (!deflate.write(data)) {
+            await once(deflate, 'drain');
+          }
+        }
+        deflate.end();
+      } catch (error) {
+        deflate.destroy(error as Error);
+        throw error;
+      }
+    };
+    const drain = async () => {
+      try {
+        for await (const chunk of deflate) {
+          entry.compressedSize += chunk.length;
+          await this.write(chunk);
+        }
+      } catch (error) {
+        deflate.destroy(error as Error);
+        throw error;
+      }
+    };
+    await Promise.all([feed(), drain()]);
+
+    if (entry.size > MAX_SIZE || entry.compressedSize > MAX_SIZE) {
+      throw new Error(`Zip entry ${name} is larger than 4 GB`);
+    }
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.write(descriptor);
+    this.entries.push(entry);
+  }
+
+  /**
+   * Write the central directory; the stream itself is left open
+   */
+  async finish(): Promise<void> {
+    const start = this.offset;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_HEADER, 0);
+      header.writeUInt16LE(VERSION, 4); // made by
+      header.writeUInt16LE(VERSION, 6); // needed to extract
+      header.writeUInt16LE(FLAGS, 8);
+      header.writeUInt16LE(DEFLATE, 10);
+      header.writeUInt16LE(this.modified.time, 12);
+      header.writeUInt16LE(this.modified.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      // extra field, comment, disk number and attributes (30-41) stay zero
+      header.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([header, entry.name]));
+    }
+
+    if (this.offset > MAX_SIZE) {
+      throw new Error('Zip archive is larger than 4 GB');
+    }
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    await this.write(end);
+  }
+
+  private async write(chunk: Buffer): Promise<void> {
+    await writeOutput(this.out, chunk);
+    this.offset += chunk.length;
+  }
+}
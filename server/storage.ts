@@ -1,19 +1,58 @@
 import { 
-  users, chatSessions, chatMessages, visualizations, pinnedVisualizations, snowflakeConnections, agentConfigurations,
-  type User, type InsertUser, type ChatSession, type InsertChatSession,
+  users, userIdentities, authSessions, chatSessions, chatMessages, visualizations, pinnedVisualizations, dataConnections, agentConfigurations,
+  queryJobs, queryJobRows, agentContexts, agentQueryResults, catalogScopes, catalogTables, catalogColumns, uploadedFiles,
+  type User, type InsertUser, type UserIdentity, type ChatSession, type InsertChatSession,
   type ChatMessage, type InsertChatMessage, type Visualization, type InsertVisualization,
   type PinnedVisualization, type InsertPinnedVisualization,
-  type SnowflakeConnection, type InsertSnowflakeConnection,
-  type AgentConfiguration, type InsertAgentConfiguration
+  type DataConnection, type InsertDataConnection,
+  type QueryJob, type InsertQueryJob, type QueryJobStatus, type AgentQueryResult,
+  type AgentConfiguration, type InsertAgentConfiguration,
+  type CatalogScope, type CatalogScopeKind, type CatalogTable, type CatalogColumn, type CatalogForeignKey,
+  type UploadedFile, type InsertUploadedFile
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, inArray } from "drizzle-orm";
+import { secretsService } from "./services/secrets";
+import { eq, desc, and, or, inArray, asc, gte, lt, max, like, sql, type SQL } from "drizzle-orm";
+
+// Rows per INSERT when saving query job results, well under SQLite's bound parameter limit
+const QUERY_JOB_ROW_BATCH = 500;
+// Catalog rows carry up to ten values each
+const CATALOG_ROW_BATCH = 200;
+
+// A condition on one column of stored query job rows; text is matched case-insensitively
+export interface QueryJobRowFilter {
+  column: string;
+  operator: 'contains' | '=' | '>' | '>=' | '<' | '<=';
+  value: string | number;
+}
+
+// One value of a stored query job row; callers pass columns of the job only
+function jsonColumn(column: string): SQL<unknown> {
+  return sql`json_extract(${queryJobRows.data}, ${`$."${column}"`})`;
+}
+
+export interface QueryJobRowQuery {
+  offset: number;
+  limit: number;
+  sort?: { column: string; direction: 'asc' | 'desc' };
+  filters?: QueryJobRowFilter[];
+}
 
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, updates: Partial<User>): Promise<User>;
+  getUserIdentity(provider: string, subject: string): Promise<UserIdentity | undefined>;
+  createUserIdentity(provider: string, subject: string, userId: string): Promise<UserIdentity>;
+
+  // Login session methods (express-session store)
+  getAuthSession(sid: string): Promise<{ data: unknown; expiresAt: Date } | undefined>;
+  saveAuthSession(sid: string, data: unknown, expiresAt: Date): Promise<void>;
+  deleteAuthSession(sid: string): Promise<void>;
+  deleteExpiredAuthSessions(): Promise<void>;
 
   // Chat session methods
   getChatSession(id: string): Promise<ChatSession | undefined>;
@@ -24,6 +63,7 @@ export interface IStorage {
   deleteChatSessions(ids: string[]): Promise<void>;
 
   // Chat message methods
+  getMessage(id: string): Promise<ChatMessage | undefined>;
   getMessagesBySession(sessionId: string): Promise<ChatMessage[]>;
   createMessage(message: InsertChatMessage): Promise<ChatMessage>;
 
@@ -42,14 +82,57 @@ export interface IStorage {
   // Published visualizations
   getPublishedVisualizations(): Promise<Visualization[]>;
 
-  // Snowflake connection methods
-  getSnowflakeConnections(userId: string): Promise<SnowflakeConnection[]>;
-  getSnowflakeConnection(id: string): Promise<SnowflakeConnection | undefined>;
-  getDefaultSnowflakeConnection(userId: string): Promise<SnowflakeConnection | undefined>;
-  createSnowflakeConnection(connection: InsertSnowflakeConnection): Promise<SnowflakeConnection>;
-  updateSnowflakeConnection(id: string, updates: Partial<SnowflakeConnection>): Promise<SnowflakeConnection>;
-  deleteSnowflakeConnection(id: string): Promise<void>;
-  setDefaultSnowflakeConnection(userId: string, connectionId: string): Promise<void>;
+  // Data source connection methods
+  getDataConnections(userId: string): Promise<DataConnection[]>;
+  getDataConnection(id: string): Promise<DataConnection | undefined>;
+  getDefaultDataConnection(userId: string): Promise<DataConnection | undefined>;
+  createDataConnection(connection: InsertDataConnection): Promise<DataConnection>;
+  updateDataConnection(id: string, updates: Partial<DataConnection>): Promise<DataConnection>;
+  deleteDataConnection(id: string): Promise<void>;
+  setDefaultDataConnection(userId: string, connectionId: string): Promise<void>;
+
+  // Query job methods
+  getQueryJob(id: string): Promise<QueryJob | undefined>;
+  getQueryJobsBySession(sessionId: string): Promise<QueryJob[]>;
+  getQueryJobsByStatus(status: QueryJobStatus): Promise<QueryJob[]>;
+  createQueryJob(job: InsertQueryJob): Promise<QueryJob>;
+  updateQueryJob(id: string, updates: Partial<QueryJob>): Promise<QueryJob>;
+  saveQueryJobRows(jobId: string, rows: Record<string, any>[]): Promise<void>;
+  getQueryJobRows(jobId: string, offset: number, limit: number): Promise<Record<string, any>[]>;
+  findQueryJobRows(jobId: string, query: QueryJobRowQuery): Promise<{ rows: Record<string, any>[]; matchingRows: number }>;
+  getQueryJobColumnValues(jobId: string, column: string): Promise<unknown[]>;
+
+  // Agent context methods
+  getAgentContextState(sessionId: string): Promise<Record<string, unknown> | undefined>;
+  saveAgentContextState(sessionId: string, state: Record<string, unknown>): Promise<void>;
+  getAgentQueryResult(sessionId: string): Promise<AgentQueryResult | undefined>;
+  saveAgentQueryResult(result: Omit<AgentQueryResult, 'createdAt'>): Promise<void>;
+  deleteAgentQueryResult(sessionId: string): Promise<void>;
+  deleteExpiredAgentQueryResults(): Promise<void>;
+
+  // Metadata catalog methods
+  getCatalogScope(connectionId: string, kind: CatalogScopeKind, databaseName?: string, schemaName?: string): Promise<CatalogScope | undefined>;
+  saveCatalogNames(connectionId: string, kind: 'databases' | 'schemas', databaseName: string, names: string[]): Promise<void>;
+  saveCatalogSchema(
+    connectionId: string,
+    databaseName: string,
+    schemaName: string,
+    tables: Omit<CatalogTable, 'connectionId' | 'databaseName' | 'schemaName'>[],
+    columns: Omit<CatalogColumn, 'connectionId' | 'databaseName' | 'schemaName'>[],
+    foreignKeys: CatalogForeignKey[]
+  ): Promise<void>;
+  getCatalogTables(connectionId: string, databaseName: string, schemaName: string): Promise<CatalogTable[]>;
+  getCatalogColumns(connectionId: string, databaseName: string, schemaName: string, tableName?: string): Promise<CatalogColumn[]>;
+  searchCatalog(connectionId: string, query: string, limit: number): Promise<{ tables: CatalogTable[]; columns: CatalogColumn[] }>;
+  expireCatalogScopes(connectionId: string, databaseName?: string, schemaName?: string): Promise<void>;
+  deleteCatalog(connectionId: string): Promise<void>;
+  deleteStaleCatalogs(refreshedBefore: Date): Promise<void>;
+
+  // Uploaded file methods
+  getUploadedFiles(userId: string): Promise<UploadedFile[]>;
+  getUploadedFile(id: string): Promise<UploadedFile | undefined>;
+  createUploadedFile(file: InsertUploadedFile): Promise<UploadedFile>;
+  deleteUploadedFile(id: string): Promise<void>;
 
   // Agent configuration methods
   getAgentConfiguration(userId: string): Promise<AgentConfiguration | null>;
@@ -67,6 +150,10 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(asc(users.username));
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -75,6 +162,51 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUser(id: string, updates: Partial<User>): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set(updates)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async getUserIdentity(provider: string, subject: string): Promise<UserIdentity | undefined> {
+    const [identity] = await db
+      .select()
+      .from(userIdentities)
+      .where(and(eq(userIdentities.provider, provider), eq(userIdentities.subject, subject)));
+    return identity || undefined;
+  }
+
+  async createUserIdentity(provider: string, subject: string, userId: string): Promise<UserIdentity> {
+    const [identity] = await db
+      .insert(userIdentities)
+      .values({ provider, subject, userId })
+      .returning();
+    return identity;
+  }
+
+  async getAuthSession(sid: string): Promise<{ data: unknown; expiresAt: Date } | undefined> {
+    const [session] = await db.select().from(authSessions).where(eq(authSessions.sid, sid));
+    return session || undefined;
+  }
+
+  async saveAuthSession(sid: string, data: unknown, expiresAt: Date): Promise<void> {
+    await db
+      .insert(authSessions)
+      .values({ sid, data, expiresAt })
+      .onConflictDoUpdate({ target: authSessions.sid, set: { data, expiresAt } });
+  }
+
+  async deleteAuthSession(sid: string): Promise<void> {
+    await db.delete(authSessions).where(eq(authSessions.sid, sid));
+  }
+
+  async deleteExpiredAuthSessions(): Promise<void> {
+    await db.delete(authSessions).where(lt(authSessions.expiresAt, new Date()));
+  }
+
   async getChatSession(id: string): Promise<ChatSession | undefined> {
     const [session] = await db.select().from(chatSessions).where(eq(chatSessions.id, id));
     return session || undefined;
@@ -106,6 +238,8 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteChatSession(id: string): Promise<void> {
+    await this.deleteQueryJobsForSessions([id]);
+    await this.deleteAgentStateForSessions([id]);
     // Delete messages first (cascade)
     await db.delete(chatMessages).where(eq(chatMessages.sessionId, id));
     // Then delete the session
@@ -113,6 +247,8 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteChatSessions(ids: string[]): Promise<void> {
+    await this.deleteQueryJobsForSessions(ids);
+    await this.deleteAgentStateForSessions(ids);
     // Delete messages for all sessions
     await db.delete(chatMessages).where(
       inArray(chatMessages.sessionId, ids)
@@ -123,6 +259,14 @@ export class DatabaseStorage implements IStorage {
     );
   }
 
+  async getMessage(id: string): Promise<ChatMessage | undefined> {
+    const [message] = await db
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.id, id));
+    return message || undefined;
+  }
+
   async getMessagesBySession(sessionId: string): Promise<ChatMessage[]> {
     return await db
       .select()
@@ -215,68 +359,377 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(visualizations.createdAt));
   }
 
-  // Snowflake connection methods
-  async getSnowflakeConnections(userId: string): Promise<SnowflakeConnection[]> {
+  // Data source connection methods
+  async getDataConnections(userId: string): Promise<DataConnection[]> {
     return await db
       .select()
-      .from(snowflakeConnections)
-      .where(eq(snowflakeConnections.userId, userId))
-      .orderBy(desc(snowflakeConnections.isDefault), desc(snowflakeConnections.updatedAt));
+      .from(dataConnections)
+      .where(eq(dataConnections.userId, userId))
+      .orderBy(desc(dataConnections.isDefault), desc(dataConnections.updatedAt));
   }
 
-  async getSnowflakeConnection(id: string): Promise<SnowflakeConnection | undefined> {
+  async getDataConnection(id: string): Promise<DataConnection | undefined> {
     const [connection] = await db
       .select()
-      .from(snowflakeConnections)
-      .where(eq(snowflakeConnections.id, id));
+      .from(dataConnections)
+      .where(eq(dataConnections.id, id));
     return connection || undefined;
   }
 
-  async getDefaultSnowflakeConnection(userId: string): Promise<SnowflakeConnection | undefined> {
+  async getDefaultDataConnection(userId: string): Promise<DataConnection | undefined> {
     const [connection] = await db
       .select()
-      .from(snowflakeConnections)
+      .from(dataConnections)
       .where(and(
-        eq(snowflakeConnections.userId, userId),
-        eq(snowflakeConnections.isDefault, true),
-        eq(snowflakeConnections.isActive, true)
+        eq(dataConnections.userId, userId),
+        eq(dataConnections.isDefault, true),
+        eq(dataConnections.isActive, true)
       ));
     return connection || undefined;
   }
 
-  async createSnowflakeConnection(connection: InsertSnowflakeConnection): Promise<SnowflakeConnection> {
+  // Passwords and tokens are encrypted before they are written
+  async createDataConnection(connection: InsertDataConnection): Promise<DataConnection> {
     const [newConnection] = await db
-      .insert(snowflakeConnections)
-      .values(connection)
+      .insert(dataConnections)
+      .values({ ...connection, password: connection.password ? secretsService.seal(connection.password) : connection.password })
       .returning();
     return newConnection;
   }
 
-  async updateSnowflakeConnection(id: string, updates: Partial<SnowflakeConnection>): Promise<SnowflakeConnection> {
+  async updateDataConnection(id: string, updates: Partial<DataConnection>): Promise<DataConnection> {
     const [updated] = await db
-      .update(snowflakeConnections)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(snowflakeConnections.id, id))
+      .update(dataConnections)
+      .set({ ...updates, ...(updates.password && { password: secretsService.seal(updates.password) }), updatedAt: new Date() })
+      .where(eq(dataConnections.id, id))
       .returning();
     return updated;
   }
 
-  async deleteSnowflakeConnection(id: string): Promise<void> {
-    await db.delete(snowflakeConnections).where(eq(snowflakeConnections.id, id));
+  async deleteDataConnection(id: string): Promise<void> {
+    await this.deleteCatalog(id);
+    await db.delete(dataConnections).where(eq(dataConnections.id, id));
   }
 
-  async setDefaultSnowflakeConnection(userId: string, connectionId: string): Promise<void> {
+  async setDefaultDataConnection(userId: string, connectionId: string): Promise<void> {
     // First, unset all other default connections for this user
     await db
-      .update(snowflakeConnections)
+      .update(dataConnections)
       .set({ isDefault: false })
-      .where(eq(snowflakeConnections.userId, userId));
+      .where(eq(dataConnections.userId, userId));
 
     // Then set the specified connection as default
     await db
-      .update(snowflakeConnections)
+      .update(dataConnections)
       .set({ isDefault: true })
-      .where(eq(snowflakeConnections.id, connectionId));
+      .where(eq(dataConnections.id, connectionId));
+  }
+
+  // Query job methods
+  async getQueryJob(id: string): Promise<QueryJob | undefined> {
+    const [job] = await db
+      .select()
+      .from(queryJobs)
+      .where(eq(queryJobs.id, id));
+    return job || undefined;
+  }
+
+  async getQueryJobsBySession(sessionId: string): Promise<QueryJob[]> {
+    return await db
+      .select()
+      .from(queryJobs)
+      .where(eq(queryJobs.sessionId, sessionId))
+      .orderBy(desc(queryJobs.createdAt));
+  }
+
+  async getQueryJobsByStatus(status: QueryJobStatus): Promise<QueryJob[]> {
+    return await db
+      .select()
+      .from(queryJobs)
+      .where(eq(queryJobs.status, status));
+  }
+
+  async createQueryJob(job: InsertQueryJob): Promise<QueryJob> {
+    const [newJob] = await db
+      .insert(queryJobs)
+      .values(job)
+      .returning();
+    return newJob;
+  }
+
+  async updateQueryJob(id: string, updates: Partial<QueryJob>): Promise<QueryJob> {
+    const [updated] = await db
+      .update(queryJobs)
+      .set(updates)
+      .where(eq(queryJobs.id, id))
+      .returning();
+    return updated;
+  }
+
+  async saveQueryJobRows(jobId: string, rows: Record<string, any>[]): Promise<void> {
+    await db.delete(queryJobRows).where(eq(queryJobRows.jobId, jobId));
+    for (let start = 0; start < rows.length; start += QUERY_JOB_ROW_BATCH) {
+      await db.insert(queryJobRows).values(
+        rows.slice(start, start + QUERY_JOB_ROW_BATCH).map((data, index) => ({ jobId, rowIndex: start + index, data }))
+      );
+    }
+  }
+
+  async getQueryJobRows(jobId: string, offset: number, limit: number): Promise<Record<string, any>[]> {
+    const rows = await db
+      .select({ data: queryJobRows.data })
+      .from(queryJobRows)
+      .where(and(eq(queryJobRows.jobId, jobId), gte(queryJobRows.rowIndex, offset)))
+      .orderBy(asc(queryJobRows.rowIndex))
+      .limit(limit);
+    return rows.map(row => row.data as Record<string, any>);
+  }
+
+  async findQueryJobRows(jobId: string, query: QueryJobRowQuery): Promise<{ rows: Record<string, any>[]; matchingRows: number }> {
+    const where = and(eq(queryJobRows.jobId, jobId), ...(query.filters || []).map(filter => {
+      const value = jsonColumn(filter.column);
+      return filter.operator === 'contains'
+        ? sql`CAST(${value} AS TEXT) LIKE ${`%${filter.value}%`}`
+        : sql`${value} ${sql.raw(filter.operator)} ${filter.value}`;
+    }));
+    const order = query.sort
+      ? [query.sort.direction === 'desc' ? desc(jsonColumn(query.sort.column)) : asc(jsonColumn(query.sort.column)), asc(queryJobRows.rowIndex)]
+      : [asc(queryJobRows.rowIndex)];
+
+    const rows = await db
+      .select({ data: queryJobRows.data })
+      .from(queryJobRows)
+      .where(where)
+      .orderBy(...order)
+      .limit(query.limit)
+      .offset(query.offset);
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(queryJobRows)
+      .where(where);
+    return { rows: rows.map(row => row.data as Record<string, any>), matchingRows: count };
+  }
+
+  async getQueryJobColumnValues(jobId: string, column: string): Promise<unknown[]> {
+    const rows = await db
+      .select({ value: jsonColumn(column) })
+      .from(queryJobRows)
+      .where(eq(queryJobRows.jobId, jobId));
+    return rows.map(row => row.value);
+  }
+
+  private async deleteQueryJobsForSessions(sessionIds: string[]): Promise<void> {
+    const jobs = await db
+      .select({ id: queryJobs.id })
+      .from(queryJobs)
+      .where(inArray(queryJobs.sessionId, sessionIds));
+    if (jobs.length === 0) return;
+
+    const jobIds = jobs.map(job => job.id);
+    await db.delete(queryJobRows).where(inArray(queryJobRows.jobId, jobIds));
+    await db.delete(queryJobs).where(inArray(queryJobs.id, jobIds));
+  }
+
+  // Agent context methods
+  async getAgentContextState(sessionId: string): Promise<Record<string, unknown> | undefined> {
+    const [record] = await db
+      .select({ state: agentContexts.state })
+      .from(agentContexts)
+      .where(eq(agentContexts.sessionId, sessionId));
+    return record?.state;
+  }
+
+  async saveAgentContextState(sessionId: string, state: Record<string, unknown>): Promise<void> {
+    const updatedAt = new Date();
+    await db
+      .insert(agentContexts)
+      .values({ sessionId, state, updatedAt })
+      .onConflictDoUpdate({ target: agentContexts.sessionId, set: { state, updatedAt } });
+  }
+
+  // Expired results are treated as gone even before the prune removes them
+  async getAgentQueryResult(sessionId: string): Promise<AgentQueryResult | undefined> {
+    const [result] = await db
+      .select()
+      .from(agentQueryResults)
+      .where(and(eq(agentQueryResults.sessionId, sessionId), gte(agentQueryResults.expiresAt, new Date())));
+    return result || undefined;
+  }
+
+  async saveAgentQueryResult(result: Omit<AgentQueryResult, 'createdAt'>): Promise<void> {
+    const { sessionId, ...values } = result;
+    const createdAt = new Date();
+    await db
+      .insert(agentQueryResults)
+      .values({ ...result, createdAt })
+      .onConflictDoUpdate({ target: agentQueryResults.sessionId, set: { ...values, createdAt } });
+  }
+
+  async deleteAgentQueryResult(sessionId: string): Promise<void> {
+    await db.delete(agentQueryResults).where(eq(agentQueryResults.sessionId, sessionId));
+  }
+
+  async deleteExpiredAgentQueryResults(): Promise<void> {
+    await db.delete(agentQueryResults).where(lt(agentQueryResults.expiresAt, new Date()));
+  }
+
+  private async deleteAgentStateForSessions(sessionIds: string[]): Promise<void> {
+    await db.delete(agentQueryResults).where(inArray(agentQueryResults.sessionId, sessionIds));
+    await db.delete(agentContexts).where(inArray(agentContexts.sessionId, sessionIds));
+  }
+
+  // Metadata catalog methods
+  async getCatalogScope(connectionId: string, kind: CatalogScopeKind, databaseName = '', schemaName = ''): Promise<CatalogScope | undefined> {
+    const [scope] = await db
+      .select()
+      .from(catalogScopes)
+      .where(and(
+        eq(catalogScopes.connectionId, connectionId),
+        eq(catalogScopes.kind, kind),
+        eq(catalogScopes.databaseName, databaseName),
+        eq(catalogScopes.schemaName, schemaName)
+      ));
+    return scope || undefined;
+  }
+
+  async saveCatalogNames(connectionId: string, kind: 'databases' | 'schemas', databaseName: string, names: string[]): Promise<void> {
+    const refreshedAt = new Date();
+    await db
+      .insert(catalogScopes)
+      .values({ connectionId, kind, databaseName, schemaName: '', names, refreshedAt })
+      .onConflictDoUpdate({
+        target: [catalogScopes.connectionId, catalogScopes.kind, catalogScopes.databaseName, catalogScopes.schemaName],
+        set: { names, refreshedAt }
+      });
+  }
+
+  // A schema's tables and columns are replaced together, so readers never see half a refresh
+  async saveCatalogSchema(
+    connectionId: string,
+    databaseName: string,
+    schemaName: string,
+    tables: Omit<CatalogTable, 'connectionId' | 'databaseName' | 'schemaName'>[],
+    columns: Omit<CatalogColumn, 'connectionId' | 'databaseName' | 'schemaName'>[],
+    foreignKeys: CatalogForeignKey[]
+  ): Promise<void> {
+    const scope = { connectionId, databaseName, schemaName };
+    const refreshedAt = new Date();
+    db.transaction(tx => {
+      tx.delete(catalogColumns).where(and(
+        eq(catalogColumns.connectionId, connectionId),
+        eq(catalogColumns.databaseName, databaseName),
+        eq(catalogColumns.schemaName, schemaName)
+      )).run();
+      tx.delete(catalogTables).where(and(
+        eq(catalogTables.connectionId, connectionId),
+        eq(catalogTables.databaseName, databaseName),
+        eq(catalogTables.schemaName, schemaName)
+      )).run();
+      for (let start = 0; start < tables.length; start += CATALOG_ROW_BATCH) {
+        tx.insert(catalogTables).values(tables.slice(start, start + CATALOG_ROW_BATCH).map(table => ({ ...scope, ...table }))).run();
+      }
+      for (let start = 0; start < columns.length; start += CATALOG_ROW_BATCH) {
+        tx.insert(catalogColumns).values(columns.slice(start, start + CATALOG_ROW_BATCH).map(column => ({ ...scope, ...column }))).run();
+      }
+      tx.insert(catalogScopes)
+        .values({ ...scope, kind: 'tables', foreignKeys, refreshedAt })
+        .onConflictDoUpdate({
+          target: [catalogScopes.connectionId, catalogScopes.kind, catalogScopes.databaseName, catalogScopes.schemaName],
+          set: { foreignKeys, refreshedAt }
+        })
+        .run();
+    });
+  }
+
+  async getCatalogTables(connectionId: string, databaseName: string, schemaName: string): Promise<CatalogTable[]> {
+    return await db
+      .select()
+      .from(catalogTables)
+      .where(and(
+        eq(catalogTables.connectionId, connectionId),
+        eq(catalogTables.databaseName, databaseName),
+        eq(catalogTables.schemaName, schemaName)
+      ))
+      .orderBy(asc(catalogTables.name));
+  }
+
+  async getCatalogColumns(connectionId: string, databaseName: string, schemaName: string, tableName?: string): Promise<CatalogColumn[]> {
+    return await db
+      .select()
+      .from(catalogColumns)
+      .where(and(
+        eq(catalogColumns.connectionId, connectionId),
+        eq(catalogColumns.databaseName, databaseName),
+        eq(catalogColumns.schemaName, schemaName),
+        tableName === undefined ? undefined : eq(catalogColumns.tableName, tableName)
+      ))
+      .orderBy(asc(catalogColumns.tableName), asc(catalogColumns.position));
+  }
+
+  // Tables (by name or comment) and columns matching anywhere in the cached schemas
+  async searchCatalog(connectionId: string, query: string, limit: number): Promise<{ tables: CatalogTable[]; columns: CatalogColumn[] }> {
+    const pattern = `%${query}%`;
+    const [tables, columns] = await Promise.all([
+      db.select().from(catalogTables)
+        .where(and(eq(catalogTables.connectionId, connectionId), or(like(catalogTables.name, pattern), like(catalogTables.comment, pattern))))
+        .orderBy(asc(catalogTables.name))
+        .limit(limit),
+      db.select().from(catalogColumns)
+        .where(and(eq(catalogColumns.connectionId, connectionId), like(catalogColumns.name, pattern)))
+        .orderBy(asc(catalogColumns.name), asc(catalogColumns.tableName))
+        .limit(limit)
+    ]);
+    return { tables, columns };
+  }
+
+  // Marks listings stale; their rows stay until the next read replaces them
+  async expireCatalogScopes(connectionId: string, databaseName?: string, schemaName?: string): Promise<void> {
+    await db.update(catalogScopes).set({ refreshedAt: new Date(0) }).where(and(
+      eq(catalogScopes.connectionId, connectionId),
+      databaseName === undefined ? undefined : eq(catalogScopes.databaseName, databaseName),
+      schemaName === undefined ? undefined : eq(catalogScopes.schemaName, schemaName)
+    ));
+  }
+
+  async deleteCatalog(connectionId: string): Promise<void> {
+    await db.delete(catalogColumns).where(eq(catalogColumns.connectionId, connectionId));
+    await db.delete(catalogTables).where(eq(catalogTables.connectionId, connectionId));
+    await db.delete(catalogScopes).where(eq(catalogScopes.connectionId, connectionId));
+  }
+
+  // Connections whose metadata has not been refreshed since the cutoff, such as closed agent connections
+  async deleteStaleCatalogs(refreshedBefore: Date): Promise<void> {
+    const stale = await db
+      .select({ connectionId: catalogScopes.connectionId })
+      .from(catalogScopes)
+      .groupBy(catalogScopes.connectionId)
+      .having(lt(max(catalogScopes.refreshedAt), refreshedBefore));
+    for (const { connectionId } of stale) {
+      await this.deleteCatalog(connectionId);
+    }
+  }
+
+  // Uploaded file methods
+  async getUploadedFiles(userId: string): Promise<UploadedFile[]> {
+    return await db
+      .select()
+      .from(uploadedFiles)
+      .where(eq(uploadedFiles.userId, userId))
+      .orderBy(desc(uploadedFiles.createdAt));
+  }
+
+  async getUploadedFile(id: string): Promise<UploadedFile | undefined> {
+    const [file] = await db.select().from(uploadedFiles).where(eq(uploadedFiles.id, id));
+    return file || undefined;
+  }
+
+  async createUploadedFile(file: InsertUploadedFile): Promise<UploadedFile> {
+    const [newFile] = await db.insert(uploadedFiles).values(file).returning();
+    return newFile;
+  }
+
+  async deleteUploadedFile(id: string): Promise<void> {
+    await db.delete(uploadedFiles).where(eq(uploadedFiles.id, id));
   }
 
   async getAgentConfiguration(userId: string): Promise<AgentConfiguration | null> {
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { sqliteTable, text, integer, blob } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, blob, primaryKey } from "drizzle-orm/sqlite-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -7,12 +7,27 @@ import { relations } from "drizzle-orm";
 export const users = sqliteTable("users", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password").notNull(), // scrypt hash; empty for users who only sign in with OIDC
   displayName: text("display_name"),
   role: text("role").default("analyst"),
   createdAt: integer("created_at", { mode: 'timestamp' }).$defaultFn(() => new Date()),
 });
 
+// Links an external sign-in (OIDC issuer + subject) to a local user
+export const userIdentities = sqliteTable("user_identities", {
+  provider: text("provider").notNull(), // OIDC issuer URL
+  subject: text("subject").notNull(), // `sub` claim
+  userId: text("user_id").notNull(),
+  createdAt: integer("created_at", { mode: 'timestamp' }).$defaultFn(() => new Date()),
+}, (table) => [primaryKey({ columns: [table.provider, table.subject] })]);
+
+// Server-side login sessions (express-session store)
+export const authSessions = sqliteTable("auth_sessions", {
+  sid: text("sid").primaryKey(),
+  data: text("data", { mode: 'json' }).notNull(),
+  expiresAt: integer("expires_at", { mode: 'timestamp' }).notNull(),
+});
+
 export const chatSessions = sqliteTable("chat_sessions", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
   userId: text("user_id"),
@@ -53,19 +68,23 @@ export const pinnedVisualizations = sqliteTable("pinned_visualizations", {
   pinnedAt: integer("pinned_at", { mode: 'timestamp' }).$defaultFn(() => new Date()),
 });
 
-// Snowflake connections
-export const snowflakeConnections = sqliteTable("snowflake_connections", {
+// Data source connections (Snowflake, PostgreSQL, MySQL, DuckDB)
+export const dataConnections = sqliteTable("data_connections", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
   userId: text("user_id").notNull(),
   name: text("name").notNull(), // User-friendly name for the connection
-  account: text("account").notNull(), // Snowflake account identifier
-  username: text("username").notNull(),
-  password: text("password"), // Encrypted password or PAT token
+  type: text("type").notNull().default("snowflake"), // snowflake, postgres, mysql, duckdb
+  account: text("account"), // Snowflake account identifier
+  host: text("host"), // PostgreSQL / MySQL server
+  port: integer("port"),
+  username: text("username"),
+  password: text("password"), // Encrypted password, PAT token, or JSON key-pair / OAuth credentials
   database: text("database"),
   schema: text("schema"),
   warehouse: text("warehouse"),
   role: text("role"),
-  authenticator: text("authenticator").default("SNOWFLAKE"), // SNOWFLAKE, OAUTH, PAT
+  authenticator: text("authenticator").default("SNOWFLAKE"), // SNOWFLAKE, SNOWFLAKE_JWT, OAUTH, OAUTH_TOKEN_EXCHANGE, PAT, LOCAL (DuckDB stand-in)
+  options: text("options", { mode: 'json' }).$type<DataConnectionOptions>(), // Driver specific settings
   isDefault: integer("is_default", { mode: 'boolean' }).default(false),
   isActive: integer("is_active", { mode: 'boolean' }).default(true),
   lastConnected: integer("last_connected", { mode: 'timestamp' }),
@@ -73,6 +92,101 @@ export const snowflakeConnections = sqliteTable("snowflake_connections", {
   updatedAt: integer("updated_at", { mode: 'timestamp' }).$defaultFn(() => new Date()),
 });
 
+// Long-running queries; status and results outlive the socket that started them
+export const queryJobs = sqliteTable("query_jobs", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  connectionId: text("connection_id").notNull(), // Stored connection or an agent-opened one
+  sessionId: text("session_id"),
+  userId: text("user_id"),
+  sqlText: text("sql_text").notNull(), // Statement as executed, after row limits were applied
+  status: text("status").notNull().default("running"), // running, succeeded, failed, cancelled
+  queryId: text("query_id"), // Snowflake query id of an asynchronous execution
+  columns: text("columns", { mode: 'json' }).$type<string[]>(),
+  rowCount: integer("row_count"),
+  totalRows: integer("total_rows"), // Rows the query produced when more than rowCount were kept
+  truncated: integer("truncated", { mode: 'boolean' }).default(false),
+  warnings: text("warnings", { mode: 'json' }).$type<string[]>(),
+  error: text("error"),
+  executionTime: integer("execution_time"), // ms
+  createdAt: integer("created_at", { mode: 'timestamp' }).$defaultFn(() => new Date()),
+  finishedAt: integer("finished_at", { mode: 'timestamp' }),
+});
+
+// Result rows of a finished query job, one row per record so pages can be read with LIMIT/OFFSET
+export const queryJobRows = sqliteTable("query_job_rows", {
+  jobId: text("job_id").notNull(),
+  rowIndex: integer("row_index").notNull(),
+  data: text("data", { mode: 'json' }).notNull(),
+}, (table) => [primaryKey({ columns: [table.jobId, table.rowIndex] })]);
+
+// Agent state of a chat session (connection, database, schema, stage, YAML, history), restored after a restart
+export const agentContexts = sqliteTable("agent_contexts", {
+  sessionId: text("session_id").primaryKey(),
+  state: text("state", { mode: 'json' }).$type<Record<string, unknown>>().notNull(),
+  updatedAt: integer("updated_at", { mode: 'timestamp' }).$defaultFn(() => new Date()),
+});
+
+// Rows of the last query an agent ran in a session, kept apart from the context and dropped once expired
+export const agentQueryResults = sqliteTable("agent_query_results", {
+  sessionId: text("session_id").primaryKey(),
+  columns: text("columns", { mode: 'json' }).$type<string[]>(),
+  rows: text("rows", { mode: 'json' }).$type<Record<string, any>[]>().notNull(),
+  rowCount: integer("row_count").notNull(), // rows the query returned; more than stored when capped
+  expiresAt: integer("expires_at", { mode: 'timestamp' }).notNull(),
+  createdAt: integer("created_at", { mode: 'timestamp' }).$defaultFn(() => new Date()),
+});
+
+// Metadata catalog: what a connection's databases contain, reused until it goes stale.
+// A scope records when one listing was read: the databases, the schemas of a database, or the tables of a schema
+export const catalogScopes = sqliteTable("catalog_scopes", {
+  connectionId: text("connection_id").notNull(), // Stored connection or an agent-opened one
+  kind: text("kind").notNull(), // databases, schemas, tables
+  databaseName: text("database_name").notNull().default(""),
+  schemaName: text("schema_name").notNull().default(""),
+  names: text("names", { mode: 'json' }).$type<string[]>(), // the databases or schemas listed
+  foreignKeys: text("foreign_keys", { mode: 'json' }).$type<CatalogForeignKey[]>(), // declared between the schema's tables
+  refreshedAt: integer("refreshed_at", { mode: 'timestamp' }).notNull(),
+}, (table) => [primaryKey({ columns: [table.connectionId, table.kind, table.databaseName, table.schemaName] })]);
+
+export const catalogTables = sqliteTable("catalog_tables", {
+  connectionId: text("connection_id").notNull(),
+  databaseName: text("database_name").notNull(),
+  schemaName: text("schema_name").notNull(),
+  name: text("name").notNull(),
+  kind: text("kind").$type<'TABLE' | 'VIEW'>().notNull(),
+  comment: text("comment"),
+  rowCount: integer("row_count"), // as reported by the source; an estimate on some engines
+  bytes: integer("bytes"),
+  lastAltered: integer("last_altered", { mode: 'timestamp' }),
+}, (table) => [primaryKey({ columns: [table.connectionId, table.databaseName, table.schemaName, table.name] })]);
+
+export const catalogColumns = sqliteTable("catalog_columns", {
+  connectionId: text("connection_id").notNull(),
+  databaseName: text("database_name").notNull(),
+  schemaName: text("schema_name").notNull(),
+  tableName: text("table_name").notNull(),
+  name: text("name").notNull(),
+  position: integer("position").notNull(),
+  type: text("type").notNull(),
+  nullable: integer("nullable", { mode: 'boolean' }).notNull(),
+  defaultValue: text("default_value"),
+  comment: text("comment"),
+}, (table) => [primaryKey({ columns: [table.connectionId, table.databaseName, table.schemaName, table.tableName, table.name] })]);
+
+// Files a user uploaded, each loaded as a table of the user's uploads DuckDB database
+export const uploadedFiles = sqliteTable("uploaded_files", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  userId: text("user_id").notNull(),
+  connectionId: text("connection_id").notNull(), // The user's "Uploaded files" DuckDB connection
+  fileName: text("file_name").notNull(),
+  format: text("format").notNull(), // csv, json, xlsx, parquet
+  tableName: text("table_name").notNull(),
+  columns: text("columns", { mode: 'json' }).$type<UploadedFileColumn[]>().notNull(), // as inferred on load
+  rowCount: integer("row_count").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  createdAt: integer("created_at", { mode: 'timestamp' }).$defaultFn(() => new Date()),
+});
+
 // Agent configurations
 export const agentConfigurations = sqliteTable("agent_configurations", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
@@ -84,19 +198,30 @@ export const agentConfigurations = sqliteTable("agent_configurations", {
 
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
+  identities: many(userIdentities),
   chatSessions: many(chatSessions),
   visualizations: many(visualizations),
   pinnedVisualizations: many(pinnedVisualizations),
-  snowflakeConnections: many(snowflakeConnections),
+  dataConnections: many(dataConnections),
   agentConfigurations: many(agentConfigurations),
 }));
 
+export const userIdentitiesRelations = relations(userIdentities, ({ one }) => ({
+  user: one(users, {
+    fields: [userIdentities.userId],
+    references: [users.id],
+  }),
+}));
+
 export const chatSessionsRelations = relations(chatSessions, ({ one, many }) => ({
   user: one(users, {
     fields: [chatSessions.userId],
     references: [users.id],
   }),
   messages: many(chatMessages),
+  queryJobs: many(queryJobs),
+  agentContext: one(agentContexts),
+  agentQueryResult: one(agentQueryResults),
 }));
 
 export const chatMessagesRelations = relations(chatMessages, ({ one, many }) => ({
@@ -130,13 +255,34 @@ export const pinnedVisualizationsRelations = relations(pinnedVisualizations, ({
   }),
 }));
 
-export const snowflakeConnectionsRelations = relations(snowflakeConnections, ({ one }) => ({
+export const dataConnectionsRelations = relations(dataConnections, ({ one }) => ({
   user: one(users, {
-    fields: [snowflakeConnections.userId],
+    fields: [dataConnections.userId],
     references: [users.id],
   }),
 }));
 
+export const queryJobsRelations = relations(queryJobs, ({ one }) => ({
+  session: one(chatSessions, {
+    fields: [queryJobs.sessionId],
+    references: [chatSessions.id],
+  }),
+}));
+
+export const agentContextsRelations = relations(agentContexts, ({ one }) => ({
+  session: one(chatSessions, {
+    fields: [agentContexts.sessionId],
+    references: [chatSessions.id],
+  }),
+}));
+
+export const agentQueryResultsRelations = relations(agentQueryResults, ({ one }) => ({
+  session: one(chatSessions, {
+    fields: [agentQueryResults.sessionId],
+    references: [chatSessions.id],
+  }),
+}));
+
 export const agentConfigurationsRelations = relations(agentConfigurations, ({ one }) => ({
   user: one(users, {
     fields: [agentConfigurations.userId],
@@ -186,6 +332,37 @@ export const insertPinnedVisualizationSchema = createInsertSchema(pinnedVisualiz
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, 'password'>;
+
+export type UserIdentity = typeof userIdentities.$inferSelect;
+
+// Roles in increasing order of access; each role has everything the roles before it have
+export const userRoles = ['viewer', 'analyst', 'modeler', 'admin'] as const;
+export type UserRole = typeof userRoles[number];
+
+// Lowest role granted each permission
+export const rolePermissions = {
+  'dashboards.view': 'viewer', // published dashboards
+  'chat.use': 'analyst', // chat sessions, agents and read-only SQL
+  'sql.write': 'admin', // statements other than reads, subject to the connection's policy
+  'models.edit': 'modeler', // semantic model YAML, stages and Agent Hub prompts
+  'connections.manage': 'admin', // create, test and delete data connections
+  'users.manage': 'admin',
+} as const satisfies Record<string, UserRole>;
+export type Permission = keyof typeof rolePermissions;
+
+// Unknown or missing roles get the least access
+export function normalizeRole(role: string | null | undefined): UserRole {
+  return userRoles.includes(role as UserRole) ? role as UserRole : 'viewer';
+}
+
+export function roleAtLeast(role: string | null | undefined, minimum: UserRole): boolean {
+  return userRoles.indexOf(normalizeRole(role)) >= userRoles.indexOf(minimum);
+}
+
+export function roleHasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return roleAtLeast(role, rolePermissions[permission]);
+}
 
 export type InsertChatSession = z.infer<typeof insertChatSessionSchema>;
 export type ChatSession = typeof chatSessions.$inferSelect;
@@ -199,10 +376,58 @@ export type Visualization = typeof visualizations.$inferSelect;
 export type InsertPinnedVisualization = z.infer<typeof insertPinnedVisualizationSchema>;
 export type PinnedVisualization = typeof pinnedVisualizations.$inferSelect;
 
-export const insertSnowflakeConnectionSchema = createInsertSchema(snowflakeConnections).pick({
+export const dataSourceTypes = ['snowflake', 'postgres', 'mysql', 'duckdb'] as const;
+export type DataSourceType = typeof dataSourceTypes[number];
+
+// What agents and the execute API may run: reads only, writes after user confirmation, or anything
+export const sqlPolicyModes = ['read_only', 'confirm', 'allow'] as const;
+export type SqlPolicyMode = typeof sqlPolicyModes[number];
+
+// Snowflake authenticators whose secrets (private key, OAuth client secret and tokens) are stored as one JSON bundle
+export const snowflakeBundleAuthenticators = ['SNOWFLAKE_JWT', 'OAUTH', 'OAUTH_TOKEN_EXCHANGE'] as const;
+
+// Non-secret settings for OAuth and token-exchange connections; secrets are stored encrypted with the password
+export interface SnowflakeOAuthOptions {
+  tokenEndpoint?: string; // defaults to the account's Snowflake OAuth endpoint for OAUTH
+  clientId?: string;
+  scope?: string;
+  audience?: string; // token exchange only
+}
+
+export interface DataConnectionOptions {
+  ssl?: boolean; // PostgreSQL / MySQL TLS
+  filePath?: string; // DuckDB database file, ':memory:' when empty
+  fileDirectory?: string; // only directory DuckDB SQL may read files from; set by the server for uploads, never by clients
+  sqlPolicy?: SqlPolicyMode;
+  maxRows?: number; // result rows kept per query
+  warnScanGb?: number; // estimated scan size that adds a warning
+  maxScanGb?: number; // estimated scan size that refuses the query
+  oauth?: SnowflakeOAuthOptions;
+}
+
+export const insertDataConnectionSchema = createInsertSchema(dataConnections, {
+  type: z.enum(dataSourceTypes),
+  options: z.object({
+    ssl: z.boolean().optional(),
+    filePath: z.string().optional(),
+    sqlPolicy: z.enum(sqlPolicyModes).optional(),
+    maxRows: z.number().int().positive().optional(),
+    warnScanGb: z.number().positive().optional(),
+    maxScanGb: z.number().positive().optional(),
+    oauth: z.object({
+      tokenEndpoint: z.string().url().optional(),
+      clientId: z.string().optional(),
+      scope: z.string().optional(),
+      audience: z.string().optional(),
+    }).optional(),
+  }).nullish(),
+}).pick({
   userId: true,
   name: true,
+  type: true,
   account: true,
+  host: true,
+  port: true,
   username: true,
   password: true,
   database: true,
@@ -210,12 +435,120 @@ export const insertSnowflakeConnectionSchema = createInsertSchema(snowflakeConne
   warehouse: true,
   role: true,
   authenticator: true,
+  options: true,
   isDefault: true,
   isActive: true,
 });
 
-export type InsertSnowflakeConnection = z.infer<typeof insertSnowflakeConnectionSchema>;
-export type SnowflakeConnection = typeof snowflakeConnections.$inferSelect;
+export type InsertDataConnection = z.infer<typeof insertDataConnectionSchema>;
+export type DataConnection = typeof dataConnections.$inferSelect;
+
+export const queryJobStatuses = ['running', 'succeeded', 'failed', 'cancelled'] as const;
+export type QueryJobStatus = typeof queryJobStatuses[number];
+
+export const insertQueryJobSchema = createInsertSchema(queryJobs).pick({
+  connectionId: true,
+  sessionId: true,
+  userId: true,
+  sqlText: true,
+  status: true,
+}).extend({
+  warnings: z.array(z.string()).optional(),
+});
+
+export type InsertQueryJob = z.infer<typeof insertQueryJobSchema>;
+export type QueryJob = typeof queryJobs.$inferSelect;
+
+export type AgentContextRecord = typeof agentContexts.$inferSelect;
+export type AgentQueryResult = typeof agentQueryResults.$inferSelect;
+
+export const catalogScopeKinds = ['databases', 'schemas', 'tables'] as const;
+export type CatalogScopeKind = typeof catalogScopeKinds[number];
+
+// Declared foreign key; columns and referencedColumns pair up by position
+export interface CatalogForeignKey {
+  name: string;
+  table: string;
+  columns: string[];
+  referencedSchema?: string;
+  referencedTable: string;
+  referencedColumns: string[];
+}
+
+export type CatalogScope = typeof catalogScopes.$inferSelect;
+export type CatalogTable = typeof catalogTables.$inferSelect;
+export type CatalogColumn = typeof catalogColumns.$inferSelect;
+
+export const uploadFormats = ['csv', 'json', 'xlsx', 'parquet'] as const;
+export type UploadFormat = typeof uploadFormats[number];
+
+export interface UploadedFileColumn {
+  name: string;
+  type: string; // DuckDB type
+}
+
+export const insertUploadedFileSchema = createInsertSchema(uploadedFiles, {
+  format: z.enum(uploadFormats),
+  columns: z.array(z.object({ name: z.string(), type: z.string() })),
+}).pick({
+  userId: true,
+  connectionId: true,
+  fileName: true,
+  format: true,
+  tableName: true,
+  columns: true,
+  rowCount: true,
+  sizeBytes: true,
+});
+
+export type InsertUploadedFile = z.infer<typeof insertUploadedFileSchema>;
+export type UploadedFile = typeof uploadedFiles.$inferSelect;
+
+// Agent tool results, kept in assistant message metadata (`toolResults`) and rendered by the client
+export const toolResultStatuses = ['success', 'info', 'warning', 'error', 'pending'] as const;
+export type ToolResultStatus = typeof toolResultStatuses[number];
+
+export type ToolResultData =
+  | { kind: 'fields'; fields: { label: string; value: string }[] }
+  | { kind: 'list'; items: { name: string; detail?: string }[] }
+  | {
+      kind: 'tables';
+      database?: string;
+      schema?: string;
+      tables: { name: string; kind: 'TABLE' | 'VIEW'; rowCount?: number; bytes?: number; comment?: string }[];
+    }
+  | {
+      kind: 'columns';
+      table: string;
+      tableKind?: 'TABLE' | 'VIEW';
+      comment?: string;
+      rowCount?: number;
+      lastAltered?: string;
+      columns: { name: string; type: string; nullable: boolean; comment?: string }[];
+    }
+  | { kind: 'sql'; sql: string }
+  | {
+      kind: 'rows';
+      sql: string;
+      columns: string[];
+      rows: Record<string, unknown>[];
+      rowCount: number; // rows the query returned; `rows` may hold fewer
+      truncated?: boolean; // the query returned more rows than it was allowed to
+      executionTime?: number;
+      jobId?: string; // query job holding every row, read through /api/messages/:id/results
+    }
+  | { kind: 'text'; format: 'markdown' | 'yaml'; text: string }
+  | { kind: 'visualization'; visualizationId: string; chartType: string };
+
+export interface ToolResult {
+  tool: string;
+  status: ToolResultStatus;
+  title: string; // short headline, e.g. "5 tables"
+  summary: string; // one or two sentences for people and the model
+  data?: ToolResultData;
+  warnings?: string[];
+  nextActions?: string[]; // suggested follow-ups in plain words
+}
 
 export const insertAgentConfigurationSchema = createInsertSchema(agentConfigurations).pick({
   userId: true,